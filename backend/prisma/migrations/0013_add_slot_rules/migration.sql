@@ -0,0 +1,68 @@
+-- Building slot rules: one row per permitted window for a move type on a given day.
+-- day_of_week: 0 = Sunday … 6 = Saturday. Times are minutes from midnight.
+CREATE TABLE "slot_rules" (
+  "id"            UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  "move_type"     "MoveType"  NOT NULL,
+  "day_of_week"   INTEGER     NOT NULL CHECK ("day_of_week" BETWEEN 0 AND 6),
+  "window_start"  INTEGER     NOT NULL,
+  "window_end"    INTEGER     NOT NULL,
+  "duration_mins" INTEGER,
+  "block_mins"    INTEGER,
+  "created_at"    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at"    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX "slot_rules_move_type_day_of_week_idx" ON "slot_rules"("move_type", "day_of_week");
+
+-- Seed with the rules previously hard-coded in moveTimeValidator.ts
+
+-- MOVE_IN / MOVE_OUT: Mon–Fri 9am–12pm, 1pm–4pm; Sat–Sun 12pm–3pm, 4pm–7pm
+INSERT INTO "slot_rules" ("move_type", "day_of_week", "window_start", "window_end")
+SELECT t.move_type::"MoveType", d.day, w.s, w.e
+FROM (VALUES ('MOVE_IN'), ('MOVE_OUT')) t(move_type),
+     generate_series(1, 5) d(day),
+     (VALUES (540, 720), (780, 960)) w(s, e);
+
+INSERT INTO "slot_rules" ("move_type", "day_of_week", "window_start", "window_end")
+SELECT t.move_type::"MoveType", d.day, w.s, w.e
+FROM (VALUES ('MOVE_IN'), ('MOVE_OUT')) t(move_type),
+     (VALUES (0), (6)) d(day),
+     (VALUES (720, 900), (960, 1140)) w(s, e);
+
+-- FURNISHED_MOVE: Mon–Fri 10am–12pm, 12pm–2pm, 2pm–4pm; Sat–Sun 12pm–2pm, 2pm–4pm
+INSERT INTO "slot_rules" ("move_type", "day_of_week", "window_start", "window_end")
+SELECT 'FURNISHED_MOVE', d.day, w.s, w.e
+FROM generate_series(1, 5) d(day),
+     (VALUES (600, 720), (720, 840), (840, 960)) w(s, e);
+
+INSERT INTO "slot_rules" ("move_type", "day_of_week", "window_start", "window_end")
+SELECT 'FURNISHED_MOVE', d.day, w.s, w.e
+FROM (VALUES (0), (6)) d(day),
+     (VALUES (720, 840), (840, 960)) w(s, e);
+
+-- DELIVERY (30-minute blocks) / RENO (1-hour slots): Mon–Fri 10am–4pm; Sat–Sun 8am–5pm
+INSERT INTO "slot_rules" ("move_type", "day_of_week", "window_start", "window_end", "duration_mins", "block_mins")
+SELECT t.move_type::"MoveType", d.day, 600, 960, t.mins, t.mins
+FROM (VALUES ('DELIVERY', 30), ('RENO', 60)) t(move_type, mins),
+     generate_series(1, 5) d(day);
+
+INSERT INTO "slot_rules" ("move_type", "day_of_week", "window_start", "window_end", "duration_mins", "block_mins")
+SELECT t.move_type::"MoveType", d.day, 480, 1020, t.mins, t.mins
+FROM (VALUES ('DELIVERY', 30), ('RENO', 60)) t(move_type, mins),
+     (VALUES (0), (6)) d(day);
+
+-- SUITCASE_MOVE (1-hour slots): Mon–Fri within 9am–12pm, 1pm–4pm; Sat–Sun within 8am–11am, 12pm–3pm, 4pm–7pm
+INSERT INTO "slot_rules" ("move_type", "day_of_week", "window_start", "window_end", "duration_mins", "block_mins")
+SELECT 'SUITCASE_MOVE', d.day, w.s, w.e, 60, 60
+FROM generate_series(1, 5) d(day),
+     (VALUES (540, 720), (780, 960)) w(s, e);
+
+INSERT INTO "slot_rules" ("move_type", "day_of_week", "window_start", "window_end", "duration_mins", "block_mins")
+SELECT 'SUITCASE_MOVE', d.day, w.s, w.e, 60, 60
+FROM (VALUES (0), (6)) d(day),
+     (VALUES (480, 660), (720, 900), (960, 1140)) w(s, e);
+
+-- OPEN_HOUSE: Sat–Sun only, fixed 2pm–5pm
+INSERT INTO "slot_rules" ("move_type", "day_of_week", "window_start", "window_end", "duration_mins", "block_mins")
+SELECT 'OPEN_HOUSE', d.day, 840, 1020, 180, 180
+FROM (VALUES (0), (6)) d(day);
@@ -0,0 +1,11 @@
+-- Building-specific closures (elevator maintenance, fire alarm testing, AGM …).
+-- Statutory holidays are computed in code and are not stored here.
+CREATE TABLE "blackout_dates" (
+  "id"         UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  "date"       DATE        NOT NULL,
+  "reason"     TEXT        NOT NULL,
+  "created_by" UUID,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX "blackout_dates_date_key" ON "blackout_dates"("date");
@@ -0,0 +1,41 @@
+-- Bookable building resources (freight elevators, loading bays, parking stalls).
+-- capacity = how many bookings may hold the resource at the same time.
+CREATE TYPE "ResourceType" AS ENUM ('ELEVATOR', 'LOADING_BAY', 'PARKING_STALL');
+
+CREATE TABLE "resources" (
+  "id"         UUID           PRIMARY KEY DEFAULT gen_random_uuid(),
+  "name"       TEXT           NOT NULL,
+  "type"       "ResourceType" NOT NULL,
+  "capacity"   INTEGER        NOT NULL DEFAULT 1 CHECK ("capacity" > 0),
+  "active"     BOOLEAN        NOT NULL DEFAULT TRUE,
+  "created_at" TIMESTAMPTZ    NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ    NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX "resources_type_active_idx" ON "resources"("type", "active");
+
+CREATE TABLE "booking_resources" (
+  "booking_id"  UUID NOT NULL REFERENCES "bookings"("id") ON DELETE CASCADE,
+  "resource_id" UUID NOT NULL REFERENCES "resources"("id") ON DELETE CASCADE,
+  PRIMARY KEY ("booking_id", "resource_id")
+);
+
+CREATE INDEX "booking_resources_resource_id_idx" ON "booking_resources"("resource_id");
+
+-- Seed the single elevator and loading bay the old boolean checks assumed,
+-- and reserve them for existing bookings that asked for them.
+INSERT INTO "resources" ("name", "type") VALUES
+  ('Freight Elevator', 'ELEVATOR'),
+  ('Loading Bay', 'LOADING_BAY');
+
+INSERT INTO "booking_resources" ("booking_id", "resource_id")
+SELECT b."id", r."id"
+FROM "bookings" b
+JOIN "resources" r ON r."type" = 'ELEVATOR'
+WHERE b."elevator_required";
+
+INSERT INTO "booking_resources" ("booking_id", "resource_id")
+SELECT b."id", r."id"
+FROM "bookings" b
+JOIN "resources" r ON r."type" = 'LOADING_BAY'
+WHERE b."loading_bay_required";
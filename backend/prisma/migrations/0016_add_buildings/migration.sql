@@ -0,0 +1,61 @@
+-- Buildings (strata towers) managed by the same company. Bookings, settings,
+-- recipients, slot rules, blackout dates, resources and payments are scoped per building.
+-- unit_prefix maps Invoice Ninja units such as "T4-1105" to a building.
+CREATE TABLE "buildings" (
+  "id"          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  "name"        TEXT        NOT NULL,
+  "slug"        TEXT        NOT NULL UNIQUE,
+  "logo_url"    TEXT,
+  "unit_prefix" TEXT        UNIQUE,
+  "created_at"  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at"  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The existing single-property install becomes the first building
+INSERT INTO "buildings" ("name", "slug", "logo_url", "unit_prefix") VALUES
+  ('Spectrum 4', 'spectrum-4', 'https://listmonk.spectrum4.ca/uploads/spectrum4-small.jpeg', 'T4');
+
+-- Users: null building = management-company staff with access to every building
+ALTER TABLE "users" ADD COLUMN "building_id" UUID REFERENCES "buildings"("id");
+UPDATE "users" SET "building_id" = (SELECT "id" FROM "buildings" WHERE "slug" = 'spectrum-4')
+WHERE "role" IN ('CONCIERGE', 'COUNCIL');
+
+ALTER TABLE "bookings" ADD COLUMN "building_id" UUID REFERENCES "buildings"("id");
+UPDATE "bookings" SET "building_id" = (SELECT "id" FROM "buildings" WHERE "slug" = 'spectrum-4');
+ALTER TABLE "bookings" ALTER COLUMN "building_id" SET NOT NULL;
+CREATE INDEX "bookings_building_id_start_datetime_idx" ON "bookings"("building_id", "start_datetime");
+
+ALTER TABLE "notification_recipients" ADD COLUMN "building_id" UUID REFERENCES "buildings"("id") ON DELETE CASCADE;
+UPDATE "notification_recipients" SET "building_id" = (SELECT "id" FROM "buildings" WHERE "slug" = 'spectrum-4');
+ALTER TABLE "notification_recipients" ALTER COLUMN "building_id" SET NOT NULL;
+CREATE INDEX "notification_recipients_building_id_idx" ON "notification_recipients"("building_id");
+
+-- One settings row per building; only the row the app was reading is kept
+ALTER TABLE "app_settings" ADD COLUMN "building_id" UUID REFERENCES "buildings"("id") ON DELETE CASCADE;
+UPDATE "app_settings" SET "building_id" = (SELECT "id" FROM "buildings" WHERE "slug" = 'spectrum-4')
+WHERE "id" = (SELECT "id" FROM "app_settings" ORDER BY "created_at" LIMIT 1);
+DELETE FROM "app_settings" WHERE "building_id" IS NULL;
+ALTER TABLE "app_settings" ALTER COLUMN "building_id" SET NOT NULL;
+CREATE UNIQUE INDEX "app_settings_building_id_key" ON "app_settings"("building_id");
+
+ALTER TABLE "slot_rules" ADD COLUMN "building_id" UUID REFERENCES "buildings"("id") ON DELETE CASCADE;
+UPDATE "slot_rules" SET "building_id" = (SELECT "id" FROM "buildings" WHERE "slug" = 'spectrum-4');
+ALTER TABLE "slot_rules" ALTER COLUMN "building_id" SET NOT NULL;
+DROP INDEX "slot_rules_move_type_day_of_week_idx";
+CREATE INDEX "slot_rules_building_id_move_type_day_of_week_idx" ON "slot_rules"("building_id", "move_type", "day_of_week");
+
+ALTER TABLE "blackout_dates" ADD COLUMN "building_id" UUID REFERENCES "buildings"("id") ON DELETE CASCADE;
+UPDATE "blackout_dates" SET "building_id" = (SELECT "id" FROM "buildings" WHERE "slug" = 'spectrum-4');
+ALTER TABLE "blackout_dates" ALTER COLUMN "building_id" SET NOT NULL;
+DROP INDEX "blackout_dates_date_key";
+CREATE UNIQUE INDEX "blackout_dates_building_id_date_key" ON "blackout_dates"("building_id", "date");
+
+ALTER TABLE "resources" ADD COLUMN "building_id" UUID REFERENCES "buildings"("id") ON DELETE CASCADE;
+UPDATE "resources" SET "building_id" = (SELECT "id" FROM "buildings" WHERE "slug" = 'spectrum-4');
+ALTER TABLE "resources" ALTER COLUMN "building_id" SET NOT NULL;
+DROP INDEX "resources_type_active_idx";
+CREATE INDEX "resources_building_id_type_active_idx" ON "resources"("building_id", "type", "active");
+
+ALTER TABLE "payments_ledger" ADD COLUMN "building_id" UUID REFERENCES "buildings"("id");
+UPDATE "payments_ledger" SET "building_id" = (SELECT "id" FROM "buildings" WHERE "slug" = 'spectrum-4');
+CREATE INDEX "payments_ledger_building_id_idx" ON "payments_ledger"("building_id");
@@ -0,0 +1,26 @@
+-- Unit registry per building. "code" is the canonical unit stored on bookings
+-- and payments; "aliases" holds other spellings (e.g. T4-1105, #1105), upper-cased.
+-- Buildings without any units keep accepting free-text units.
+CREATE TABLE "units" (
+  "id"           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  "building_id"  UUID        NOT NULL REFERENCES "buildings"("id") ON DELETE CASCADE,
+  "code"         TEXT        NOT NULL,
+  "tower"        TEXT,
+  "floor"        INTEGER,
+  "number"       TEXT        NOT NULL,
+  "aliases"      TEXT[]      NOT NULL DEFAULT '{}',
+  "owner_name"   TEXT,
+  "owner_email"  TEXT,
+  "owner_phone"  TEXT,
+  "tenant_name"  TEXT,
+  "tenant_email" TEXT,
+  "tenant_phone" TEXT,
+  "active"       BOOLEAN     NOT NULL DEFAULT TRUE,
+  "created_at"   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at"   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX "units_building_id_code_key" ON "units"("building_id", "code");
+
+ALTER TABLE "bookings" ADD COLUMN "unit_id" UUID REFERENCES "units"("id") ON DELETE SET NULL;
+CREATE INDEX "bookings_unit_id_idx" ON "bookings"("unit_id");
@@ -0,0 +1,24 @@
+-- Fee schedule per building and move type, in cents. Bookings copy the fees
+-- that applied when they were made and track what has been paid and refunded.
+CREATE TABLE "fee_schedules" (
+  "id"                          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  "building_id"                 UUID        NOT NULL REFERENCES "buildings"("id") ON DELETE CASCADE,
+  "move_type"                   "MoveType"  NOT NULL,
+  "move_fee_cents"              INTEGER     NOT NULL DEFAULT 0 CHECK ("move_fee_cents" >= 0),
+  "deposit_cents"               INTEGER     NOT NULL DEFAULT 0 CHECK ("deposit_cents" >= 0),
+  "after_hours_surcharge_cents" INTEGER     NOT NULL DEFAULT 0 CHECK ("after_hours_surcharge_cents" >= 0),
+  "created_at"                  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at"                  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX "fee_schedules_building_id_move_type_key" ON "fee_schedules"("building_id", "move_type");
+
+ALTER TABLE "bookings"
+  ADD COLUMN "move_fee_cents"              INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN "deposit_cents"               INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN "after_hours_surcharge_cents" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN "amount_paid_cents"           INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN "amount_refunded_cents"       INTEGER NOT NULL DEFAULT 0;
+
+-- Invoice total as reported by Invoice Ninja; null for payments recorded before amounts were tracked
+ALTER TABLE "payments_ledger" ADD COLUMN "amount_cents" INTEGER;
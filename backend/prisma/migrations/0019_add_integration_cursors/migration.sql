@@ -0,0 +1,6 @@
+-- Persisted position of the payment reconciliation poll, keyed by provider
+CREATE TABLE "integration_cursors" (
+  "key"        TEXT        PRIMARY KEY,
+  "cursor"     TIMESTAMPTZ NOT NULL,
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
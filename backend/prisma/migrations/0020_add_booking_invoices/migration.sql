@@ -0,0 +1,6 @@
+-- Invoice created with the payment provider when a booking is submitted
+ALTER TABLE "bookings"
+  ADD COLUMN "invoice_id"      TEXT,
+  ADD COLUMN "invoice_pay_url" TEXT;
+
+CREATE UNIQUE INDEX "bookings_invoice_id_key" ON "bookings"("invoice_id");
@@ -0,0 +1,32 @@
+-- Background job registry, leases and run history
+CREATE TYPE "JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+CREATE TABLE "jobs" (
+  "name"             TEXT        PRIMARY KEY,
+  "description"      TEXT        NOT NULL DEFAULT '',
+  "interval_ms"      INTEGER     NOT NULL,
+  "next_run_at"      TIMESTAMPTZ NOT NULL,
+  "run_requested_at" TIMESTAMPTZ,
+  "locked_by"        TEXT,
+  "locked_until"     TIMESTAMPTZ,
+  "last_run_at"      TIMESTAMPTZ,
+  "last_success_at"  TIMESTAMPTZ,
+  "last_error"       TEXT,
+  "last_error_at"    TIMESTAMPTZ,
+  "created_at"       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at"       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE "job_runs" (
+  "id"          UUID           PRIMARY KEY DEFAULT gen_random_uuid(),
+  "job_name"    TEXT           NOT NULL REFERENCES "jobs"("name") ON DELETE CASCADE,
+  "trigger"     TEXT           NOT NULL,
+  "status"      "JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+  "instance"    TEXT           NOT NULL,
+  "started_at"  TIMESTAMPTZ    NOT NULL DEFAULT NOW(),
+  "finished_at" TIMESTAMPTZ,
+  "duration_ms" INTEGER,
+  "error"       TEXT
+);
+
+CREATE INDEX "job_runs_job_name_started_at_idx" ON "job_runs"("job_name", "started_at");
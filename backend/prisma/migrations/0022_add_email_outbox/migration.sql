@@ -0,0 +1,22 @@
+-- Outgoing email queue with retry state and delivery history
+CREATE TYPE "EmailStatus" AS ENUM ('PENDING', 'SENDING', 'SENT', 'FAILED');
+
+CREATE TABLE "email_outbox" (
+  "id"              UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+  "building_id"     UUID          NOT NULL REFERENCES "buildings"("id") ON DELETE CASCADE,
+  "booking_id"      UUID          REFERENCES "bookings"("id") ON DELETE SET NULL,
+  "to"              TEXT[]        NOT NULL,
+  "subject"         TEXT          NOT NULL,
+  "html"            TEXT          NOT NULL,
+  "status"          "EmailStatus" NOT NULL DEFAULT 'PENDING',
+  "attempts"        INTEGER       NOT NULL DEFAULT 0,
+  "next_attempt_at" TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  "last_error"      TEXT,
+  "sent_at"         TIMESTAMPTZ,
+  "resent_from_id"  UUID,
+  "created_at"      TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  "updated_at"      TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX "email_outbox_status_next_attempt_at_idx" ON "email_outbox"("status", "next_attempt_at");
+CREATE INDEX "email_outbox_booking_id_idx" ON "email_outbox"("booking_id");
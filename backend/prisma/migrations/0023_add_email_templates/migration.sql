@@ -0,0 +1,16 @@
+-- Per-building overrides of the built-in email wording
+CREATE TYPE "EmailTemplateKey" AS ENUM ('SUBMITTED', 'APPROVED', 'REJECTED', 'CANCELLED', 'PAYMENT_REMINDER', 'EARLY_PAYMENT_WARNING', 'PAYMENT_CONFIRMED');
+
+CREATE TABLE "email_templates" (
+  "id"          UUID               PRIMARY KEY DEFAULT gen_random_uuid(),
+  "building_id" UUID               NOT NULL REFERENCES "buildings"("id") ON DELETE CASCADE,
+  "key"         "EmailTemplateKey" NOT NULL,
+  "subject"     TEXT               NOT NULL,
+  "title"       TEXT               NOT NULL,
+  "intro"       TEXT               NOT NULL,
+  "footer"      TEXT               NOT NULL DEFAULT '',
+  "created_at"  TIMESTAMPTZ        NOT NULL DEFAULT NOW(),
+  "updated_at"  TIMESTAMPTZ        NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX "email_templates_building_id_key_key" ON "email_templates"("building_id", "key");
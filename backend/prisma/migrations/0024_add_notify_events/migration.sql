@@ -0,0 +1,5 @@
+-- Add dedicated NotifyEvent values so each notification has its own subscription
+ALTER TYPE "NotifyEvent" ADD VALUE IF NOT EXISTS 'PAYMENT_CONFIRMED';
+ALTER TYPE "NotifyEvent" ADD VALUE IF NOT EXISTS 'CANCELLED';
+ALTER TYPE "NotifyEvent" ADD VALUE IF NOT EXISTS 'UPDATED';
+ALTER TYPE "NotifyEvent" ADD VALUE IF NOT EXISTS 'CONFLICT_OVERRIDE';
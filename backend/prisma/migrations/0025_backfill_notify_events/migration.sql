@@ -0,0 +1,22 @@
+-- Keep existing recipients on the notices they were already getting.
+-- Resident cancellations used to go out under REJECTED and resident edits under SUBMITTED.
+UPDATE "notification_recipients"
+SET "notify_on" = array_append("notify_on", 'CANCELLED')
+WHERE 'REJECTED' = ANY("notify_on") AND NOT ('CANCELLED' = ANY("notify_on"));
+
+UPDATE "notification_recipients"
+SET "notify_on" = array_append("notify_on", 'UPDATED')
+WHERE 'SUBMITTED' = ANY("notify_on") AND NOT ('UPDATED' = ANY("notify_on"));
+
+-- Payment confirmations were sent to a hard-coded address; make it an ordinary recipient
+UPDATE "notification_recipients"
+SET "notify_on" = array_append("notify_on", 'PAYMENT_CONFIRMED')
+WHERE lower("email") = 'dcook@spectrum4.ca' AND NOT ('PAYMENT_CONFIRMED' = ANY("notify_on"));
+
+INSERT INTO "notification_recipients" ("id", "building_id", "email", "enabled", "notify_on", "created_at", "updated_at")
+SELECT gen_random_uuid(), b."id", 'dcook@spectrum4.ca', TRUE, ARRAY['PAYMENT_CONFIRMED']::"NotifyEvent"[], NOW(), NOW()
+FROM "buildings" b
+WHERE NOT EXISTS (
+  SELECT 1 FROM "notification_recipients" r
+  WHERE r."building_id" = b."id" AND lower(r."email") = 'dcook@spectrum4.ca'
+);
@@ -0,0 +1,10 @@
+-- Pre-move reminders to residents and the daily concierge digest
+ALTER TYPE "NotifyEvent" ADD VALUE IF NOT EXISTS 'DAILY_DIGEST';
+ALTER TYPE "EmailTemplateKey" ADD VALUE IF NOT EXISTS 'MOVE_REMINDER_48H';
+ALTER TYPE "EmailTemplateKey" ADD VALUE IF NOT EXISTS 'MOVE_REMINDER_2H';
+
+ALTER TABLE "bookings" ADD COLUMN "reminder_48h_sent_at" TIMESTAMPTZ;
+ALTER TABLE "bookings" ADD COLUMN "reminder_2h_sent_at" TIMESTAMPTZ;
+
+ALTER TABLE "app_settings" ADD COLUMN "move_rules" TEXT;
+ALTER TABLE "app_settings" ADD COLUMN "digest_sent_at" TIMESTAMPTZ;
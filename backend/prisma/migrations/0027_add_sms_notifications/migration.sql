@@ -0,0 +1,12 @@
+-- SMS as a second notification channel
+CREATE TYPE "NotificationChannel" AS ENUM ('EMAIL', 'SMS');
+
+ALTER TABLE "notification_recipients" ADD COLUMN "phone" TEXT;
+ALTER TABLE "notification_recipients" ADD COLUMN "channels" "NotificationChannel"[] NOT NULL DEFAULT ARRAY['EMAIL']::"NotificationChannel"[];
+
+ALTER TABLE "bookings" ADD COLUMN "sms_opt_in" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE "sms_opt_outs" (
+  "phone"      TEXT        PRIMARY KEY,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
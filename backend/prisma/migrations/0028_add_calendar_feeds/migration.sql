@@ -0,0 +1,9 @@
+-- iCalendar feeds and .ics attachments on resident emails
+ALTER TYPE "EmailTemplateKey" ADD VALUE IF NOT EXISTS 'RESCHEDULED';
+
+ALTER TABLE "bookings" ADD COLUMN "calendar_sequence" INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE "users" ADD COLUMN "calendar_token" TEXT;
+CREATE UNIQUE INDEX "users_calendar_token_key" ON "users"("calendar_token");
+
+ALTER TABLE "email_outbox" ADD COLUMN "attachments" JSONB NOT NULL DEFAULT '[]';
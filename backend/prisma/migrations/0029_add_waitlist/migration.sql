@@ -0,0 +1,35 @@
+-- Waitlist for fully booked slots
+ALTER TYPE "EmailTemplateKey" ADD VALUE IF NOT EXISTS 'WAITLIST_JOINED';
+ALTER TYPE "EmailTemplateKey" ADD VALUE IF NOT EXISTS 'WAITLIST_OFFER';
+
+CREATE TYPE "WaitlistStatus" AS ENUM ('WAITING', 'OFFERED', 'CLAIMED', 'EXPIRED', 'CANCELLED');
+
+CREATE TABLE "waitlist_entries" (
+  "id"                   UUID             PRIMARY KEY DEFAULT gen_random_uuid(),
+  "building_id"          UUID             NOT NULL REFERENCES "buildings"("id") ON DELETE CASCADE,
+  "resident_name"        TEXT             NOT NULL,
+  "resident_email"       TEXT             NOT NULL,
+  "resident_phone"       TEXT             NOT NULL,
+  "unit"                 TEXT             NOT NULL,
+  "company_name"         TEXT,
+  "move_type"            "MoveType"       NOT NULL,
+  "move_date"            DATE             NOT NULL,
+  "start_datetime"       TIMESTAMPTZ      NOT NULL,
+  "end_datetime"         TIMESTAMPTZ      NOT NULL,
+  "elevator_required"    BOOLEAN          NOT NULL DEFAULT false,
+  "loading_bay_required" BOOLEAN          NOT NULL DEFAULT false,
+  "notes"                TEXT,
+  "public_unit_mask"     TEXT,
+  "sms_opt_in"           BOOLEAN          NOT NULL DEFAULT false,
+  "status"               "WaitlistStatus" NOT NULL DEFAULT 'WAITING',
+  "token"                TEXT             NOT NULL,
+  "offered_at"           TIMESTAMPTZ,
+  "offer_expires_at"     TIMESTAMPTZ,
+  "claimed_booking_id"   UUID,
+  "created_at"           TIMESTAMPTZ      NOT NULL DEFAULT NOW(),
+  "updated_at"           TIMESTAMPTZ      NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX "waitlist_entries_token_key" ON "waitlist_entries"("token");
+CREATE INDEX "waitlist_entries_building_id_status_start_datetime_idx" ON "waitlist_entries"("building_id", "status", "start_datetime");
+CREATE INDEX "waitlist_entries_status_offer_expires_at_idx" ON "waitlist_entries"("status", "offer_expires_at");
@@ -0,0 +1,16 @@
+-- Short-lived holds on a slot while a resident completes the booking form
+CREATE TABLE "slot_holds" (
+  "id"                   UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  "building_id"          UUID        NOT NULL REFERENCES "buildings"("id") ON DELETE CASCADE,
+  "token"                TEXT        NOT NULL,
+  "move_type"            "MoveType"  NOT NULL,
+  "start_datetime"       TIMESTAMPTZ NOT NULL,
+  "end_datetime"         TIMESTAMPTZ NOT NULL,
+  "elevator_required"    BOOLEAN     NOT NULL DEFAULT false,
+  "loading_bay_required" BOOLEAN     NOT NULL DEFAULT false,
+  "expires_at"           TIMESTAMPTZ NOT NULL,
+  "created_at"           TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX "slot_holds_token_key" ON "slot_holds"("token");
+CREATE INDEX "slot_holds_building_id_expires_at_idx" ON "slot_holds"("building_id", "expires_at");
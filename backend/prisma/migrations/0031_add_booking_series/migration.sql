@@ -0,0 +1,17 @@
+-- Recurring bookings: one row per recurrence, linked to each occurrence's booking
+CREATE TABLE "booking_series" (
+  "id"           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  "building_id"  UUID        NOT NULL REFERENCES "buildings"("id") ON DELETE CASCADE,
+  "move_type"    "MoveType"  NOT NULL,
+  "start_date"   DATE        NOT NULL,
+  "end_date"     DATE        NOT NULL,
+  "days_of_week" INTEGER[]   NOT NULL,
+  "start_time"   TEXT        NOT NULL,
+  "end_time"     TEXT        NOT NULL,
+  "created_at"   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX "booking_series_building_id_idx" ON "booking_series"("building_id");
+
+ALTER TABLE "bookings" ADD COLUMN "series_id" UUID REFERENCES "booking_series"("id") ON DELETE SET NULL;
+CREATE INDEX "bookings_series_id_idx" ON "bookings"("series_id");
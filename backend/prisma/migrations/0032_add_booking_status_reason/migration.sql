@@ -0,0 +1,2 @@
+-- Reason given when staff reject or cancel a booking
+ALTER TABLE "bookings" ADD COLUMN "status_reason" TEXT;
@@ -0,0 +1,28 @@
+-- Typed audit actions, building scope and request origin for the audit log viewer
+CREATE TYPE "AuditAction" AS ENUM (
+  'BOOKING_UPDATED', 'BOOKING_MARKED_PENDING', 'BOOKING_APPROVED', 'BOOKING_REJECTED', 'BOOKING_CANCELLED',
+  'BOOKING_REOPENED', 'BOOKING_QUICK_APPROVED', 'BOOKING_DELETED', 'BOOKING_FEES_UPDATED', 'BOOKING_REFUNDED',
+  'BOOKING_PAYMENT_REMINDER_SENT', 'PAYMENT_REMINDER_SENT', 'CONFLICT_OVERRIDE',
+  'SERIES_APPROVED', 'SERIES_REJECTED', 'SERIES_CANCELLED', 'EMAIL_RESENT', 'SETTINGS_UPDATED',
+  'RECIPIENT_CREATED', 'RECIPIENT_UPDATED', 'RECIPIENT_DELETED', 'EMAIL_TEMPLATE_UPDATED', 'EMAIL_TEMPLATE_RESET',
+  'SLOT_RULE_CREATED', 'SLOT_RULE_UPDATED', 'SLOT_RULE_DELETED', 'BLACKOUT_DATE_CREATED', 'BLACKOUT_DATE_DELETED',
+  'FEE_SCHEDULE_UPDATED', 'RESOURCE_CREATED', 'RESOURCE_UPDATED', 'RESOURCE_DELETED',
+  'UNIT_CREATED', 'UNIT_UPDATED', 'UNIT_DELETED', 'UNITS_IMPORTED', 'BUILDING_CREATED', 'BUILDING_UPDATED',
+  'CALENDAR_FEED_TOKEN_REGENERATED', 'JOB_RUN_REQUESTED', 'USER_CREATED', 'USER_UPDATED', 'USER_DELETED'
+);
+
+ALTER TABLE "audit_log" ALTER COLUMN "action" TYPE "AuditAction" USING "action"::"AuditAction";
+
+ALTER TABLE "audit_log"
+  ADD COLUMN "building_id" UUID REFERENCES "buildings"("id") ON DELETE SET NULL,
+  ADD COLUMN "ip"          TEXT,
+  ADD COLUMN "user_agent"  TEXT;
+
+-- Earlier entries take the building of their booking, or the one named in their metadata
+UPDATE "audit_log" a SET "building_id" = b."building_id"
+FROM "bookings" b WHERE a."booking_id" = b."id";
+UPDATE "audit_log" a SET "building_id" = bl."id"
+FROM "buildings" bl WHERE a."building_id" IS NULL AND bl."id"::text = a."metadata_json"->>'buildingId';
+
+CREATE INDEX "audit_log_building_id_timestamp_idx" ON "audit_log"("building_id", "timestamp");
+CREATE INDEX "audit_log_booking_id_timestamp_idx" ON "audit_log"("booking_id", "timestamp");
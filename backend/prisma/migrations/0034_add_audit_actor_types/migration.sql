@@ -0,0 +1,11 @@
+-- Audit entries for changes made by residents, background jobs and integrations, not only staff
+CREATE TYPE "AuditActorType" AS ENUM ('STAFF', 'RESIDENT', 'SYSTEM', 'INTEGRATION');
+
+ALTER TABLE "audit_log"
+  ADD COLUMN "actor_type"  "AuditActorType" NOT NULL DEFAULT 'STAFF',
+  ADD COLUMN "actor_label" TEXT;
+ALTER TABLE "audit_log" ALTER COLUMN "actor_user_id" DROP NOT NULL;
+
+-- Automatic payment reminders were recorded against the fallback concierge account
+UPDATE "audit_log" SET "actor_type" = 'SYSTEM', "actor_user_id" = NULL, "actor_label" = 'payment-reminders'
+WHERE "action" = 'PAYMENT_REMINDER_SENT';
@@ -0,0 +1,9 @@
+-- Deleting a booking moves it to the trash; it is only removed for good by the retention purge
+ALTER TABLE "bookings"
+  ADD COLUMN "deleted_at" TIMESTAMPTZ,
+  ADD COLUMN "deleted_by" UUID REFERENCES "users"("id") ON DELETE SET NULL;
+
+CREATE INDEX "bookings_deleted_at_idx" ON "bookings"("deleted_at");
+
+ALTER TYPE "AuditAction" ADD VALUE 'BOOKING_RESTORED';
+ALTER TYPE "AuditAction" ADD VALUE 'BOOKING_PURGED';
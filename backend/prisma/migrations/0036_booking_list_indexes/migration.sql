@@ -0,0 +1,3 @@
+-- The admin bookings list pages through a building's bookings and looks up payments for each page
+CREATE INDEX "move_approvals_move_request_id_idx" ON "move_approvals"("move_request_id");
+CREATE INDEX "bookings_building_id_created_at_idx" ON "bookings"("building_id", "created_at");
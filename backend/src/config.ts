@@ -14,6 +14,15 @@ const envSchema = z.object({
   DATABASE_URL: z.string().optional(),
   INVOICE_NINJA_URL: z.string().optional(),
   INVOICE_NINJA_API_TOKEN: z.string().optional(),
+  INVOICE_NINJA_WEBHOOK_SECRET: z.string().optional(),
+  PAYMENT_PROVIDER: z.enum(['invoice-ninja', 'webhook', 'mock']).default('invoice-ninja'),
+  PAYMENT_WEBHOOK_URL: z.string().optional(),
+  PAYMENT_WEBHOOK_SECRET: z.string().optional(),
+  SMS_PROVIDER: z.enum(['none', 'twilio', 'fake']).default('none'),
+  TWILIO_ACCOUNT_SID: z.string().optional(),
+  TWILIO_AUTH_TOKEN: z.string().optional(),
+  TWILIO_FROM_NUMBER: z.string().optional(),
+  SMS_INBOUND_URL: z.string().optional(),
   ANTHROPIC_API_KEY: z.string().optional(),
   DEEPSEEK_API_KEY: z.string().optional()
 });
@@ -73,6 +82,15 @@ export const config = {
   frontendOrigins,
   invoiceNinjaUrl: env.INVOICE_NINJA_URL,
   invoiceNinjaApiToken: env.INVOICE_NINJA_API_TOKEN,
+  invoiceNinjaWebhookSecret: env.INVOICE_NINJA_WEBHOOK_SECRET,
+  paymentProvider: env.PAYMENT_PROVIDER,
+  paymentWebhookUrl: env.PAYMENT_WEBHOOK_URL,
+  paymentWebhookSecret: env.PAYMENT_WEBHOOK_SECRET,
+  smsProvider: env.SMS_PROVIDER,
+  twilioAccountSid: env.TWILIO_ACCOUNT_SID,
+  twilioAuthToken: env.TWILIO_AUTH_TOKEN,
+  twilioFromNumber: env.TWILIO_FROM_NUMBER,
+  smsInboundUrl: env.SMS_INBOUND_URL,
   anthropicApiKey: env.ANTHROPIC_API_KEY,
   deepseekApiKey: env.DEEPSEEK_API_KEY
 };
@@ -1,5 +1,6 @@
 import { FastifyReply, FastifyRequest } from 'fastify';
 import { UserRole } from '@prisma/client';
+import { prisma } from '../prisma.js';
 
 export async function requireAuth(req: FastifyRequest, reply: FastifyReply) {
   return req.jwtVerify();
@@ -13,3 +14,20 @@ export function requireRole(roles: UserRole[]) {
     }
   };
 }
+
+/**
+ * requireRole that also accepts ?token= carrying a staff member's calendar
+ * token, because calendar apps subscribing to a feed cannot send a bearer token.
+ */
+export function requireRoleOrCalendarToken(roles: UserRole[]) {
+  const byRole = requireRole(roles);
+  return async (req: FastifyRequest, reply: FastifyReply) => {
+    const { token } = req.query as { token?: string };
+    if (!token) return byRole(req, reply);
+    const user = await prisma.user.findUnique({ where: { calendarToken: token } });
+    if (!user || !roles.includes(user.role)) {
+      return reply.status(401).send({ message: 'Invalid calendar token' });
+    }
+    req.user = { id: user.id, role: user.role, email: user.email, name: user.name, mustChangePassword: user.mustChangePassword };
+  };
+}
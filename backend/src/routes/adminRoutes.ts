@@ -1,31 +1,48 @@
 import { FastifyInstance } from 'fastify';
-import { BookingStatus, NotifyEvent, UserRole } from '@prisma/client';
+import { AuditAction, AuditActorType, BookingStatus, EmailTemplateKey, MoveType, NotificationChannel, NotifyEvent, ResourceType, UserRole } from '@prisma/client';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
+import dayjs from 'dayjs';
+import { config } from '../config.js';
 import { prisma } from '../prisma.js';
 import { requireRole } from '../middleware/auth.js';
 import { encrypt } from '../utils/crypto.js';
-import { sendEmail, sendPaymentConfirmationToDcook } from '../services/emailService.js';
-import { logAudit } from '../services/auditService.js';
+import { composeBookingEmail, sendEmailNow } from '../services/emailService.js';
+import { sendPaymentConfirmedNotification } from '../services/notificationService.js';
+import { normalizePhone } from '../services/smsService.js';
+import { DEFAULT_EMAIL_TEMPLATES, EMAIL_TEMPLATE_LABELS, EMAIL_TEMPLATE_VARIABLES } from '../services/emailTemplates.js';
+import { auditContext, logAudit } from '../services/auditService.js';
 import { checkAndApproveMoveRequest } from '../services/moveApprovalService.js';
+import { canTransition, changeBookingStatus, runTransitionEffects, staffActor } from '../services/bookingStatusService.js';
+import { getStaffBuildingId, resolveStaffBuilding } from '../services/buildingService.js';
+import { creditPayment, feeSummary } from '../services/feeService.js';
+import { importUnits, normalizeUnitCode, parseUnitCsv, toUnitData, unitInputSchema, unitVariants } from '../services/unitService.js';
+import { isRegisteredJob, listJobs, requestJobRun } from '../services/jobScheduler.js';
+import { listOf } from '../services/bookingSearchService.js';
+import { buildExport, EXPORT_FORMATS, exportColumnsSchema, LEDGER_EXPORT_COLUMNS, LEDGER_STATUSES } from '../services/exportService.js';
+
+// Payments not yet tied to a building (no recognised unit prefix) are visible from every building
+const ledgerScope = (buildingId: string) => ({ OR: [{ buildingId }, { buildingId: null }] });
 
 export async function adminRoutes(app: FastifyInstance) {
-  app.get('/api/admin/stats', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async () => {
+  app.get('/api/admin/stats', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const building = await resolveStaffBuilding(req);
     const now = new Date();
     const yearStart = new Date(now.getFullYear(), 0, 1);
     const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-    const yearFilter = { moveDate: { gte: yearStart } };
+    const yearFilter = { buildingId: building.id, deletedAt: null, moveDate: { gte: yearStart } };
     const [total, approved, pending, thisMonth] = await Promise.all([
       prisma.booking.count({ where: yearFilter }),
       prisma.booking.count({ where: { status: BookingStatus.APPROVED, ...yearFilter } }),
       prisma.booking.count({ where: { status: { in: [BookingStatus.PENDING, BookingStatus.SUBMITTED] }, ...yearFilter } }),
-      prisma.booking.count({ where: { moveDate: { gte: monthStart } } }),
+      prisma.booking.count({ where: { buildingId: building.id, deletedAt: null, moveDate: { gte: monthStart } } }),
     ]);
     return { totalBookings: total, approvedBookings: approved, pendingBookings: pending, bookingsThisMonth: thisMonth, year: now.getFullYear() };
   });
 
-  app.get('/api/admin/settings', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async () => {
-    const s = await prisma.appSetting.findFirst();
+  app.get('/api/admin/settings', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const building = await resolveStaffBuilding(req);
+    const s = await prisma.appSetting.findUnique({ where: { buildingId: building.id } });
     return { ...s, smtpPasswordEncrypted: undefined };
   });
 
@@ -42,23 +59,27 @@ export async function adminRoutes(app: FastifyInstance) {
         includeResidentContactInApprovalEmails: z.boolean(),
         reminderEnabled: z.boolean(),
         invoiceNinjaEnabled: z.boolean(),
-        unpaidPaymentReminderEnabled: z.boolean()
+        unpaidPaymentReminderEnabled: z.boolean(),
+        moveRules: z.string().max(5000).nullable().optional()
       })
       .parse(req.body);
-    const existing = await prisma.appSetting.findFirst();
+    const building = await resolveStaffBuilding(req);
     const { smtpPassword, ...restBody } = body;
     const updatedData = { ...restBody, smtpPasswordEncrypted: smtpPassword ? encrypt(smtpPassword) : undefined };
-    const updated = existing
-      ? await prisma.appSetting.update({ where: { id: existing.id }, data: updatedData })
-      : await prisma.appSetting.create({ data: updatedData });
-    await logAudit(prisma, req.user.id, 'SETTINGS_UPDATED', undefined, { smtpHost: body.smtpHost, fromEmail: body.fromEmail });
+    const updated = await prisma.appSetting.upsert({
+      where: { buildingId: building.id },
+      update: updatedData,
+      create: { ...updatedData, buildingId: building.id }
+    });
+    await logAudit(prisma, auditContext(req, building.id), 'SETTINGS_UPDATED', undefined, { buildingId: building.id, smtpHost: body.smtpHost, fromEmail: body.fromEmail });
     return { ...updated, smtpPasswordEncrypted: undefined };
   });
 
   app.post('/api/admin/settings/test-email', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
     const body = z.object({ to: z.string().email() }).parse(req.body);
+    const building = await resolveStaffBuilding(req);
     try {
-      await sendEmail(prisma, body.to, 'MoveCal SMTP Test', '<p>SMTP settings are working.</p>');
+      await sendEmailNow(prisma, building.id, body.to, 'MoveCal SMTP Test', '<p>SMTP settings are working.</p>');
       return { ok: true };
     } catch (error) {
       req.log.error(error);
@@ -66,37 +87,441 @@ export async function adminRoutes(app: FastifyInstance) {
     }
   });
 
-  app.get('/api/admin/recipients', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async () => prisma.notificationRecipient.findMany());
+  app.get('/api/admin/recipients', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const building = await resolveStaffBuilding(req);
+    return prisma.notificationRecipient.findMany({ where: { buildingId: building.id } });
+  });
+  const recipientPhone = z.string().trim().refine((p) => normalizePhone(p) !== null, { message: 'Phone number cannot receive text messages' }).nullable();
+  const smsNeedsPhone = (r: { phone?: string | null; channels?: NotificationChannel[] }) => !r.channels?.includes(NotificationChannel.SMS) || !!r.phone;
+
   app.post('/api/admin/recipients', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
-    const body = z.object({ name: z.string().optional(), email: z.string().email(), enabled: z.boolean().default(true), notifyOn: z.array(z.nativeEnum(NotifyEvent)) }).parse(req.body);
-    const r = await prisma.notificationRecipient.create({ data: body });
-    await logAudit(prisma, req.user.id, 'RECIPIENT_CREATED', undefined, { recipientId: r.id });
+    const body = z
+      .object({
+        name: z.string().optional(),
+        email: z.string().email(),
+        phone: recipientPhone.optional(),
+        enabled: z.boolean().default(true),
+        notifyOn: z.array(z.nativeEnum(NotifyEvent)),
+        channels: z.array(z.nativeEnum(NotificationChannel)).min(1).default([NotificationChannel.EMAIL])
+      })
+      .refine(smsNeedsPhone, { message: 'A phone number is required for SMS notifications' })
+      .parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const r = await prisma.notificationRecipient.create({ data: { ...body, buildingId: building.id } });
+    await logAudit(prisma, auditContext(req, building.id), 'RECIPIENT_CREATED', undefined, { recipientId: r.id });
     return r;
   });
-  app.patch('/api/admin/recipients/:id', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
-    const body = z.object({ name: z.string().optional(), email: z.string().email().optional(), enabled: z.boolean().optional(), notifyOn: z.array(z.nativeEnum(NotifyEvent)).optional() }).parse(req.body);
-    const r = await prisma.notificationRecipient.update({ where: { id: (req.params as any).id }, data: body });
-    await logAudit(prisma, req.user.id, 'RECIPIENT_UPDATED', undefined, { recipientId: r.id });
+  app.patch('/api/admin/recipients/:id', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const body = z
+      .object({
+        name: z.string().optional(),
+        email: z.string().email().optional(),
+        phone: recipientPhone.optional(),
+        enabled: z.boolean().optional(),
+        notifyOn: z.array(z.nativeEnum(NotifyEvent)).optional(),
+        channels: z.array(z.nativeEnum(NotificationChannel)).min(1).optional()
+      })
+      .parse(req.body);
+    const id = z.string().uuid().parse((req.params as { id: string }).id);
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.notificationRecipient.findFirst({ where: { id, buildingId: building.id } });
+    if (!existing) return reply.status(404).send({ message: 'Recipient not found' });
+    if (!smsNeedsPhone({ ...existing, ...body })) return reply.status(400).send({ message: 'A phone number is required for SMS notifications' });
+    const r = await prisma.notificationRecipient.update({ where: { id: existing.id }, data: body });
+    await logAudit(prisma, auditContext(req, building.id), 'RECIPIENT_UPDATED', undefined, { recipientId: r.id });
     return r;
   });
-  app.delete('/api/admin/recipients/:id', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
-    const id = (req.params as any).id;
+  app.delete('/api/admin/recipients/:id', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const id = z.string().uuid().parse((req.params as { id: string }).id);
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.notificationRecipient.findFirst({ where: { id, buildingId: building.id } });
+    if (!existing) return reply.status(404).send({ message: 'Recipient not found' });
     await prisma.notificationRecipient.delete({ where: { id } });
-    await logAudit(prisma, req.user.id, 'RECIPIENT_DELETED', undefined, { recipientId: id });
+    await logAudit(prisma, auditContext(req, building.id), 'RECIPIENT_DELETED', undefined, { recipientId: id });
+    return { ok: true };
+  });
+
+  // Email templates: per-building overrides of the default resident email wording
+  const templateContentSchema = z.object({
+    subject: z.string().trim().min(1).max(200),
+    title: z.string().trim().min(1).max(200),
+    intro: z.string().trim().min(1).max(5000),
+    footer: z.string().trim().max(5000).default('')
+  });
+  const templateKeyParam = (req: { params: unknown }) => z.nativeEnum(EmailTemplateKey).parse((req.params as { key: string }).key);
+
+  app.get('/api/admin/email-templates', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const building = await resolveStaffBuilding(req);
+    const custom = await prisma.emailTemplate.findMany({ where: { buildingId: building.id } });
+    const templates = Object.values(EmailTemplateKey).map((key) => {
+      const override = custom.find((t) => t.key === key);
+      const { subject, title, intro, footer } = override ?? DEFAULT_EMAIL_TEMPLATES[key];
+      return { key, label: EMAIL_TEMPLATE_LABELS[key], subject, title, intro, footer, isCustom: !!override, defaults: DEFAULT_EMAIL_TEMPLATES[key] };
+    });
+    return { templates, variables: EMAIL_TEMPLATE_VARIABLES };
+  });
+  app.put('/api/admin/email-templates/:key', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const key = templateKeyParam(req);
+    const body = templateContentSchema.parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const template = await prisma.emailTemplate.upsert({
+      where: { buildingId_key: { buildingId: building.id, key } },
+      update: body,
+      create: { ...body, buildingId: building.id, key }
+    });
+    await logAudit(prisma, auditContext(req, building.id), 'EMAIL_TEMPLATE_UPDATED', undefined, { buildingId: building.id, key });
+    return template;
+  });
+  app.delete('/api/admin/email-templates/:key', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const key = templateKeyParam(req);
+    const building = await resolveStaffBuilding(req);
+    await prisma.emailTemplate.deleteMany({ where: { buildingId: building.id, key } });
+    await logAudit(prisma, auditContext(req, building.id), 'EMAIL_TEMPLATE_RESET', undefined, { buildingId: building.id, key });
+    return { ok: true };
+  });
+  // Renders unsaved template text against a sample booking so the editor can show it live
+  app.post('/api/admin/email-templates/preview', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const { key, ...template } = templateContentSchema.extend({ key: z.nativeEnum(EmailTemplateKey) }).parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const start = dayjs().add(7, 'day').hour(9).minute(0).second(0).millisecond(0);
+    const sample = {
+      id: 'sample-booking-reference',
+      buildingId: building.id,
+      residentName: 'Jane Smith',
+      residentEmail: 'jane.smith@example.com',
+      residentPhone: '604-555-0123',
+      unit: '1105',
+      moveType: MoveType.MOVE_IN,
+      startDatetime: start.toDate(),
+      endDatetime: start.add(3, 'hour').toDate(),
+      elevatorRequired: true,
+      loadingBayRequired: true,
+      notes: null
+    };
+    const manageUrl = `${config.frontendOrigins[0]}/booking/${sample.id}`;
+    return composeBookingEmail(template, sample, building, { manageUrl, paymentConfirmed: key === EmailTemplateKey.APPROVED });
+  });
+
+  // Building slot rules (permitted windows per move type and day of week)
+  const slotRuleSchema = z
+    .object({
+      moveType: z.nativeEnum(MoveType),
+      dayOfWeek: z.number().int().min(0).max(6),
+      windowStart: z.number().int().min(0).max(24 * 60),
+      windowEnd: z.number().int().min(0).max(24 * 60),
+      durationMins: z.number().int().positive().nullable().default(null),
+      blockMins: z.number().int().positive().nullable().default(null)
+    })
+    .refine((r) => r.windowStart < r.windowEnd, { message: 'Window start must be before window end' })
+    .refine((r) => r.durationMins === null || r.durationMins <= r.windowEnd - r.windowStart, { message: 'Duration must fit inside the window' });
+
+  app.get('/api/admin/slot-rules', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const building = await resolveStaffBuilding(req);
+    return prisma.slotRule.findMany({ where: { buildingId: building.id }, orderBy: [{ moveType: 'asc' }, { dayOfWeek: 'asc' }, { windowStart: 'asc' }] });
+  });
+  app.post('/api/admin/slot-rules', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const body = slotRuleSchema.parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const rule = await prisma.slotRule.create({ data: { ...body, buildingId: building.id } });
+    await logAudit(prisma, auditContext(req, building.id), 'SLOT_RULE_CREATED', undefined, { ruleId: rule.id, ...body });
+    return rule;
+  });
+  app.put('/api/admin/slot-rules/:id', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const id = z.string().uuid().parse((req.params as { id: string }).id);
+    const body = slotRuleSchema.parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.slotRule.findFirst({ where: { id, buildingId: building.id } });
+    if (!existing) return reply.status(404).send({ message: 'Slot rule not found' });
+    const rule = await prisma.slotRule.update({ where: { id }, data: body });
+    await logAudit(prisma, auditContext(req, building.id), 'SLOT_RULE_UPDATED', undefined, { ruleId: id, old: existing, new: body });
+    return rule;
+  });
+  app.delete('/api/admin/slot-rules/:id', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const id = z.string().uuid().parse((req.params as { id: string }).id);
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.slotRule.findFirst({ where: { id, buildingId: building.id } });
+    if (!existing) return reply.status(404).send({ message: 'Slot rule not found' });
+    await prisma.slotRule.delete({ where: { id } });
+    await logAudit(prisma, auditContext(req, building.id), 'SLOT_RULE_DELETED', undefined, { ruleId: id, rule: existing });
+    return { ok: true };
+  });
+
+  // Building blackout dates (closures on top of the computed statutory holidays)
+  app.get('/api/admin/blackout-dates', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const building = await resolveStaffBuilding(req);
+    return prisma.blackoutDate.findMany({ where: { buildingId: building.id }, orderBy: { date: 'asc' } });
+  });
+  app.post('/api/admin/blackout-dates', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const body = z.object({ date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), reason: z.string().trim().min(1).max(200) }).parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const date = new Date(`${body.date}T00:00:00.000Z`);
+    const existing = await prisma.blackoutDate.findUnique({ where: { buildingId_date: { buildingId: building.id, date } } });
+    if (existing) return reply.status(409).send({ message: `${body.date} is already blacked out: ${existing.reason}` });
+    const blackout = await prisma.blackoutDate.create({ data: { buildingId: building.id, date, reason: body.reason, createdById: req.user.id } });
+    await logAudit(prisma, auditContext(req, building.id), 'BLACKOUT_DATE_CREATED', undefined, { blackoutId: blackout.id, date: body.date, reason: body.reason });
+    return blackout;
+  });
+  app.delete('/api/admin/blackout-dates/:id', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const id = z.string().uuid().parse((req.params as { id: string }).id);
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.blackoutDate.findFirst({ where: { id, buildingId: building.id } });
+    if (!existing) return reply.status(404).send({ message: 'Blackout date not found' });
+    await prisma.blackoutDate.delete({ where: { id } });
+    await logAudit(prisma, auditContext(req, building.id), 'BLACKOUT_DATE_DELETED', undefined, { blackoutId: id, date: existing.date.toISOString().slice(0, 10), reason: existing.reason });
+    return { ok: true };
+  });
+
+  // Fee schedule per move type, in cents
+  app.get('/api/admin/fee-schedules', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const building = await resolveStaffBuilding(req);
+    return prisma.feeSchedule.findMany({ where: { buildingId: building.id }, orderBy: { moveType: 'asc' } });
+  });
+  app.put('/api/admin/fee-schedules/:moveType', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const moveType = z.nativeEnum(MoveType).parse((req.params as { moveType: string }).moveType);
+    const cents = z.number().int().min(0).max(10_000_000);
+    const body = z.object({ moveFeeCents: cents, depositCents: cents, afterHoursSurchargeCents: cents }).parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const schedule = await prisma.feeSchedule.upsert({
+      where: { buildingId_moveType: { buildingId: building.id, moveType } },
+      update: body,
+      create: { ...body, buildingId: building.id, moveType }
+    });
+    await logAudit(prisma, auditContext(req, building.id), 'FEE_SCHEDULE_UPDATED', undefined, { buildingId: building.id, moveType, ...body });
+    return schedule;
+  });
+
+  // Bookable resources (elevators, loading bays, parking stalls)
+  app.get('/api/admin/resources', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const building = await resolveStaffBuilding(req);
+    return prisma.resource.findMany({ where: { buildingId: building.id }, orderBy: [{ type: 'asc' }, { name: 'asc' }] });
+  });
+  app.post('/api/admin/resources', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const body = z
+      .object({ name: z.string().trim().min(1).max(100), type: z.nativeEnum(ResourceType), capacity: z.number().int().min(1).max(50).default(1), active: z.boolean().default(true) })
+      .parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const resource = await prisma.resource.create({ data: { ...body, buildingId: building.id } });
+    await logAudit(prisma, auditContext(req, building.id), 'RESOURCE_CREATED', undefined, { resourceId: resource.id, ...body });
+    return resource;
+  });
+  app.patch('/api/admin/resources/:id', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const id = z.string().uuid().parse((req.params as { id: string }).id);
+    const body = z
+      .object({ name: z.string().trim().min(1).max(100).optional(), capacity: z.number().int().min(1).max(50).optional(), active: z.boolean().optional() })
+      .parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.resource.findFirst({ where: { id, buildingId: building.id } });
+    if (!existing) return reply.status(404).send({ message: 'Resource not found' });
+    const resource = await prisma.resource.update({ where: { id }, data: body });
+    await logAudit(prisma, auditContext(req, building.id), 'RESOURCE_UPDATED', undefined, { resourceId: id, old: existing, new: body });
+    return resource;
+  });
+  app.delete('/api/admin/resources/:id', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const id = z.string().uuid().parse((req.params as { id: string }).id);
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.resource.findFirst({ where: { id, buildingId: building.id }, include: { _count: { select: { bookings: true } } } });
+    if (!existing) return reply.status(404).send({ message: 'Resource not found' });
+    if (existing._count.bookings > 0) {
+      return reply.status(409).send({ message: `${existing.name} is reserved by ${existing._count.bookings} booking(s); deactivate it instead` });
+    }
+    await prisma.resource.delete({ where: { id } });
+    await logAudit(prisma, auditContext(req, building.id), 'RESOURCE_DELETED', undefined, { resourceId: id, name: existing.name });
+    return { ok: true };
+  });
+
+  // Unit registry and resident directory
+  app.get('/api/admin/units', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const { q } = z.object({ q: z.string().trim().max(100).optional() }).parse(req.query);
+    const building = await resolveStaffBuilding(req);
+    const search = q ? { contains: q, mode: 'insensitive' as const } : undefined;
+    return prisma.unit.findMany({
+      where: {
+        buildingId: building.id,
+        ...(search && {
+          OR: [
+            { code: search }, { aliases: { has: normalizeUnitCode(q!) } },
+            { ownerName: search }, { ownerEmail: search }, { tenantName: search }, { tenantEmail: search }
+          ]
+        })
+      },
+      orderBy: [{ tower: 'asc' }, { floor: 'asc' }, { code: 'asc' }],
+      take: 500
+    });
+  });
+  app.post('/api/admin/units', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const data = toUnitData(unitInputSchema.parse(req.body));
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.unit.findUnique({ where: { buildingId_code: { buildingId: building.id, code: data.code } } });
+    if (existing) return reply.status(409).send({ message: `Unit ${data.code} already exists` });
+    const unit = await prisma.unit.create({ data: { ...data, buildingId: building.id } });
+    await logAudit(prisma, auditContext(req, building.id), 'UNIT_CREATED', undefined, { unitId: unit.id, code: unit.code });
+    return unit;
+  });
+  app.patch('/api/admin/units/:id', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const id = z.string().uuid().parse((req.params as { id: string }).id);
+    const body = unitInputSchema.partial().parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.unit.findFirst({ where: { id, buildingId: building.id } });
+    if (!existing) return reply.status(404).send({ message: 'Unit not found' });
+    if (body.code && body.code !== existing.code) {
+      const taken = await prisma.unit.findUnique({ where: { buildingId_code: { buildingId: building.id, code: body.code } } });
+      if (taken) return reply.status(409).send({ message: `Unit ${body.code} already exists` });
+    }
+    const unit = await prisma.unit.update({
+      where: { id },
+      data: { ...body, ...(body.number !== undefined && { number: normalizeUnitCode(body.number) }) }
+    });
+    await logAudit(prisma, auditContext(req, building.id), 'UNIT_UPDATED', undefined, { unitId: id, old: existing, new: body });
+    return unit;
+  });
+  app.delete('/api/admin/units/:id', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const id = z.string().uuid().parse((req.params as { id: string }).id);
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.unit.findFirst({ where: { id, buildingId: building.id } });
+    if (!existing) return reply.status(404).send({ message: 'Unit not found' });
+    await prisma.unit.delete({ where: { id } });
+    await logAudit(prisma, auditContext(req, building.id), 'UNIT_DELETED', undefined, { unitId: id, code: existing.code });
     return { ok: true };
   });
+  app.post('/api/admin/units/import', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const file = await req.file();
+    if (!file) return reply.status(400).send({ message: 'No file' });
+    const building = await resolveStaffBuilding(req);
+    const { rows, errors } = parseUnitCsv((await file.toBuffer()).toString('utf8'));
+    if (rows.length === 0) return reply.status(400).send({ message: errors[0]?.message ?? 'No units found in file', errors });
+    const result = await importUnits(building.id, rows);
+    await logAudit(prisma, auditContext(req, building.id), 'UNITS_IMPORTED', undefined, { buildingId: building.id, fileName: file.filename, ...result, skipped: errors.length });
+    return { ...result, errors };
+  });
+
+  // Buildings — staff assigned to a building only see their own
+  const buildingSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    slug: z.string().trim().toLowerCase().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and dashes').max(50),
+    logoUrl: z.string().url().max(500).nullable().default(null),
+    unitPrefix: z.string().trim().regex(/^[A-Za-z0-9]{1,10}$/, 'Unit prefix must be 1–10 letters or numbers').nullable().default(null)
+  });
+
+  async function findBuildingConflict(data: { slug?: string; unitPrefix?: string | null }, excludeId?: string) {
+    const or = [
+      ...(data.slug ? [{ slug: data.slug }] : []),
+      ...(data.unitPrefix ? [{ unitPrefix: { equals: data.unitPrefix, mode: 'insensitive' as const } }] : [])
+    ];
+    if (or.length === 0) return null;
+    return prisma.building.findFirst({ where: { OR: or, ...(excludeId ? { id: { not: excludeId } } : {}) } });
+  }
+
+  app.get('/api/admin/buildings', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const staffBuildingId = await getStaffBuildingId(req.user.id);
+    return prisma.building.findMany({
+      where: staffBuildingId ? { id: staffBuildingId } : {},
+      orderBy: { name: 'asc' }
+    });
+  });
+  app.post('/api/admin/buildings', { preHandler: [requireRole([UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const body = buildingSchema.parse(req.body);
+    if (await getStaffBuildingId(req.user.id)) {
+      return reply.status(403).send({ message: 'Only management-company staff can add buildings' });
+    }
+    const conflict = await findBuildingConflict(body);
+    if (conflict) return reply.status(409).send({ message: `Slug or unit prefix is already used by ${conflict.name}` });
+    const building = await prisma.building.create({ data: body });
+    await logAudit(prisma, auditContext(req, building.id), 'BUILDING_CREATED', undefined, { buildingId: building.id, ...body });
+    return building;
+  });
+  app.patch('/api/admin/buildings/:id', { preHandler: [requireRole([UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const id = z.string().uuid().parse((req.params as { id: string }).id);
+    const body = buildingSchema.partial().parse(req.body);
+    const staffBuildingId = await getStaffBuildingId(req.user.id);
+    const existing = await prisma.building.findUnique({ where: { id } });
+    if (!existing || (staffBuildingId && staffBuildingId !== id)) return reply.status(404).send({ message: 'Building not found' });
+    const conflict = await findBuildingConflict(body, id);
+    if (conflict) return reply.status(409).send({ message: `Slug or unit prefix is already used by ${conflict.name}` });
+    const building = await prisma.building.update({ where: { id }, data: body });
+    await logAudit(prisma, auditContext(req, building.id), 'BUILDING_UPDATED', undefined, { buildingId: id, old: existing, new: body });
+    return building;
+  });
+
+  // Background jobs are shared by every building, so only management-company staff see them
+  app.get('/api/admin/jobs', { preHandler: [requireRole([UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    if (await getStaffBuildingId(req.user.id)) {
+      return reply.status(403).send({ message: 'Only management-company staff can view background jobs' });
+    }
+    return listJobs();
+  });
+
+  app.post('/api/admin/jobs/:name/run', { preHandler: [requireRole([UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    if (await getStaffBuildingId(req.user.id)) {
+      return reply.status(403).send({ message: 'Only management-company staff can run background jobs' });
+    }
+    const { name } = z.object({ name: z.string().min(1) }).parse(req.params);
+    if (!isRegisteredJob(name)) return reply.status(404).send({ message: 'Job not found' });
+    await requestJobRun(name, app.log);
+    await logAudit(prisma, auditContext(req), 'JOB_RUN_REQUESTED', undefined, { job: name });
+    return reply.status(202).send({ message: 'Job queued to run' });
+  });
+
+  // Audit log, newest first. Staff tied to a building see its entries; management-company staff
+  // also see entries that belong to no building, such as job runs.
+  app.get('/api/admin/audit', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const query = z.object({
+      action: z.nativeEnum(AuditAction).optional(),
+      actorType: z.nativeEnum(AuditActorType).optional(),
+      bookingId: z.string().uuid().optional(),
+      actorUserId: z.string().uuid().optional(),
+      from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      cursor: z.string().uuid().optional(),
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+    }).parse(req.query);
+    const building = await resolveStaffBuilding(req);
+    const staffBuildingId = await getStaffBuildingId(req.user.id);
+
+    const entries = await prisma.auditLog.findMany({
+      where: {
+        ...(staffBuildingId ? { buildingId: building.id } : { OR: [{ buildingId: building.id }, { buildingId: null }] }),
+        ...(query.action && { action: query.action }),
+        ...(query.actorType && { actorType: query.actorType }),
+        ...(query.bookingId && { bookingId: query.bookingId }),
+        ...(query.actorUserId && { actorUserId: query.actorUserId }),
+        ...((query.from || query.to) && {
+          timestamp: {
+            ...(query.from && { gte: dayjs(query.from).startOf('day').toDate() }),
+            ...(query.to && { lte: dayjs(query.to).endOf('day').toDate() }),
+          },
+        }),
+      },
+      include: {
+        actor: { select: { id: true, name: true, email: true } },
+        booking: { select: { id: true, unit: true, moveType: true, residentName: true, startDatetime: true } },
+      },
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+      take: query.limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    const page = entries.slice(0, query.limit);
+    return {
+      entries: page,
+      nextCursor: entries.length > query.limit ? page[page.length - 1].id : null,
+      actions: Object.values(AuditAction),
+    };
+  });
 
   // User Management Routes (only for COUNCIL and PROPERTY_MANAGER)
 
   // Get all users
-  app.get('/api/admin/users', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async () => {
+  app.get('/api/admin/users', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const staffBuildingId = await getStaffBuildingId(req.user.id);
     const users = await prisma.user.findMany({
+      where: staffBuildingId ? { buildingId: staffBuildingId } : {},
       select: {
         id: true,
         name: true,
         email: true,
         role: true,
         mustChangePassword: true,
+        buildingId: true,
         createdAt: true
       },
       orderBy: { createdAt: 'desc' }
@@ -110,9 +535,14 @@ export async function adminRoutes(app: FastifyInstance) {
       name: z.string().min(1).max(200),
       email: z.string().email().max(320),
       password: z.string().min(8, 'Password must be at least 8 characters'),
-      role: z.nativeEnum(UserRole)
+      role: z.nativeEnum(UserRole),
+      buildingId: z.string().uuid().nullable().optional()
     }).parse(req.body);
 
+    // Building-level staff can only add users to their own building
+    const staffBuildingId = await getStaffBuildingId(req.user.id);
+    const buildingId = staffBuildingId ?? body.buildingId ?? null;
+
     const normalizedEmail = body.email.trim().toLowerCase();
 
     // Check if email already exists
@@ -130,18 +560,20 @@ export async function adminRoutes(app: FastifyInstance) {
         name: body.name,
         email: normalizedEmail,
         passwordHash,
-        role: body.role
+        role: body.role,
+        buildingId
       },
       select: {
         id: true,
         name: true,
         email: true,
         role: true,
+        buildingId: true,
         createdAt: true
       }
     });
 
-    await logAudit(prisma, req.user.id, 'USER_CREATED', undefined, {
+    await logAudit(prisma, auditContext(req, user.buildingId), 'USER_CREATED', undefined, {
       userId: user.id,
       email: user.email,
       role: user.role
@@ -158,7 +590,8 @@ export async function adminRoutes(app: FastifyInstance) {
       email: z.string().email().max(320).optional(),
       role: z.nativeEnum(UserRole).optional(),
       password: z.string().min(8).optional(),
-      mustChangePassword: z.boolean().optional()
+      mustChangePassword: z.boolean().optional(),
+      buildingId: z.string().uuid().nullable().optional()
     }).parse(req.body);
 
     // Prevent users from modifying themselves to avoid lockout
@@ -168,9 +601,17 @@ export async function adminRoutes(app: FastifyInstance) {
       });
     }
 
+    const staffBuildingId = await getStaffBuildingId(req.user.id);
+    if (staffBuildingId) {
+      const target = await prisma.user.findFirst({ where: { id: userId, buildingId: staffBuildingId } });
+      if (!target) return reply.status(404).send({ message: 'User not found' });
+    }
+
     const updateData: any = {};
 
     if (body.name) updateData.name = body.name;
+    // Only management-company staff can move users between buildings
+    if (body.buildingId !== undefined && !staffBuildingId) updateData.buildingId = body.buildingId;
     if (body.role) updateData.role = body.role;
 
     if (body.email) {
@@ -202,11 +643,12 @@ export async function adminRoutes(app: FastifyInstance) {
         email: true,
         role: true,
         mustChangePassword: true,
+        buildingId: true,
         createdAt: true
       }
     });
 
-    await logAudit(prisma, req.user.id, 'USER_UPDATED', undefined, {
+    await logAudit(prisma, auditContext(req, user.buildingId), 'USER_UPDATED', undefined, {
       userId: user.id,
       changes: Object.keys(updateData)
     });
@@ -215,20 +657,18 @@ export async function adminRoutes(app: FastifyInstance) {
   });
 
   // Payments Ledger — retry matching all unmatched payments (includes already-approved bookings)
-  app.post('/api/admin/payments-ledger/retry-match', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async () => {
+  app.post('/api/admin/payments-ledger/retry-match', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
     const { MoveType, BookingStatus } = await import('@prisma/client');
+    const building = await resolveStaffBuilding(req);
+    const actor = staffActor(req);
 
     const unmatched = await prisma.paymentsLedger.findMany({
-      where: { moveApprovals: { none: {} }, dismissed: false, feeType: { not: 'unknown' }, unit: { not: null } },
+      where: { ...ledgerScope(building.id), moveApprovals: { none: {} }, dismissed: false, feeType: { not: 'unknown' }, unit: { not: null } },
     });
 
     let matchedCount = 0;
 
     for (const payment of unmatched) {
-      const unit = payment.unit!;
-      const unitVariants = [unit];
-      if (unit.includes('-')) unitVariants.push(unit.split('-').pop()!);
-
       const moveTypeMap: Record<string, typeof MoveType[keyof typeof MoveType]> = {
         move_in: MoveType.MOVE_IN, move_out: MoveType.MOVE_OUT,
         delivery: MoveType.DELIVERY, reno: MoveType.RENO,
@@ -239,9 +679,11 @@ export async function adminRoutes(app: FastifyInstance) {
 
       const booking = await prisma.booking.findFirst({
         where: {
-          unit: { in: unitVariants },
+          buildingId: building.id,
+          unit: { in: unitVariants(payment.unit!) },
           moveType: moveTypeFilter,
           status: { in: [BookingStatus.SUBMITTED, BookingStatus.PENDING, BookingStatus.APPROVED] },
+          deletedAt: null,
         },
       });
 
@@ -258,15 +700,19 @@ export async function adminRoutes(app: FastifyInstance) {
           billingPeriod: payment.billingPeriod,
         },
       });
+      await creditPayment(booking.id, payment.amountCents);
+      if (!payment.buildingId) {
+        await prisma.paymentsLedger.update({ where: { id: payment.id }, data: { buildingId: booking.buildingId } });
+      }
 
-      if (booking.status !== BookingStatus.APPROVED) {
-        await prisma.booking.update({
-          where: { id: booking.id },
-          data: { status: BookingStatus.APPROVED, approvedAt: new Date() },
-        });
+      if (canTransition(booking.status, BookingStatus.APPROVED, actor)) {
+        const approved = await changeBookingStatus(prisma, booking, BookingStatus.APPROVED, actor);
+        await runTransitionEffects(prisma, booking, approved, actor, app.log);
       }
 
-      await sendPaymentConfirmationToDcook(prisma, booking).catch(() => {});
+      await sendPaymentConfirmedNotification(prisma, booking).catch((err) => {
+        app.log.error({ err, bookingId: booking.id }, 'Failed to send payment confirmed notification');
+      });
 
       matchedCount++;
     }
@@ -279,6 +725,7 @@ export async function adminRoutes(app: FastifyInstance) {
     const { month } = z.object({
       month: z.string().regex(/^\d{4}-\d{2}$/).optional(),
     }).parse(req.query);
+    const building = await resolveStaffBuilding(req);
 
     // Default to current month if not provided
     const now = new Date();
@@ -286,27 +733,76 @@ export async function adminRoutes(app: FastifyInstance) {
 
     const [matched, unmatched, dismissed] = await Promise.all([
       prisma.paymentsLedger.findMany({
-        where: { moveApprovals: { some: {} }, billingPeriod: activeMonth },
+        where: { buildingId: building.id, moveApprovals: { some: {} }, billingPeriod: activeMonth },
         include: { moveApprovals: true },
         orderBy: { paidAt: 'desc' },
       }),
       prisma.paymentsLedger.findMany({
-        where: { moveApprovals: { none: {} }, dismissed: false },
+        where: { ...ledgerScope(building.id), moveApprovals: { none: {} }, dismissed: false },
         orderBy: { paidAt: 'desc' },
       }),
       prisma.paymentsLedger.findMany({
-        where: { dismissed: true },
+        where: { ...ledgerScope(building.id), dismissed: true },
         orderBy: { dismissedAt: 'desc' },
       }),
     ]);
-    return { unmatched, matched, dismissed, month: activeMonth };
+
+    // Attach each matched booking's amounts so the ledger reconciles what was paid against what is due
+    const bookingIds = matched.flatMap((p) => p.moveApprovals.map((a) => a.moveRequestId));
+    const bookings = await prisma.booking.findMany({ where: { id: { in: bookingIds } } });
+    const byId = new Map(bookings.map((b) => [b.id, { id: b.id, unit: b.unit, moveType: b.moveType, ...feeSummary(b) }]));
+    const matchedWithBookings = matched.map((p) => ({ ...p, booking: byId.get(p.moveApprovals[0]?.moveRequestId) ?? null }));
+
+    return { unmatched, matched: matchedWithBookings, dismissed, month: activeMonth };
+  });
+
+  // Payments received in a date range, as CSV or an Excel workbook, for reconciling fees in council reports
+  const ledgerStatusWhere = {
+    matched: { moveApprovals: { some: {} } },
+    unmatched: { moveApprovals: { none: {} }, dismissed: false },
+    dismissed: { moveApprovals: { none: {} }, dismissed: true },
+  };
+  const ledgerExportSchema = z.object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    status: listOf(z.enum(LEDGER_STATUSES)),
+    columns: exportColumnsSchema(LEDGER_EXPORT_COLUMNS, Object.keys(LEDGER_EXPORT_COLUMNS) as (keyof typeof LEDGER_EXPORT_COLUMNS)[]),
   });
+  for (const format of EXPORT_FORMATS) {
+    app.get(`/api/admin/payments-ledger/export.${format}`, { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+      const query = ledgerExportSchema.parse(req.query);
+      const building = await resolveStaffBuilding(req);
+
+      const payments = await prisma.paymentsLedger.findMany({
+        where: {
+          AND: [
+            ledgerScope(building.id),
+            ...(query.status?.length ? [{ OR: query.status.map((s) => ledgerStatusWhere[s]) }] : []),
+          ],
+          ...((query.from || query.to) && {
+            paidAt: {
+              ...(query.from && { gte: dayjs(query.from).startOf('day').toDate() }),
+              ...(query.to && { lte: dayjs(query.to).endOf('day').toDate() }),
+            },
+          }),
+        },
+        include: { moveApprovals: true },
+        orderBy: { paidAt: 'asc' },
+      });
+
+      const { body, contentType } = buildExport(format, `${building.name} Payments`, LEDGER_EXPORT_COLUMNS, query.columns, payments);
+      reply.header('content-type', contentType);
+      reply.header('content-disposition', `attachment; filename="${building.slug}-payments.${format}"`);
+      return body;
+    });
+  }
 
   app.patch('/api/admin/payments-ledger/:id/dismiss', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
     const id = z.string().uuid().parse((req.params as { id: string }).id);
     const { reason } = z.object({ reason: z.string().min(1, 'Reason is required') }).parse(req.body);
 
-    const payment = await prisma.paymentsLedger.findUnique({ where: { id } });
+    const building = await resolveStaffBuilding(req);
+    const payment = await prisma.paymentsLedger.findFirst({ where: { id, ...ledgerScope(building.id) } });
     if (!payment) return reply.status(404).send({ message: 'Payment not found' });
 
     const updated = await prisma.paymentsLedger.update({
@@ -319,7 +815,8 @@ export async function adminRoutes(app: FastifyInstance) {
   app.patch('/api/admin/payments-ledger/:id/restore', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
     const id = z.string().uuid().parse((req.params as { id: string }).id);
 
-    const payment = await prisma.paymentsLedger.findUnique({ where: { id } });
+    const building = await resolveStaffBuilding(req);
+    const payment = await prisma.paymentsLedger.findFirst({ where: { id, ...ledgerScope(building.id) } });
     if (!payment) return reply.status(404).send({ message: 'Payment not found' });
 
     const updated = await prisma.paymentsLedger.update({
@@ -333,7 +830,8 @@ export async function adminRoutes(app: FastifyInstance) {
     const id = z.string().uuid().parse((req.params as { id: string }).id);
     const { feeType } = z.object({ feeType: z.enum(['move_in', 'move_out', 'delivery', 'reno', 'suitcase_move']) }).parse(req.body);
 
-    const payment = await prisma.paymentsLedger.findUnique({ where: { id } });
+    const building = await resolveStaffBuilding(req);
+    const payment = await prisma.paymentsLedger.findFirst({ where: { id, ...ledgerScope(building.id) } });
     if (!payment) return reply.status(404).send({ message: 'Payment not found' });
 
     const updated = await prisma.paymentsLedger.update({ where: { id }, data: { feeType } });
@@ -349,24 +847,32 @@ export async function adminRoutes(app: FastifyInstance) {
       };
       const moveTypeFilter = moveTypeMap[feeType];
 
-      const unitVariants = [updated.unit];
-      if (updated.unit.includes('-')) unitVariants.push(updated.unit.split('-').pop()!);
-
       const matchingBooking = moveTypeFilter ? await prisma.booking.findFirst({
         where: {
-          unit: { in: unitVariants },
+          buildingId: building.id,
+          unit: { in: unitVariants(updated.unit) },
           moveType: moveTypeFilter,
           status: { in: [BookingStatus.SUBMITTED, BookingStatus.PENDING] },
+          deletedAt: null,
         },
       }) : null;
 
       if (matchingBooking) {
+        const actor = staffActor(req);
         approvalResult = await checkAndApproveMoveRequest({
           unit: updated.unit,
           feeType,
           billingPeriod: updated.billingPeriod,
           bookingId: matchingBooking.id,
+          actor,
         });
+        if (approvalResult.approved) {
+          const approved = await prisma.booking.findUniqueOrThrow({ where: { id: matchingBooking.id } });
+          await runTransitionEffects(prisma, matchingBooking, approved, actor, app.log);
+          await sendPaymentConfirmedNotification(prisma, matchingBooking).catch((err) => {
+            app.log.error({ err, bookingId: matchingBooking.id }, 'Failed to send payment confirmed notification');
+          });
+        }
       }
     }
 
@@ -376,13 +882,18 @@ export async function adminRoutes(app: FastifyInstance) {
   // Search bookings for manual payment matching
   app.get('/api/admin/payments-ledger/bookings-search', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
     const { unit } = z.object({ unit: z.string().optional() }).parse(req.query);
-
-    const where = unit ? {
-      OR: [
-        { unit: { contains: unit, mode: 'insensitive' as const } },
-        { unit: { endsWith: `-${unit}` } },
-      ],
-    } : {};
+    const building = await resolveStaffBuilding(req);
+
+    const where = {
+      buildingId: building.id,
+      deletedAt: null,
+      ...(unit ? {
+        OR: [
+          { unit: { contains: unit, mode: 'insensitive' as const } },
+          { unit: { endsWith: `-${unit}` } },
+        ],
+      } : {}),
+    };
 
     const bookings = await prisma.booking.findMany({
       where,
@@ -407,15 +918,19 @@ export async function adminRoutes(app: FastifyInstance) {
     const id = z.string().uuid().parse((req.params as { id: string }).id);
     const { bookingId } = z.object({ bookingId: z.string().uuid() }).parse(req.body);
 
-    const payment = await prisma.paymentsLedger.findUnique({ where: { id } });
+    const building = await resolveStaffBuilding(req);
+    const payment = await prisma.paymentsLedger.findFirst({ where: { id, ...ledgerScope(building.id) } });
     if (!payment) return reply.status(404).send({ message: 'Payment not found' });
 
     const existingApproval = await prisma.moveApproval.findFirst({ where: { invoiceId: payment.invoiceId } });
     if (existingApproval) return reply.status(409).send({ message: 'Payment is already matched to a booking' });
 
-    const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
+    const booking = await prisma.booking.findFirst({ where: { id: bookingId, buildingId: building.id, deletedAt: null } });
     if (!booking) return reply.status(404).send({ message: 'Booking not found' });
 
+    if (!payment.buildingId) {
+      await prisma.paymentsLedger.update({ where: { id: payment.id }, data: { buildingId: booking.buildingId } });
+    }
     await prisma.moveApproval.create({
       data: {
         moveRequestId: bookingId,
@@ -424,16 +939,17 @@ export async function adminRoutes(app: FastifyInstance) {
         billingPeriod: payment.billingPeriod,
       },
     });
+    await creditPayment(bookingId, payment.amountCents);
 
-    if (booking.status !== BookingStatus.APPROVED) {
-      await prisma.booking.update({
-        where: { id: bookingId },
-        data: { status: BookingStatus.APPROVED, approvedAt: new Date() },
-      });
+    // Payment on a cancelled or rejected booking is recorded without reviving it
+    const actor = staffActor(req);
+    if (canTransition(booking.status, BookingStatus.APPROVED, actor)) {
+      const approved = await changeBookingStatus(prisma, booking, BookingStatus.APPROVED, actor);
+      await runTransitionEffects(prisma, booking, approved, actor, app.log);
     }
 
-    await sendPaymentConfirmationToDcook(prisma, booking).catch((err) => {
-      app.log.error({ err, bookingId }, 'Failed to send payment confirmation to dcook');
+    await sendPaymentConfirmedNotification(prisma, booking).catch((err) => {
+      app.log.error({ err, bookingId }, 'Failed to send payment confirmed notification');
     });
 
     return { ok: true };
@@ -451,26 +967,28 @@ export async function adminRoutes(app: FastifyInstance) {
     // Get user before deletion for audit log
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: { email: true, role: true }
+      select: { email: true, role: true, buildingId: true }
     });
 
-    if (!user) {
+    const staffBuildingId = await getStaffBuildingId(req.user.id);
+    if (!user || (staffBuildingId && user.buildingId !== staffBuildingId)) {
       return reply.status(404).send({ message: 'User not found' });
     }
 
-    // Prevent deleting the last CONCIERGE — it is used as the system user for public bookings
+    // Prevent deleting a building's last CONCIERGE — it is the system user for that building's public bookings
     if (user.role === UserRole.CONCIERGE) {
-      const conciergeCount = await prisma.user.count({ where: { role: UserRole.CONCIERGE } });
+      const conciergeCount = await prisma.user.count({ where: { role: UserRole.CONCIERGE, buildingId: user.buildingId } });
       if (conciergeCount <= 1) {
-        return reply.status(400).send({ message: 'Cannot delete the last concierge account — it is required for the system.' });
+        return reply.status(400).send({ message: 'Cannot delete the last concierge account for this building — it is required for the system.' });
       }
     }
 
     // Before deleting, re-home any FK references to this user.
-    // bookings.created_by and audit_log.actor_user_id are NOT NULL, so reassign them
-    // to the system concierge. bookings.approved_by is nullable so null it out.
+    // bookings.created_by is NOT NULL, so reassign it to the building's system concierge.
+    // bookings.approved_by is nullable so null it out; audit entries keep the
+    // deleted user's email as their actor.
     const systemUser = await prisma.user.findFirst({
-      where: { role: UserRole.CONCIERGE, id: { not: userId } }
+      where: { role: UserRole.CONCIERGE, ...(user.buildingId && { buildingId: user.buildingId }), id: { not: userId } }
     });
     if (!systemUser) {
       return reply.status(400).send({ message: 'No fallback concierge account found — cannot safely delete this user.' });
@@ -487,12 +1005,12 @@ export async function adminRoutes(app: FastifyInstance) {
       }),
       prisma.auditLog.updateMany({
         where: { actorUserId: userId },
-        data: { actorUserId: systemUser.id }
+        data: { actorUserId: null, actorLabel: user.email }
       }),
       prisma.user.delete({ where: { id: userId } })
     ]);
 
-    await logAudit(prisma, req.user.id, 'USER_DELETED', undefined, {
+    await logAudit(prisma, auditContext(req, user.buildingId), 'USER_DELETED', undefined, {
       userId,
       email: user.email,
       role: user.role
@@ -1,18 +1,30 @@
-import { FastifyInstance } from 'fastify';
-import { BookingStatus, MoveType, NotifyEvent, UserRole } from '@prisma/client';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { Building, BookingStatus, EmailTemplateKey, MoveType, NotifyEvent, UserRole, WaitlistEntry, WaitlistStatus } from '@prisma/client';
 import dayjs from 'dayjs';
 import { z } from 'zod';
 import path from 'path';
 import fs from 'fs/promises';
 import { nanoid } from 'nanoid';
 import { prisma } from '../prisma.js';
-import { assertNoConflict } from '../services/conflictService.js';
+import { assertNoConflict, isResourceConflict } from '../services/conflictService.js';
 import { requireAuth, requireRole } from '../middleware/auth.js';
-import { sendEmail, sendNotificationRecipients, bookingDetailsHtml, emailWrapper, sendPaymentConfirmationToDcook, sendPaymentReminderEmail } from '../services/emailService.js';
-import { logAudit } from '../services/auditService.js';
+import { sendTemplatedEmail, bookingDetailsHtml, emailWrapper, payInvoiceHtml, resendEmail, sendPaymentReminderEmail, seriesDatesHtml, statusReasonHtml } from '../services/emailService.js';
+import { notifyResident, sendNotificationRecipients, sendPaymentConfirmedNotification } from '../services/notificationService.js';
+import { auditContext, auditDiff, auditEntryData, BOOKING_AUDIT_FIELDS, logAudit } from '../services/auditService.js';
 import { config } from '../config.js';
 import { validateMoveTime } from '../utils/moveTimeValidator.js';
 import { checkAndApproveMoveRequest } from '../services/moveApprovalService.js';
+import { findSystemUser, NO_SYSTEM_USER_MESSAGE, resolveBuilding, resolveStaffBuilding } from '../services/buildingService.js';
+import { resolveBookingUnit } from '../services/unitService.js';
+import { computeBookingFees, feeSummary } from '../services/feeService.js';
+import { getPaymentProvider } from '../services/paymentProvider.js';
+import { createBookingInvoice } from '../services/invoiceService.js';
+import { MOVE_TYPE_LABELS } from '../utils/moveTypeLabels.js';
+import { joinWaitlist, offerFreedSlot, slotIsFree } from '../services/waitlistService.js';
+import { planSeries } from '../services/seriesService.js';
+import { bookingFilterWhere, bookingListSchema } from '../services/bookingSearchService.js';
+import { trashPurgeDate } from '../services/bookingTrashService.js';
+import { assertTransition, canTransition, changeBookingStatus, runTransitionEffects, staffActor, SYSTEM_ACTOR, transitionAuditData, transitionData } from '../services/bookingStatusService.js';
 
 // ── Email / phone validation helpers ──────────────────────────────────
 const COMMON_TLDS = new Set([
@@ -61,7 +73,7 @@ const createSchema = z.object({
   residentName: z.string().min(1).max(200),
   residentEmail: z.string().email().max(320).refine(isValidEmailTld, { message: 'Email domain does not appear to be valid. Please double-check the address.' }), // RFC 5321 max email length
   residentPhone: z.string().min(1).max(50).refine(isValidPhonePrefix, { message: 'Phone number appears invalid. Please check the area code.' }),
-  unit: z.string().min(1).max(20),
+  unit: z.string().trim().min(1).max(20), // checked against the building's unit registry in the handler
   moveType: z.nativeEnum(MoveType),
   companyName: z.string().max(200).optional(),
   moveDate: z.coerce.date(),
@@ -70,7 +82,8 @@ const createSchema = z.object({
   elevatorRequired: z.boolean(),
   loadingBayRequired: z.boolean(),
   notes: z.string().max(2000).optional(),
-  publicUnitMask: z.string().max(20).optional()
+  publicUnitMask: z.string().max(20).optional(),
+  smsOptIn: z.boolean().optional()
 });
 
 // Quick-entry schema: name/email/phone are optional (admin knows who they're booking for)
@@ -78,37 +91,68 @@ const quickEntrySchema = createSchema.extend({
   residentName:  z.string().max(200).optional().default(''),
   residentEmail: z.string().max(320).optional().default(''),
   residentPhone: z.string().max(50).optional().default(''),
+  resourceIds: z.array(z.string().uuid()).optional(),
 });
 
+// A repeating booking: the resident details of createSchema plus a recurrence in place of one time
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+const recurrenceSchema = z.object({
+  startDate: isoDate,
+  endDate: isoDate,
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+});
+const seriesSchema = createSchema.omit({ moveDate: true, startDatetime: true, endDatetime: true }).extend({
+  recurrence: recurrenceSchema,
+  // Book the dates that are free and skip the rest; otherwise any unavailable date fails the request
+  skipUnavailable: z.boolean().optional(),
+});
+const seriesPreviewSchema = seriesSchema.pick({ moveType: true, elevatorRequired: true, loadingBayRequired: true, recurrence: true });
+
+function httpError(statusCode: number, message: string) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
 // UUID validation schema for ID parameters
 const uuidSchema = z.string().uuid();
 
 export async function bookingRoutes(app: FastifyInstance) {
-  app.post('/api/bookings', async (req, reply) => {
-    const body = createSchema.parse(req.body);
+  /**
+   * Everything a resident booking request does, from validation to the
+   * confirmation emails. Used by the booking form and by waitlist claims.
+   * `holdToken` is the form's slot hold, released once the booking exists.
+   */
+  async function createResidentBooking(building: Building, body: z.infer<typeof createSchema>, holdToken?: string) {
+    const unit = await resolveBookingUnit(building.id, body.unit);
+    const fees = await computeBookingFees(building.id, body.moveType, body.startDatetime, body.endDatetime);
 
     // Validate move time restrictions
-    const timeValidation = validateMoveTime(body.startDatetime, body.endDatetime, body.moveType);
-    if (!timeValidation.valid) {
-      return reply.status(400).send({ message: timeValidation.error });
-    }
+    const timeValidation = await validateMoveTime(building.id, body.startDatetime, body.endDatetime, body.moveType);
+    if (!timeValidation.valid) throw httpError(400, timeValidation.error ?? 'Invalid move time');
 
-    const systemUser = await prisma.user.findFirst({ where: { role: UserRole.CONCIERGE } });
-    if (!systemUser) return reply.status(500).send({ message: 'Seed concierge user first' });
+    const systemUser = await findSystemUser(building.id);
+    if (!systemUser) throw httpError(409, NO_SYSTEM_USER_MESSAGE);
 
-    const booking = await prisma.$transaction(async (tx) => {
-      await assertNoConflict(
+    // Replaced by the approved booking when it is auto-approved, so the emails carry its status
+    let booking = await prisma.$transaction(async (tx) => {
+      const resourceIds = await assertNoConflict(
         tx,
-        { startDatetime: body.startDatetime, endDatetime: body.endDatetime, elevatorRequired: body.elevatorRequired, moveType: body.moveType },
+        { buildingId: building.id, startDatetime: body.startDatetime, endDatetime: body.endDatetime, elevatorRequired: body.elevatorRequired, loadingBayRequired: body.loadingBayRequired, moveType: body.moveType, holdToken },
         false
       );
+      if (holdToken) await tx.slotHold.deleteMany({ where: { token: holdToken } });
       return tx.booking.create({
         data: {
+          buildingId: building.id,
           createdById: systemUser.id,
           residentName: body.residentName,
           residentEmail: body.residentEmail,
           residentPhone: body.residentPhone,
-          unit: body.unit,
+          unit: unit.unit,
+          unitId: unit.unitId,
+          ...fees,
           companyName: body.companyName,
           moveType: body.moveType,
           moveDate: body.moveDate,
@@ -118,8 +162,10 @@ export async function bookingRoutes(app: FastifyInstance) {
           loadingBayRequired: body.loadingBayRequired,
           notes: body.notes,
           publicUnitMask: body.publicUnitMask,
+          smsOptIn: body.smsOptIn ?? false,
           editToken: nanoid(32),
-          status: BookingStatus.SUBMITTED
+          status: BookingStatus.SUBMITTED,
+          resources: { create: resourceIds.map((resourceId) => ({ resourceId })) }
         }
       });
     });
@@ -127,10 +173,7 @@ export async function bookingRoutes(app: FastifyInstance) {
     // Open house bookings are auto-approved immediately (no payment required)
     let openHouseAutoApproved = false;
     if (booking.moveType === MoveType.OPEN_HOUSE) {
-      await prisma.booking.update({
-        where: { id: booking.id },
-        data: { status: BookingStatus.APPROVED, approvedAt: new Date() },
-      });
+      booking = await changeBookingStatus(prisma, booking, BookingStatus.APPROVED, SYSTEM_ACTOR);
       openHouseAutoApproved = true;
     }
 
@@ -149,136 +192,518 @@ export async function bookingRoutes(app: FastifyInstance) {
         return { approved: false };
       });
       paymentConfirmed = approvalResult.approved;
+      if (paymentConfirmed) booking = await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } });
     }
 
-    const moveTypeLabel = { MOVE_IN: 'Move In', MOVE_OUT: 'Move Out', DELIVERY: 'Delivery', RENO: 'Renovation', OPEN_HOUSE: 'Open House', FURNISHED_MOVE: 'Furnished Move', SUITCASE_MOVE: 'Suitcase Move' }[booking.moveType] ?? booking.moveType;
-    const dateLabel = dayjs(booking.startDatetime).format('MMM D, YYYY');
+    // Raise the invoice up front so the resident can pay from the confirmation email
+    let invoiced: typeof booking | null = null;
+    if (!openHouseAutoApproved && !paymentConfirmed) {
+      invoiced = await createBookingInvoice(booking).catch((err) => {
+        app.log.error({ err, bookingId: booking.id }, 'Failed to create booking invoice');
+        return null;
+      });
+    }
+
+    const moveTypeLabel = MOVE_TYPE_LABELS[booking.moveType];
     const manageUrl = booking.editToken ? `${config.frontendOrigins[0]}/booking/${booking.id}?token=${booking.editToken}` : undefined;
 
     if (openHouseAutoApproved) {
       // Open house bookings are auto-approved — no payment needed
       await sendNotificationRecipients(
         prisma,
+        building.id,
         NotifyEvent.APPROVED,
         `Booking Auto-Approved — ${moveTypeLabel} for Unit ${booking.unit}`,
         emailWrapper(
           'Booking Auto-Approved',
           'An open house booking has been automatically approved.',
-          bookingDetailsHtml(booking, true, true)
-        )
+          bookingDetailsHtml(booking, true, true),
+          undefined,
+          undefined,
+          building
+        ),
+        { bookingId: booking.id }
       ).catch((err) => {
         app.log.error({ err, bookingId: booking.id, event: 'APPROVED' }, 'Failed to send open house auto-approval notification email');
       });
 
-      await sendEmail(
-        prisma,
-        body.residentEmail,
-        `Booking Approved — ${moveTypeLabel} on ${dateLabel}`,
-        emailWrapper(
-          'Booking Approved',
-          'Your open house booking has been automatically approved.',
-          bookingDetailsHtml(booking, false, true),
-          undefined,
-          manageUrl
-        )
-      ).catch((err) => {
+      await notifyResident(prisma, EmailTemplateKey.APPROVED, booking, { manageUrl, paymentConfirmed: true, attachCalendar: true }).catch((err) => {
         app.log.error({ err, bookingId: booking.id, email: body.residentEmail }, 'Failed to send open house auto-approval email');
       });
     } else if (paymentConfirmed) {
       // Booking was auto-approved — send approval emails, not a pending-review email
       await sendNotificationRecipients(
         prisma,
+        building.id,
         NotifyEvent.APPROVED,
         `Booking Auto-Approved (Payment Confirmed) — ${moveTypeLabel} for Unit ${booking.unit}`,
         emailWrapper(
           'Booking Auto-Approved',
           'A move fee payment was confirmed in Invoice Ninja. The following booking has been automatically approved.',
-          bookingDetailsHtml(booking, true, true)
-        )
+          bookingDetailsHtml(booking, true, true),
+          undefined,
+          undefined,
+          building
+        ),
+        { bookingId: booking.id }
       ).catch((err) => {
         app.log.error({ err, bookingId: booking.id, event: 'APPROVED' }, 'Failed to send auto-approval notification email');
       });
 
-      await sendEmail(
-        prisma,
-        body.residentEmail,
-        `Booking Approved — ${moveTypeLabel} on ${dateLabel}`,
-        emailWrapper(
-          'Booking Approved',
-          'Your move fee payment has been confirmed. Your booking has been automatically approved.',
-          bookingDetailsHtml(booking, false, true),
-          undefined,
-          manageUrl
-        )
-      ).catch((err) => {
+      await notifyResident(prisma, EmailTemplateKey.APPROVED, booking, { manageUrl, paymentConfirmed: true, attachCalendar: true }).catch((err) => {
         app.log.error({ err, bookingId: booking.id, email: body.residentEmail }, 'Failed to send auto-approval email');
       });
 
-      await sendPaymentConfirmationToDcook(prisma, booking).catch((err) => {
-        app.log.error({ err, bookingId: booking.id }, 'Failed to send payment confirmation to dcook');
+      await sendPaymentConfirmedNotification(prisma, booking).catch((err) => {
+        app.log.error({ err, bookingId: booking.id }, 'Failed to send payment confirmed notification');
       });
     } else {
       await sendNotificationRecipients(
         prisma,
+        building.id,
         NotifyEvent.SUBMITTED,
         `New Booking Request — ${moveTypeLabel} for Unit ${booking.unit}`,
         emailWrapper(
           'New Booking Request',
           'A new booking request has been submitted and is awaiting review.',
-          bookingDetailsHtml(booking, true)
-        )
+          bookingDetailsHtml(booking, true),
+          undefined,
+          undefined,
+          building
+        ),
+        { bookingId: booking.id }
       ).catch((err) => {
         app.log.error({ err, bookingId: booking.id, event: 'SUBMITTED' }, 'Failed to send notification email');
       });
 
-      await sendEmail(
-        prisma,
-        body.residentEmail,
-        `Booking Request Received — ${moveTypeLabel} on ${dateLabel}`,
-        emailWrapper(
-          'Booking Request Received',
-          'Your booking request has been submitted and is pending review.',
-          bookingDetailsHtml(booking),
-          undefined,
-          manageUrl
-        )
-      ).catch((err) => {
+      await sendTemplatedEmail(prisma, EmailTemplateKey.SUBMITTED, body.residentEmail, booking, {
+        manageUrl,
+        extraHtml: invoiced?.invoicePayUrl ? payInvoiceHtml(invoiced.invoicePayUrl, feeSummary(invoiced).amountDueCents) : undefined
+      }).catch((err) => {
         app.log.error({ err, bookingId: booking.id, email: body.residentEmail }, 'Failed to send booking confirmation email');
       });
     }
 
-    return booking;
+    return invoiced ?? booking;
+  }
+
+  app.post('/api/bookings', async (req, reply) => {
+    const body = createSchema.parse(req.body);
+    // Kept out of createSchema, which also describes waitlist entries
+    const { holdToken } = z.object({ holdToken: z.string().max(64).optional() }).parse(req.body);
+    const building = await resolveBuilding(req);
+    try {
+      return await createResidentBooking(building, body, holdToken);
+    } catch (err) {
+      // The resident can join the waitlist for a full slot instead
+      if (isResourceConflict(err)) return reply.status(409).send({ message: err.message, waitlist: true });
+      throw err;
+    }
+  });
+
+  // ── Recurring bookings, e.g. a renovation with trades in every weekday morning ──
+  app.post('/api/bookings/series/preview', async (req) => {
+    const body = seriesPreviewSchema.parse(req.body);
+    const building = await resolveBuilding(req);
+    return { occurrences: await planSeries(prisma, building.id, body) };
+  });
+
+  app.post('/api/bookings/series', async (req, reply) => {
+    const body = seriesSchema.parse(req.body);
+    const building = await resolveBuilding(req);
+    const occurrences = await planSeries(prisma, building.id, body);
+    const available = occurrences.filter((o) => o.available);
+    const unavailableCount = occurrences.length - available.length;
+    if (available.length === 0) {
+      return reply.status(409).send({ message: 'None of the dates in this series are available', occurrences });
+    }
+    if (unavailableCount > 0 && !body.skipUnavailable) {
+      return reply.status(409).send({ message: `${unavailableCount} of ${occurrences.length} dates are unavailable`, occurrences });
+    }
+
+    const unit = await resolveBookingUnit(building.id, body.unit);
+    const systemUser = await findSystemUser(building.id);
+    if (!systemUser) throw httpError(409, NO_SYSTEM_USER_MESSAGE);
+    const fees = await Promise.all(available.map((o) => computeBookingFees(building.id, body.moveType, o.startDatetime, o.endDatetime)));
+
+    const created = await prisma.$transaction(async (tx) => {
+      const series = await tx.bookingSeries.create({
+        data: {
+          buildingId: building.id,
+          moveType: body.moveType,
+          startDate: new Date(body.recurrence.startDate),
+          endDate: new Date(body.recurrence.endDate),
+          daysOfWeek: [...new Set(body.recurrence.daysOfWeek)].sort(),
+          startTime: body.recurrence.startTime,
+          endTime: body.recurrence.endTime,
+        }
+      });
+      const bookings = [];
+      for (const [i, occurrence] of available.entries()) {
+        // Checked again inside the transaction in case a date was taken since the preview
+        const resourceIds = await assertNoConflict(
+          tx,
+          { buildingId: building.id, startDatetime: occurrence.startDatetime, endDatetime: occurrence.endDatetime, elevatorRequired: body.elevatorRequired, loadingBayRequired: body.loadingBayRequired, moveType: body.moveType },
+          false
+        );
+        bookings.push(await tx.booking.create({
+          data: {
+            buildingId: building.id,
+            createdById: systemUser.id,
+            seriesId: series.id,
+            residentName: body.residentName,
+            residentEmail: body.residentEmail,
+            residentPhone: body.residentPhone,
+            unit: unit.unit,
+            unitId: unit.unitId,
+            ...fees[i],
+            companyName: body.companyName,
+            moveType: body.moveType,
+            moveDate: new Date(occurrence.date),
+            startDatetime: occurrence.startDatetime,
+            endDatetime: occurrence.endDatetime,
+            elevatorRequired: body.elevatorRequired,
+            loadingBayRequired: body.loadingBayRequired,
+            notes: body.notes,
+            publicUnitMask: body.publicUnitMask,
+            smsOptIn: body.smsOptIn ?? false,
+            editToken: nanoid(32),
+            status: BookingStatus.SUBMITTED,
+            resources: { create: resourceIds.map((resourceId) => ({ resourceId })) }
+          }
+        }));
+      }
+      return { series, bookings };
+    });
+
+    // Each date is priced and invoiced on its own so it can be paid, moved or cancelled separately
+    const bookings = [];
+    for (const booking of created.bookings) {
+      const invoiced = await createBookingInvoice(booking).catch((err) => {
+        app.log.error({ err, bookingId: booking.id }, 'Failed to create booking invoice');
+        return null;
+      });
+      bookings.push(invoiced ?? booking);
+    }
+
+    const first = bookings[0];
+    const manageUrlFor = (b: { id: string; editToken: string | null }) => `${config.frontendOrigins[0]}/booking/${b.id}?token=${b.editToken}`;
+    const datesHtml = seriesDatesHtml(bookings.map((b) => ({ ...b, manageUrl: manageUrlFor(b) })));
+
+    await sendNotificationRecipients(
+      prisma,
+      building.id,
+      NotifyEvent.SUBMITTED,
+      `New Booking Series — ${MOVE_TYPE_LABELS[first.moveType]} for Unit ${first.unit} (${bookings.length} dates)`,
+      emailWrapper(
+        'New Booking Series',
+        'A recurring booking request has been submitted and is awaiting review. Each date can be approved separately or as a series.',
+        bookingDetailsHtml(first, true) + seriesDatesHtml(bookings),
+        undefined,
+        undefined,
+        building
+      ),
+      { bookingId: first.id }
+    ).catch((err) => {
+      app.log.error({ err, seriesId: created.series.id, event: 'SUBMITTED' }, 'Failed to send series notification email');
+    });
+
+    await sendTemplatedEmail(prisma, EmailTemplateKey.SUBMITTED, body.residentEmail, first, { manageUrl: manageUrlFor(first), extraHtml: datesHtml }).catch((err) => {
+      app.log.error({ err, seriesId: created.series.id, email: body.residentEmail }, 'Failed to send series confirmation email');
+    });
+
+    return { seriesId: created.series.id, bookings, occurrences };
+  });
+
+  app.post('/api/admin/series/:id/status', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const seriesId = uuidSchema.parse((req.params as { id: string }).id);
+    const { status, reason } = z
+      .object({ status: z.enum([BookingStatus.APPROVED, BookingStatus.REJECTED, BookingStatus.CANCELLED]), reason: z.string().max(500).optional() })
+      .parse(req.body);
+    const actor = staffActor(req);
+    const building = await resolveStaffBuilding(req);
+    const series = await prisma.bookingSeries.findFirst({
+      where: { id: seriesId, buildingId: building.id },
+      include: { bookings: { where: { startDatetime: { gt: new Date() }, deletedAt: null }, orderBy: { startDatetime: 'asc' } } }
+    });
+    if (!series) return reply.status(404).send({ message: 'Series not found' });
+    // Past dates and dates already past this status are left alone
+    const affected = series.bookings.filter((b) => canTransition(b.status, status, actor));
+    if (affected.length === 0) {
+      return reply.status(400).send({ message: 'No upcoming dates in this series can be changed to that status' });
+    }
+    assertTransition(affected[0].status, status, actor, reason);
+
+    // Each date changes only from the status read above; one someone else changed meanwhile keeps their change
+    const changed = await prisma.$transaction(async (tx) => {
+      const done: typeof affected = [];
+      for (const booking of affected) {
+        // Approving re-checks every date for conflicts, as approving a single booking does
+        const resourceIds = status === BookingStatus.APPROVED
+          ? await assertNoConflict(
+              tx,
+              {
+                id: booking.id,
+                buildingId: booking.buildingId,
+                startDatetime: booking.startDatetime,
+                endDatetime: booking.endDatetime,
+                elevatorRequired: booking.elevatorRequired,
+                loadingBayRequired: booking.loadingBayRequired,
+                moveType: booking.moveType,
+              },
+              false
+            )
+          : undefined;
+        const { count } = await tx.booking.updateMany({ where: { id: booking.id, status: booking.status, deletedAt: null }, data: transitionData(status, actor, reason) });
+        if (count === 0) continue;
+        if (resourceIds) {
+          await tx.booking.update({ where: { id: booking.id }, data: { resources: { deleteMany: {}, create: resourceIds.map((resourceId) => ({ resourceId })) } } });
+        }
+        await tx.auditLog.create({ data: transitionAuditData(booking, booking.status, status, actor, reason, { seriesId }) });
+        done.push(booking);
+      }
+      return done;
+    });
+    if (changed.length === 0) {
+      return reply.status(409).send({ message: 'The series was changed by someone else. Reload and try again.' });
+    }
+    const ids = changed.map((b) => b.id);
+    const updated = await prisma.booking.findMany({ where: { id: { in: ids } }, orderBy: { startDatetime: 'asc' } });
+
+    const first = updated[0];
+    const manageUrl = first.editToken ? `${config.frontendOrigins[0]}/booking/${first.id}?token=${first.editToken}` : undefined;
+    const moveLabel = MOVE_TYPE_LABELS[first.moveType];
+    const datesHtml = seriesDatesHtml(updated) + (first.statusReason ? statusReasonHtml(first.statusReason) : '');
+    const wasApproved = changed.filter((b) => b.status === BookingStatus.APPROVED);
+
+    if (status === BookingStatus.APPROVED) {
+      await notifyResident(prisma, EmailTemplateKey.APPROVED, first, { manageUrl, extraHtml: datesHtml, attachCalendar: true, calendarBookings: updated }).catch((err) => {
+        app.log.error({ err, seriesId, email: first.residentEmail }, 'Failed to send series approval email');
+      });
+    } else if (status === BookingStatus.REJECTED) {
+      await sendTemplatedEmail(prisma, EmailTemplateKey.REJECTED, first.residentEmail, first, { manageUrl, extraHtml: datesHtml }).catch((err) => {
+        app.log.error({ err, seriesId, email: first.residentEmail }, 'Failed to send series rejection email');
+      });
+    } else {
+      // Only dates already in the resident's calendar need cancelling there
+      const calendarBookings = updated.filter((b) => wasApproved.some((a) => a.id === b.id));
+      await notifyResident(prisma, EmailTemplateKey.CANCELLED, first, {
+        manageUrl,
+        extraHtml: datesHtml,
+        attachCalendar: calendarBookings.length > 0,
+        calendarBookings,
+      }).catch((err) => {
+        app.log.error({ err, seriesId, email: first.residentEmail }, 'Failed to send series cancellation email');
+      });
+    }
+
+    // Approval notices follow the building's contact-details setting, as for single bookings
+    const settings = status === BookingStatus.APPROVED ? await prisma.appSetting.findUnique({ where: { buildingId: building.id } }) : null;
+    const includeContact = status !== BookingStatus.APPROVED || !!settings?.includeResidentContactInApprovalEmails;
+    const [title, intro] = {
+      APPROVED: ['Booking Series Approved', 'The following booking series has been approved.'],
+      REJECTED: ['Booking Series Rejected', 'The following booking series has been rejected.'],
+      CANCELLED: ['Booking Series Cancelled', 'The following booking series has been cancelled.'],
+    }[status];
+    await sendNotificationRecipients(
+      prisma,
+      building.id,
+      NotifyEvent[status],
+      `${title} — ${moveLabel} for Unit ${first.unit} (${updated.length} dates)`,
+      emailWrapper(title, intro, bookingDetailsHtml(first, includeContact) + datesHtml, undefined, undefined, building),
+      { bookingId: first.id }
+    ).catch((err) => {
+      app.log.error({ err, seriesId, event: status }, 'Failed to send series notification');
+    });
+
+    if (status !== BookingStatus.APPROVED) {
+      for (const booking of changed) {
+        await offerFreedSlot(prisma, booking).catch((err) => {
+          app.log.error({ err, bookingId: booking.id }, 'Failed to offer freed slot to the waitlist');
+        });
+      }
+    }
+
+    await logAudit(prisma, auditContext(req, building.id), `SERIES_${status}`, undefined, { seriesId, bookingIds: ids, reason });
+    return { seriesId, bookings: updated };
+  });
+
+  // ── Waitlist for fully booked slots (token-gated like resident bookings) ──
+  function waitlistEntryToResponse(entry: WaitlistEntry) {
+    return {
+      id: entry.id,
+      residentName: entry.residentName,
+      unit: entry.unit,
+      moveType: entry.moveType,
+      moveTypeLabel: MOVE_TYPE_LABELS[entry.moveType],
+      startDatetime: entry.startDatetime,
+      endDatetime: entry.endDatetime,
+      elevatorRequired: entry.elevatorRequired,
+      loadingBayRequired: entry.loadingBayRequired,
+      status: entry.status,
+      offerExpiresAt: entry.offerExpiresAt,
+      claimedBookingId: entry.claimedBookingId
+    };
+  }
+
+  async function findWaitlistEntry(req: FastifyRequest, reply: FastifyReply) {
+    const { id } = req.params as { id: string };
+    const { token } = req.query as { token?: string };
+    if (!token) {
+      reply.status(401).send({ message: 'Token is required' });
+      return null;
+    }
+    const entry = uuidSchema.safeParse(id).success ? await prisma.waitlistEntry.findUnique({ where: { id } }) : null;
+    if (!entry || entry.token !== token) {
+      reply.status(404).send({ message: 'Waitlist entry not found' });
+      return null;
+    }
+    return entry;
+  }
+
+  app.post('/api/bookings/waitlist', async (req, reply) => {
+    const body = createSchema.parse(req.body);
+    const building = await resolveBuilding(req);
+    const timeValidation = await validateMoveTime(building.id, body.startDatetime, body.endDatetime, body.moveType);
+    if (!timeValidation.valid) {
+      return reply.status(400).send({ message: timeValidation.error });
+    }
+    const unit = await resolveBookingUnit(building.id, body.unit);
+    const request = { ...body, unit: unit.unit, smsOptIn: body.smsOptIn ?? false };
+    if (await slotIsFree(prisma, { ...request, buildingId: building.id })) {
+      return reply.status(409).send({ message: 'That time is available now. Please submit a booking request instead.' });
+    }
+    const entry = await joinWaitlist(prisma, building.id, request);
+    return waitlistEntryToResponse(entry);
+  });
+
+  app.get('/api/bookings/waitlist/:id', async (req, reply) => {
+    const entry = await findWaitlistEntry(req, reply);
+    if (!entry) return reply;
+    return waitlistEntryToResponse(entry);
+  });
+
+  // Turns an open offer into a booking request, exactly as if the resident had submitted the form
+  app.post('/api/bookings/waitlist/:id/claim', async (req, reply) => {
+    const entry = await findWaitlistEntry(req, reply);
+    if (!entry) return reply;
+    if (entry.status !== WaitlistStatus.OFFERED) {
+      return reply.status(400).send({ message: entry.status === WaitlistStatus.CLAIMED ? 'This time has already been claimed' : 'There is no open offer for this waitlist entry' });
+    }
+    if (!entry.offerExpiresAt || entry.offerExpiresAt <= new Date()) {
+      return reply.status(410).send({ message: 'This offer has expired' });
+    }
+
+    // Claim the offer before booking, so a double submit cannot create two bookings from it
+    const { count } = await prisma.waitlistEntry.updateMany({
+      where: { id: entry.id, status: WaitlistStatus.OFFERED, offerExpiresAt: { gt: new Date() } },
+      data: { status: WaitlistStatus.CLAIMED }
+    });
+    if (count === 0) return reply.status(409).send({ message: 'This time has already been claimed' });
+
+    const building = await prisma.building.findUniqueOrThrow({ where: { id: entry.buildingId } });
+    try {
+      const booking = await createResidentBooking(building, {
+        residentName: entry.residentName,
+        residentEmail: entry.residentEmail,
+        residentPhone: entry.residentPhone,
+        unit: entry.unit,
+        moveType: entry.moveType,
+        companyName: entry.companyName ?? undefined,
+        moveDate: entry.moveDate,
+        startDatetime: entry.startDatetime,
+        endDatetime: entry.endDatetime,
+        elevatorRequired: entry.elevatorRequired,
+        loadingBayRequired: entry.loadingBayRequired,
+        notes: entry.notes ?? undefined,
+        publicUnitMask: entry.publicUnitMask ?? undefined,
+        smsOptIn: entry.smsOptIn
+      });
+      await prisma.waitlistEntry.update({ where: { id: entry.id }, data: { claimedBookingId: booking.id } });
+      return { bookingId: booking.id, editToken: booking.editToken };
+    } catch (err) {
+      if (!isResourceConflict(err)) {
+        // The offer still stands; let the resident try again
+        await prisma.waitlistEntry.update({ where: { id: entry.id }, data: { status: WaitlistStatus.OFFERED } });
+        throw err;
+      }
+      // Someone booked the slot first; keep the resident's place in line
+      await prisma.waitlistEntry.update({ where: { id: entry.id }, data: { status: WaitlistStatus.WAITING, offeredAt: null, offerExpiresAt: null } });
+      return reply.status(409).send({ message: 'Sorry, this time was booked before you claimed it. You are still on the waitlist.' });
+    }
+  });
+
+  app.post('/api/bookings/waitlist/:id/leave', async (req, reply) => {
+    const entry = await findWaitlistEntry(req, reply);
+    if (!entry) return reply;
+    if (entry.status !== WaitlistStatus.WAITING && entry.status !== WaitlistStatus.OFFERED) {
+      return reply.status(400).send({ message: 'This waitlist entry is already closed' });
+    }
+    const updated = await prisma.waitlistEntry.update({ where: { id: entry.id }, data: { status: WaitlistStatus.CANCELLED } });
+    // A declined offer goes straight to the next person
+    if (entry.status === WaitlistStatus.OFFERED) {
+      await offerFreedSlot(prisma, entry).catch((err) => {
+        app.log.error({ err, waitlistEntryId: entry.id }, 'Failed to pass declined waitlist offer on');
+      });
+    }
+    return waitlistEntryToResponse(updated);
+  });
+
+  app.get('/api/admin/waitlist', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const building = await resolveStaffBuilding(req);
+    const entries = await prisma.waitlistEntry.findMany({
+      where: { buildingId: building.id, status: { in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] }, startDatetime: { gt: new Date() } },
+      orderBy: [{ startDatetime: 'asc' }, { createdAt: 'asc' }]
+    });
+    return entries.map((e) => ({ ...waitlistEntryToResponse(e), residentEmail: e.residentEmail, residentPhone: e.residentPhone, createdAt: e.createdAt }));
   });
 
   app.post('/api/admin/quick-entry/approve', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
     const body = quickEntrySchema.parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const unit = await resolveBookingUnit(building.id, body.unit);
+    const fees = await computeBookingFees(building.id, body.moveType, body.startDatetime, body.endDatetime);
 
     // Validate move time restrictions (admins can override with proper role)
     const user = req.user;
     const overrideRoles: UserRole[] = [UserRole.COUNCIL, UserRole.PROPERTY_MANAGER];
     const allowOverride = overrideRoles.includes(user.role);
+    // Quick entry submits and approves in one step
+    const actor = staffActor(req);
+    assertTransition(BookingStatus.SUBMITTED, BookingStatus.APPROVED, actor);
 
     if (!allowOverride) {
-      const timeValidation = validateMoveTime(body.startDatetime, body.endDatetime, body.moveType);
+      const timeValidation = await validateMoveTime(building.id, body.startDatetime, body.endDatetime, body.moveType);
       if (!timeValidation.valid) {
         return reply.status(400).send({ message: timeValidation.error });
       }
     }
 
     const booking = await prisma.$transaction(async (tx) => {
-      await assertNoConflict(
+      const resourceIds = await assertNoConflict(
         tx,
-        { startDatetime: body.startDatetime, endDatetime: body.endDatetime, elevatorRequired: body.elevatorRequired, moveType: body.moveType },
+        {
+          buildingId: building.id,
+          startDatetime: body.startDatetime,
+          endDatetime: body.endDatetime,
+          elevatorRequired: body.elevatorRequired,
+          loadingBayRequired: body.loadingBayRequired,
+          moveType: body.moveType,
+          resourceIds: body.resourceIds,
+        },
         allowOverride
       );
 
       return tx.booking.create({
         data: {
+          buildingId: building.id,
           createdById: user.id,
           residentName: body.residentName,
           residentEmail: body.residentEmail,
           residentPhone: body.residentPhone,
-          unit: body.unit,
+          unit: unit.unit,
+          unitId: unit.unitId,
+          ...fees,
           companyName: body.companyName,
           moveType: body.moveType,
           moveDate: body.moveDate,
@@ -288,34 +713,75 @@ export async function bookingRoutes(app: FastifyInstance) {
           loadingBayRequired: body.loadingBayRequired,
           notes: body.notes,
           publicUnitMask: body.publicUnitMask,
+          smsOptIn: body.smsOptIn ?? false,
           editToken: nanoid(32),
           status: BookingStatus.APPROVED,
           approvedById: user.id,
-          approvedAt: new Date()
+          approvedAt: new Date(),
+          resources: { create: resourceIds.map((resourceId) => ({ resourceId })) }
         }
       });
     });
 
-    await logAudit(prisma, user.id, 'BOOKING_QUICK_APPROVED', booking.id, { source: 'concierge_quick_entry' });
+    await logAudit(prisma, auditContext(req, building.id), 'BOOKING_QUICK_APPROVED', booking.id, { source: 'concierge_quick_entry' });
     return booking;
   });
 
   app.get('/api/bookings/:id', { preHandler: [requireAuth] }, async (req) => {
     const id = uuidSchema.parse((req.params as { id: string }).id);
-    return prisma.booking.findUnique({ where: { id } });
+    const building = await resolveStaffBuilding(req);
+    return prisma.booking.findFirst({ where: { id, buildingId: building.id, deletedAt: null } });
   });
 
   app.get(
     '/api/admin/bookings',
     { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] },
-    async () => {
-      const bookings = await prisma.booking.findMany({ include: { documents: true }, orderBy: { startDatetime: 'asc' } });
-      const approvals = await prisma.moveApproval.findMany({ where: { moveRequestId: { in: bookings.map(b => b.id) } } });
+    async (req) => {
+      const query = bookingListSchema.parse(req.query);
+      const building = await resolveStaffBuilding(req);
+      const where = await bookingFilterWhere(building.id, query);
+      const [bookings, total] = await Promise.all([
+        prisma.booking.findMany({
+          where,
+          include: { documents: true, resources: { include: { resource: { select: { id: true, name: true, type: true } } } } },
+          orderBy: [{ [query.sort]: query.order }, { id: query.order }],
+          take: query.limit + 1,
+          ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+        }),
+        prisma.booking.count({ where }),
+      ]);
+      const page = bookings.slice(0, query.limit);
+
+      // Payments and series positions are looked up for this page only
+      const approvals = await prisma.moveApproval.findMany({ where: { moveRequestId: { in: page.map(b => b.id) } } });
       const approvalByBooking = new Map(approvals.map(a => [a.moveRequestId, a]));
-      return bookings.map(b => {
-        const approval = approvalByBooking.get(b.id);
-        return { ...b, paymentMatched: !!approval, paymentInvoiceId: approval?.invoiceId ?? null };
+      const seriesIds = [...new Set(page.flatMap((b) => (b.seriesId ? [b.seriesId] : [])))];
+      const seriesDates = seriesIds.length === 0 ? [] : await prisma.booking.findMany({
+        where: { seriesId: { in: seriesIds }, deletedAt: null },
+        select: { id: true, seriesId: true },
+        orderBy: { startDatetime: 'asc' }
       });
+      const seriesPosition = (b: { id: string; seriesId: string | null }) => {
+        if (!b.seriesId) return null;
+        const dates = seriesDates.filter((d) => d.seriesId === b.seriesId);
+        return { index: dates.findIndex((d) => d.id === b.id) + 1, count: dates.length };
+      };
+
+      return {
+        bookings: page.map(b => {
+          const approval = approvalByBooking.get(b.id);
+          return {
+            ...b,
+            resources: b.resources.map(r => r.resource),
+            fees: feeSummary(b),
+            paymentMatched: !!approval,
+            paymentInvoiceId: approval?.invoiceId ?? null,
+            seriesPosition: seriesPosition(b)
+          };
+        }),
+        nextCursor: bookings.length > query.limit ? page[page.length - 1].id : null,
+        total,
+      };
     }
   );
 
@@ -323,46 +789,72 @@ export async function bookingRoutes(app: FastifyInstance) {
     const body = z
       .object({
         status: z.nativeEnum(BookingStatus).optional(),
+        reason: z.string().max(500).optional(),
         startDatetime: z.coerce.date().optional(),
         endDatetime: z.coerce.date().optional(),
         overrideConflict: z.boolean().optional(),
         residentName: z.string().min(1).max(200).optional(),
         residentEmail: z.string().email().max(320).refine(isValidEmailTld, { message: 'Email domain does not appear to be valid.' }).optional(),
         residentPhone: z.string().min(1).max(50).refine(isValidPhonePrefix, { message: 'Phone number appears invalid. Please check the area code.' }).optional(),
-        unit: z.string().min(1).max(20).optional(),
+        unit: z.string().trim().min(1).max(20).optional(),
         companyName: z.string().max(200).nullable().optional(),
         notes: z.string().max(2000).nullable().optional(),
         moveType: z.nativeEnum(MoveType).optional(),
         elevatorRequired: z.boolean().optional(),
         loadingBayRequired: z.boolean().optional(),
+        resourceIds: z.array(z.string().uuid()).optional(),
       })
       .parse(req.body);
 
     const user = req.user;
     const bookingId = uuidSchema.parse((req.params as { id: string }).id);
-    const existing = await prisma.booking.findUniqueOrThrow({ where: { id: bookingId } });
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.booking.findFirstOrThrow({ where: { id: bookingId, buildingId: building.id, deletedAt: null } });
     const overrideRoles: UserRole[] = [UserRole.COUNCIL, UserRole.PROPERTY_MANAGER];
     const allowOverride = overrideRoles.includes(user.role) && !!body.overrideConflict;
+    // Re-sending the current status alongside other edits is not a status change
+    const statusChange = body.status !== undefined && body.status !== existing.status ? body.status : undefined;
+    const actor = staffActor(req);
+    if (statusChange) assertTransition(existing.status, statusChange, actor, body.reason);
+    const unit = body.unit !== undefined ? await resolveBookingUnit(building.id, body.unit) : undefined;
+    // Re-price when the move type or time changes; amounts already paid are kept
+    const fees = body.startDatetime || body.endDatetime || body.moveType
+      ? await computeBookingFees(building.id, body.moveType ?? existing.moveType, body.startDatetime ?? existing.startDatetime, body.endDatetime ?? existing.endDatetime)
+      : undefined;
 
     // Validate move time restrictions if times or move type are being updated
     if ((body.startDatetime || body.endDatetime || body.moveType) && !allowOverride) {
       const newStart = body.startDatetime ?? existing.startDatetime;
       const newEnd = body.endDatetime ?? existing.endDatetime;
-      const timeValidation = validateMoveTime(newStart, newEnd, body.moveType ?? existing.moveType);
+      const timeValidation = await validateMoveTime(building.id, newStart, newEnd, body.moveType ?? existing.moveType);
       if (!timeValidation.valid) {
         return reply.status(400).send({ message: timeValidation.error });
       }
     }
 
+    const isTimeChange = body.startDatetime !== undefined || body.endDatetime !== undefined;
+
+    // A rejected or cancelled booking gives up its resources, so it need not fit around anything
+    const closing = statusChange === BookingStatus.REJECTED || statusChange === BookingStatus.CANCELLED;
+
     const updated = await prisma.$transaction(async (tx) => {
-      await assertNoConflict(
+      if (statusChange) {
+        // Conditional on the status read above, so a concurrent change is not overwritten
+        const { count } = await tx.booking.updateMany({ where: { id: existing.id, status: existing.status }, data: transitionData(statusChange, actor, body.reason) });
+        if (count === 0) throw httpError(409, 'The booking was changed by someone else. Reload and try again.');
+        await tx.auditLog.create({ data: transitionAuditData(existing, existing.status, statusChange, actor, body.reason) });
+      }
+      const resourceIds = closing ? undefined : await assertNoConflict(
         tx,
         {
           id: existing.id,
+          buildingId: building.id,
           startDatetime: body.startDatetime ?? existing.startDatetime,
           endDatetime: body.endDatetime ?? existing.endDatetime,
           elevatorRequired: body.elevatorRequired ?? existing.elevatorRequired,
+          loadingBayRequired: body.loadingBayRequired ?? existing.loadingBayRequired,
           moveType: body.moveType ?? existing.moveType,
+          resourceIds: body.resourceIds,
         },
         allowOverride
       );
@@ -370,130 +862,138 @@ export async function bookingRoutes(app: FastifyInstance) {
       return tx.booking.update({
         where: { id: existing.id },
         data: {
-          status: body.status ?? existing.status,
-          ...(body.startDatetime !== undefined && { startDatetime: body.startDatetime, moveDate: body.startDatetime }),
+          ...(body.startDatetime !== undefined && { startDatetime: body.startDatetime, moveDate: body.startDatetime, reminder48hSentAt: null, reminder2hSentAt: null }),
           ...(body.endDatetime !== undefined && { endDatetime: body.endDatetime }),
+          // The status change above already started a new calendar revision
+          ...(isTimeChange && !statusChange && { calendarSequence: { increment: 1 } }),
           ...(body.residentName !== undefined && { residentName: body.residentName }),
           ...(body.residentEmail !== undefined && { residentEmail: body.residentEmail }),
           ...(body.residentPhone !== undefined && { residentPhone: body.residentPhone }),
-          ...(body.unit !== undefined && { unit: body.unit }),
+          ...(unit && { unit: unit.unit, unitId: unit.unitId }),
+          ...fees,
           ...(body.companyName !== undefined && { companyName: body.companyName }),
           ...(body.notes !== undefined && { notes: body.notes }),
           ...(body.moveType !== undefined && { moveType: body.moveType }),
           ...(body.elevatorRequired !== undefined && { elevatorRequired: body.elevatorRequired }),
           ...(body.loadingBayRequired !== undefined && { loadingBayRequired: body.loadingBayRequired }),
-          ...(body.status === BookingStatus.APPROVED && { approvedById: user.id, approvedAt: new Date() }),
+          ...(resourceIds && { resources: { deleteMany: {}, create: resourceIds.map((resourceId) => ({ resourceId })) } }),
         }
       });
     });
 
-    if (allowOverride) await logAudit(prisma, user.id, 'CONFLICT_OVERRIDE', updated.id, { old: existing, new: updated });
-
-    const manageUrl = updated.editToken ? `${config.frontendOrigins[0]}/booking/${updated.id}?token=${updated.editToken}` : undefined;
-
-    if (body.status === BookingStatus.APPROVED) {
-      const [settings, moveApproval] = await Promise.all([
-        prisma.appSetting.findFirst(),
-        prisma.moveApproval.findFirst({ where: { moveRequestId: updated.id } }),
-      ]);
-      const includeContact = !!settings?.includeResidentContactInApprovalEmails;
-      const paymentConfirmed = !!moveApproval;
-      const approvedMoveLabel = { MOVE_IN: 'Move In', MOVE_OUT: 'Move Out', DELIVERY: 'Delivery', RENO: 'Renovation', OPEN_HOUSE: 'Open House', FURNISHED_MOVE: 'Furnished Move', SUITCASE_MOVE: 'Suitcase Move' }[updated.moveType] ?? updated.moveType;
-      const approvedSubject = `Booking Approved — ${approvedMoveLabel} on ${dayjs(updated.startDatetime).format('MMM D, YYYY')}`;
-
-      await sendEmail(
-        prisma,
-        updated.residentEmail,
-        approvedSubject,
-        emailWrapper(
-          'Booking Approved',
-          'Your booking request has been approved. Please see the details below.',
-          bookingDetailsHtml(updated, false, paymentConfirmed),
-          undefined,
-          manageUrl
-        )
-      ).catch((err) => {
-        app.log.error({ err, bookingId: updated.id, email: updated.residentEmail }, 'Failed to send booking approval email');
-      });
+    const changes = auditDiff(existing, updated, [...BOOKING_AUDIT_FIELDS]);
+    if (Object.keys(changes).length > 0) {
+      await logAudit(prisma, auditContext(req, building.id), 'BOOKING_UPDATED', updated.id, { changes });
+    }
 
+    if (allowOverride) {
+      await logAudit(prisma, auditContext(req, building.id), 'CONFLICT_OVERRIDE', updated.id, { changes });
       await sendNotificationRecipients(
         prisma,
-        NotifyEvent.APPROVED,
-        approvedSubject,
+        building.id,
+        NotifyEvent.CONFLICT_OVERRIDE,
+        `Booking Saved with Conflict Override — ${MOVE_TYPE_LABELS[updated.moveType]} for Unit ${updated.unit}`,
         emailWrapper(
-          'Booking Approved',
-          'The following booking has been approved.',
-          bookingDetailsHtml(updated, includeContact, paymentConfirmed)
-        )
+          'Conflict Override',
+          `${user.name || user.email} saved the following booking with the scheduling conflict check overridden.`,
+          bookingDetailsHtml(updated, true),
+          undefined,
+          undefined,
+          building
+        ),
+        { bookingId: updated.id }
       ).catch((err) => {
-        app.log.error({ err, bookingId: updated.id, event: 'APPROVED' }, 'Failed to send approval notification');
+        app.log.error({ err, bookingId: updated.id, event: 'CONFLICT_OVERRIDE' }, 'Failed to send conflict override notification');
       });
-
-      await logAudit(prisma, user.id, 'BOOKING_APPROVED', updated.id, { status: updated.status });
     }
 
-    if (body.status === BookingStatus.REJECTED) {
-      const rejectedMoveLabel = { MOVE_IN: 'Move In', MOVE_OUT: 'Move Out', DELIVERY: 'Delivery', RENO: 'Renovation', OPEN_HOUSE: 'Open House', FURNISHED_MOVE: 'Furnished Move', SUITCASE_MOVE: 'Suitcase Move' }[updated.moveType] ?? updated.moveType;
-      const rejectedSubject = `Booking Not Approved — ${rejectedMoveLabel} on ${dayjs(updated.startDatetime).format('MMM D, YYYY')}`;
-
-      await sendEmail(
-        prisma,
-        updated.residentEmail,
-        rejectedSubject,
-        emailWrapper(
-          'Booking Not Approved',
-          'Unfortunately your booking request could not be approved. Please contact building management if you have any questions.',
-          bookingDetailsHtml(updated),
-          undefined,
-          manageUrl
-        )
-      ).catch((err) => {
-        app.log.error({ err, bookingId: updated.id, email: updated.residentEmail }, 'Failed to send booking rejection email');
-      });
+    const manageUrl = updated.editToken ? `${config.frontendOrigins[0]}/booking/${updated.id}?token=${updated.editToken}` : undefined;
 
-      await sendNotificationRecipients(
-        prisma,
-        NotifyEvent.REJECTED,
-        rejectedSubject,
-        emailWrapper(
-          'Booking Rejected',
-          'The following booking request has been rejected.',
-          bookingDetailsHtml(updated, true)
-        )
-      ).catch((err) => {
-        app.log.error({ err, bookingId: updated.id, event: 'REJECTED' }, 'Failed to send rejection notification');
+    // Residents already holding an approval get the new time and an updated calendar entry
+    if (isTimeChange && !statusChange && updated.status === BookingStatus.APPROVED) {
+      await notifyResident(prisma, EmailTemplateKey.RESCHEDULED, updated, { manageUrl, attachCalendar: true }).catch((err) => {
+        app.log.error({ err, bookingId: updated.id, email: updated.residentEmail }, 'Failed to send booking rescheduled email');
       });
-
-      await logAudit(prisma, user.id, 'BOOKING_REJECTED', updated.id, { status: updated.status });
     }
 
+    if (statusChange) await runTransitionEffects(prisma, existing, updated, actor, app.log);
+
     return updated;
   });
 
   app.delete('/api/admin/bookings/:id', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
     const bookingId = uuidSchema.parse((req.params as { id: string }).id);
     const user = req.user;
-    const existing = await prisma.booking.findUniqueOrThrow({ where: { id: bookingId } });
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.booking.findFirstOrThrow({ where: { id: bookingId, buildingId: building.id, deletedAt: null } });
 
-    // Nullify audit log FK references then delete booking (documents cascade automatically)
+    // Moved to the trash rather than deleted; the purge job removes it once the retention period is over
+    const deletedAt = new Date();
     await prisma.$transaction([
-      prisma.auditLog.updateMany({ where: { bookingId }, data: { bookingId: null } }),
-      prisma.booking.delete({ where: { id: bookingId } })
+      prisma.booking.update({ where: { id: bookingId }, data: { deletedAt, deletedById: user.id } }),
+      prisma.auditLog.create({
+        data: auditEntryData(auditContext(req, building.id), 'BOOKING_DELETED', bookingId, {
+          residentName: existing.residentName,
+          unit: existing.unit,
+          moveType: existing.moveType,
+          status: existing.status
+        })
+      })
     ]);
 
-    await logAudit(prisma, user.id, 'BOOKING_DELETED', undefined, {
-      residentName: existing.residentName,
-      unit: existing.unit,
-      moveType: existing.moveType,
-      status: existing.status
+    return { message: 'Booking moved to the trash', purgeAt: trashPurgeDate(deletedAt) };
+  });
+
+  app.get('/api/admin/bookings/trash', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const building = await resolveStaffBuilding(req);
+    const bookings = await prisma.booking.findMany({
+      where: { buildingId: building.id, deletedAt: { not: null } },
+      include: { deletedBy: { select: { id: true, name: true, email: true } } },
+      orderBy: { deletedAt: 'desc' }
     });
+    return bookings.map((b) => ({ ...b, purgeAt: trashPurgeDate(b.deletedAt!) }));
+  });
 
-    return { message: 'Booking deleted successfully' };
+  // Puts a trashed booking back; active bookings must still fit, since their slot may have been taken meanwhile
+  app.post('/api/admin/bookings/:id/restore', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const bookingId = uuidSchema.parse((req.params as { id: string }).id);
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.booking.findFirst({ where: { id: bookingId, buildingId: building.id, deletedAt: { not: null } } });
+    if (!existing) return reply.status(404).send({ message: 'Booking not found in the trash' });
+
+    const activeStatuses: BookingStatus[] = [BookingStatus.SUBMITTED, BookingStatus.PENDING, BookingStatus.APPROVED];
+    return prisma.$transaction(async (tx) => {
+      const resourceIds = activeStatuses.includes(existing.status)
+        ? await assertNoConflict(
+            tx,
+            {
+              id: existing.id,
+              buildingId: building.id,
+              startDatetime: existing.startDatetime,
+              endDatetime: existing.endDatetime,
+              elevatorRequired: existing.elevatorRequired,
+              loadingBayRequired: existing.loadingBayRequired,
+              moveType: existing.moveType
+            },
+            false
+          )
+        : undefined;
+      const { count } = await tx.booking.updateMany({ where: { id: existing.id, deletedAt: { not: null } }, data: { deletedAt: null, deletedById: null } });
+      if (count === 0) throw Object.assign(new Error('Booking is no longer in the trash'), { statusCode: 409 });
+      await tx.auditLog.create({
+        data: auditEntryData(auditContext(req, building.id), 'BOOKING_RESTORED', existing.id, { deletedAt: existing.deletedAt, deletedById: existing.deletedById })
+      });
+      return tx.booking.update({
+        where: { id: existing.id },
+        data: resourceIds ? { resources: { deleteMany: {}, create: resourceIds.map((resourceId) => ({ resourceId })) } } : {}
+      });
+    });
   });
 
   app.post('/api/admin/bookings/:id/payment-due-reminder', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
     const bookingId = uuidSchema.parse((req.params as { id: string }).id);
-    const booking = await prisma.booking.findUniqueOrThrow({ where: { id: bookingId } });
+    const building = await resolveStaffBuilding(req);
+    const booking = await prisma.booking.findFirstOrThrow({ where: { id: bookingId, buildingId: building.id, deletedAt: null } });
 
     if (booking.status === BookingStatus.APPROVED) {
       return reply.status(400).send({ error: 'Booking is already approved — payment was confirmed.' });
@@ -504,6 +1004,7 @@ export async function bookingRoutes(app: FastifyInstance) {
 
     await sendPaymentReminderEmail(prisma, {
       id: booking.id,
+      buildingId: booking.buildingId,
       residentName: booking.residentName,
       residentEmail: booking.residentEmail,
       residentPhone: booking.residentPhone ?? '',
@@ -518,11 +1019,95 @@ export async function bookingRoutes(app: FastifyInstance) {
     });
 
     await prisma.booking.update({ where: { id: bookingId }, data: { lastPaymentReminderSentAt: new Date() } });
-    await logAudit(prisma, req.user.id, 'BOOKING_PAYMENT_REMINDER_SENT' as any, bookingId, { residentName: booking.residentName, unit: booking.unit });
+    await logAudit(prisma, auditContext(req, building.id), 'BOOKING_PAYMENT_REMINDER_SENT', bookingId, { residentName: booking.residentName, unit: booking.unit });
 
     return { message: 'Payment reminder sent.' };
   });
 
+  // Delivery history for a booking, newest first; html is left out to keep the list light
+  app.get('/api/admin/bookings/:id/emails', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
+    const bookingId = uuidSchema.parse((req.params as { id: string }).id);
+    const building = await resolveStaffBuilding(req);
+    await prisma.booking.findFirstOrThrow({ where: { id: bookingId, buildingId: building.id, deletedAt: null } });
+    return prisma.emailOutbox.findMany({
+      where: { bookingId },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, to: true, subject: true, status: true, attempts: true, nextAttemptAt: true, lastError: true, sentAt: true, resentFromId: true, createdAt: true }
+    });
+  });
+
+  app.post('/api/admin/emails/:id/resend', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const id = uuidSchema.parse((req.params as { id: string }).id);
+    const building = await resolveStaffBuilding(req);
+    const original = await prisma.emailOutbox.findFirst({ where: { id, buildingId: building.id } });
+    if (!original) return reply.status(404).send({ message: 'Email not found' });
+
+    const email = await resendEmail(prisma, original.id);
+    await logAudit(prisma, auditContext(req, building.id), 'EMAIL_RESENT', original.bookingId ?? undefined, { emailId: original.id, to: original.to, subject: original.subject });
+    return { id: email.id, status: email.status, lastError: email.lastError };
+  });
+
+  // Record payments taken outside Invoice Ninja and deposit refunds, or re-price from the current fee schedule
+  app.patch('/api/admin/bookings/:id/fees', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const bookingId = uuidSchema.parse((req.params as { id: string }).id);
+    const body = z.object({
+      amountPaidCents: z.number().int().min(0).max(10_000_000).optional(),
+      amountRefundedCents: z.number().int().min(0).max(10_000_000).optional(),
+      recalculate: z.boolean().optional(),
+    }).parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.booking.findFirstOrThrow({ where: { id: bookingId, buildingId: building.id, deletedAt: null } });
+
+    const paid = body.amountPaidCents ?? existing.amountPaidCents;
+    const refunded = body.amountRefundedCents ?? existing.amountRefundedCents;
+    if (refunded > paid) {
+      return reply.status(400).send({ message: 'Refunded amount cannot exceed the amount paid' });
+    }
+
+    const fees = body.recalculate
+      ? await computeBookingFees(building.id, existing.moveType, existing.startDatetime, existing.endDatetime)
+      : undefined;
+    const updated = await prisma.booking.update({
+      where: { id: bookingId },
+      data: { amountPaidCents: paid, amountRefundedCents: refunded, ...fees },
+    });
+    await logAudit(prisma, auditContext(req, building.id), 'BOOKING_FEES_UPDATED', bookingId, {
+      changes: auditDiff(feeSummary(existing), feeSummary(updated), ['moveFeeCents', 'depositCents', 'afterHoursSurchargeCents', 'amountPaidCents', 'amountRefundedCents']),
+    });
+    return feeSummary(updated);
+  });
+
+  // Refund through the payment provider against the invoice the booking was matched to
+  app.post('/api/admin/bookings/:id/refund', { preHandler: [requireRole([UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+    const bookingId = uuidSchema.parse((req.params as { id: string }).id);
+    const { amountCents } = z.object({ amountCents: z.number().int().min(1).max(10_000_000) }).parse(req.body);
+    const building = await resolveStaffBuilding(req);
+    const existing = await prisma.booking.findFirstOrThrow({ where: { id: bookingId, buildingId: building.id, deletedAt: null } });
+
+    const approval = await prisma.moveApproval.findFirst({ where: { moveRequestId: bookingId }, orderBy: { approvedAt: 'desc' } });
+    if (!approval) {
+      return reply.status(409).send({ message: 'Booking has no matched invoice to refund' });
+    }
+    if (existing.amountRefundedCents + amountCents > existing.amountPaidCents) {
+      return reply.status(400).send({ message: 'Refunded amount cannot exceed the amount paid' });
+    }
+
+    const provider = getPaymentProvider();
+    try {
+      await provider.refund(approval.invoiceId, amountCents);
+    } catch (err) {
+      req.log.error({ err, bookingId, invoiceId: approval.invoiceId }, 'Payment provider refund failed');
+      return reply.status(502).send({ message: `Refund failed at ${provider.name}` });
+    }
+
+    const updated = await prisma.booking.update({
+      where: { id: bookingId },
+      data: { amountRefundedCents: { increment: amountCents } },
+    });
+    await logAudit(prisma, auditContext(req, building.id), 'BOOKING_REFUNDED', bookingId, { invoiceId: approval.invoiceId, amountCents, provider: provider.name });
+    return feeSummary(updated);
+  });
+
   app.post('/api/admin/bookings/:id/documents', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req) => {
     const data = await req.file();
     if (!data) throw new Error('No file');
@@ -531,6 +1116,8 @@ export async function bookingRoutes(app: FastifyInstance) {
       throw new Error('Unsupported file type');
     }
     const id = uuidSchema.parse((req.params as { id: string }).id);
+    const building = await resolveStaffBuilding(req);
+    await prisma.booking.findFirstOrThrow({ where: { id, buildingId: building.id, deletedAt: null } });
     const uploadsRoot = path.resolve(config.uploadsDir);
     await fs.mkdir(uploadsRoot, { recursive: true });
     const safeName = path.basename(data.filename);
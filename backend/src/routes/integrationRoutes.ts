@@ -0,0 +1,107 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { config } from '../config.js';
+import { ingestPaidInvoice, paymentEnabledBuildingIds } from '../services/paymentPoller.js';
+import { integrationActor } from '../services/bookingStatusService.js';
+import { SIGNATURE_HEADER, toPaidInvoice, verifySignature } from '../services/webhookPaymentProvider.js';
+import { INVOICE_NINJA_PAID_STATUS, toPaidInvoice as invoiceNinjaToPaidInvoice } from '../services/invoiceNinjaProvider.js';
+import { TWILIO_SIGNATURE_HEADER, verifyTwilioSignature } from '../services/twilioSmsProvider.js';
+import { handleInboundSms } from '../services/smsService.js';
+import { prisma } from '../prisma.js';
+
+const paymentEventSchema = z.object({
+  type: z.string(),
+  invoice: z.object({
+    id: z.string().min(1),
+    clientId: z.string().optional(),
+    paidAt: z.string().datetime({ offset: true }).optional(),
+    billedAt: z.string().datetime({ offset: true }).optional(),
+    amountCents: z.number().int().nonnegative().optional(),
+    productKey: z.string().optional(),
+    notes: z.string().optional()
+  })
+});
+
+// Invoice Ninja posts the invoice entity itself, sometimes wrapped in { data }
+const invoiceNinjaInvoiceSchema = z.object({
+  id: z.string().min(1),
+  client_id: z.string(),
+  status_id: z.coerce.string(),
+  paid_date: z.string().optional(),
+  date: z.string().optional(),
+  amount: z.number().optional(),
+  paid_to_date: z.number().optional(),
+  line_items: z.array(z.object({
+    product_key: z.string().default(''),
+    notes: z.string().default(''),
+    date: z.string().optional()
+  })).default([])
+});
+
+function parseRawJson(raw: unknown): unknown {
+  try {
+    return JSON.parse(typeof raw === 'string' ? raw : '');
+  } catch {
+    return undefined;
+  }
+}
+
+function signatureHeader(value: string | string[] | undefined) {
+  return typeof value === 'string' ? value : undefined;
+}
+
+export async function integrationRoutes(app: FastifyInstance) {
+  // Signatures are computed over the exact bytes sent, so keep the body as a
+  // string here; this parser only applies inside this plugin.
+  app.addContentTypeParser('application/json', { parseAs: 'string' }, (_req, body, done) => done(null, body));
+  app.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (_req, body, done) => done(null, body));
+
+  app.post('/api/integrations/payments/webhook', async (req, reply) => {
+    const raw = typeof req.body === 'string' ? req.body : '';
+    if (!verifySignature(raw, signatureHeader(req.headers[SIGNATURE_HEADER]), config.paymentWebhookSecret)) {
+      return reply.status(401).send({ message: 'Invalid signature' });
+    }
+
+    const json = parseRawJson(raw);
+    if (json === undefined) return reply.status(400).send({ message: 'Invalid JSON' });
+    const event = paymentEventSchema.parse(json);
+    // Only payments are ingested; other events are acknowledged so the sender stops retrying
+    if (event.type !== 'invoice.paid') return { received: true };
+
+    const enabledBuildingIds = await paymentEnabledBuildingIds();
+    const result = await ingestPaidInvoice(toPaidInvoice(event), enabledBuildingIds, req.log, integrationActor('payments-webhook', req));
+    return { received: true, duplicate: result === 'duplicate' };
+  });
+
+  // Configure in Invoice Ninja as an "invoice paid" webhook with an X-Signature
+  // header; the poller keeps running hourly to reconcile missed deliveries.
+  app.post('/api/integrations/invoice-ninja/webhook', async (req, reply) => {
+    const raw = typeof req.body === 'string' ? req.body : '';
+    if (!verifySignature(raw, signatureHeader(req.headers[SIGNATURE_HEADER]), config.invoiceNinjaWebhookSecret)) {
+      return reply.status(401).send({ message: 'Invalid signature' });
+    }
+
+    const json = parseRawJson(raw) as { data?: unknown } | undefined;
+    if (json === undefined) return reply.status(400).send({ message: 'Invalid JSON' });
+    const invoice = invoiceNinjaInvoiceSchema.parse(json?.data ?? json);
+    if (invoice.status_id !== INVOICE_NINJA_PAID_STATUS) return { received: true };
+
+    const enabledBuildingIds = await paymentEnabledBuildingIds();
+    const result = await ingestPaidInvoice(invoiceNinjaToPaidInvoice(invoice), enabledBuildingIds, req.log, integrationActor('invoice-ninja', req));
+    return { received: true, duplicate: result === 'duplicate' };
+  });
+
+  // Twilio "A message comes in" webhook. Only STOP / START keywords are acted on;
+  // the empty TwiML reply sends nothing back.
+  app.post('/api/integrations/sms/inbound', async (req, reply) => {
+    const params = Object.fromEntries(new URLSearchParams(typeof req.body === 'string' ? req.body : ''));
+    const url = config.smsInboundUrl ?? `${req.protocol}://${req.hostname}${req.url}`;
+    if (!verifyTwilioSignature(url, params, signatureHeader(req.headers[TWILIO_SIGNATURE_HEADER]), config.twilioAuthToken)) {
+      return reply.status(401).send({ message: 'Invalid signature' });
+    }
+
+    const result = await handleInboundSms(prisma, params.From ?? '', params.Body ?? '');
+    if (result) req.log.info({ result }, 'SMS opt-out preference updated');
+    return reply.type('text/xml').send('<Response></Response>');
+  });
+}
@@ -1,62 +1,163 @@
-import { FastifyInstance } from 'fastify';
-import { BookingStatus, NotifyEvent } from '@prisma/client';
+import { FastifyBaseLogger, FastifyInstance, FastifyRequest } from 'fastify';
+import { Booking, BookingStatus, EmailTemplateKey, MoveType, NotifyEvent, Prisma } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '../prisma.js';
-import { sendNotificationRecipients, sendEmail, bookingDetailsHtml, emailWrapper } from '../services/emailService.js';
-import { assertNoConflict } from '../services/conflictService.js';
-import { validateMoveTime } from '../utils/moveTimeValidator.js';
+import { bookingDetailsHtml, emailWrapper } from '../services/emailService.js';
+import { notifyResident, sendNotificationRecipients } from '../services/notificationService.js';
+import { assertNoConflict, isResourceConflict } from '../services/conflictService.js';
+import { getClosedDates, loadSlotRules, validateMoveTime } from '../utils/moveTimeValidator.js';
+import { resolveBuilding } from '../services/buildingService.js';
+import { computeBookingFees, feeSummary } from '../services/feeService.js';
+import { bookingCalendarEvent, buildCalendar } from '../services/calendarService.js';
+import { changeBookingStatus, residentActor, runTransitionEffects } from '../services/bookingStatusService.js';
+import { auditDiff, BOOKING_AUDIT_FIELDS, logAudit, residentAuditContext } from '../services/auditService.js';
+import { activeSlotHolds, holdSlot, releaseSlotHold } from '../services/slotHoldService.js';
+import { MOVE_TYPE_LABELS } from '../utils/moveTypeLabels.js';
 import { config } from '../config.js';
 import dayjs from 'dayjs';
 
+type BookingWithBuilding = Prisma.BookingGetPayload<{ include: { building: true } }>;
+
 export async function publicRoutes(app: FastifyInstance) {
+  // Name and logo for the building selected by ?building= / X-Building (default: the first building)
+  app.get('/api/public/building', async (req) => {
+    const { name, slug, logoUrl } = await resolveBuilding(req);
+    return { name, slug, logoUrl };
+  });
+
+  app.get('/api/public/buildings', async () =>
+    prisma.building.findMany({ select: { name: true, slug: true }, orderBy: { name: 'asc' } })
+  );
+
   app.get('/api/public/taken-slots', async (req) => {
-    const { date, excludeId } = req.query as { date?: string; excludeId?: string };
+    const { date, excludeId, holdToken } = req.query as { date?: string; excludeId?: string; holdToken?: string };
     if (!date) return [];
+    const building = await resolveBuilding(req);
+    // Holidays and blackout dates are returned as one all-day range so every slot reads as taken
+    if (/^\d{4}-\d{2}-\d{2}$/.test(date) && (await getClosedDates(building.id, date, date)).length > 0) {
+      return [{ start: '00:00', end: '24:00' }];
+    }
     const dayStart = new Date(`${date}T00:00:00`);
     const dayEnd   = new Date(`${date}T23:59:59`);
     const bookings = await prisma.booking.findMany({
       where: {
+        buildingId: building.id,
         startDatetime: { gte: dayStart, lte: dayEnd },
         status: { notIn: [BookingStatus.REJECTED, BookingStatus.CANCELLED] },
+        deletedAt: null,
         ...(excludeId ? { id: { not: excludeId } } : {}),
       },
       select: { startDatetime: true, endDatetime: true },
     });
-    return bookings.map(b => ({
+    // Slots other residents are part way through booking read as taken too
+    const holds = await activeSlotHolds(prisma, building.id, dayStart, dayEnd, holdToken);
+    return [...bookings, ...holds].map(b => ({
       start: b.startDatetime.toISOString().slice(11, 16),
       end:   b.endDatetime.toISOString().slice(11, 16),
     }));
   });
 
-  app.get('/api/public/bookings', async () => {
+  // Holds the slot a resident has picked while they finish the form. Sending the
+  // previous token moves that hold rather than taking a second one.
+  app.post('/api/public/slot-holds', {
+    config: { rateLimit: { max: 30, timeWindow: '10 minutes' } }
+  }, async (req, reply) => {
+    const body = z.object({
+      moveType: z.nativeEnum(MoveType),
+      startDatetime: z.coerce.date(),
+      endDatetime: z.coerce.date(),
+      elevatorRequired: z.boolean(),
+      loadingBayRequired: z.boolean(),
+      token: z.string().max(64).optional(),
+    }).parse(req.body);
+    const building = await resolveBuilding(req);
+    const { token, ...request } = body;
+
+    const timeValidation = await validateMoveTime(building.id, request.startDatetime, request.endDatetime, request.moveType);
+    if (!timeValidation.valid) return reply.status(400).send({ message: timeValidation.error ?? 'Invalid move time' });
+
+    try {
+      const hold = await holdSlot(prisma, building.id, request, token);
+      return { token: hold.token, expiresAt: hold.expiresAt };
+    } catch (err) {
+      if (isResourceConflict(err)) return reply.status(409).send({ message: err.message, waitlist: true });
+      throw err;
+    }
+  });
+
+  app.delete('/api/public/slot-holds/:token', async (req) => {
+    const { token } = z.object({ token: z.string().max(64) }).parse(req.params);
+    await releaseSlotHold(prisma, token);
+    return { ok: true };
+  });
+
+  // Statutory holidays and building blackout dates in a date range (inclusive)
+  app.get('/api/public/closed-dates', async (req, reply) => {
+    const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+    const { from, to } = z.object({ from: isoDate, to: isoDate }).parse(req.query);
+    if (from > to || dayjs(to).diff(dayjs(from), 'day') > 366) {
+      return reply.status(400).send({ message: 'Date range must be in order and at most one year' });
+    }
+    const building = await resolveBuilding(req);
+    return getClosedDates(building.id, from, to);
+  });
+
+  // Building slot rules — the resident and admin forms build their slot pickers from these
+  app.get('/api/public/slot-rules', async (req) => {
+    const building = await resolveBuilding(req);
+    const rules = await loadSlotRules(building.id);
+    return rules.map(({ moveType, dayOfWeek, windowStart, windowEnd, durationMins, blockMins }) => ({
+      moveType, dayOfWeek, windowStart, windowEnd, durationMins, blockMins,
+    }));
+  });
+
+  // Fee schedule so the booking form can show what a move will cost
+  app.get('/api/public/fees', async (req) => {
+    const building = await resolveBuilding(req);
+    const schedules = await prisma.feeSchedule.findMany({ where: { buildingId: building.id } });
+    return schedules.map(({ moveType, moveFeeCents, depositCents, afterHoursSurchargeCents }) => ({
+      moveType, moveFeeCents, depositCents, afterHoursSurchargeCents,
+    }));
+  });
+
+  app.get('/api/public/bookings', async (req) => {
+    const building = await resolveBuilding(req);
     const bookings = await prisma.booking.findMany({
-      where: { status: BookingStatus.APPROVED },
+      where: { buildingId: building.id, status: BookingStatus.APPROVED, deletedAt: null },
       orderBy: { startDatetime: 'asc' },
       select: { id: true, moveType: true, startDatetime: true, endDatetime: true, moveDate: true, unit: true, publicUnitMask: true }
     });
     return bookings.map((b) => ({ ...b, unit: b.publicUnitMask || b.unit }));
   });
 
+  // The same approved bookings as an iCalendar feed for lobby displays and residents' calendars
+  app.get('/api/public/calendar.ics', async (req, reply) => {
+    const building = await resolveBuilding(req);
+    const bookings = await prisma.booking.findMany({
+      where: { buildingId: building.id, status: BookingStatus.APPROVED, deletedAt: null },
+      orderBy: { startDatetime: 'asc' },
+      select: { id: true, moveType: true, status: true, startDatetime: true, endDatetime: true, unit: true, publicUnitMask: true, calendarSequence: true, updatedAt: true }
+    });
+    reply.header('content-type', 'text/calendar; charset=utf-8');
+    reply.header('content-disposition', `inline; filename="${building.slug}-schedule.ics"`);
+    return buildCalendar(
+      `${building.name} Schedule`,
+      bookings.map((b) => bookingCalendarEvent({ ...b, unit: b.publicUnitMask || b.unit }, building.name, 'public'))
+    );
+  });
+
   // ── Token-gated resident booking management ─────────────────────────
-  const MOVE_TYPE_LABELS: Record<string, string> = {
-    MOVE_IN: 'Move In',
-    MOVE_OUT: 'Move Out',
-    DELIVERY: 'Delivery',
-    RENO: 'Renovation',
-    OPEN_HOUSE: 'Open House',
-    FURNISHED_MOVE: 'Furnished Move',
-    SUITCASE_MOVE: 'Suitcase Move',
-  };
-
-  function bookingToResponse(b: any) {
+  function bookingToResponse(b: BookingWithBuilding) {
     return {
       id: b.id,
+      buildingSlug: b.building.slug,
+      buildingName: b.building.name,
       residentName: b.residentName,
       residentEmail: b.residentEmail,
       residentPhone: b.residentPhone,
       unit: b.unit,
       moveType: b.moveType,
-      moveTypeLabel: MOVE_TYPE_LABELS[b.moveType] ?? b.moveType,
+      moveTypeLabel: MOVE_TYPE_LABELS[b.moveType],
       moveDate: b.moveDate,
       startDatetime: b.startDatetime,
       endDatetime: b.endDatetime,
@@ -64,6 +165,10 @@ export async function publicRoutes(app: FastifyInstance) {
       loadingBayRequired: b.loadingBayRequired,
       notes: b.notes,
       status: b.status,
+      statusReason: b.statusReason,
+      fees: feeSummary(b),
+      payUrl: b.invoicePayUrl,
+      smsOptIn: b.smsOptIn,
       createdAt: b.createdAt,
       updatedAt: b.updatedAt,
     };
@@ -78,7 +183,7 @@ export async function publicRoutes(app: FastifyInstance) {
       return reply.status(401).send({ message: 'Token is required' });
     }
 
-    const booking = await prisma.booking.findUnique({ where: { id } });
+    const booking = await prisma.booking.findFirst({ where: { id, deletedAt: null }, include: { building: true } });
     if (!booking) {
       return reply.status(404).send({ message: 'Booking not found' });
     }
@@ -97,6 +202,7 @@ export async function publicRoutes(app: FastifyInstance) {
     moveDate: z.coerce.date().optional(),
     startDatetime: z.coerce.date().optional(),
     endDatetime: z.coerce.date().optional(),
+    smsOptIn: z.boolean().optional(),
   });
 
   app.patch('/api/public/bookings/:id', async (req, reply) => {
@@ -107,7 +213,7 @@ export async function publicRoutes(app: FastifyInstance) {
       return reply.status(401).send({ message: 'Token is required' });
     }
 
-    const booking = await prisma.booking.findUnique({ where: { id } });
+    const booking = await prisma.booking.findFirst({ where: { id, deletedAt: null } });
     if (!booking) {
       return reply.status(404).send({ message: 'Booking not found' });
     }
@@ -126,27 +232,33 @@ export async function publicRoutes(app: FastifyInstance) {
     }
 
     const isTimeChange = body.startDatetime !== undefined || body.endDatetime !== undefined || body.moveDate !== undefined;
+    const isResourceChange = body.elevatorRequired !== undefined || body.loadingBayRequired !== undefined;
 
-    if (isTimeChange) {
+    if (isTimeChange || isResourceChange) {
       // Require both startDatetime and endDatetime when changing time
       const newStart = body.startDatetime ?? booking.startDatetime;
       const newEnd = body.endDatetime ?? booking.endDatetime;
 
       // Validate move time restrictions
-      const timeValidation = validateMoveTime(newStart, newEnd, booking.moveType as string);
+      const timeValidation = await validateMoveTime(booking.buildingId, newStart, newEnd, booking.moveType as string);
       if (!timeValidation.valid) {
         return reply.status(400).send({ message: timeValidation.error });
       }
 
+      // The after-hours surcharge depends on the new time
+      const fees = await computeBookingFees(booking.buildingId, booking.moveType, newStart, newEnd);
+
       // Check for conflicts within a transaction
       const updated = await prisma.$transaction(async (tx) => {
-        await assertNoConflict(
+        const resourceIds = await assertNoConflict(
           tx,
           {
             id: booking.id,
+            buildingId: booking.buildingId,
             startDatetime: newStart,
             endDatetime: newEnd,
             elevatorRequired: body.elevatorRequired ?? booking.elevatorRequired,
+            loadingBayRequired: body.loadingBayRequired ?? booking.loadingBayRequired,
             moveType: booking.moveType as string,
           },
           false // no override for residents
@@ -158,14 +270,27 @@ export async function publicRoutes(app: FastifyInstance) {
             ...(body.notes !== undefined && { notes: body.notes }),
             ...(body.elevatorRequired !== undefined && { elevatorRequired: body.elevatorRequired }),
             ...(body.loadingBayRequired !== undefined && { loadingBayRequired: body.loadingBayRequired }),
+            ...(body.smsOptIn !== undefined && { smsOptIn: body.smsOptIn }),
             startDatetime: newStart,
             endDatetime: newEnd,
             moveDate: body.moveDate ?? booking.moveDate,
+            ...fees,
+            // A new time gets its own reminders
+            ...(isTimeChange && { reminder48hSentAt: null, reminder2hSentAt: null, calendarSequence: { increment: 1 } }),
+            resources: { deleteMany: {}, create: resourceIds.map((resourceId) => ({ resourceId })) },
           },
+          include: { building: true },
         });
       });
 
+      await logResidentEdit(req, booking, updated);
       await sendUpdateNotification(prisma, updated, app.log);
+      if (isTimeChange && updated.status === BookingStatus.APPROVED) {
+        const manageUrl = `${config.frontendOrigins[0]}/booking/${updated.id}?token=${updated.editToken}`;
+        await notifyResident(prisma, EmailTemplateKey.RESCHEDULED, updated, { manageUrl, attachCalendar: true }).catch((err) => {
+          app.log.error({ err, bookingId: updated.id, email: updated.residentEmail }, 'Failed to send booking rescheduled email');
+        });
+      }
       return bookingToResponse(updated);
     }
 
@@ -174,29 +299,44 @@ export async function publicRoutes(app: FastifyInstance) {
     if (body.notes !== undefined) data.notes = body.notes;
     if (body.elevatorRequired !== undefined) data.elevatorRequired = body.elevatorRequired;
     if (body.loadingBayRequired !== undefined) data.loadingBayRequired = body.loadingBayRequired;
+    // Text message preference is the resident's own business; staff are not notified of it
+    const notifyStaff = Object.keys(data).length > 0;
+    if (body.smsOptIn !== undefined) data.smsOptIn = body.smsOptIn;
 
     if (Object.keys(data).length === 0) {
       return reply.status(400).send({ message: 'No fields to update' });
     }
 
-    const updated = await prisma.booking.update({ where: { id: booking.id }, data });
+    const updated = await prisma.booking.update({ where: { id: booking.id }, data, include: { building: true } });
 
-    await sendUpdateNotification(prisma, updated, app.log);
+    await logResidentEdit(req, booking, updated);
+    if (notifyStaff) await sendUpdateNotification(prisma, updated, app.log);
     return bookingToResponse(updated);
   });
 
-  async function sendUpdateNotification(prismaClient: typeof prisma, updated: any, log: any) {
-    const moveLabel = MOVE_TYPE_LABELS[updated.moveType] ?? updated.moveType;
+  async function logResidentEdit(req: FastifyRequest, before: Booking, after: Booking) {
+    const changes = auditDiff(before, after, [...BOOKING_AUDIT_FIELDS]);
+    if (Object.keys(changes).length === 0) return;
+    await logAudit(prisma, residentAuditContext(req, before), 'BOOKING_UPDATED', before.id, { changes });
+  }
+
+  async function sendUpdateNotification(prismaClient: typeof prisma, updated: BookingWithBuilding, log: FastifyBaseLogger) {
+    const moveLabel = MOVE_TYPE_LABELS[updated.moveType];
     const subject = `Booking Updated by Resident — ${moveLabel} for Unit ${updated.unit}`;
     await sendNotificationRecipients(
       prismaClient,
-      NotifyEvent.SUBMITTED,
+      updated.buildingId,
+      NotifyEvent.UPDATED,
       subject,
       emailWrapper(
         'Booking Updated by Resident',
         `The resident (${updated.residentEmail}) has updated their booking. The changes have been applied automatically.`,
-        bookingDetailsHtml(updated, true)
-      )
+        bookingDetailsHtml(updated, true),
+        undefined,
+        undefined,
+        updated.building
+      ),
+      { bookingId: updated.id }
     ).catch((err) => {
       log.error({ err, bookingId: updated.id }, 'Failed to send update notification to admin');
     });
@@ -211,7 +351,7 @@ export async function publicRoutes(app: FastifyInstance) {
       return reply.status(401).send({ message: 'Token is required' });
     }
 
-    const booking = await prisma.booking.findUnique({ where: { id } });
+    const booking = await prisma.booking.findFirst({ where: { id, deletedAt: null } });
     if (!booking) {
       return reply.status(404).send({ message: 'Booking not found' });
     }
@@ -219,53 +359,11 @@ export async function publicRoutes(app: FastifyInstance) {
       return reply.status(403).send({ message: 'Invalid token' });
     }
 
-    if (booking.status === BookingStatus.CANCELLED) {
-      return reply.status(400).send({ message: 'Booking is already cancelled' });
-    }
-    if (booking.status === BookingStatus.REJECTED) {
-      return reply.status(400).send({ message: 'Cannot cancel a rejected booking' });
-    }
-
-    const updated = await prisma.booking.update({
-      where: { id },
-      data: { status: BookingStatus.CANCELLED },
-    });
-
-    // Notify admin recipients of cancellation
-    const moveLabel = MOVE_TYPE_LABELS[updated.moveType] ?? updated.moveType;
-    const subject = `Booking Cancelled by Resident — ${moveLabel} for Unit ${updated.unit}`;
-    await sendNotificationRecipients(
-      prisma,
-      NotifyEvent.REJECTED,
-      subject,
-      emailWrapper(
-        'Booking Cancelled',
-        `The resident (${updated.residentEmail}) has cancelled their booking.`,
-        bookingDetailsHtml(updated, true)
-      )
-    ).catch((err) => {
-      app.log.error({ err, bookingId: id }, 'Failed to send cancellation notification to admin');
-    });
+    const { reason } = z.object({ reason: z.string().max(500).optional() }).parse(req.body ?? {});
+    const actor = residentActor(req, booking);
+    const updated = await changeBookingStatus(prisma, booking, BookingStatus.CANCELLED, actor, reason);
+    await runTransitionEffects(prisma, booking, updated, actor, app.log);
 
-    // Send confirmation to resident
-    const manageUrl = updated.editToken
-      ? `${config.frontendOrigins[0]}/booking/${updated.id}?token=${updated.editToken}`
-      : undefined;
-    await sendEmail(
-      prisma,
-      updated.residentEmail,
-      `Booking Cancelled — ${moveLabel} on ${dayjs(updated.startDatetime).format('MMM D, YYYY')}`,
-      emailWrapper(
-        'Booking Cancelled',
-        'Your booking has been successfully cancelled.',
-        bookingDetailsHtml(updated),
-        'If you did not intend to cancel, please contact building management.',
-        manageUrl
-      )
-    ).catch((err) => {
-      app.log.error({ err, bookingId: id, email: updated.residentEmail }, 'Failed to send cancellation confirmation to resident');
-    });
-
-    return bookingToResponse(updated);
+    return bookingToResponse(await prisma.booking.findUniqueOrThrow({ where: { id }, include: { building: true } }));
   });
 }
@@ -3,13 +3,19 @@ import { BookingStatus, MoveType, UserRole } from '@prisma/client';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
-import { stringify } from 'csv-stringify/sync';
 import { prisma } from '../prisma.js';
 import { config } from '../config.js';
 import { assertNoConflict } from '../services/conflictService.js';
-import { requireAuth, requireRole } from '../middleware/auth.js';
+import { requireAuth, requireRole, requireRoleOrCalendarToken } from '../middleware/auth.js';
 import { validateMoveTime } from '../utils/moveTimeValidator.js';
 import { sendEmail, emailWrapper } from '../services/emailService.js';
+import { findSystemUser, getDefaultBuilding, NO_SYSTEM_USER_MESSAGE, resolveBuilding, resolveStaffBuilding } from '../services/buildingService.js';
+import { resolveBookingUnit } from '../services/unitService.js';
+import { computeBookingFees } from '../services/feeService.js';
+import { auditContext, logAudit } from '../services/auditService.js';
+import { bookingCalendarEvent, buildCalendar } from '../services/calendarService.js';
+import { bookingFilterSchema, bookingFilterWhere } from '../services/bookingSearchService.js';
+import { BOOKING_EXPORT_COLUMNS, buildExport, DEFAULT_BOOKING_EXPORT_COLUMNS, EXPORT_FORMATS, exportColumnsSchema } from '../services/exportService.js';
 
 const intakeSchema = z.object({
   residentName: z.string().min(1),
@@ -25,12 +31,13 @@ const intakeSchema = z.object({
   notes: z.string().optional()
 });
 
-function sanitizeCsvValue(value: string) {
-  if (value.startsWith('=') || value.startsWith('+') || value.startsWith('-') || value.startsWith('@')) {
-    return `'${value}`;
-  }
-  return value;
-}
+const STAFF_ROLES = [UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER];
+// How far back the staff calendar feed reaches; older bookings drop out of subscribed calendars
+const CALENDAR_FEED_HISTORY_DAYS = 30;
+
+const bookingExportSchema = bookingFilterSchema.extend({
+  columns: exportColumnsSchema(BOOKING_EXPORT_COLUMNS, DEFAULT_BOOKING_EXPORT_COLUMNS)
+});
 
 export async function systemRoutes(app: FastifyInstance) {
   // Login endpoint with strict rate limiting to prevent brute force attacks
@@ -49,7 +56,7 @@ export async function systemRoutes(app: FastifyInstance) {
       return reply.status(401).send({ message: 'Invalid credentials' });
     }
     const token = await reply.jwtSign({ id: user.id, role: user.role, email: user.email, name: user.name, mustChangePassword: user.mustChangePassword });
-    return { token, user: { id: user.id, role: user.role, name: user.name, email: user.email, mustChangePassword: user.mustChangePassword } };
+    return { token, user: { id: user.id, role: user.role, name: user.name, email: user.email, mustChangePassword: user.mustChangePassword, buildingId: user.buildingId } };
   });
 
   // Change password endpoint
@@ -151,9 +158,13 @@ export async function systemRoutes(app: FastifyInstance) {
     const origin = (req.headers.origin as string | undefined) ?? '';
     const allowedOrigin = config.frontendOrigins?.includes(origin) ? origin : config.frontendOrigins?.[0] ?? '';
     const resetLink = `${allowedOrigin}/admin?reset=${token}`;
+    const building = user.buildingId
+      ? await prisma.building.findUniqueOrThrow({ where: { id: user.buildingId } })
+      : await getDefaultBuilding();
 
     await sendEmail(
       prisma,
+      building.id,
       user.email,
       'Password Reset Request — MoveCal',
       emailWrapper(
@@ -164,7 +175,10 @@ export async function systemRoutes(app: FastifyInstance) {
             Reset Password
           </a>
         </p>
-        <p style="font-size:12px;color:#888">If you did not request this, you can safely ignore this email. Your password will not change.</p>`
+        <p style="font-size:12px;color:#888">If you did not request this, you can safely ignore this email. Your password will not change.</p>`,
+        undefined,
+        undefined,
+        building
       )
     ).catch(() => { /* silently ignore email errors — don't leak user existence */ });
 
@@ -198,25 +212,33 @@ export async function systemRoutes(app: FastifyInstance) {
     const secret = req.headers['x-intake-secret'];
     if (secret !== config.intakeSecret) return reply.status(401).send({ message: 'Invalid secret' });
     const body = intakeSchema.parse(req.body);
+    const building = await resolveBuilding(req);
+    const unit = await resolveBookingUnit(building.id, body.unit);
+    const fees = await computeBookingFees(building.id, body.moveType, body.startDatetime, body.endDatetime);
 
     // Validate move time restrictions
-    const timeValidation = validateMoveTime(body.startDatetime, body.endDatetime);
+    const timeValidation = await validateMoveTime(building.id, body.startDatetime, body.endDatetime, body.moveType);
     if (!timeValidation.valid) {
       return reply.status(400).send({ message: timeValidation.error });
     }
 
-    const concierge = await prisma.user.findFirstOrThrow({ where: { role: UserRole.CONCIERGE } });
+    const concierge = await findSystemUser(building.id);
+    if (!concierge) return reply.status(409).send({ message: NO_SYSTEM_USER_MESSAGE });
     const booking = await prisma.$transaction(async (tx) => {
-      await assertNoConflict(
+      const resourceIds = await assertNoConflict(
         tx,
-        { startDatetime: body.startDatetime, endDatetime: body.endDatetime, elevatorRequired: body.elevatorRequired },
+        { buildingId: building.id, startDatetime: body.startDatetime, endDatetime: body.endDatetime, elevatorRequired: body.elevatorRequired, loadingBayRequired: body.loadingBayRequired },
         false
       );
       return tx.booking.create({
         data: {
           ...body,
+          ...unit,
+          ...fees,
+          buildingId: building.id,
           createdById: concierge.id,
-          status: BookingStatus.PENDING
+          status: BookingStatus.PENDING,
+          resources: { create: resourceIds.map((resourceId) => ({ resourceId })) }
         }
       });
     });
@@ -224,21 +246,64 @@ export async function systemRoutes(app: FastifyInstance) {
     return booking;
   });
 
-  app.get('/api/admin/bookings/export.csv', { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (_, reply) => {
-    const rows = await prisma.booking.findMany({ orderBy: { moveDate: 'asc' } });
-    const csv = stringify(
-      rows.map((r) => ({
-        id: r.id,
-        resident_name: sanitizeCsvValue(r.residentName),
-        unit: sanitizeCsvValue(r.unit),
-        move_type: r.moveType,
-        status: r.status,
-        start_datetime: r.startDatetime.toISOString(),
-        end_datetime: r.endDatetime.toISOString()
-      })),
-      { header: true }
-    );
-    reply.header('content-type', 'text/csv');
-    return csv;
+  // The same filters as the bookings list, with a choice of columns, as CSV or an Excel workbook
+  for (const format of EXPORT_FORMATS) {
+    app.get(`/api/admin/bookings/export.${format}`, { preHandler: [requireRole([UserRole.CONCIERGE, UserRole.COUNCIL, UserRole.PROPERTY_MANAGER])] }, async (req, reply) => {
+      const { columns, ...filter } = bookingExportSchema.parse(req.query);
+      const building = await resolveStaffBuilding(req);
+      const bookings = await prisma.booking.findMany({
+        where: await bookingFilterWhere(building.id, filter),
+        include: { approvedBy: { select: { name: true, email: true } } },
+        orderBy: [{ moveDate: 'asc' }, { startDatetime: 'asc' }]
+      });
+      const approvals = columns.includes('payment_invoice_id')
+        ? await prisma.moveApproval.findMany({ where: { moveRequestId: { in: bookings.map((b) => b.id) } } })
+        : [];
+      const invoiceByBooking = new Map(approvals.map((a) => [a.moveRequestId, a.invoiceId]));
+      const rows = bookings.map((b) => ({ ...b, paymentInvoiceId: invoiceByBooking.get(b.id) ?? null }));
+
+      const { body, contentType } = buildExport(format, `${building.name} Bookings`, BOOKING_EXPORT_COLUMNS, columns, rows);
+      reply.header('content-type', contentType);
+      reply.header('content-disposition', `attachment; filename="${building.slug}-bookings.${format}"`);
+      return body;
+    });
+  }
+  app.get('/api/admin/calendar.ics', { preHandler: [requireRoleOrCalendarToken(STAFF_ROLES)] }, async (req, reply) => {
+    const building = await resolveStaffBuilding(req);
+    const bookings = await prisma.booking.findMany({
+      where: {
+        buildingId: building.id,
+        status: { in: [BookingStatus.SUBMITTED, BookingStatus.PENDING, BookingStatus.APPROVED] },
+        deletedAt: null,
+        endDatetime: { gte: new Date(Date.now() - CALENDAR_FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000) }
+      },
+      orderBy: { startDatetime: 'asc' }
+    });
+    reply.header('content-type', 'text/calendar; charset=utf-8');
+    reply.header('content-disposition', `inline; filename="${building.slug}-bookings.ics"`);
+    return buildCalendar(`${building.name} Bookings`, bookings.map((b) => bookingCalendarEvent(b, building.name, 'staff')));
+  });
+
+  // Subscription link for the staff feed; calling POST again revokes the previous link
+  const calendarFeedUrl = (token: string, buildingSlug: string) =>
+    `${config.frontendOrigins[0]}/api/admin/calendar.ics?building=${encodeURIComponent(buildingSlug)}&token=${token}`;
+
+  app.get('/api/admin/calendar-feed', { preHandler: [requireRole(STAFF_ROLES)] }, async (req) => {
+    const [building, user] = await Promise.all([
+      resolveStaffBuilding(req),
+      prisma.user.findUniqueOrThrow({ where: { id: req.user.id }, select: { calendarToken: true } })
+    ]);
+    return {
+      url: user.calendarToken ? calendarFeedUrl(user.calendarToken, building.slug) : null,
+      publicUrl: `${config.frontendOrigins[0]}/api/public/calendar.ics?building=${encodeURIComponent(building.slug)}`
+    };
+  });
+
+  app.post('/api/admin/calendar-feed', { preHandler: [requireRole(STAFF_ROLES)] }, async (req) => {
+    const building = await resolveStaffBuilding(req);
+    const token = crypto.randomBytes(32).toString('hex');
+    await prisma.user.update({ where: { id: req.user.id }, data: { calendarToken: token } });
+    await logAudit(prisma, auditContext(req, building.id), 'CALENDAR_FEED_TOKEN_REGENERATED');
+    return { url: calendarFeedUrl(token, building.slug) };
   });
 }
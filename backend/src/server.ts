@@ -14,10 +14,16 @@ import { publicRoutes } from './routes/publicRoutes.js';
 import { bookingRoutes } from './routes/bookingRoutes.js';
 import { adminRoutes } from './routes/adminRoutes.js';
 import { systemRoutes } from './routes/systemRoutes.js';
-import { startInvoiceNinjaPoller } from './services/invoiceNinjaPoller.js';
+import { integrationRoutes } from './routes/integrationRoutes.js';
+import { registerPaymentPollJob } from './services/paymentPoller.js';
 import { prisma } from './prisma.js';
 import { startAutoApprovalJob } from './services/autoApprovalService.js';
-import { startPaymentReminderJob } from './services/paymentReminderService.js';
+import { registerPaymentReminderJob } from './services/paymentReminderService.js';
+import { registerMoveReminderJobs } from './services/moveReminderService.js';
+import { registerWaitlistJob } from './services/waitlistService.js';
+import { startJobScheduler } from './services/jobScheduler.js';
+import { registerEmailOutboxJob } from './services/emailService.js';
+import { registerBookingPurgeJob } from './services/bookingTrashService.js';
 import { ZodError } from 'zod';
 
 const app = Fastify({ logger: true, bodyLimit: 2 * 1024 * 1024, trustProxy: true });
@@ -99,10 +105,16 @@ await app.register(publicRoutes);
 await app.register(bookingRoutes);
 await app.register(adminRoutes);
 await app.register(systemRoutes);
+await app.register(integrationRoutes);
 
 startAutoApprovalJob();
-startPaymentReminderJob();
-startInvoiceNinjaPoller(app.log);
+registerPaymentReminderJob();
+registerMoveReminderJobs();
+registerWaitlistJob();
+registerPaymentPollJob(app.log);
+registerEmailOutboxJob(prisma);
+registerBookingPurgeJob();
+await startJobScheduler(app.log);
 
 app.get('/health', async (_req, reply) => {
   try {
@@ -1,26 +1,92 @@
-import { PrismaClient } from '@prisma/client';
+import { AuditAction, AuditActorType, Prisma, PrismaClient } from '@prisma/client';
+import { FastifyRequest } from 'fastify';
+
+/** Who made a change, in which building and, for web requests, from where. */
+export type AuditContext = {
+  actorType: AuditActorType;
+  // Staff only
+  userId?: string;
+  // The resident's email, or the name of the job or integration
+  actorLabel?: string;
+  // Omitted for changes that are not tied to one building
+  buildingId?: string | null;
+  ip?: string;
+  userAgent?: string;
+};
+
+function requestOrigin(req: FastifyRequest) {
+  return { ip: req.ip, userAgent: req.headers['user-agent']?.slice(0, 500) };
+}
+
+/** Audit context for the signed-in staff member making this request. */
+export function auditContext(req: FastifyRequest, buildingId?: string | null): AuditContext {
+  return { actorType: AuditActorType.STAFF, userId: req.user.id, buildingId: buildingId ?? null, ...requestOrigin(req) };
+}
+
+/** Audit context for a resident acting on their booking through its edit token. */
+export function residentAuditContext(req: FastifyRequest, booking: { buildingId: string; residentEmail: string }): AuditContext {
+  return { actorType: AuditActorType.RESIDENT, actorLabel: booking.residentEmail, buildingId: booking.buildingId, ...requestOrigin(req) };
+}
+
+/** Audit context for a background job, named as it is registered with the scheduler. */
+export function systemAuditContext(job: string, buildingId?: string | null): AuditContext {
+  return { actorType: AuditActorType.SYSTEM, actorLabel: job, buildingId: buildingId ?? null };
+}
+
+/** Audit context for an inbound webhook from another system. */
+export function integrationAuditContext(name: string, req?: FastifyRequest): AuditContext {
+  return { actorType: AuditActorType.INTEGRATION, actorLabel: name, ...(req && requestOrigin(req)) };
+}
+
+// Booking fields whose edits are recorded field by field; status changes are audited by the status service
+export const BOOKING_AUDIT_FIELDS = [
+  'startDatetime', 'endDatetime', 'moveType', 'unit', 'residentName', 'residentEmail', 'residentPhone', 'companyName',
+  'notes', 'elevatorRequired', 'loadingBayRequired', 'smsOptIn', 'moveFeeCents', 'depositCents', 'afterHoursSurchargeCents'
+] as const;
+
+export type AuditDiff = Record<string, { from: unknown; to: unknown }>;
+
+function comparable(value: unknown) {
+  return value instanceof Date ? value.toISOString() : value;
+}
 
 /**
- * Creates an audit log entry with optional metadata.
- *
- * @param metadata - Optional metadata object that can include:
- *   - ip: IP address of the request
- *   - userAgent: User agent string
- *   - any other contextual information
+ * Fields that differ between two versions of a record, as before/after pairs.
+ * Only the listed fields are compared, so secrets and relations stay out of
+ * the log.
  */
+export function auditDiff<T extends object>(before: T, after: T, fields: (keyof T & string)[]): AuditDiff {
+  const diff: AuditDiff = {};
+  for (const field of fields) {
+    const from = comparable(before[field]);
+    const to = comparable(after[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) diff[field] = { from: from ?? null, to: to ?? null };
+  }
+  return diff;
+}
+
+/** Row data for an audit entry, for writing it in the same transaction as the change. */
+export function auditEntryData(context: AuditContext, action: AuditAction, bookingId?: string, metadata?: Record<string, any>) {
+  return {
+    actorType: context.actorType,
+    actorUserId: context.userId ?? null,
+    actorLabel: context.actorLabel ?? null,
+    action,
+    bookingId,
+    buildingId: context.buildingId ?? null,
+    ip: context.ip,
+    userAgent: context.userAgent,
+    metadataJson: metadata || {}
+  } satisfies Prisma.AuditLogUncheckedCreateInput;
+}
+
+/** Creates an audit log entry with optional metadata. */
 export async function logAudit(
-  prisma: PrismaClient,
-  actorUserId: string,
-  action: string,
+  prisma: PrismaClient | Prisma.TransactionClient,
+  context: AuditContext,
+  action: AuditAction,
   bookingId?: string,
   metadata?: Record<string, any>
 ) {
-  await prisma.auditLog.create({
-    data: {
-      actorUserId,
-      action,
-      bookingId,
-      metadataJson: metadata || {}
-    }
-  });
+  await prisma.auditLog.create({ data: auditEntryData(context, action, bookingId, metadata) });
 }
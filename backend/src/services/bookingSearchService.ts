@@ -0,0 +1,69 @@
+import { BookingStatus, MoveType, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../prisma.js';
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+// Comma-separated lists in the query string, e.g. status=SUBMITTED,PENDING
+export const listOf = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess((v) => (typeof v === 'string' ? v.split(',').filter(Boolean) : v), z.array(item).optional());
+
+export const BOOKING_SORT_FIELDS = ['startDatetime', 'createdAt', 'residentName', 'unit', 'status'] as const;
+
+/** Filters shared by the admin bookings list and its exports. */
+export const bookingFilterSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  status: listOf(z.nativeEnum(BookingStatus)),
+  moveType: listOf(z.nativeEnum(MoveType)),
+  // Inclusive, on the move date
+  from: z.string().regex(datePattern).optional(),
+  to: z.string().regex(datePattern).optional(),
+  unit: z.string().trim().max(20).optional(),
+  paymentMatched: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+});
+
+export const bookingListSchema = bookingFilterSchema.extend({
+  sort: z.enum(BOOKING_SORT_FIELDS).default('startDatetime'),
+  order: z.enum(['asc', 'desc']).default('asc'),
+  cursor: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type BookingFilter = z.infer<typeof bookingFilterSchema>;
+
+/**
+ * Prisma filter for a building's bookings. Every word of the search must
+ * appear in the resident's name, email or company; trashed bookings are never
+ * included.
+ */
+export async function bookingFilterWhere(buildingId: string, filter: BookingFilter): Promise<Prisma.BookingWhereInput> {
+  const terms = filter.q?.split(/\s+/).filter(Boolean) ?? [];
+  // Payments are matched to bookings by id only, so the building's matched ids are looked up first
+  const matchedIds = filter.paymentMatched === undefined
+    ? undefined
+    : (await prisma.moveApproval.findMany({ where: { payment: { buildingId } }, select: { moveRequestId: true } })).map((a) => a.moveRequestId);
+
+  return {
+    buildingId,
+    deletedAt: null,
+    ...(filter.status?.length && { status: { in: filter.status } }),
+    ...(filter.moveType?.length && { moveType: { in: filter.moveType } }),
+    ...((filter.from || filter.to) && {
+      moveDate: {
+        ...(filter.from && { gte: new Date(filter.from) }),
+        ...(filter.to && { lte: new Date(filter.to) }),
+      },
+    }),
+    ...(filter.unit && { unit: { contains: filter.unit, mode: 'insensitive' as const } }),
+    ...(matchedIds && { id: filter.paymentMatched ? { in: matchedIds } : { notIn: matchedIds } }),
+    ...(terms.length > 0 && {
+      AND: terms.map((term) => ({
+        OR: [
+          { residentName: { contains: term, mode: 'insensitive' as const } },
+          { residentEmail: { contains: term, mode: 'insensitive' as const } },
+          { companyName: { contains: term, mode: 'insensitive' as const } },
+        ],
+      })),
+    }),
+  };
+}
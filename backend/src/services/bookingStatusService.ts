@@ -0,0 +1,318 @@
+import { AuditAction, AuditActorType, Booking, BookingStatus, EmailTemplateKey, NotifyEvent, Prisma, PrismaClient, UserRole } from '@prisma/client';
+import dayjs from 'dayjs';
+import { FastifyRequest } from 'fastify';
+import { config } from '../config.js';
+import { MOVE_TYPE_LABELS } from '../utils/moveTypeLabels.js';
+import { auditContext, AuditContext, auditEntryData, integrationAuditContext, residentAuditContext, systemAuditContext } from './auditService.js';
+import { bookingDetailsHtml, emailWrapper, sendTemplatedEmail, statusReasonHtml } from './emailService.js';
+import { JobLogger } from './jobScheduler.js';
+import { notifyResident, sendNotificationRecipients } from './notificationService.js';
+import { offerFreedSlot } from './waitlistService.js';
+
+/**
+ * Who is changing a booking's status. System covers auto-approval and the
+ * payment poller; integrations are webhooks from other systems. `audit`
+ * carries where the request came from into the audit entry.
+ */
+export type StatusActor =
+  | { kind: 'staff'; userId: string; role: UserRole; name?: string; audit?: AuditContext }
+  | { kind: 'resident'; audit?: AuditContext }
+  | { kind: 'system'; audit?: AuditContext }
+  | { kind: 'integration'; audit?: AuditContext };
+
+export const SYSTEM_ACTOR: StatusActor = { kind: 'system' };
+export const RESIDENT_ACTOR: StatusActor = { kind: 'resident' };
+
+/** The signed-in staff member making this request. */
+export function staffActor(req: FastifyRequest): StatusActor {
+  const { id, role, name, email } = req.user;
+  return { kind: 'staff', userId: id, role, name: name || email, audit: auditContext(req) };
+}
+
+/** A resident acting on their booking through its edit token. */
+export function residentActor(req: FastifyRequest, booking: Pick<Booking, 'buildingId' | 'residentEmail'>): StatusActor {
+  return { kind: 'resident', audit: residentAuditContext(req, booking) };
+}
+
+/** A background job, named as it is registered with the scheduler. */
+export function systemActor(job: string): StatusActor {
+  return { kind: 'system', audit: systemAuditContext(job) };
+}
+
+export function integrationActor(name: string, req?: FastifyRequest): StatusActor {
+  return { kind: 'integration', audit: integrationAuditContext(name, req) };
+}
+
+type TransitionEffect = 'RESIDENT_NOTICE' | 'STAFF_NOTICE' | 'OFFER_WAITLIST';
+
+type TransitionRule = {
+  from: BookingStatus[];
+  to: BookingStatus;
+  actors: StatusActor['kind'][];
+  // Staff roles allowed to make the move; any staff role when omitted
+  roles?: UserRole[];
+  // Staff must say why; a resident's reason is optional
+  reasonRequired?: boolean;
+  effects: TransitionEffect[];
+  auditAction: AuditAction;
+};
+
+const MANAGER_ROLES: UserRole[] = [UserRole.COUNCIL, UserRole.PROPERTY_MANAGER];
+
+/** Every permitted status change. New bookings start at SUBMITTED (quick entry approves in the same step). */
+export const STATUS_TRANSITIONS: TransitionRule[] = [
+  {
+    // Under review, e.g. waiting on payment
+    from: [BookingStatus.SUBMITTED],
+    to: BookingStatus.PENDING,
+    actors: ['staff', 'system'],
+    effects: [],
+    auditAction: 'BOOKING_MARKED_PENDING'
+  },
+  {
+    from: [BookingStatus.SUBMITTED, BookingStatus.PENDING],
+    to: BookingStatus.APPROVED,
+    actors: ['staff', 'system', 'integration'],
+    effects: ['RESIDENT_NOTICE', 'STAFF_NOTICE'],
+    auditAction: 'BOOKING_APPROVED'
+  },
+  {
+    from: [BookingStatus.SUBMITTED, BookingStatus.PENDING],
+    to: BookingStatus.REJECTED,
+    actors: ['staff'],
+    reasonRequired: true,
+    effects: ['RESIDENT_NOTICE', 'STAFF_NOTICE', 'OFFER_WAITLIST'],
+    auditAction: 'BOOKING_REJECTED'
+  },
+  {
+    from: [BookingStatus.SUBMITTED, BookingStatus.PENDING, BookingStatus.APPROVED],
+    to: BookingStatus.CANCELLED,
+    actors: ['staff', 'resident'],
+    reasonRequired: true,
+    effects: ['RESIDENT_NOTICE', 'STAFF_NOTICE', 'OFFER_WAITLIST'],
+    auditAction: 'BOOKING_CANCELLED'
+  },
+  {
+    // Back into the review queue; the slot must still be free, which callers check
+    from: [BookingStatus.REJECTED, BookingStatus.CANCELLED],
+    to: BookingStatus.SUBMITTED,
+    actors: ['staff'],
+    roles: MANAGER_ROLES,
+    effects: [],
+    auditAction: 'BOOKING_REOPENED'
+  }
+];
+
+const STATUS_LABELS: Record<BookingStatus, string> = {
+  SUBMITTED: 'submitted',
+  PENDING: 'pending',
+  APPROVED: 'approved',
+  REJECTED: 'rejected',
+  CANCELLED: 'cancelled'
+};
+
+// "A cancelled booking cannot be …"
+const TARGET_LABELS: Record<BookingStatus, string> = {
+  SUBMITTED: 'reopened',
+  PENDING: 'marked pending',
+  APPROVED: 'approved',
+  REJECTED: 'rejected',
+  CANCELLED: 'cancelled'
+};
+
+function httpError(statusCode: number, message: string) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+function findRule(from: BookingStatus, to: BookingStatus) {
+  return STATUS_TRANSITIONS.find((r) => r.to === to && r.from.includes(from));
+}
+
+function actorAllowed(rule: TransitionRule, actor: StatusActor) {
+  if (!rule.actors.includes(actor.kind)) return false;
+  return actor.kind !== 'staff' || !rule.roles || rule.roles.includes(actor.role);
+}
+
+/**
+ * The rule for moving a booking from one status to another, or a 409 when
+ * there is none, 403 when the actor may not make it and 400 when a required
+ * reason is missing.
+ */
+export function assertTransition(from: BookingStatus, to: BookingStatus, actor: StatusActor, reason?: string | null): TransitionRule {
+  if (from === to) throw httpError(409, `Booking is already ${STATUS_LABELS[to]}`);
+  const rule = findRule(from, to);
+  if (!rule) throw httpError(409, `A ${STATUS_LABELS[from]} booking cannot be ${TARGET_LABELS[to]}`);
+  if (!actorAllowed(rule, actor)) {
+    const who = { staff: 'your role', resident: 'a resident', system: 'the system', integration: 'an integration' }[actor.kind];
+    throw httpError(403, `A booking cannot be ${TARGET_LABELS[to]} by ${who}`);
+  }
+  if (rule.reasonRequired && actor.kind === 'staff' && !reason?.trim()) {
+    throw httpError(400, `A reason is required when a booking is ${TARGET_LABELS[to]}`);
+  }
+  return rule;
+}
+
+export function canTransition(from: BookingStatus, to: BookingStatus, actor: StatusActor) {
+  const rule = findRule(from, to);
+  return from !== to && !!rule && actorAllowed(rule, actor);
+}
+
+/** Booking fields written with a status change; merge into a larger update when other fields change too. */
+export function transitionData(to: BookingStatus, actor: StatusActor, reason?: string | null) {
+  const closing = to === BookingStatus.REJECTED || to === BookingStatus.CANCELLED;
+  return {
+    status: to,
+    statusReason: closing ? reason?.trim() || null : null,
+    ...(to === BookingStatus.APPROVED && { approvedAt: new Date(), approvedById: actor.kind === 'staff' ? actor.userId : null }),
+    // Every status change reaches subscribed calendars as a new revision of the event
+    calendarSequence: { increment: 1 }
+  } satisfies Prisma.BookingUncheckedUpdateInput;
+}
+
+const DEFAULT_AUDIT_ACTOR_TYPES: Record<StatusActor['kind'], AuditActorType> = {
+  staff: AuditActorType.STAFF,
+  resident: AuditActorType.RESIDENT,
+  system: AuditActorType.SYSTEM,
+  integration: AuditActorType.INTEGRATION
+};
+
+function actorAuditContext(actor: StatusActor, booking: Pick<Booking, 'buildingId' | 'residentEmail'>): AuditContext {
+  const context: AuditContext = actor.audit ?? {
+    actorType: DEFAULT_AUDIT_ACTOR_TYPES[actor.kind],
+    ...(actor.kind === 'staff' && { userId: actor.userId }),
+    ...(actor.kind === 'resident' && { actorLabel: booking.residentEmail })
+  };
+  return { ...context, buildingId: booking.buildingId };
+}
+
+/**
+ * Audit entry for a status change, written with the change itself so every
+ * change is traceable whoever made it.
+ */
+export function transitionAuditData(
+  booking: Pick<Booking, 'id' | 'buildingId' | 'residentEmail'>,
+  from: BookingStatus,
+  to: BookingStatus,
+  actor: StatusActor,
+  reason?: string | null,
+  metadata?: Record<string, unknown>
+) {
+  const rule = findRule(from, to);
+  if (!rule) throw new Error(`No status transition from ${from} to ${to}`);
+  return auditEntryData(actorAuditContext(actor, booking), rule.auditAction, booking.id, { from, to, reason: reason?.trim() || undefined, ...metadata });
+}
+
+/**
+ * Checks and writes a status change and its audit entry. The update is
+ * conditional on the status the caller read, so two concurrent changes cannot
+ * both apply.
+ */
+export async function changeBookingStatus(
+  client: PrismaClient | Prisma.TransactionClient,
+  booking: Pick<Booking, 'id' | 'status' | 'buildingId' | 'residentEmail'>,
+  to: BookingStatus,
+  actor: StatusActor,
+  reason?: string | null
+) {
+  assertTransition(booking.status, to, actor, reason);
+  const { count } = await client.booking.updateMany({ where: { id: booking.id, status: booking.status }, data: transitionData(to, actor, reason) });
+  if (count === 0) throw httpError(409, 'The booking was changed by someone else. Reload and try again.');
+  await client.auditLog.create({ data: transitionAuditData(booking, booking.status, to, actor, reason) });
+  return client.booking.findUniqueOrThrow({ where: { id: booking.id } });
+}
+
+/**
+ * Sends the notices and waitlist offers for a status change that has been
+ * written. Failures are logged, not thrown: the change itself stands.
+ */
+export async function runTransitionEffects(prisma: PrismaClient, before: Booking, after: Booking, actor: StatusActor, log: Pick<JobLogger, 'error'>) {
+  const rule = findRule(before.status, after.status);
+  if (!rule) throw new Error(`No status transition from ${before.status} to ${after.status}`);
+  const building = await prisma.building.findUnique({ where: { id: after.buildingId } });
+  const manageUrl = after.editToken ? `${config.frontendOrigins[0]}/booking/${after.id}?token=${after.editToken}` : undefined;
+  const moveLabel = MOVE_TYPE_LABELS[after.moveType] ?? after.moveType;
+  const reasonHtml = after.statusReason ? statusReasonHtml(after.statusReason) : '';
+
+  if (after.status === BookingStatus.APPROVED) {
+    const [settings, moveApproval] = await Promise.all([
+      prisma.appSetting.findUnique({ where: { buildingId: after.buildingId } }),
+      prisma.moveApproval.findFirst({ where: { moveRequestId: after.id } })
+    ]);
+    const includeContact = !!settings?.includeResidentContactInApprovalEmails;
+    const paymentConfirmed = !!moveApproval;
+    if (rule.effects.includes('RESIDENT_NOTICE')) {
+      await notifyResident(prisma, EmailTemplateKey.APPROVED, after, { manageUrl, paymentConfirmed, attachCalendar: true }).catch((err) => {
+        log.error({ err, bookingId: after.id, email: after.residentEmail }, 'Failed to send booking approval email');
+      });
+    }
+    if (rule.effects.includes('STAFF_NOTICE')) {
+      await sendNotificationRecipients(
+        prisma,
+        after.buildingId,
+        NotifyEvent.APPROVED,
+        `Booking Approved — ${moveLabel} on ${dayjs(after.startDatetime).format('MMM D, YYYY')}`,
+        emailWrapper('Booking Approved', 'The following booking has been approved.', bookingDetailsHtml(after, includeContact, paymentConfirmed), undefined, undefined, building ?? undefined),
+        { bookingId: after.id }
+      ).catch((err) => {
+        log.error({ err, bookingId: after.id, event: 'APPROVED' }, 'Failed to send approval notification');
+      });
+    }
+  }
+
+  if (after.status === BookingStatus.REJECTED) {
+    if (rule.effects.includes('RESIDENT_NOTICE')) {
+      await sendTemplatedEmail(prisma, EmailTemplateKey.REJECTED, after.residentEmail, after, { manageUrl, extraHtml: reasonHtml }).catch((err) => {
+        log.error({ err, bookingId: after.id, email: after.residentEmail }, 'Failed to send booking rejection email');
+      });
+    }
+    if (rule.effects.includes('STAFF_NOTICE')) {
+      await sendNotificationRecipients(
+        prisma,
+        after.buildingId,
+        NotifyEvent.REJECTED,
+        `Booking Not Approved — ${moveLabel} on ${dayjs(after.startDatetime).format('MMM D, YYYY')}`,
+        emailWrapper('Booking Rejected', 'The following booking request has been rejected.', bookingDetailsHtml(after, true) + reasonHtml, undefined, undefined, building ?? undefined),
+        { bookingId: after.id }
+      ).catch((err) => {
+        log.error({ err, bookingId: after.id, event: 'REJECTED' }, 'Failed to send rejection notification');
+      });
+    }
+  }
+
+  if (after.status === BookingStatus.CANCELLED) {
+    if (rule.effects.includes('STAFF_NOTICE')) {
+      const byResident = actor.kind === 'resident';
+      await sendNotificationRecipients(
+        prisma,
+        after.buildingId,
+        NotifyEvent.CANCELLED,
+        `Booking Cancelled${byResident ? ' by Resident' : ''} — ${moveLabel} for Unit ${after.unit}`,
+        emailWrapper(
+          'Booking Cancelled',
+          byResident
+            ? `The resident (${after.residentEmail}) has cancelled their booking.`
+            : `${actor.kind === 'staff' && actor.name ? actor.name : 'Building staff'} cancelled the following booking.`,
+          bookingDetailsHtml(after, true) + reasonHtml,
+          undefined,
+          undefined,
+          building ?? undefined
+        ),
+        { bookingId: after.id }
+      ).catch((err) => {
+        log.error({ err, bookingId: after.id, event: 'CANCELLED' }, 'Failed to send cancellation notification');
+      });
+    }
+    if (rule.effects.includes('RESIDENT_NOTICE')) {
+      // An approved booking is already in the resident's calendar; the attachment cancels it there
+      await notifyResident(prisma, EmailTemplateKey.CANCELLED, after, { manageUrl, extraHtml: reasonHtml, attachCalendar: before.status === BookingStatus.APPROVED }).catch((err) => {
+        log.error({ err, bookingId: after.id, email: after.residentEmail }, 'Failed to send cancellation email to resident');
+      });
+    }
+  }
+
+  if (rule.effects.includes('OFFER_WAITLIST')) {
+    await offerFreedSlot(prisma, before).catch((err) => {
+      log.error({ err, bookingId: before.id }, 'Failed to offer freed slot to the waitlist');
+    });
+  }
+}
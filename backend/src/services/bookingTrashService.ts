@@ -0,0 +1,59 @@
+import { prisma } from '../prisma.js';
+import { auditEntryData, systemAuditContext } from './auditService.js';
+import { registerJob } from './jobScheduler.js';
+
+// Days a deleted booking stays in the trash, where staff can restore it, before it is purged for good
+export const TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JOB_NAME = 'booking-trash-purge';
+
+/** When the purge job will permanently remove a booking deleted at the given time. */
+export function trashPurgeDate(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Permanently deletes bookings that have been in the trash for longer than the
+ * retention period; their documents go with them. Earlier audit entries are
+ * kept but detached, and a BOOKING_PURGED entry records what was removed.
+ */
+export async function purgeTrashedBookings(now = new Date()) {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+  const expired = await prisma.booking.findMany({
+    where: { deletedAt: { lte: cutoff } },
+    select: { id: true, buildingId: true, residentName: true, unit: true, moveType: true, status: true, startDatetime: true, deletedAt: true, deletedById: true }
+  });
+
+  for (const booking of expired) {
+    await prisma.$transaction([
+      prisma.auditLog.updateMany({ where: { bookingId: booking.id }, data: { bookingId: null } }),
+      prisma.booking.delete({ where: { id: booking.id } }),
+      prisma.auditLog.create({
+        data: auditEntryData(systemAuditContext(JOB_NAME, booking.buildingId), 'BOOKING_PURGED', undefined, {
+          bookingId: booking.id,
+          residentName: booking.residentName,
+          unit: booking.unit,
+          moveType: booking.moveType,
+          status: booking.status,
+          startDatetime: booking.startDatetime.toISOString(),
+          deletedAt: booking.deletedAt?.toISOString(),
+          deletedById: booking.deletedById
+        })
+      })
+    ]);
+  }
+  return expired.length;
+}
+
+export function registerBookingPurgeJob() {
+  registerJob({
+    name: JOB_NAME,
+    description: `Permanently deletes bookings that have been in the trash for more than ${TRASH_RETENTION_DAYS} days`,
+    intervalMs: DAY_MS,
+    initialDelayMs: 5 * 60 * 1000,
+    run: async (log) => {
+      const purged = await purgeTrashedBookings();
+      if (purged > 0) log.info(`Purged ${purged} trashed booking(s)`);
+    }
+  });
+}
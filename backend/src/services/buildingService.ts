@@ -0,0 +1,69 @@
+import { Building, UserRole } from '@prisma/client';
+import { FastifyRequest } from 'fastify';
+import { prisma } from '../prisma.js';
+
+function httpError(statusCode: number, message: string) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+/**
+ * Building slug requested by the client: ?building= wins (links such as
+ * /tv?building=tower-b), otherwise the X-Building header the frontend sends.
+ */
+function requestedSlug(req: FastifyRequest): string | undefined {
+  const fromQuery = (req.query as { building?: unknown } | undefined)?.building;
+  if (typeof fromQuery === 'string' && fromQuery.trim()) return fromQuery.trim().toLowerCase();
+  const fromHeader = req.headers['x-building'];
+  if (typeof fromHeader === 'string' && fromHeader.trim()) return fromHeader.trim().toLowerCase();
+  return undefined;
+}
+
+/** The first building created — single-building installs never need to pass a slug. */
+export async function getDefaultBuilding(): Promise<Building> {
+  const building = await prisma.building.findFirst({ orderBy: { createdAt: 'asc' } });
+  if (!building) throw new Error('No buildings configured');
+  return building;
+}
+
+/** Building for public and resident endpoints. */
+export async function resolveBuilding(req: FastifyRequest): Promise<Building> {
+  const slug = requestedSlug(req);
+  if (!slug) return getDefaultBuilding();
+  const building = await prisma.building.findUnique({ where: { slug } });
+  if (!building) throw httpError(404, 'Building not found');
+  return building;
+}
+
+/**
+ * Building an authenticated staff request acts on. Staff assigned to a building
+ * always get that building; management-company staff (no building) choose one
+ * with the same slug header as the public pages.
+ */
+export async function resolveStaffBuilding(req: FastifyRequest): Promise<Building> {
+  const user = await prisma.user.findUnique({ where: { id: req.user.id }, select: { building: true } });
+  if (user?.building) return user.building;
+  return resolveBuilding(req);
+}
+
+/** The building a staff member is restricted to, or null when they can work across all buildings. */
+export async function getStaffBuildingId(userId: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { buildingId: true } });
+  return user?.buildingId ?? null;
+}
+
+/**
+ * The building's concierge account, recorded as the creator of resident and
+ * intake bookings. Never one from another building.
+ */
+export async function findSystemUser(buildingId: string) {
+  return prisma.user.findFirst({ where: { role: UserRole.CONCIERGE, buildingId }, orderBy: { createdAt: 'asc' } });
+}
+
+export const NO_SYSTEM_USER_MESSAGE = 'This building has no concierge account to record bookings under. Add one under Admin → Users.';
+
+/** Building an Invoice Ninja unit such as "T4-1105" belongs to, matched on its prefix. */
+export async function findBuildingForUnit(unit: string): Promise<Building | null> {
+  if (!unit.includes('-')) return null;
+  const prefix = unit.slice(0, unit.lastIndexOf('-'));
+  return prisma.building.findFirst({ where: { unitPrefix: { equals: prefix, mode: 'insensitive' } } });
+}
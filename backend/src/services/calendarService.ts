@@ -0,0 +1,163 @@
+import { BookingStatus, MoveType } from '@prisma/client';
+import { MOVE_TYPE_LABELS } from '../utils/moveTypeLabels.js';
+
+// Stable across regenerations so calendar apps update events instead of duplicating them
+const UID_DOMAIN = 'movecal';
+const PRODID = '-//MoveCal//Building Bookings//EN';
+// RFC 5545 content lines are folded at 75 octets
+const MAX_LINE_OCTETS = 75;
+
+export type CalendarEvent = {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  updatedAt?: Date;
+};
+
+export type CalendarBooking = {
+  id: string;
+  moveType: MoveType;
+  unit: string;
+  status: BookingStatus;
+  startDatetime: Date;
+  endDatetime: Date;
+  calendarSequence: number;
+  updatedAt?: Date;
+  residentName?: string;
+  residentPhone?: string;
+  companyName?: string | null;
+  notes?: string | null;
+  elevatorRequired?: boolean;
+  loadingBayRequired?: boolean;
+};
+
+function icsDate(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function icsText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Splits a content line into 75-octet pieces without cutting a UTF-8 character in half. */
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts against their limit
+    if (octets + size > MAX_LINE_OCTETS - (parts.length > 0 ? 1 : 0)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function eventLines(event: CalendarEvent, now: Date) {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${icsDate(now)}`,
+    ...(event.updatedAt ? [`LAST-MODIFIED:${icsDate(event.updatedAt)}`] : []),
+    `DTSTART:${icsDate(event.start)}`,
+    `DTEND:${icsDate(event.end)}`,
+    `SUMMARY:${icsText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${icsText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${icsText(event.location)}`] : []),
+    `STATUS:${event.status}`,
+    'END:VEVENT'
+  ];
+}
+
+/**
+ * A complete iCalendar document. PUBLISH is used throughout: there is no
+ * organizer to reply to, and clients still replace an event when the same UID
+ * arrives with a higher SEQUENCE.
+ */
+export function buildCalendar(name: string, events: CalendarEvent[], now = new Date()) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(name)}`,
+    ...events.flatMap((event) => eventLines(event, now)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function eventStatus(status: BookingStatus): CalendarEvent['status'] {
+  if (status === BookingStatus.APPROVED) return 'CONFIRMED';
+  if (status === BookingStatus.CANCELLED || status === BookingStatus.REJECTED) return 'CANCELLED';
+  return 'TENTATIVE';
+}
+
+/**
+ * Calendar event for a booking. `detail` picks what is shown: staff see the
+ * resident and resources, the public feed only the type and (masked) unit,
+ * and the resident's own copy names the building.
+ */
+export function bookingCalendarEvent(booking: CalendarBooking, buildingName: string, detail: 'staff' | 'public' | 'resident'): CalendarEvent {
+  const moveLabel = MOVE_TYPE_LABELS[booking.moveType] ?? booking.moveType;
+  const base = {
+    uid: `${booking.id}@${UID_DOMAIN}`,
+    sequence: booking.calendarSequence,
+    start: booking.startDatetime,
+    end: booking.endDatetime,
+    status: eventStatus(booking.status),
+    updatedAt: booking.updatedAt,
+    location: buildingName
+  };
+
+  if (detail === 'public') {
+    return { ...base, summary: `${moveLabel} — Unit ${booking.unit}` };
+  }
+  if (detail === 'resident') {
+    return {
+      ...base,
+      summary: `${moveLabel} — ${buildingName}`,
+      description: [`Unit ${booking.unit}`, `Reference: ${booking.id}`, 'Please check in with the concierge when you arrive.'].join('\n')
+    };
+  }
+
+  const resources = [booking.elevatorRequired && 'Elevator', booking.loadingBayRequired && 'Loading bay'].filter(Boolean).join(', ');
+  const pending = base.status === 'TENTATIVE' ? ' (pending)' : '';
+  return {
+    ...base,
+    summary: `${moveLabel} — Unit ${booking.unit}${pending}`,
+    description: [
+      booking.residentName && `Resident: ${booking.residentName}`,
+      booking.residentPhone && `Phone: ${booking.residentPhone}`,
+      booking.companyName && `Company: ${booking.companyName}`,
+      resources && `Resources: ${resources}`,
+      booking.notes && `Notes: ${booking.notes}`,
+      `Reference: ${booking.id}`
+    ]
+      .filter(Boolean)
+      .join('\n')
+  };
+}
+
+/** The .ics file attached to resident emails for one booking, or every booking in a series. */
+export function bookingIcsAttachment(booking: CalendarBooking | CalendarBooking[], buildingName: string) {
+  const bookings = Array.isArray(booking) ? booking : [booking];
+  return {
+    filename: 'booking.ics',
+    contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+    content: buildCalendar(buildingName, bookings.map((b) => bookingCalendarEvent(b, buildingName, 'resident')))
+  };
+}
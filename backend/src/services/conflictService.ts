@@ -1,4 +1,4 @@
-import { BookingStatus, Prisma } from '@prisma/client';
+import { BookingStatus, Prisma, ResourceType } from '@prisma/client';
 import dayjs from 'dayjs';
 
 // Outermost permitted hours across all day types:
@@ -9,12 +9,37 @@ const MOVE_END_HOUR = 19;
 
 export type ConflictCandidate = {
   id?: string;
+  // Bookings and resources in other buildings never conflict
+  buildingId: string;
   startDatetime: Date;
   endDatetime: Date;
   elevatorRequired: boolean;
+  loadingBayRequired?: boolean;
   moveType?: string;
+  // Specific resources chosen by an admin; otherwise one of each required type is auto-assigned
+  resourceIds?: string[];
+  // The submitter's own slot hold, which must not count against them
+  holdToken?: string;
 };
 
+const RESOURCE_LABELS: Record<ResourceType, string> = {
+  ELEVATOR: 'Elevator',
+  LOADING_BAY: 'Loading bay',
+  PARKING_STALL: 'Parking stall',
+};
+
+/**
+ * Every resource of a required type is taken for the requested time. Sent as
+ * 409; residents are offered the waitlist for the slot.
+ */
+function resourceConflictError(message: string) {
+  return Object.assign(new Error(message), { statusCode: 409, resourceConflict: true });
+}
+
+export function isResourceConflict(err: unknown): err is Error {
+  return err instanceof Error && (err as { resourceConflict?: boolean }).resourceConflict === true;
+}
+
 export function validateMoveHours(startDatetime: Date, endDatetime: Date) {
   const start = dayjs(startDatetime);
   const end = dayjs(endDatetime);
@@ -26,7 +51,8 @@ export function validateMoveHours(startDatetime: Date, endDatetime: Date) {
   }
 }
 
-export function hasElevatorConflict(existing: Array<{ startDatetime: Date; endDatetime: Date; elevatorRequired: boolean }>, candidate: ConflictCandidate) {
+// Single-elevator overlap check; assertNoConflict now uses per-resource capacity via peakUsage
+export function hasElevatorConflict(existing: Array<{ startDatetime: Date; endDatetime: Date; elevatorRequired: boolean }>, candidate: Pick<ConflictCandidate, 'startDatetime' | 'endDatetime' | 'elevatorRequired'>) {
   if (!candidate.elevatorRequired) return false;
   const cStart = dayjs(candidate.startDatetime);
   const cEnd = dayjs(candidate.endDatetime);
@@ -39,12 +65,45 @@ export function hasElevatorConflict(existing: Array<{ startDatetime: Date; endDa
   });
 }
 
-export async function assertNoConflict(prismaTx: Prisma.TransactionClient, candidate: ConflictCandidate, allowOverride: boolean) {
+/**
+ * Highest number of reservations holding a resource at the same instant within [start, end).
+ * Touching intervals (one ends as the next starts) do not overlap.
+ */
+export function peakUsage(reservations: Array<{ startDatetime: Date; endDatetime: Date }>, start: Date, end: Date): number {
+  const points: Array<[number, number]> = [];
+  for (const r of reservations) {
+    const rStart = Math.max(r.startDatetime.getTime(), start.getTime());
+    const rEnd = Math.min(r.endDatetime.getTime(), end.getTime());
+    if (rStart >= rEnd) continue;
+    points.push([rStart, 1], [rEnd, -1]);
+  }
+  // Ends sort before starts at the same instant
+  points.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  let current = 0;
+  let peak = 0;
+  for (const [, delta] of points) {
+    current += delta;
+    peak = Math.max(peak, current);
+  }
+  return peak;
+}
+
+/**
+ * Checks the candidate against Open House exclusivity and per-resource capacity.
+ * New bookings also count other residents' unexpired slot holds for the resource
+ * types they need. A type the building has no resources for is treated as one
+ * elevator or loading bay, as before resources were configurable.
+ * Returns the ids of the resources the booking should reserve; callers persist
+ * them as booking_resources rows alongside the booking write.
+ */
+export async function assertNoConflict(prismaTx: Prisma.TransactionClient, candidate: ConflictCandidate, allowOverride: boolean): Promise<string[]> {
   validateMoveHours(candidate.startDatetime, candidate.endDatetime);
 
   const timeOverlapWhere = {
     id: candidate.id ? { not: candidate.id } : undefined,
+    buildingId: candidate.buildingId,
     status: { in: [BookingStatus.SUBMITTED, BookingStatus.PENDING, BookingStatus.APPROVED] },
+    deletedAt: null,
     startDatetime: { lte: candidate.endDatetime },
     endDatetime: { gte: candidate.startDatetime },
   };
@@ -55,23 +114,109 @@ export async function assertNoConflict(prismaTx: Prisma.TransactionClient, candi
     if (!allowOverride && anyConflict) {
       throw new Error('Open House cannot overlap with an existing booking');
     }
-    return;
+  } else {
+    // For all other types: block if an OPEN_HOUSE booking overlaps
+    const openHouseConflict = await prismaTx.booking.findFirst({
+      where: { ...timeOverlapWhere, moveType: 'OPEN_HOUSE' as any },
+    });
+    if (!allowOverride && openHouseConflict) {
+      throw new Error('Booking conflicts with an existing Open House');
+    }
   }
 
-  // For all other types: block if an OPEN_HOUSE booking overlaps
-  const openHouseConflict = await prismaTx.booking.findFirst({
-    where: { ...timeOverlapWhere, moveType: 'OPEN_HOUSE' as any },
+  // Resource capacity check
+  const requiredTypes: ResourceType[] = [
+    ...(candidate.elevatorRequired ? [ResourceType.ELEVATOR] : []),
+    ...(candidate.loadingBayRequired ? [ResourceType.LOADING_BAY] : []),
+  ];
+  const explicitIds = candidate.resourceIds ? [...new Set(candidate.resourceIds)] : undefined;
+
+  // Unexpired holds from residents still filling in the form. They stand in for bookings
+  // not yet made, so a booking that already exists is never re-checked against them.
+  const holds = allowOverride || candidate.id
+    ? []
+    : await prismaTx.slotHold.findMany({
+        where: {
+          buildingId: candidate.buildingId,
+          expiresAt: { gt: new Date() },
+          startDatetime: { lt: candidate.endDatetime },
+          endDatetime: { gt: candidate.startDatetime },
+          ...(candidate.holdToken ? { token: { not: candidate.holdToken } } : {}),
+        },
+        select: { startDatetime: true, endDatetime: true, elevatorRequired: true, loadingBayRequired: true },
+      });
+  const heldOfType = (type: ResourceType) => holds.filter((h) => (type === ResourceType.ELEVATOR ? h.elevatorRequired : h.loadingBayRequired));
+
+  const resources = await prismaTx.resource.findMany({
+    where: explicitIds
+      ? { id: { in: explicitIds }, buildingId: candidate.buildingId }
+      : { buildingId: candidate.buildingId, active: true, type: { in: requiredTypes } },
+    orderBy: { name: 'asc' },
   });
-  if (!allowOverride && openHouseConflict) {
-    throw new Error('Booking conflicts with an existing Open House');
+  if (explicitIds && resources.length !== explicitIds.length) {
+    throw new Error('One or more selected resources do not exist');
   }
 
-  // Elevator conflict check
-  const existing = await prismaTx.booking.findMany({
-    where: { ...timeOverlapWhere, elevatorRequired: true },
-    select: { startDatetime: true, endDatetime: true, elevatorRequired: true }
-  });
-  if (!allowOverride && hasElevatorConflict(existing, candidate)) {
-    throw new Error('Elevator conflict detected');
+  const reservations = resources.length === 0
+    ? []
+    : await prismaTx.bookingResource.findMany({
+        where: { resourceId: { in: resources.map((r) => r.id) }, booking: timeOverlapWhere },
+        select: { resourceId: true, booking: { select: { startDatetime: true, endDatetime: true } } },
+      });
+  const hasRoom = (resource: { id: string; capacity: number }) =>
+    peakUsage(
+      reservations.filter((r) => r.resourceId === resource.id).map((r) => r.booking),
+      candidate.startDatetime,
+      candidate.endDatetime
+    ) < resource.capacity;
+  // Holds are not tied to a resource, so they are weighed against the type's combined capacity
+  const heldFull = (type: ResourceType, ofType: { id: string; capacity: number }[]) => {
+    const held = heldOfType(type);
+    return held.length > 0 && peakUsage(
+      [...reservations.filter((r) => ofType.some((o) => o.id === r.resourceId)).map((r) => r.booking), ...held],
+      candidate.startDatetime,
+      candidate.endDatetime
+    ) >= ofType.reduce((sum, r) => sum + r.capacity, 0);
+  };
+
+  if (explicitIds) {
+    const full = resources.find((r) => !hasRoom(r));
+    if (!allowOverride && full) {
+      throw resourceConflictError(`${full.name} is fully booked at that time`);
+    }
+    const held = requiredTypes.find((type) => {
+      const ofType = resources.filter((r) => r.type === type);
+      return ofType.length > 0 && heldFull(type, ofType);
+    });
+    if (held) throw resourceConflictError(`${RESOURCE_LABELS[held]} conflict detected`);
+    return resources.map((r) => r.id);
+  }
+
+  // Auto-assign one resource per required type, keeping the booking's current ones where possible
+  const current = candidate.id
+    ? new Set((await prismaTx.bookingResource.findMany({ where: { bookingId: candidate.id }, select: { resourceId: true } })).map((r) => r.resourceId))
+    : new Set<string>();
+  const assigned: string[] = [];
+  for (const type of requiredTypes) {
+    const ofType = resources
+      .filter((r) => r.type === type)
+      .sort((a, b) => Number(current.has(b.id)) - Number(current.has(a.id)));
+    if (ofType.length === 0) {
+      // None configured for this building: it has the single elevator and loading bay every building was assumed to have
+      const overlapping = await prismaTx.booking.findMany({
+        where: { ...timeOverlapWhere, ...(type === ResourceType.ELEVATOR ? { elevatorRequired: true } : { loadingBayRequired: true }) },
+        select: { startDatetime: true, endDatetime: true },
+      });
+      if (!allowOverride && peakUsage([...overlapping, ...heldOfType(type)], candidate.startDatetime, candidate.endDatetime) >= 1) {
+        throw resourceConflictError(`${RESOURCE_LABELS[type]} conflict detected`);
+      }
+      continue;
+    }
+    const free = ofType.find(hasRoom);
+    if (!allowOverride && (!free || heldFull(type, ofType))) {
+      throw resourceConflictError(`${RESOURCE_LABELS[type]} conflict detected`);
+    }
+    assigned.push((free ?? ofType[0]).id);
   }
+  return assigned;
 }
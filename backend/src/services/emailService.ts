@@ -1,22 +1,16 @@
 import nodemailer from 'nodemailer';
-import { MoveType, NotifyEvent, PrismaClient } from '@prisma/client';
+import { EmailStatus, EmailTemplateKey, MoveType, Prisma, PrismaClient } from '@prisma/client';
 import dayjs from 'dayjs';
 import { decrypt } from '../utils/crypto.js';
+import { MOVE_TYPE_LABELS } from '../utils/moveTypeLabels.js';
+import { registerJob } from './jobScheduler.js';
+import { DEFAULT_EMAIL_TEMPLATES, EmailTemplateContent, EmailTemplateVariables, escapeHtml, renderTemplate } from './emailTemplates.js';
 
 // ─── Shared email template helpers ───────────────────────────────────────────
 
-const MOVE_TYPE_LABELS: Record<MoveType, string> = {
-  MOVE_IN: 'Move In',
-  MOVE_OUT: 'Move Out',
-  FURNISHED_MOVE: 'Furnished Move',
-  DELIVERY: 'Delivery',
-  RENO: 'Renovation',
-  OPEN_HOUSE: 'Open House',
-  SUITCASE_MOVE: 'Suitcase Move',
-};
-
-type BookingEmailData = {
+export type BookingEmailData = {
   id: string;
+  buildingId: string;
   residentName: string;
   residentEmail: string;
   residentPhone: string;
@@ -62,7 +56,61 @@ export function bookingDetailsHtml(b: BookingEmailData, includeContact = false,
   <p style="font-size:12px;color:#888;margin-top:16px">Reference: ${b.id}</p>`;
 }
 
-export function emailWrapper(title: string, intro: string, body: string, footer?: string, manageUrl?: string): string {
+/** Pay-online button for the invoice raised when the booking was submitted. */
+export function payInvoiceHtml(payUrl: string, amountDueCents: number): string {
+  return `<p style="margin:24px 0 0;color:#333;font-size:14px;line-height:1.5">
+    Your booking is approved once the <strong>$${(amountDueCents / 100).toFixed(2)}</strong> in fees is paid.
+  </p>
+  <p style="margin:12px 0;text-align:center">
+    <a href="${payUrl}" style="display:inline-block;background:#166534;color:#fff;padding:14px 32px;border-radius:6px;text-decoration:none;font-weight:600;font-size:15px">
+      Pay Invoice Online
+    </a>
+  </p>`;
+}
+
+export function waitlistClaimHtml(claimUrl: string, expiresAt: Date): string {
+  return `<p style="margin:24px 0 0;color:#333;font-size:14px;line-height:1.5">
+    This offer expires <strong>${dayjs(expiresAt).format('MMM D, YYYY [at] h:mm A')}</strong>.
+  </p>
+  <p style="margin:12px 0;text-align:center">
+    <a href="${claimUrl}" style="display:inline-block;background:#166534;color:#fff;padding:14px 32px;border-radius:6px;text-decoration:none;font-weight:600;font-size:15px">
+      Claim This Time
+    </a>
+  </p>`;
+}
+
+/** The reason staff gave for rejecting or cancelling a booking. */
+export function statusReasonHtml(reason: string): string {
+  return `<p style="margin:24px 0 0;color:#333;font-size:14px;line-height:1.5">
+    <strong>Reason:</strong> ${escapeHtml(reason)}
+  </p>`;
+}
+
+/** Every date in a booking series, with a manage link per date when given. */
+export function seriesDatesHtml(occurrences: Array<{ startDatetime: Date; endDatetime: Date; manageUrl?: string }>): string {
+  const rows = occurrences.map((o) => {
+    const when = `${dayjs(o.startDatetime).format('ddd, MMM D, YYYY')} · ${dayjs(o.startDatetime).format('h:mm A')} – ${dayjs(o.endDatetime).format('h:mm A')}`;
+    const link = o.manageUrl ? ` <a href="${o.manageUrl}" style="color:#2563eb">Manage</a>` : '';
+    return `<li style="margin:0 0 4px">${when}${link}</li>`;
+  });
+  return `<h3 style="margin:24px 0 8px;color:#1e293b;font-size:15px">All Dates in This Series (${occurrences.length})</h3>
+  <ul style="margin:0;padding-left:20px;color:#333;font-size:14px;line-height:1.5">
+    ${rows.join('\n')}
+  </ul>`;
+}
+
+/** The building's move rules as plain text, one paragraph per line. */
+export function moveRulesHtml(rules: string): string {
+  const lines = rules.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  if (lines.length === 0) return '';
+  return `<h3 style="margin:24px 0 8px;color:#1e293b;font-size:15px">Building Rules</h3>
+  ${lines.map((l) => `<p style="margin:0 0 6px;color:#333;font-size:14px;line-height:1.5">${escapeHtml(l)}</p>`).join('\n  ')}`;
+}
+
+/** Per-building header logo and footer name; a building row satisfies this directly. */
+export type EmailBranding = { name: string; logoUrl?: string | null };
+
+export function emailWrapper(title: string, intro: string, body: string, footer?: string, manageUrl?: string, branding?: EmailBranding): string {
   const manageButton = manageUrl
     ? `<p style="margin:24px 0;text-align:center">
         <a href="${manageUrl}" style="display:inline-block;background:#3090d0;color:#fff;padding:14px 32px;border-radius:6px;text-decoration:none;font-weight:600;font-size:15px">
@@ -70,11 +118,14 @@ export function emailWrapper(title: string, intro: string, body: string, footer?
         </a>
        </p>`
     : '';
+  const logo = branding?.logoUrl
+    ? `<div style="text-align:center;padding:24px 28px 12px">
+      <img src="${branding.logoUrl}" alt="${branding.name}" style="width:120px;height:auto;border:0" />
+    </div>`
+    : '';
   return `<!DOCTYPE html><html><body style="margin:0;padding:0;background:#f0f4f8">
   <div style="max-width:600px;margin:32px auto;background:#fff;border-radius:8px;overflow:hidden;font-family:Arial,Helvetica,sans-serif;box-shadow:0 2px 8px rgba(0,0,0,0.08)">
-    <div style="text-align:center;padding:24px 28px 12px">
-      <img src="https://listmonk.spectrum4.ca/uploads/spectrum4-small.jpeg" alt="Spectrum 4" style="width:120px;height:auto;border:0" />
-    </div>
+    ${logo}
     <div style="background:#3090d0;padding:20px 28px">
       <h1 style="margin:0;color:#fff;font-size:20px">${title}</h1>
     </div>
@@ -85,14 +136,14 @@ export function emailWrapper(title: string, intro: string, body: string, footer?
       ${footer ? `<p style="color:#666;margin-top:24px;font-size:14px;line-height:1.5">${footer}</p>` : ''}
     </div>
     <div style="background:#f8fafc;padding:16px 28px;border-top:1px solid #e2e8f0;text-align:center">
-      <p style="margin:0;color:#94a3b8;font-size:12px">Spectrum 4 Property Management</p>
+      <p style="margin:0;color:#94a3b8;font-size:12px">${branding ? `${branding.name} Property Management` : 'MoveCal'}</p>
     </div>
   </div>
   </body></html>`;
 }
 
-async function getTransport(prisma: PrismaClient) {
-  const settings = await prisma.appSetting.findFirst();
+async function getTransport(prisma: PrismaClient, buildingId: string) {
+  const settings = await prisma.appSetting.findUnique({ where: { buildingId } });
   if (!settings?.smtpHost || !settings.smtpPort || !settings.fromEmail) {
     throw new Error('SMTP settings are incomplete');
   }
@@ -109,62 +160,192 @@ async function getTransport(prisma: PrismaClient) {
   };
 }
 
-export async function sendEmail(prisma: PrismaClient, to: string | string[], subject: string, html: string) {
-  const { transport, from } = await getTransport(prisma);
-  await transport.sendMail({ from, to, subject, html });
+export type EmailAttachment = { filename: string; contentType: string; content: string };
+
+/** Sends immediately, bypassing the outbox; for the SMTP test where the caller needs the error. */
+export async function sendEmailNow(prisma: PrismaClient, buildingId: string, to: string | string[], subject: string, html: string, attachments: EmailAttachment[] = []) {
+  const { transport, from } = await getTransport(prisma, buildingId);
+  await transport.sendMail({ from, to, subject, html, attachments });
 }
 
-export async function sendNotificationRecipients(prisma: PrismaClient, event: NotifyEvent, subject: string, html: string) {
-  const recipients = await prisma.notificationRecipient.findMany({ where: { enabled: true, notifyOn: { has: event } } });
-  if (recipients.length === 0) return;
-  await sendEmail(prisma, recipients.map((r) => r.email), subject, html);
+// ─── Outbox ──────────────────────────────────────────────────────────────────
+
+export type EmailOptions = { bookingId?: string; attachments?: EmailAttachment[] };
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// A SENDING row older than this was abandoned by a crashed process
+const STALE_SENDING_MS = 10 * 60 * 1000;
+const OUTBOX_BATCH_SIZE = 50;
+
+/** 1 min, 2 min, 4 min … capped at 6 hours. */
+export function retryDelayMs(attempts: number) {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
 }
 
-export async function sendPaymentReminderEmail(prisma: PrismaClient, booking: BookingEmailData, manageUrl?: string) {
-  await sendEmail(
-    prisma,
-    booking.residentEmail,
-    'Action Required: Payment Needed for Your Move Booking',
-    emailWrapper(
-      'Payment Reminder',
-      'Your move booking has not been confirmed because a payment has not been received. Please arrange payment as soon as possible — your booking will remain unconfirmed until payment is verified.',
-      bookingDetailsHtml(booking),
-      'You will receive this reminder every 24 hours until payment is confirmed.',
-      manageUrl
+/**
+ * Delivers one queued email if it is due and nobody else has claimed it.
+ * Failures are recorded on the row and retried with backoff until MAX_ATTEMPTS.
+ */
+export async function deliverEmail(prisma: PrismaClient, id: string): Promise<'sent' | 'failed' | 'skipped'> {
+  const now = new Date();
+  const { count } = await prisma.emailOutbox.updateMany({
+    where: { id, status: EmailStatus.PENDING, nextAttemptAt: { lte: now } },
+    data: { status: EmailStatus.SENDING, attempts: { increment: 1 } }
+  });
+  if (count === 0) return 'skipped';
+
+  const email = await prisma.emailOutbox.findUniqueOrThrow({ where: { id } });
+  try {
+    await sendEmailNow(prisma, email.buildingId, email.to, email.subject, email.html, email.attachments as EmailAttachment[]);
+    await prisma.emailOutbox.update({
+      where: { id },
+      data: { status: EmailStatus.SENT, sentAt: new Date(), lastError: null }
+    });
+    return 'sent';
+  } catch (err) {
+    const giveUp = email.attempts >= MAX_ATTEMPTS;
+    await prisma.emailOutbox.update({
+      where: { id },
+      data: {
+        status: giveUp ? EmailStatus.FAILED : EmailStatus.PENDING,
+        nextAttemptAt: new Date(Date.now() + retryDelayMs(email.attempts)),
+        lastError: err instanceof Error ? err.message : String(err)
+      }
+    });
+    return 'failed';
+  }
+}
+
+/**
+ * Queues an email and makes a first delivery attempt straight away, so mail
+ * goes out as quickly as before when SMTP is healthy. Never throws for
+ * delivery problems; those stay on the outbox row for the worker to retry.
+ */
+export async function sendEmail(prisma: PrismaClient, buildingId: string, to: string | string[], subject: string, html: string, options: EmailOptions = {}) {
+  const email = await prisma.emailOutbox.create({
+    data: {
+      buildingId,
+      bookingId: options.bookingId,
+      to: Array.isArray(to) ? to : [to],
+      subject,
+      html,
+      attachments: (options.attachments ?? []) as Prisma.InputJsonValue
+    }
+  });
+  await deliverEmail(prisma, email.id);
+  return email;
+}
+
+/** Queues a fresh copy of an earlier email, whatever became of the original. */
+export async function resendEmail(prisma: PrismaClient, id: string) {
+  const original = await prisma.emailOutbox.findUniqueOrThrow({ where: { id } });
+  const email = await prisma.emailOutbox.create({
+    data: {
+      buildingId: original.buildingId,
+      bookingId: original.bookingId,
+      to: original.to,
+      subject: original.subject,
+      html: original.html,
+      attachments: original.attachments as Prisma.InputJsonValue,
+      resentFromId: original.id
+    }
+  });
+  await deliverEmail(prisma, email.id);
+  return prisma.emailOutbox.findUniqueOrThrow({ where: { id: email.id } });
+}
+
+/** One pass of the outbox worker: recover abandoned sends, then deliver everything due. */
+export async function processEmailOutbox(prisma: PrismaClient) {
+  await prisma.emailOutbox.updateMany({
+    where: { status: EmailStatus.SENDING, updatedAt: { lt: new Date(Date.now() - STALE_SENDING_MS) } },
+    data: { status: EmailStatus.PENDING }
+  });
+
+  const due = await prisma.emailOutbox.findMany({
+    where: { status: EmailStatus.PENDING, nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: OUTBOX_BATCH_SIZE,
+    select: { id: true }
+  });
+  let failed = 0;
+  for (const { id } of due) {
+    if ((await deliverEmail(prisma, id)) === 'failed') failed++;
+  }
+  if (failed > 0) throw new Error(`${failed} of ${due.length} queued emails could not be delivered`);
+}
+
+export function registerEmailOutboxJob(prisma: PrismaClient) {
+  registerJob({
+    name: 'email-outbox',
+    description: 'Delivers queued emails and retries failures with backoff',
+    intervalMs: 30_000,
+    run: () => processEmailOutbox(prisma)
+  });
+}
+
+export async function getBranding(prisma: PrismaClient, buildingId: string): Promise<EmailBranding | undefined> {
+  return (await prisma.building.findUnique({ where: { id: buildingId } })) ?? undefined;
+}
+
+// ─── Templates ───────────────────────────────────────────────────────────────
+
+export type BookingEmailOptions = {
+  manageUrl?: string;
+  includeContact?: boolean;
+  paymentConfirmed?: boolean;
+  // Appended after the booking details, e.g. the pay-invoice button
+  extraHtml?: string;
+};
+
+export function templateVariables(booking: BookingEmailData, branding?: EmailBranding): EmailTemplateVariables {
+  return {
+    residentName: booking.residentName,
+    residentEmail: booking.residentEmail,
+    unit: booking.unit,
+    moveTypeLabel: MOVE_TYPE_LABELS[booking.moveType] ?? booking.moveType,
+    date: dayjs(booking.startDatetime).format('MMM D, YYYY'),
+    startTime: dayjs(booking.startDatetime).format('h:mm A'),
+    endTime: dayjs(booking.endDatetime).format('h:mm A'),
+    buildingName: branding?.name ?? '',
+    reference: booking.id
+  };
+}
+
+/** Fills a template for a booking and lays it out with the standard wrapper and details table. */
+export function composeBookingEmail(template: EmailTemplateContent, booking: BookingEmailData, branding: EmailBranding | undefined, options: BookingEmailOptions = {}) {
+  const variables = templateVariables(booking, branding);
+  const footer = renderTemplate(template.footer, variables, { html: true });
+  return {
+    subject: renderTemplate(template.subject, variables, { html: false }),
+    html: emailWrapper(
+      renderTemplate(template.title, variables, { html: true }),
+      renderTemplate(template.intro, variables, { html: true }),
+      bookingDetailsHtml(booking, options.includeContact, options.paymentConfirmed) + (options.extraHtml ?? ''),
+      footer || undefined,
+      options.manageUrl,
+      branding
     )
-  );
+  };
+}
+
+export async function getEmailTemplate(prisma: PrismaClient, buildingId: string, key: EmailTemplateKey): Promise<EmailTemplateContent> {
+  const custom = await prisma.emailTemplate.findUnique({ where: { buildingId_key: { buildingId, key } } });
+  return custom ?? DEFAULT_EMAIL_TEMPLATES[key];
+}
+
+/** Sends the building's version of a templated booking email. */
+export async function sendTemplatedEmail(prisma: PrismaClient, key: EmailTemplateKey, to: string | string[], booking: BookingEmailData, options: BookingEmailOptions = {}) {
+  const [template, branding] = await Promise.all([getEmailTemplate(prisma, booking.buildingId, key), getBranding(prisma, booking.buildingId)]);
+  const { subject, html } = composeBookingEmail(template, booking, branding, options);
+  return sendEmail(prisma, booking.buildingId, to, subject, html, { bookingId: booking.id });
+}
+
+export async function sendPaymentReminderEmail(prisma: PrismaClient, booking: BookingEmailData, manageUrl?: string) {
+  await sendTemplatedEmail(prisma, EmailTemplateKey.PAYMENT_REMINDER, booking.residentEmail, booking, { manageUrl });
 }
 
 export async function sendEarlyPaymentWarningEmail(prisma: PrismaClient, booking: BookingEmailData, manageUrl?: string) {
-  const moveLabel = MOVE_TYPE_LABELS[booking.moveType] ?? booking.moveType;
-  const dateLabel = dayjs(booking.startDatetime).format('MMM D, YYYY');
-  await sendEmail(
-    prisma,
-    booking.residentEmail,
-    `Action Required: Payment Not Yet Received — ${moveLabel} on ${dateLabel}`,
-    emailWrapper(
-      'Payment Required to Confirm Your Booking',
-      'Your booking request has been received, but we have not yet received a payment. <strong>If payment is not received, your booking may be cancelled.</strong> Please arrange payment as soon as possible.',
-      bookingDetailsHtml(booking),
-      'If you have already submitted payment, please disregard this message — confirmation may take a short time to process.',
-      manageUrl
-    )
-  );
-}
-
-const DCOOK_EMAIL = 'dcook@spectrum4.ca';
-
-export async function sendPaymentConfirmationToDcook(prisma: PrismaClient, booking: BookingEmailData) {
-  const moveLabel = MOVE_TYPE_LABELS[booking.moveType] ?? booking.moveType;
-  const dateLabel = dayjs(booking.startDatetime).format('MMM D, YYYY');
-  await sendEmail(
-    prisma,
-    DCOOK_EMAIL,
-    `Payment Confirmed — ${moveLabel} for Unit ${booking.unit} on ${dateLabel}`,
-    emailWrapper(
-      'Payment Confirmed — Booking Approved',
-      `Payment has been received and the following booking has been confirmed. The resident (<strong>${booking.residentEmail}</strong>) has been notified of their approval.`,
-      bookingDetailsHtml(booking, true, true)
-    )
-  );
+  await sendTemplatedEmail(prisma, EmailTemplateKey.EARLY_PAYMENT_WARNING, booking.residentEmail, booking, { manageUrl });
 }
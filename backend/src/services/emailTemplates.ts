@@ -0,0 +1,135 @@
+import { EmailTemplateKey } from '@prisma/client';
+
+export type EmailTemplateContent = {
+  subject: string;
+  title: string;
+  intro: string;
+  footer: string;
+};
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplateKey, string> = {
+  SUBMITTED: 'Booking received (resident)',
+  APPROVED: 'Booking approved (resident)',
+  REJECTED: 'Booking not approved (resident)',
+  CANCELLED: 'Booking cancelled (resident)',
+  PAYMENT_REMINDER: 'Daily payment reminder (resident)',
+  EARLY_PAYMENT_WARNING: 'Payment not yet received (resident)',
+  PAYMENT_CONFIRMED: 'Payment confirmed (staff)',
+  MOVE_REMINDER_48H: 'Reminder two days before (resident)',
+  MOVE_REMINDER_2H: 'Reminder two hours before (resident)',
+  RESCHEDULED: 'Approved booking rescheduled (resident)',
+  WAITLIST_JOINED: 'Added to waitlist (resident)',
+  WAITLIST_OFFER: 'Waitlisted slot available (resident)'
+};
+
+// The wording used before templates were editable; a building without an override gets these
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplateContent> = {
+  SUBMITTED: {
+    subject: 'Booking Request Received — {{moveTypeLabel}} on {{date}}',
+    title: 'Booking Request Received',
+    intro: 'Your booking request has been submitted and is pending review.',
+    footer: ''
+  },
+  APPROVED: {
+    subject: 'Booking Approved — {{moveTypeLabel}} on {{date}}',
+    title: 'Booking Approved',
+    intro: 'Your booking request has been approved. Please see the details below.',
+    footer: ''
+  },
+  REJECTED: {
+    subject: 'Booking Not Approved — {{moveTypeLabel}} on {{date}}',
+    title: 'Booking Not Approved',
+    intro: 'Unfortunately your booking request could not be approved. Please contact building management if you have any questions.',
+    footer: ''
+  },
+  CANCELLED: {
+    subject: 'Booking Cancelled — {{moveTypeLabel}} on {{date}}',
+    title: 'Booking Cancelled',
+    intro: 'Your booking has been successfully cancelled.',
+    footer: 'If you did not intend to cancel, please contact building management.'
+  },
+  PAYMENT_REMINDER: {
+    subject: 'Action Required: Payment Needed for Your Move Booking',
+    title: 'Payment Reminder',
+    intro: 'Your move booking has not been confirmed because a payment has not been received. Please arrange payment as soon as possible — your booking will remain unconfirmed until payment is verified.',
+    footer: 'You will receive this reminder every 24 hours until payment is confirmed.'
+  },
+  EARLY_PAYMENT_WARNING: {
+    subject: 'Action Required: Payment Not Yet Received — {{moveTypeLabel}} on {{date}}',
+    title: 'Payment Required to Confirm Your Booking',
+    intro: 'Your booking request has been received, but we have not yet received a payment. <strong>If payment is not received, your booking may be cancelled.</strong> Please arrange payment as soon as possible.',
+    footer: 'If you have already submitted payment, please disregard this message — confirmation may take a short time to process.'
+  },
+  PAYMENT_CONFIRMED: {
+    subject: 'Payment Confirmed — {{moveTypeLabel}} for Unit {{unit}} on {{date}}',
+    title: 'Payment Confirmed — Booking Approved',
+    intro: 'Payment has been received and the following booking has been confirmed. The resident (<strong>{{residentEmail}}</strong>) has been notified of their approval.',
+    footer: ''
+  },
+  MOVE_REMINDER_48H: {
+    subject: 'Reminder: {{moveTypeLabel}} on {{date}} at {{startTime}}',
+    title: 'Your Booking Is Coming Up',
+    intro: 'This is a reminder that your booking is in two days. Please review the details and building rules below, and let us know through the manage link if anything has changed.',
+    footer: ''
+  },
+  MOVE_REMINDER_2H: {
+    subject: 'Starting Soon: {{moveTypeLabel}} today at {{startTime}}',
+    title: 'Your Booking Starts Soon',
+    intro: 'Your booking starts at <strong>{{startTime}}</strong> today. Please check in with the concierge when you arrive.',
+    footer: ''
+  },
+  RESCHEDULED: {
+    subject: 'Booking Rescheduled — {{moveTypeLabel}} on {{date}}',
+    title: 'Booking Rescheduled',
+    intro: 'Your approved booking has moved to a new time. Please see the updated details below; the attached calendar file replaces the earlier one.',
+    footer: ''
+  },
+  WAITLIST_JOINED: {
+    subject: 'You Are on the Waitlist — {{moveTypeLabel}} on {{date}}',
+    title: 'You Are on the Waitlist',
+    intro: 'The time you asked for is fully booked. We will email you a link to claim it if it becomes available.',
+    footer: 'Joining the waitlist does not reserve the time. Please book another time if you need a confirmed booking.'
+  },
+  WAITLIST_OFFER: {
+    subject: 'A Slot Has Opened Up — {{moveTypeLabel}} on {{date}}',
+    title: 'Your Waitlisted Time Is Available',
+    intro: 'The time you joined the waitlist for is now free. Claim it with the button below before the link expires; after that it is offered to the next person waiting.',
+    footer: ''
+  }
+};
+
+export const EMAIL_TEMPLATE_VARIABLES = [
+  'residentName',
+  'residentEmail',
+  'unit',
+  'moveTypeLabel',
+  'date',
+  'startTime',
+  'endTime',
+  'buildingName',
+  'reference'
+] as const;
+
+export type EmailTemplateVariables = Record<(typeof EMAIL_TEMPLATE_VARIABLES)[number], string>;
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Replaces {{name}} placeholders. Template text is trusted admin HTML, but the
+ * values come from residents, so they are escaped unless rendering a subject
+ * line. Unknown placeholders are left as typed so mistakes show in the preview.
+ */
+export function renderTemplate(template: string, variables: EmailTemplateVariables, { html }: { html: boolean }) {
+  return template.replace(/\{\{\s*([a-zA-Z]+)\s*\}\}/g, (match, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, name)) return match;
+    const value = variables[name as keyof EmailTemplateVariables];
+    return html ? escapeHtml(value) : value;
+  });
+}
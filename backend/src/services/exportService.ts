@@ -0,0 +1,109 @@
+import { Booking, MoveApproval, PaymentsLedger } from '@prisma/client';
+import { stringify } from 'csv-stringify/sync';
+import { z } from 'zod';
+import { buildXlsx, XlsxCell } from '../utils/xlsx.js';
+import { feeSummary } from './feeService.js';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/** Neutralises values a spreadsheet would otherwise evaluate as a formula. */
+export function sanitizeCsvValue(value: string) {
+  if (value.startsWith('=') || value.startsWith('+') || value.startsWith('-') || value.startsWith('@')) {
+    return `'${value}`;
+  }
+  return value;
+}
+
+type ExportColumns<T> = Record<string, (row: T) => XlsxCell>;
+
+const dollars = (cents: number | null) => (cents === null ? null : cents / 100);
+const yesNo = (value: boolean) => (value ? 'yes' : 'no');
+
+export type BookingExportRow = Booking & { approvedBy: { name: string; email: string } | null; paymentInvoiceId: string | null };
+
+export const BOOKING_EXPORT_COLUMNS = {
+  id: (b) => b.id,
+  resident_name: (b) => b.residentName,
+  unit: (b) => b.unit,
+  move_type: (b) => b.moveType,
+  status: (b) => b.status,
+  start_datetime: (b) => b.startDatetime.toISOString(),
+  end_datetime: (b) => b.endDatetime.toISOString(),
+  resident_email: (b) => b.residentEmail,
+  resident_phone: (b) => b.residentPhone,
+  company_name: (b) => b.companyName,
+  elevator_required: (b) => yesNo(b.elevatorRequired),
+  loading_bay_required: (b) => yesNo(b.loadingBayRequired),
+  amount_due: (b) => dollars(feeSummary(b).amountDueCents),
+  amount_paid: (b) => dollars(b.amountPaidCents),
+  payment_invoice_id: (b) => b.paymentInvoiceId,
+  approved_by: (b) => b.approvedBy && (b.approvedBy.name || b.approvedBy.email),
+  approved_at: (b) => b.approvedAt?.toISOString(),
+} satisfies ExportColumns<BookingExportRow>;
+
+// The columns the export had before they were selectable
+export const DEFAULT_BOOKING_EXPORT_COLUMNS: BookingExportColumn[] = ['id', 'resident_name', 'unit', 'move_type', 'status', 'start_datetime', 'end_datetime'];
+export type BookingExportColumn = keyof typeof BOOKING_EXPORT_COLUMNS;
+
+export type LedgerExportRow = PaymentsLedger & { moveApprovals: MoveApproval[] };
+
+export const LEDGER_STATUSES = ['matched', 'unmatched', 'dismissed'] as const;
+
+export function ledgerStatus(payment: LedgerExportRow): (typeof LEDGER_STATUSES)[number] {
+  if (payment.moveApprovals.length > 0) return 'matched';
+  return payment.dismissed ? 'dismissed' : 'unmatched';
+}
+
+export const LEDGER_EXPORT_COLUMNS = {
+  invoice_id: (p) => p.invoiceId,
+  client_id: (p) => p.clientId,
+  paid_at: (p) => p.paidAt.toISOString(),
+  billing_period: (p) => p.billingPeriod,
+  fee_type: (p) => p.feeType,
+  unit: (p) => p.unit,
+  amount: (p) => dollars(p.amountCents),
+  status: (p) => ledgerStatus(p),
+  booking_id: (p) => p.moveApprovals[0]?.moveRequestId,
+  dismissed_reason: (p) => p.dismissedReason,
+} satisfies ExportColumns<LedgerExportRow>;
+
+export type LedgerExportColumn = keyof typeof LEDGER_EXPORT_COLUMNS;
+
+/** Query-string choice of columns, e.g. columns=unit,status; unknown names are rejected. */
+export function exportColumnsSchema<K extends string>(columns: Record<K, unknown>, defaults: K[]) {
+  const names = Object.keys(columns) as [K, ...K[]];
+  return z.preprocess(
+    (v) => (typeof v === 'string' ? v.split(',').filter(Boolean) : v),
+    z.array(z.enum(names)).min(1).default(defaults)
+  );
+}
+
+/**
+ * Renders rows as CSV or a one-sheet workbook with the chosen columns in
+ * order. Text goes through sanitizeCsvValue in both formats, since either
+ * may be opened in a spreadsheet.
+ */
+export function buildExport<T, K extends string>(
+  format: ExportFormat,
+  sheetName: string,
+  columns: Record<K, (row: T) => XlsxCell>,
+  selected: K[],
+  rows: T[]
+) {
+  const cells = rows.map((row) =>
+    selected.map((key) => {
+      const value = columns[key](row);
+      return typeof value === 'string' ? sanitizeCsvValue(value) : value;
+    })
+  );
+  const body = format === 'xlsx'
+    ? buildXlsx(sheetName, selected, cells)
+    : stringify([selected, ...cells]);
+  return { body, contentType: CONTENT_TYPES[format] };
+}
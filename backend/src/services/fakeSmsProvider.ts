@@ -0,0 +1,34 @@
+import crypto from 'node:crypto';
+import type { SmsProvider } from './smsProvider.js';
+
+export interface FakeSms {
+  id: string;
+  to: string;
+  body: string;
+  sentAt: Date;
+}
+
+const messages: FakeSms[] = [];
+
+/** In-memory transport for local development and tests; nothing leaves the process. */
+export const fakeSmsProvider: SmsProvider = {
+  name: 'fake',
+
+  isConfigured() {
+    return true;
+  },
+
+  async send(to: string, body: string) {
+    const id = `fake_${crypto.randomUUID()}`;
+    messages.push({ id, to, body, sentAt: new Date() });
+    return { id };
+  }
+};
+
+export function getFakeSmsMessages(): readonly FakeSms[] {
+  return messages;
+}
+
+export function resetFakeSmsProvider() {
+  messages.length = 0;
+}
@@ -0,0 +1,65 @@
+import { Booking, FeeSchedule, MoveType } from '@prisma/client';
+import dayjs from 'dayjs';
+import { prisma } from '../prisma.js';
+
+// Same outer bounds as validateMoveHours: anything outside 8am–5pm on a weekday is after hours
+const BUSINESS_START_MINS = 8 * 60;
+const BUSINESS_END_MINS = 17 * 60;
+
+export type FeeBreakdown = {
+  moveFeeCents: number;
+  depositCents: number;
+  afterHoursSurchargeCents: number;
+};
+
+export function isAfterHours(startDatetime: Date, endDatetime: Date): boolean {
+  const start = dayjs(startDatetime);
+  const end = dayjs(endDatetime);
+  if (start.day() === 0 || start.day() === 6 || end.day() === 0 || end.day() === 6) return true;
+  const startMins = start.hour() * 60 + start.minute();
+  const endMins = end.hour() * 60 + end.minute();
+  return startMins < BUSINESS_START_MINS || endMins > BUSINESS_END_MINS || !start.isSame(end, 'day');
+}
+
+export function calculateFees(
+  schedule: Pick<FeeSchedule, 'moveFeeCents' | 'depositCents' | 'afterHoursSurchargeCents'> | null,
+  startDatetime: Date,
+  endDatetime: Date
+): FeeBreakdown {
+  if (!schedule) return { moveFeeCents: 0, depositCents: 0, afterHoursSurchargeCents: 0 };
+  return {
+    moveFeeCents: schedule.moveFeeCents,
+    depositCents: schedule.depositCents,
+    afterHoursSurchargeCents: isAfterHours(startDatetime, endDatetime) ? schedule.afterHoursSurchargeCents : 0
+  };
+}
+
+/** Fees for a booking from the building's current schedule; move types without a schedule are free. */
+export async function computeBookingFees(buildingId: string, moveType: MoveType, startDatetime: Date, endDatetime: Date): Promise<FeeBreakdown> {
+  const schedule = await prisma.feeSchedule.findUnique({ where: { buildingId_moveType: { buildingId, moveType } } });
+  return calculateFees(schedule, startDatetime, endDatetime);
+}
+
+type BookingAmounts = Pick<Booking, 'moveFeeCents' | 'depositCents' | 'afterHoursSurchargeCents' | 'amountPaidCents' | 'amountRefundedCents'>;
+
+/** Amounts shown to residents and reconciled on the payments ledger. balanceCents > 0 means money is still owed. */
+export function feeSummary(booking: BookingAmounts) {
+  const amountDueCents = booking.moveFeeCents + booking.depositCents + booking.afterHoursSurchargeCents;
+  return {
+    moveFeeCents: booking.moveFeeCents,
+    depositCents: booking.depositCents,
+    afterHoursSurchargeCents: booking.afterHoursSurchargeCents,
+    amountDueCents,
+    amountPaidCents: booking.amountPaidCents,
+    amountRefundedCents: booking.amountRefundedCents,
+    balanceCents: amountDueCents - booking.amountPaidCents
+  };
+}
+
+/** Adds a matched payment to the booking's paid total; payments recorded without an amount add nothing. */
+export function creditPayment(bookingId: string, amountCents: number | null) {
+  return prisma.booking.update({
+    where: { id: bookingId },
+    data: { amountPaidCents: { increment: amountCents ?? 0 } }
+  });
+}
@@ -0,0 +1,122 @@
+import { config } from '../config.js';
+import type { CreatedInvoice, InvoiceRequest, PaidInvoice, PaymentProvider } from './paymentProvider.js';
+
+// ── Invoice Ninja API shapes ───────────────────────────────────────
+
+export interface InvoiceNinjaLineItem {
+  product_key: string;
+  notes: string;
+  date?: string;
+}
+
+export interface InvoiceNinjaInvoice {
+  id: string;
+  client_id: string;
+  status_id: string;
+  paid_date?: string;
+  date?: string;
+  amount?: number;
+  paid_to_date?: number;
+  line_items: InvoiceNinjaLineItem[];
+  invitations?: { link?: string }[];
+  payments?: { id: string }[];
+}
+
+// Invoice Ninja's status_id for a fully paid invoice
+export const INVOICE_NINJA_PAID_STATUS = '4';
+
+async function request<T>(path: string, init: { method?: string; body?: unknown; query?: Record<string, string> } = {}): Promise<T> {
+  const base = config.invoiceNinjaUrl!.replace(/\/$/, '');
+  const url = new URL(`${base}/api/v1/${path}`);
+  for (const [key, value] of Object.entries(init.query ?? {})) url.searchParams.set(key, value);
+
+  const response = await fetch(url.toString(), {
+    method: init.method ?? 'GET',
+    headers: {
+      'X-Api-Token': config.invoiceNinjaApiToken!,
+      'X-Requested-With': 'XMLHttpRequest',
+      ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+    },
+    ...(init.body !== undefined && { body: JSON.stringify(init.body) }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Invoice Ninja API responded with ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/** Maps an Invoice Ninja invoice to the provider-neutral shape; only the first line item is classified. */
+export function toPaidInvoice(invoice: InvoiceNinjaInvoice): PaidInvoice {
+  const lineItem = invoice.line_items?.[0];
+  const billedOn = lineItem?.date ?? invoice.date;
+  const amount = invoice.paid_to_date ?? invoice.amount;
+  return {
+    id: invoice.id,
+    clientId: invoice.client_id,
+    paidAt: invoice.paid_date ? new Date(invoice.paid_date) : new Date(),
+    billedAt: billedOn ? new Date(billedOn) : null,
+    amountCents: typeof amount === 'number' && Number.isFinite(amount) ? Math.round(amount * 100) : null,
+    productKey: lineItem?.product_key ?? '',
+    notes: lineItem?.notes ?? '',
+  };
+}
+
+async function findOrCreateClient(name: string, email: string): Promise<string> {
+  const existing = await request<{ data?: { id: string }[] }>('clients', { query: { email, per_page: '1' } });
+  if (existing.data?.[0]) return existing.data[0].id;
+  const created = await request<{ data: { id: string } }>('clients', {
+    method: 'POST',
+    body: { name, contacts: [{ first_name: name, email }] },
+  });
+  return created.data.id;
+}
+
+export const invoiceNinjaProvider: PaymentProvider = {
+  name: 'invoice-ninja',
+
+  isConfigured() {
+    return !!config.invoiceNinjaUrl && !!config.invoiceNinjaApiToken;
+  },
+
+  async fetchPaidInvoices(since: Date) {
+    const json = await request<{ data?: InvoiceNinjaInvoice[] }>('invoices', {
+      query: {
+        status_id: INVOICE_NINJA_PAID_STATUS,
+        updated_at: String(Math.floor(since.getTime() / 1000)),
+        per_page: '100',
+      },
+    });
+    return (json.data ?? []).map(toPaidInvoice);
+  },
+
+  async createInvoice({ booking, lineItems }: InvoiceRequest): Promise<CreatedInvoice> {
+    const clientId = await findOrCreateClient(booking.residentName, booking.residentEmail);
+    const json = await request<{ data: InvoiceNinjaInvoice }>('invoices', {
+      method: 'POST',
+      query: { include: 'invitations' },
+      body: {
+        client_id: clientId,
+        po_number: booking.id,
+        line_items: lineItems.map((item) => ({
+          product_key: item.productKey,
+          notes: item.description,
+          cost: item.amountCents / 100,
+          quantity: 1,
+        })),
+      },
+    });
+    return { id: json.data.id, payUrl: json.data.invitations?.[0]?.link ?? null };
+  },
+
+  async refund(invoiceId: string, amountCents: number) {
+    const json = await request<{ data: InvoiceNinjaInvoice }>(`invoices/${invoiceId}`, { query: { include: 'payments' } });
+    const paymentId = json.data.payments?.[0]?.id;
+    if (!paymentId) throw new Error(`Invoice ${invoiceId} has no payment to refund`);
+    const amount = amountCents / 100;
+    await request('payments/refund', {
+      method: 'POST',
+      body: { id: paymentId, amount, invoices: [{ invoice_id: invoiceId, amount }] },
+    });
+  },
+};
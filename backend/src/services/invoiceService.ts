@@ -0,0 +1,59 @@
+import { Booking, MoveType } from '@prisma/client';
+import dayjs from 'dayjs';
+import { prisma } from '../prisma.js';
+import { MOVE_TYPE_LABELS } from '../utils/moveTypeLabels.js';
+import { feeSummary } from './feeService.js';
+import { getPaymentProvider, InvoiceRequest } from './paymentProvider.js';
+
+// Move types residents are invoiced for when they submit a booking
+const INVOICED_MOVE_TYPES: MoveType[] = [MoveType.MOVE_IN, MoveType.MOVE_OUT, MoveType.DELIVERY, MoveType.RENO];
+
+type InvoicedBooking = Pick<Booking, 'id' | 'unit' | 'moveType' | 'startDatetime' | 'moveFeeCents' | 'depositCents' | 'afterHoursSurchargeCents'>;
+
+/**
+ * One line per non-zero fee. The move type label leads each product key and
+ * the unit is in the notes, so the ledger still classifies the payment even
+ * though matching goes by invoice id.
+ */
+export function invoiceLineItems(booking: InvoicedBooking): InvoiceRequest['lineItems'] {
+  const label = MOVE_TYPE_LABELS[booking.moveType];
+  const description = `Unit ${booking.unit} — ${label} on ${dayjs(booking.startDatetime).format('MMM D, YYYY')} (booking ${booking.id})`;
+  return [
+    { productKey: `${label} Fee`, description, amountCents: booking.moveFeeCents },
+    { productKey: `${label} Deposit`, description, amountCents: booking.depositCents },
+    { productKey: `${label} After-Hours Surcharge`, description, amountCents: booking.afterHoursSurchargeCents }
+  ].filter((item) => item.amountCents > 0);
+}
+
+/**
+ * Raises the invoice for a newly submitted booking and stores its id and pay
+ * link on the booking. Returns null when nothing is invoiced: the move type is
+ * free or not invoiced, payment matching is off for the building, or no
+ * provider is configured. Provider errors propagate to the caller.
+ */
+export async function createBookingInvoice(booking: Booking): Promise<Booking | null> {
+  if (booking.invoiceId || !INVOICED_MOVE_TYPES.includes(booking.moveType)) return null;
+  if (feeSummary(booking).amountDueCents <= 0) return null;
+
+  const provider = getPaymentProvider();
+  if (!provider.isConfigured()) return null;
+  const settings = await prisma.appSetting.findUnique({ where: { buildingId: booking.buildingId } });
+  if (!settings?.invoiceNinjaEnabled) return null;
+
+  const invoice = await provider.createInvoice({
+    booking: {
+      id: booking.id,
+      unit: booking.unit,
+      residentName: booking.residentName,
+      residentEmail: booking.residentEmail,
+      moveType: booking.moveType,
+      startDatetime: booking.startDatetime
+    },
+    lineItems: invoiceLineItems(booking)
+  });
+
+  return prisma.booking.update({
+    where: { id: booking.id },
+    data: { invoiceId: invoice.id, invoicePayUrl: invoice.payUrl }
+  });
+}
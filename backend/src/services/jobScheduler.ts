@@ -0,0 +1,173 @@
+import os from 'os';
+import { JobRunStatus } from '@prisma/client';
+import { prisma } from '../prisma.js';
+
+export type JobLogger = { info: (msg: string) => void; error: (obj: object, msg: string) => void };
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMs: number;
+  // Delay before the first run after the job is first registered
+  initialDelayMs?: number;
+  // Lease length; a run that outlives it may be picked up again by another instance
+  timeoutMs?: number;
+  run(log: JobLogger): Promise<void>;
+}
+
+const TICK_MS = 15_000;
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const RUN_HISTORY_DAYS = 30;
+
+// Identifies this process in leases and run history
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+const registry = new Map<string, JobDefinition>();
+let ticking = false;
+
+export function registerJob(job: JobDefinition) {
+  registry.set(job.name, job);
+}
+
+export function isRegisteredJob(name: string) {
+  return registry.has(name);
+}
+
+/**
+ * Takes the job's lease if it is due (or was requested) and nobody else holds
+ * it. The check and the write are one UPDATE, so two instances cannot both win.
+ */
+async function acquireLease(job: JobDefinition, now: Date): Promise<'schedule' | 'manual' | null> {
+  const row = await prisma.job.findUnique({ where: { name: job.name } });
+  if (!row) return null;
+  const trigger = row.runRequestedAt ? 'manual' : 'schedule';
+
+  const { count } = await prisma.job.updateMany({
+    where: {
+      name: job.name,
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+      AND: [{ OR: [{ nextRunAt: { lte: now } }, { runRequestedAt: { not: null } }] }]
+    },
+    data: {
+      lockedBy: INSTANCE_ID,
+      lockedUntil: new Date(now.getTime() + (job.timeoutMs ?? DEFAULT_TIMEOUT_MS)),
+      runRequestedAt: null,
+      lastRunAt: now
+    }
+  });
+  return count === 1 ? trigger : null;
+}
+
+async function runJob(job: JobDefinition, log: JobLogger) {
+  const startedAt = new Date();
+  const trigger = await acquireLease(job, startedAt);
+  if (!trigger) return;
+
+  const run = await prisma.jobRun.create({
+    data: { jobName: job.name, trigger, instance: INSTANCE_ID, startedAt }
+  });
+
+  let error: string | null = null;
+  try {
+    await job.run(log);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+    log.error({ err, job: job.name }, 'Background job failed');
+  }
+
+  const finishedAt = new Date();
+  await prisma.jobRun.update({
+    where: { id: run.id },
+    data: {
+      status: error ? JobRunStatus.FAILED : JobRunStatus.SUCCEEDED,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      error
+    }
+  });
+  // Only release a lease this instance still holds; once it expires another instance may own it
+  await prisma.job.updateMany({
+    where: { name: job.name, lockedBy: INSTANCE_ID },
+    data: {
+      lockedBy: null,
+      lockedUntil: null,
+      nextRunAt: new Date(finishedAt.getTime() + job.intervalMs),
+      ...(error ? { lastError: error, lastErrorAt: finishedAt } : { lastSuccessAt: finishedAt })
+    }
+  });
+}
+
+async function tick(log: JobLogger) {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const now = new Date();
+    const due = await prisma.job.findMany({
+      where: {
+        name: { in: [...registry.keys()] },
+        OR: [{ nextRunAt: { lte: now } }, { runRequestedAt: { not: null } }]
+      },
+      select: { name: true }
+    });
+    for (const { name } of due) {
+      await runJob(registry.get(name)!, log).catch((err) => {
+        log.error({ err, job: name }, 'Background job bookkeeping failed');
+      });
+    }
+  } finally {
+    ticking = false;
+  }
+}
+
+/** Marks a job to run on the next tick of whichever instance gets there first. */
+export async function requestJobRun(name: string, log: JobLogger) {
+  await prisma.job.update({ where: { name }, data: { runRequestedAt: new Date() } });
+  void tick(log).catch((err) => log.error({ err }, 'Job scheduler tick failed'));
+}
+
+export async function pruneJobRuns() {
+  const cutoff = new Date(Date.now() - RUN_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  await prisma.jobRun.deleteMany({ where: { startedAt: { lt: cutoff } } });
+}
+
+/** Jobs with their latest runs, for the admin Jobs panel. */
+export async function listJobs(recentRuns = 10) {
+  const jobs = await prisma.job.findMany({
+    where: { name: { in: [...registry.keys()] } },
+    orderBy: { name: 'asc' },
+    include: { runs: { orderBy: { startedAt: 'desc' }, take: recentRuns } }
+  });
+  const now = new Date();
+  return jobs.map(({ runs, lockedUntil, ...job }) => ({
+    ...job,
+    running: !!lockedUntil && lockedUntil > now,
+    lastStatus: runs[0]?.status ?? null,
+    runs
+  }));
+}
+
+export async function startJobScheduler(log: JobLogger) {
+  registerJob({
+    name: 'job-history-prune',
+    description: `Deletes job run history older than ${RUN_HISTORY_DAYS} days`,
+    intervalMs: 24 * 60 * 60 * 1000,
+    run: pruneJobRuns
+  });
+
+  const now = Date.now();
+  for (const job of registry.values()) {
+    await prisma.job.upsert({
+      where: { name: job.name },
+      create: {
+        name: job.name,
+        description: job.description,
+        intervalMs: job.intervalMs,
+        nextRunAt: new Date(now + (job.initialDelayMs ?? 0))
+      },
+      update: { description: job.description, intervalMs: job.intervalMs }
+    });
+  }
+
+  log.info(`Job scheduler started with ${registry.size} jobs`);
+  setInterval(() => tick(log).catch((err) => log.error({ err }, 'Job scheduler tick failed')), TICK_MS);
+}
@@ -0,0 +1,64 @@
+import crypto from 'node:crypto';
+import type { CreatedInvoice, InvoiceRequest, PaidInvoice, PaymentProvider } from './paymentProvider.js';
+
+interface MockInvoice {
+  request: InvoiceRequest;
+  paid: PaidInvoice | null;
+  refundedCents: number;
+}
+
+const invoices = new Map<string, MockInvoice>();
+
+/**
+ * In-memory provider for local development and tests. Nothing is paid until
+ * markMockInvoicePaid is called; the next poll then picks it up.
+ */
+export const mockPaymentProvider: PaymentProvider = {
+  name: 'mock',
+
+  isConfigured() {
+    return true;
+  },
+
+  async fetchPaidInvoices(since: Date) {
+    return [...invoices.values()]
+      .map((invoice) => invoice.paid)
+      .filter((paid): paid is PaidInvoice => !!paid && paid.paidAt >= since);
+  },
+
+  async createInvoice(request: InvoiceRequest): Promise<CreatedInvoice> {
+    const id = `mock_${crypto.randomUUID()}`;
+    invoices.set(id, { request, paid: null, refundedCents: 0 });
+    return { id, payUrl: `mock://pay/${id}` };
+  },
+
+  async refund(invoiceId: string, amountCents: number) {
+    const invoice = invoices.get(invoiceId);
+    if (!invoice?.paid) throw new Error(`Invoice ${invoiceId} has no payment to refund`);
+    invoice.refundedCents += amountCents;
+  },
+};
+
+export function markMockInvoicePaid(invoiceId: string, paidAt = new Date()): PaidInvoice {
+  const invoice = invoices.get(invoiceId);
+  if (!invoice) throw new Error(`Unknown mock invoice ${invoiceId}`);
+  const { booking, lineItems } = invoice.request;
+  invoice.paid = {
+    id: invoiceId,
+    clientId: booking.residentEmail,
+    paidAt,
+    billedAt: booking.startDatetime,
+    amountCents: lineItems.reduce((sum, item) => sum + item.amountCents, 0),
+    productKey: lineItems[0]?.productKey ?? '',
+    notes: lineItems[0]?.description ?? '',
+  };
+  return invoice.paid;
+}
+
+export function getMockInvoice(invoiceId: string) {
+  return invoices.get(invoiceId);
+}
+
+export function resetMockPaymentProvider() {
+  invoices.clear();
+}
@@ -1,25 +1,38 @@
-import { BookingStatus, MoveType } from '@prisma/client';
+import { BookingStatus } from '@prisma/client';
 import { prisma } from '../prisma.js';
+import { canTransition, StatusActor, SYSTEM_ACTOR, transitionAuditData, transitionData } from './bookingStatusService.js';
 
 export async function checkAndApproveMoveRequest(params: {
   unit: string;
   feeType: string;
   billingPeriod: string;
   bookingId: string;
+  // Set when the payment is for the invoice raised for this booking
+  invoiceId?: string;
+  // Who matched the payment, for the audit log
+  actor?: StatusActor;
 }): Promise<{ approved: boolean; invoiceId?: string }> {
-  const { unit, feeType, billingPeriod, bookingId } = params;
+  const { unit, feeType, billingPeriod, bookingId, invoiceId, actor = SYSTEM_ACTOR } = params;
 
   if (feeType === 'unknown') return { approved: false };
 
-  // Find an unmatched paid ledger record matching unit + fee_type.
-  // Also match prefixed variants like "T4-1105" when the booking unit is "1105".
+  // Verify booking exists and is in an approvable state
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
+  if (!booking || booking.deletedAt) return { approved: false };
+  if (!canTransition(booking.status, BookingStatus.APPROVED, actor)) {
+    return { approved: false };
+  }
+
+  // Find an unmatched paid ledger record for the booking's building matching unit + fee_type.
+  // Registered units are stored canonically on both sides, so they match exactly; otherwise
+  // also match prefixed variants like "T4-1105" when the booking unit is "1105".
   // Billing period is intentionally not filtered — invoices may be issued in a
   // different month than the actual move date.
   const payment = await prisma.paymentsLedger.findFirst({
-    where: {
-      OR: [
-        { unit },
-        { unit: { endsWith: `-${unit}` } },
+    where: invoiceId ? { invoiceId, moveApprovals: { none: {} }, dismissed: false } : {
+      AND: [
+        booking.unitId ? { unit: booking.unit } : { OR: [{ unit }, { unit: { endsWith: `-${unit}` } }] },
+        { OR: [{ buildingId: booking.buildingId }, { buildingId: null }] },
       ],
       feeType,
       moveApprovals: { none: {} },
@@ -36,31 +49,37 @@ export async function checkAndApproveMoveRequest(params: {
 
   if (existing) return { approved: false };
 
-  // Verify booking exists and is in an approvable state
-  const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
-  if (!booking) return { approved: false };
-  if (booking.status !== BookingStatus.SUBMITTED && booking.status !== BookingStatus.PENDING) {
-    return { approved: false };
-  }
+  // Approve only if the booking still has the status read above, so a
+  // cancellation or rejection made meanwhile is not overwritten
+  const approved = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.booking.updateMany({
+      where: { id: bookingId, status: booking.status, deletedAt: null },
+      data: {
+        ...transitionData(BookingStatus.APPROVED, actor),
+        amountPaidCents: { increment: payment.amountCents ?? 0 },
+      },
+    });
+    if (count === 0) return false;
 
-  // Create approval record and update booking in a transaction
-  await prisma.$transaction([
-    prisma.moveApproval.create({
+    await tx.moveApproval.create({
       data: {
         moveRequestId: bookingId,
         clientId: payment.clientId,
         invoiceId: payment.invoiceId,
         billingPeriod,
       },
-    }),
-    prisma.booking.update({
-      where: { id: bookingId },
-      data: {
-        status: BookingStatus.APPROVED,
-        approvedAt: new Date(),
-      },
-    }),
-  ]);
+    });
+    await tx.paymentsLedger.update({
+      where: { id: payment.id },
+      data: { buildingId: booking.buildingId },
+    });
+    await tx.auditLog.create({
+      data: transitionAuditData(booking, booking.status, BookingStatus.APPROVED, actor, undefined, { invoiceId: payment.invoiceId }),
+    });
+    return true;
+  });
+
+  if (!approved) return { approved: false };
 
   return { approved: true, invoiceId: payment.invoiceId };
 }
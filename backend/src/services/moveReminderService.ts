@@ -0,0 +1,179 @@
+import { Booking, BookingStatus, EmailTemplateKey, NotificationChannel, NotifyEvent, ResourceType } from '@prisma/client';
+import dayjs from 'dayjs';
+import { prisma } from '../prisma.js';
+import { config } from '../config.js';
+import { MOVE_TYPE_LABELS } from '../utils/moveTypeLabels.js';
+import { emailWrapper, moveRulesHtml } from './emailService.js';
+import { deliveredChannels, notifyResident, sendNotificationRecipients } from './notificationService.js';
+import { escapeHtml } from './emailTemplates.js';
+import { registerJob } from './jobScheduler.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+// Server-local hour after which the day's digest goes out
+const DIGEST_HOUR = 7;
+
+const REMINDERS = [
+  { hoursBefore: 48, field: 'reminder48hSentAt', template: EmailTemplateKey.MOVE_REMINDER_48H },
+  { hoursBefore: 2, field: 'reminder2hSentAt', template: EmailTemplateKey.MOVE_REMINDER_2H }
+] as const;
+
+type Reminder = (typeof REMINDERS)[number];
+
+/**
+ * The reminder a booking is due, if any: the closest window it has entered
+ * and not been sent. A booking made or approved late only gets the later
+ * reminder rather than both at once.
+ */
+export function dueReminder(booking: Pick<Booking, 'startDatetime' | 'reminder48hSentAt' | 'reminder2hSentAt'>, now: Date): Reminder | null {
+  const msUntilStart = booking.startDatetime.getTime() - now.getTime();
+  if (msUntilStart <= 0) return null;
+  const window = [...REMINDERS].reverse().find((r) => msUntilStart <= r.hoursBefore * HOUR_MS);
+  if (!window || booking[window.field]) return null;
+  return window;
+}
+
+export async function runMoveReminders(now = new Date()) {
+  const enabled = await prisma.appSetting.findMany({ where: { reminderEnabled: true }, select: { buildingId: true, moveRules: true } });
+  if (enabled.length === 0) return;
+  const rulesByBuilding = new Map(enabled.map((s) => [s.buildingId, s.moveRules]));
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      buildingId: { in: enabled.map((s) => s.buildingId) },
+      status: BookingStatus.APPROVED,
+      deletedAt: null,
+      startDatetime: { gt: now, lte: new Date(now.getTime() + REMINDERS[0].hoursBefore * HOUR_MS) },
+      OR: [{ reminder48hSentAt: null }, { reminder2hSentAt: null }]
+    }
+  });
+
+  const failures: string[] = [];
+  for (const booking of bookings) {
+    const reminder = dueReminder(booking, now);
+    if (!reminder) continue;
+    // The 2h reminder supersedes a 48h one that was never sent
+    const markSent = () => prisma.booking.update({
+      where: { id: booking.id },
+      data: { [reminder.field]: now, ...(reminder.hoursBefore === 2 && !booking.reminder48hSentAt && { reminder48hSentAt: now }) }
+    });
+    try {
+      const manageUrl = booking.editToken ? `${config.frontendOrigins[0]}/booking/${booking.id}?token=${booking.editToken}` : undefined;
+      const rules = rulesByBuilding.get(booking.buildingId);
+      await notifyResident(prisma, reminder.template, booking, {
+        manageUrl,
+        extraHtml: rules ? moveRulesHtml(rules) : undefined
+      });
+      await markSent();
+    } catch (err) {
+      // Once the email is out, a failed text must not queue it again on the next run
+      if (deliveredChannels(err).includes(NotificationChannel.EMAIL)) {
+        await markSent().catch((markErr) => failures.push(`${booking.id}: ${markErr instanceof Error ? markErr.message : String(markErr)}`));
+      }
+      // continue with the remaining bookings; the run is reported as failed at the end
+      failures.push(`${booking.id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} move reminders failed (${failures.slice(0, 3).join('; ')}${failures.length > 3 ? '; …' : ''})`);
+  }
+}
+
+type DigestBooking = Booking & { resources: { resource: { name: string; type: ResourceType } }[] };
+
+function digestTable(title: string, bookings: DigestBooking[], resourceType?: ResourceType) {
+  const rows = bookings
+    .map((b) => {
+      const resources = b.resources.filter((r) => !resourceType || r.resource.type === resourceType).map((r) => r.resource.name);
+      const cells = [
+        `${dayjs(b.startDatetime).format('h:mm A')} – ${dayjs(b.endDatetime).format('h:mm A')}`,
+        `Unit ${b.unit}`,
+        MOVE_TYPE_LABELS[b.moveType],
+        b.residentName,
+        resources.join(', ') || '—'
+      ];
+      return `<tr>${cells.map((c) => `<td style="padding:6px 12px 6px 0;color:#111;font-size:14px;vertical-align:top">${escapeHtml(c)}</td>`).join('')}</tr>`;
+    })
+    .join('');
+  return `<h3 style="margin:24px 0 8px;color:#1e293b;font-size:15px">${title} (${bookings.length})</h3>
+  ${bookings.length === 0
+    ? '<p style="margin:0;color:#64748b;font-size:14px">None today.</p>'
+    : `<table style="border-collapse:collapse;width:100%">${rows}</table>`}`;
+}
+
+/** Today's approved bookings for one building, grouped the way the front desk works through them. */
+export function conciergeDigestHtml(bookings: DigestBooking[]) {
+  return [
+    digestTable('Moves and deliveries', bookings),
+    digestTable('Elevator reservations', bookings.filter((b) => b.elevatorRequired), ResourceType.ELEVATOR),
+    digestTable('Loading bay usage', bookings.filter((b) => b.loadingBayRequired), ResourceType.LOADING_BAY)
+  ].join('\n');
+}
+
+export async function runConciergeDigest(now = new Date()) {
+  if (now.getHours() < DIGEST_HOUR) return;
+  const dayStart = dayjs(now).startOf('day');
+
+  const due = await prisma.appSetting.findMany({
+    where: { OR: [{ digestSentAt: null }, { digestSentAt: { lt: dayStart.toDate() } }] },
+    include: { building: true }
+  });
+
+  const failures: string[] = [];
+  for (const setting of due) {
+    try {
+      const bookings = await prisma.booking.findMany({
+        where: {
+          buildingId: setting.buildingId,
+          status: BookingStatus.APPROVED,
+          deletedAt: null,
+          startDatetime: { gte: dayStart.toDate(), lt: dayStart.add(1, 'day').toDate() }
+        },
+        include: { resources: { include: { resource: { select: { name: true, type: true } } } } },
+        orderBy: { startDatetime: 'asc' }
+      });
+      await sendNotificationRecipients(
+        prisma,
+        setting.buildingId,
+        NotifyEvent.DAILY_DIGEST,
+        `Today's Bookings — ${dayStart.format('ddd, MMM D')} (${bookings.length})`,
+        emailWrapper(
+          `Today's Bookings — ${dayStart.format('dddd, MMMM D')}`,
+          bookings.length === 0 ? 'There are no approved bookings today.' : `There ${bookings.length === 1 ? 'is 1 approved booking' : `are ${bookings.length} approved bookings`} today.`,
+          conciergeDigestHtml(bookings),
+          undefined,
+          undefined,
+          setting.building
+        )
+      );
+      await prisma.appSetting.update({ where: { id: setting.id }, data: { digestSentAt: now } });
+    } catch (err) {
+      if (deliveredChannels(err).includes(NotificationChannel.EMAIL)) {
+        await prisma.appSetting.update({ where: { id: setting.id }, data: { digestSentAt: now } })
+          .catch((markErr) => failures.push(`${setting.buildingId}: ${markErr instanceof Error ? markErr.message : String(markErr)}`));
+      }
+      failures.push(`${setting.buildingId}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} concierge digests failed (${failures.slice(0, 3).join('; ')}${failures.length > 3 ? '; …' : ''})`);
+  }
+}
+
+export function registerMoveReminderJobs() {
+  registerJob({
+    name: 'move-reminders',
+    description: 'Emails residents 48 hours and 2 hours before an approved booking starts',
+    intervalMs: 5 * 60 * 1000,
+    initialDelayMs: 30_000,
+    run: () => runMoveReminders()
+  });
+  registerJob({
+    name: 'concierge-digest',
+    description: `Emails today's bookings to daily digest recipients after ${DIGEST_HOUR}:00`,
+    intervalMs: 15 * 60 * 1000,
+    initialDelayMs: 60_000,
+    run: () => runConciergeDigest()
+  });
+}
@@ -0,0 +1,128 @@
+import { EmailTemplateKey, NotificationChannel as ChannelType, NotifyEvent, PrismaClient } from '@prisma/client';
+import {
+  BookingEmailData,
+  BookingEmailOptions,
+  composeBookingEmail,
+  EmailAttachment,
+  EmailOptions,
+  getBranding,
+  getEmailTemplate,
+  sendEmail,
+  templateVariables
+} from './emailService.js';
+import { residentSmsText, sendSms } from './smsService.js';
+import { bookingIcsAttachment, CalendarBooking } from './calendarService.js';
+
+/** One notification rendered for every channel; each channel uses the parts it can carry. */
+export interface Notification {
+  subject: string;
+  html: string;
+  // Short plain-text form for SMS
+  text: string;
+  bookingId?: string;
+  // Email only
+  attachments?: EmailAttachment[];
+}
+
+export interface NotificationChannel {
+  readonly type: ChannelType;
+  /** Where this channel reaches someone, or null if they have no address for it. */
+  addressOf(contact: { email: string; phone: string | null }): string | null;
+  send(prisma: PrismaClient, buildingId: string, to: string[], notification: Notification): Promise<void>;
+}
+
+const emailChannel: NotificationChannel = {
+  type: ChannelType.EMAIL,
+  addressOf: (contact) => contact.email || null,
+  async send(prisma, buildingId, to, notification) {
+    await sendEmail(prisma, buildingId, to, notification.subject, notification.html, { bookingId: notification.bookingId, attachments: notification.attachments });
+  }
+};
+
+const smsChannel: NotificationChannel = {
+  type: ChannelType.SMS,
+  addressOf: (contact) => contact.phone || null,
+  async send(prisma, _buildingId, to, notification) {
+    for (const phone of to) {
+      await sendSms(prisma, phone, notification.text);
+    }
+  }
+};
+
+const channels: Record<ChannelType, NotificationChannel> = {
+  [ChannelType.EMAIL]: emailChannel,
+  [ChannelType.SMS]: smsChannel
+};
+
+/**
+ * Sends on every channel, even when an earlier one fails, so an SMS outage
+ * cannot hold back the email. Failures are thrown together afterwards with
+ * the channels that did go out.
+ */
+async function dispatch(prisma: PrismaClient, buildingId: string, contacts: { email: string; phone: string | null; channels: ChannelType[] }[], notification: Notification) {
+  const delivered: ChannelType[] = [];
+  const failures: string[] = [];
+  for (const channel of Object.values(channels)) {
+    const to = contacts
+      .filter((c) => c.channels.includes(channel.type))
+      .map((c) => channel.addressOf(c))
+      .filter((address): address is string => !!address);
+    if (to.length === 0) continue;
+    try {
+      await channel.send(prisma, buildingId, to, notification);
+      delivered.push(channel.type);
+    } catch (err) {
+      failures.push(`${channel.type}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  if (failures.length > 0) {
+    throw Object.assign(new Error(`Notification failed on ${failures.join('; ')}`), { deliveredChannels: delivered });
+  }
+}
+
+/** Channels a failed notification still went out on. */
+export function deliveredChannels(err: unknown): ChannelType[] {
+  return (err as { deliveredChannels?: ChannelType[] } | null)?.deliveredChannels ?? [];
+}
+
+/**
+ * Notifies the building's staff recipients subscribed to an event, on each
+ * channel they have chosen. SMS recipients get the subject line unless a
+ * shorter text is given.
+ */
+export async function sendNotificationRecipients(prisma: PrismaClient, buildingId: string, event: NotifyEvent, subject: string, html: string, options: EmailOptions & { text?: string } = {}) {
+  const recipients = await prisma.notificationRecipient.findMany({ where: { buildingId, enabled: true, notifyOn: { has: event } } });
+  if (recipients.length === 0) return;
+  await dispatch(prisma, buildingId, recipients, { subject, html, text: options.text ?? subject, bookingId: options.bookingId });
+}
+
+/** Tells recipients subscribed to PAYMENT_CONFIRMED that a payment approved this booking. */
+export async function sendPaymentConfirmedNotification(prisma: PrismaClient, booking: BookingEmailData) {
+  const [template, branding] = await Promise.all([getEmailTemplate(prisma, booking.buildingId, EmailTemplateKey.PAYMENT_CONFIRMED), getBranding(prisma, booking.buildingId)]);
+  const { subject, html } = composeBookingEmail(template, booking, branding, { includeContact: true, paymentConfirmed: true });
+  await sendNotificationRecipients(prisma, booking.buildingId, NotifyEvent.PAYMENT_CONFIRMED, subject, html, { bookingId: booking.id });
+}
+
+export type ResidentNotifyOptions = BookingEmailOptions & {
+  // Attach the booking as an .ics file so it lands in the resident's calendar
+  attachCalendar?: boolean;
+  // Put these in the .ics instead of the one booking, e.g. every date of a series
+  calendarBookings?: CalendarBooking[];
+};
+
+/**
+ * Sends a resident their templated booking email and, when they asked for
+ * texts and the event has an SMS form, the same news by SMS.
+ */
+export async function notifyResident(prisma: PrismaClient, key: EmailTemplateKey, booking: BookingEmailData & CalendarBooking & { smsOptIn: boolean }, options: ResidentNotifyOptions = {}) {
+  const [template, branding] = await Promise.all([getEmailTemplate(prisma, booking.buildingId, key), getBranding(prisma, booking.buildingId)]);
+  const { subject, html } = composeBookingEmail(template, booking, branding, options);
+  const text = residentSmsText(key, templateVariables(booking, branding), options.manageUrl);
+  const resident = {
+    email: booking.residentEmail,
+    phone: booking.residentPhone,
+    channels: booking.smsOptIn && text ? [ChannelType.EMAIL, ChannelType.SMS] : [ChannelType.EMAIL]
+  };
+  const attachments = options.attachCalendar ? [bookingIcsAttachment(options.calendarBookings ?? booking, branding?.name ?? 'MoveCal')] : undefined;
+  await dispatch(prisma, booking.buildingId, [resident], { subject, html, text: text ?? subject, bookingId: booking.id, attachments });
+}
@@ -0,0 +1,292 @@
+import dayjs from 'dayjs';
+import { BookingStatus, MoveType } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { config } from '../config.js';
+import { checkAndApproveMoveRequest } from './moveApprovalService.js';
+import { canTransition, runTransitionEffects, StatusActor, systemActor } from './bookingStatusService.js';
+import { sendPaymentConfirmedNotification } from './notificationService.js';
+import { findBuildingForUnit } from './buildingService.js';
+import { canonicalizeUnit, normalizeUnitCode, unitVariants } from './unitService.js';
+import { getPaymentProvider, PaidInvoice } from './paymentProvider.js';
+import { JobLogger, registerJob } from './jobScheduler.js';
+
+type PollLogger = JobLogger;
+
+const POLL_INTERVAL_MS = 5 * 60 * 1000; // every 5 minutes
+// Once payments are pushed by webhook, polling only reconciles anything a delivery missed
+const RECONCILE_INTERVAL_MS = 60 * 60 * 1000;
+// With no saved cursor, look back 24 hours
+const INITIAL_LOOKBACK_HOURS = 24;
+// Re-read a few minutes before the cursor to allow for clock skew; ingestion is idempotent
+const CURSOR_OVERLAP_MINUTES = 5;
+
+// ── Fee-type classification ────────────────────────────────────────
+
+function classifyFeeType(productKey: string, notes: string): 'move_in' | 'move_out' | 'delivery' | 'reno' | 'suitcase_move' | null {
+  const normalized = (productKey + ' ' + notes).toLowerCase().replace(/[^a-z0-9 ]/g, ' ');
+  const deliveryPattern    = /\b(deliver(?:y|ies|ed)?)\b/;
+  const renoPattern        = /\b(reno|renovation|renovate)\b/;
+  const moveInPattern      = /\b(move in|moving in|movein|move-in|into)\b/;
+  const moveOutPattern     = /\b(move out|moving out|moveout|move-out|out|exit|vacate)\b/;
+  const suitcaseMovePattern = /\b(suitcase|suitcase move|suitcase-move)\b/;
+  if (deliveryPattern.test(normalized))    return 'delivery';
+  if (renoPattern.test(normalized))        return 'reno';
+  if (moveInPattern.test(normalized))      return 'move_in';
+  if (moveOutPattern.test(normalized))     return 'move_out';
+  if (suitcaseMovePattern.test(normalized)) return 'suitcase_move';
+  return null;
+}
+
+function feeTypeToMoveType(feeType: string): MoveType | null {
+  if (feeType === 'move_in')   return MoveType.MOVE_IN;
+  if (feeType === 'move_out')  return MoveType.MOVE_OUT;
+  if (feeType === 'delivery')  return MoveType.DELIVERY;
+  if (feeType === 'reno')      return MoveType.RENO;
+  if (feeType === 'suitcase_move') return MoveType.SUITCASE_MOVE;
+  return null;
+}
+
+async function classifyWithDeepSeek(productKey: string, notes: string): Promise<'move_in' | 'move_out' | 'delivery' | 'reno' | null> {
+  if (!config.deepseekApiKey) return null;
+  try {
+    const response = await fetch('https://api.deepseek.com/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.deepseekApiKey}`,
+      },
+      body: JSON.stringify({
+        model: 'deepseek-chat',
+        max_tokens: 10,
+        messages: [{
+          role: 'user',
+          content: `Given this invoice line item:\nItem: "${productKey}"\nDescription: "${notes}"\nClassify this fee. Reply with only one of: "move_in", "move_out", "delivery", "reno", "none". Use "none" if the item is not a move/delivery/reno fee (e.g. key deposit, parking, bike room, amenity booking).`,
+        }],
+      }),
+    });
+    if (!response.ok) return null;
+    const json = await response.json() as { choices?: { message?: { content?: string } }[] };
+    const text = json.choices?.[0]?.message?.content?.trim().toLowerCase() ?? '';
+    if (text === 'none') return null;
+    if (text === 'move_in' || text === 'move_out' || text === 'delivery' || text === 'reno') return text as 'move_in' | 'move_out' | 'delivery' | 'reno';
+  } catch { /* fall through */ }
+  return null;
+}
+
+async function classifyWithClaude(productKey: string, notes: string): Promise<'move_in' | 'move_out' | 'delivery' | 'reno' | null> {
+  if (!config.anthropicApiKey) return null;
+  try {
+    const Anthropic = (await import('@anthropic-ai/sdk')).default;
+    const client = new Anthropic({ apiKey: config.anthropicApiKey });
+    const message = await client.messages.create({
+      model: 'claude-sonnet-4-6',
+      max_tokens: 10,
+      messages: [{
+        role: 'user',
+        content: `Given this invoice line item:\nItem: "${productKey}"\nDescription: "${notes}"\nClassify this fee. Reply with only one of: "move_in", "move_out", "delivery", "reno", "none". Use "none" if the item is not a move/delivery/reno fee (e.g. key deposit, parking, bike room, amenity booking).`,
+      }],
+    });
+    const text = message.content[0].type === 'text' ? message.content[0].text.trim().toLowerCase() : '';
+    if (text === 'none') return null;
+    if (text === 'move_in' || text === 'move_out' || text === 'delivery' || text === 'reno') return text as 'move_in' | 'move_out' | 'delivery' | 'reno';
+  } catch { /* fall through */ }
+  return null;
+}
+
+// ── Unit extraction ────────────────────────────────────────────────
+
+function extractUnit(text: string): string | null {
+  if (!text) return null;
+  const patterns = [
+    /\b(?:unit|apt|suite|apartment)\s*#?\s*([a-z0-9][-a-z0-9]*)/i,
+    /#\s*([a-z0-9][-a-z0-9]*)/i,
+    /\b([A-Z]\d{1,2}-\d{2,4})\b/,   // T4-3102 style
+    /\b(\d{3,4})\b/,                  // bare 3–4 digit unit numbers
+  ];
+  for (const re of patterns) {
+    const m = text.match(re);
+    if (m) {
+      const unit = normalizeUnitCode(m[2] ?? m[1]);
+      if (unit.length <= 20) return unit;
+    }
+  }
+  return null;
+}
+
+// ── Process a single invoice ───────────────────────────────────────
+
+/**
+ * Records a paid invoice in the payments ledger and, when it matches an open
+ * booking in a building with payment matching enabled, approves the booking.
+ * The same path serves every provider, polled or pushed, and is safe to
+ * repeat: an invoice already matched or dismissed is reported as a duplicate,
+ * while one recorded without a match is matched again, so a later poll or
+ * redelivery retries an approval that failed.
+ */
+export async function ingestPaidInvoice(
+  invoice: PaidInvoice,
+  enabledBuildingIds: string[],
+  log: PollLogger,
+  actor: StatusActor = systemActor('payment-poll')
+): Promise<'recorded' | 'duplicate'> {
+  const recorded = await prisma.paymentsLedger.findUnique({ where: { invoiceId: invoice.id }, include: { moveApprovals: { select: { id: true } } } });
+  if (recorded && (recorded.moveApprovals.length > 0 || recorded.dismissed)) return 'duplicate';
+
+  const { productKey, notes, paidAt } = invoice;
+  const billingPeriod = dayjs(invoice.billedAt ?? paidAt).format('YYYY-MM');
+
+  // Invoices raised for a booking at submission carry it, so nothing is guessed
+  const invoicedBooking = await prisma.booking.findUnique({ where: { invoiceId: invoice.id } });
+
+  let buildingId: string | null;
+  let unit: string | null;
+  let feeType: string;
+  if (recorded) {
+    // Staff may have corrected the recorded row, e.g. its fee type
+    ({ buildingId, unit, feeType } = recorded);
+  } else if (invoicedBooking) {
+    buildingId = invoicedBooking.buildingId;
+    unit = invoicedBooking.unit;
+    // Fee types are the lower-cased move types
+    feeType = invoicedBooking.moveType.toLowerCase();
+  } else {
+    const extracted = extractUnit(notes) ?? extractUnit(productKey);
+
+    // The unit prefix ("T4" in "T4-1105") picks the building; with a single
+    // payment-enabled building, unprefixed units belong to it.
+    const building = extracted ? await findBuildingForUnit(extracted) : null;
+    buildingId = building?.id ?? (enabledBuildingIds.length === 1 ? enabledBuildingIds[0] : null);
+    // Units in the building's registry are stored under their canonical code
+    unit = extracted ? await canonicalizeUnit(buildingId, extracted) : null;
+
+    feeType = classifyFeeType(productKey, notes) ?? 'unknown';
+    if (feeType === 'unknown') {
+      feeType = (await classifyWithDeepSeek(productKey, notes))
+             ?? (await classifyWithClaude(productKey, notes))
+             ?? 'unknown';
+    }
+  }
+
+  if (!recorded) {
+    // A webhook and a poll can race on the same invoice; whichever inserts the
+    // ledger row goes on to match it, the other stops here.
+    const { count } = await prisma.paymentsLedger.createMany({
+      data: [{
+        buildingId,
+        clientId: invoice.clientId,
+        invoiceId: invoice.id,
+        billingPeriod,
+        feeType,
+        unit,
+        amountCents: invoice.amountCents,
+        paidAt,
+      }],
+      skipDuplicates: true,
+    });
+    if (count === 0) return 'duplicate';
+  }
+
+  if (feeType === 'unknown' || !unit || !buildingId || !enabledBuildingIds.includes(buildingId)) return 'recorded';
+
+  const openStatuses: BookingStatus[] = [BookingStatus.SUBMITTED, BookingStatus.PENDING];
+  let matchingBooking = invoicedBooking;
+  if (!matchingBooking) {
+    const moveTypeFilter = feeTypeToMoveType(feeType);
+    matchingBooking = moveTypeFilter ? await prisma.booking.findFirst({
+      where: {
+        buildingId,
+        unit: { in: unitVariants(unit) },
+        moveType: moveTypeFilter,
+        status: { in: openStatuses },
+        deletedAt: null,
+      },
+    }) : null;
+  }
+
+  if (matchingBooking && !matchingBooking.deletedAt && canTransition(matchingBooking.status, BookingStatus.APPROVED, actor)) {
+    const booking = matchingBooking;
+    const approvalResult = await checkAndApproveMoveRequest({
+      unit,
+      feeType,
+      billingPeriod,
+      bookingId: booking.id,
+      invoiceId: invoicedBooking ? invoice.id : undefined,
+      actor,
+    }).catch((err) => {
+      log.error({ err, invoiceId: invoice.id, bookingId: booking.id }, 'Invoice approval check failed');
+      return { approved: false as const };
+    });
+
+    if (approvalResult.approved) {
+      const approved = await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } });
+      await runTransitionEffects(prisma, booking, approved, actor, log);
+      await sendPaymentConfirmedNotification(prisma, booking).catch((err) => {
+        log.error({ err, bookingId: booking.id }, 'Failed to send payment confirmed notification');
+      });
+    }
+  }
+
+  return 'recorded';
+}
+
+// ── Poller ─────────────────────────────────────────────────────────
+
+/** Buildings that auto-approve bookings from matched payments. */
+export async function paymentEnabledBuildingIds(): Promise<string[]> {
+  const enabled = await prisma.appSetting.findMany({ where: { invoiceNinjaEnabled: true }, select: { buildingId: true } });
+  return enabled.map((s) => s.buildingId);
+}
+
+export async function runPaymentPoll(log: PollLogger): Promise<void> {
+  const enabledBuildingIds = await paymentEnabledBuildingIds();
+  if (enabledBuildingIds.length === 0) return;
+
+  const provider = getPaymentProvider();
+  const cursorKey = `payment-poll:${provider.name}`;
+  const cursor = await prisma.integrationCursor.findUnique({ where: { key: cursorKey } });
+  const since = cursor
+    ? dayjs(cursor.cursor).subtract(CURSOR_OVERLAP_MINUTES, 'minute').toDate()
+    : dayjs().subtract(INITIAL_LOOKBACK_HOURS, 'hour').toDate();
+  const startedAt = new Date();
+
+  log.info(`Payment poll started (${provider.name})`);
+
+  const invoices = await provider.fetchPaidInvoices(since);
+
+  let failed = 0;
+  for (const invoice of invoices) {
+    await ingestPaidInvoice(invoice, enabledBuildingIds, log).catch((err) => {
+      failed++;
+      log.error({ err, invoiceId: invoice.id }, 'Failed to process paid invoice');
+    });
+  }
+
+  // Leave the cursor where it was if anything failed so the next poll retries it
+  if (failed > 0) {
+    throw new Error(`${failed} of ${invoices.length} paid invoices could not be processed`);
+  }
+  await prisma.integrationCursor.upsert({
+    where: { key: cursorKey },
+    create: { key: cursorKey, cursor: startedAt },
+    update: { cursor: startedAt },
+  });
+}
+
+export function registerPaymentPollJob(log: PollLogger): void {
+  const provider = getPaymentProvider();
+  if (!provider.isConfigured()) {
+    log.info(`Payment poller disabled — ${provider.name} provider is not configured`);
+    return;
+  }
+
+  const webhookConfigured = !!config.invoiceNinjaWebhookSecret || !!config.paymentWebhookSecret;
+  registerJob({
+    name: 'payment-poll',
+    description: webhookConfigured
+      ? `Reconciles paid ${provider.name} invoices missed by the webhook`
+      : `Fetches paid ${provider.name} invoices and approves matching bookings`,
+    intervalMs: webhookConfigured ? RECONCILE_INTERVAL_MS : POLL_INTERVAL_MS,
+    initialDelayMs: 15_000,
+    run: runPaymentPoll,
+  });
+}
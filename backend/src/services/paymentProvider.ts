@@ -0,0 +1,59 @@
+import { MoveType } from '@prisma/client';
+import { config } from '../config.js';
+import { invoiceNinjaProvider } from './invoiceNinjaProvider.js';
+import { webhookPaymentProvider } from './webhookPaymentProvider.js';
+import { mockPaymentProvider } from './mockPaymentProvider.js';
+
+/**
+ * A paid invoice as reported by the accounting system, reduced to what the
+ * payments ledger needs. productKey and notes are the free text the fee type
+ * and unit are read from.
+ */
+export interface PaidInvoice {
+  id: string;
+  clientId: string;
+  paidAt: Date;
+  // Date the charge was issued for; the billing period falls back to paidAt
+  billedAt: Date | null;
+  amountCents: number | null;
+  productKey: string;
+  notes: string;
+}
+
+export interface InvoiceRequest {
+  booking: {
+    id: string;
+    unit: string;
+    residentName: string;
+    residentEmail: string;
+    moveType: MoveType;
+    startDatetime: Date;
+  };
+  lineItems: { productKey: string; description: string; amountCents: number }[];
+}
+
+export interface CreatedInvoice {
+  id: string;
+  // Where the resident pays online, if the provider has one
+  payUrl: string | null;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  /** Invoices paid since the given time. Push-only providers return nothing and deliver payments by webhook. */
+  fetchPaidInvoices(since: Date): Promise<PaidInvoice[]>;
+  createInvoice(request: InvoiceRequest): Promise<CreatedInvoice>;
+  refund(invoiceId: string, amountCents: number): Promise<void>;
+}
+
+const providers: Record<typeof config.paymentProvider, PaymentProvider> = {
+  'invoice-ninja': invoiceNinjaProvider,
+  webhook: webhookPaymentProvider,
+  mock: mockPaymentProvider
+};
+
+/** The accounting system selected with PAYMENT_PROVIDER (Invoice Ninja by default). */
+export function getPaymentProvider(): PaymentProvider {
+  return providers[config.paymentProvider];
+}
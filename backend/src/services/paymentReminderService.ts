@@ -1,17 +1,15 @@
-import { BookingStatus, MoveType, UserRole } from '@prisma/client';
+import { BookingStatus, MoveType } from '@prisma/client';
 import { prisma } from '../prisma.js';
 import { sendPaymentReminderEmail, sendEarlyPaymentWarningEmail } from './emailService.js';
-import { logAudit } from './auditService.js';
+import { logAudit, systemAuditContext } from './auditService.js';
 import { config } from '../config.js';
+import { registerJob } from './jobScheduler.js';
 
 const CHECK_INTERVAL_MS = 5 * 60 * 1000; // every 5 minutes
 
 export async function runPaymentReminders() {
-  const settings = await prisma.appSetting.findFirst();
-  if (!settings?.unpaidPaymentReminderEnabled) return;
-
-  const systemUser = await prisma.user.findFirst({ where: { role: UserRole.CONCIERGE } });
-  if (!systemUser) return;
+  const enabled = await prisma.appSetting.findMany({ where: { unpaidPaymentReminderEnabled: true }, select: { buildingId: true } });
+  if (enabled.length === 0) return;
 
   // Collect booking IDs that already have a matched payment
   const paidIds = new Set(
@@ -25,7 +23,9 @@ export async function runPaymentReminders() {
 
   const bookings = await prisma.booking.findMany({
     where: {
+      buildingId: { in: enabled.map((s) => s.buildingId) },
       status: { in: [BookingStatus.SUBMITTED, BookingStatus.PENDING] },
+      deletedAt: null,
       moveDate: { gte: today },
       OR: [
         { lastPaymentReminderSentAt: null },
@@ -35,6 +35,7 @@ export async function runPaymentReminders() {
   });
 
   const unpaidBookings = bookings.filter(b => !paidIds.has(b.id));
+  const failures: string[] = [];
 
   // 30-minute early warning: MOVE_IN, MOVE_OUT, DELIVERY bookings with no payment after 30 min
   const earlyWarningTypes = new Set<MoveType>([MoveType.MOVE_IN, MoveType.MOVE_OUT, MoveType.DELIVERY]);
@@ -52,8 +53,9 @@ export async function runPaymentReminders() {
         where: { id: booking.id },
         data: { earlyPaymentReminderSentAt: new Date() },
       });
-    } catch {
-      // continue processing remaining bookings
+    } catch (err) {
+      // continue processing remaining bookings; the run is reported as failed at the end
+      failures.push(`${booking.id}: ${err instanceof Error ? err.message : String(err)}`);
     }
   }
 
@@ -65,16 +67,24 @@ export async function runPaymentReminders() {
         where: { id: booking.id },
         data: { lastPaymentReminderSentAt: new Date() },
       });
-      await logAudit(prisma, systemUser.id, 'PAYMENT_REMINDER_SENT', booking.id);
-    } catch {
-      // continue processing remaining bookings
+      await logAudit(prisma, systemAuditContext('payment-reminders', booking.buildingId), 'PAYMENT_REMINDER_SENT', booking.id);
+    } catch (err) {
+      // continue processing remaining bookings; the run is reported as failed at the end
+      failures.push(`${booking.id}: ${err instanceof Error ? err.message : String(err)}`);
     }
   }
+
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} payment reminders failed (${failures.slice(0, 3).join('; ')}${failures.length > 3 ? '; …' : ''})`);
+  }
 }
 
-export function startPaymentReminderJob() {
-  setTimeout(() => {
-    runPaymentReminders().catch(() => {});
-    setInterval(() => runPaymentReminders().catch(() => {}), CHECK_INTERVAL_MS);
-  }, 15_000);
+export function registerPaymentReminderJob() {
+  registerJob({
+    name: 'payment-reminders',
+    description: 'Emails residents whose booking fees are still unpaid',
+    intervalMs: CHECK_INTERVAL_MS,
+    initialDelayMs: 15_000,
+    run: runPaymentReminders,
+  });
 }
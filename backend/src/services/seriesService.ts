@@ -0,0 +1,111 @@
+import { MoveType, PrismaClient } from '@prisma/client';
+import dayjs from 'dayjs';
+import { assertNoConflict } from './conflictService.js';
+import { checkMoveTimeAgainstRules, loadBlackoutDates, loadSlotRules } from '../utils/moveTimeValidator.js';
+import { MOVE_TYPE_LABELS } from '../utils/moveTypeLabels.js';
+
+// Keeps one request from claiming months of the elevator calendar
+export const MAX_SERIES_OCCURRENCES = 40;
+export const MAX_SERIES_SPAN_DAYS = 92;
+
+// Move types that can be booked as a recurring series
+export const SERIES_MOVE_TYPES: MoveType[] = [MoveType.RENO];
+
+export type Recurrence = {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  daysOfWeek: number[]; // dayjs numbering, 0 = Sunday
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+};
+
+export type SeriesRequest = {
+  moveType: MoveType;
+  elevatorRequired: boolean;
+  loadingBayRequired: boolean;
+  recurrence: Recurrence;
+};
+
+export type Occurrence = { date: string; startDatetime: Date; endDatetime: Date };
+
+export type OccurrenceReport = Occurrence & { available: boolean; reason?: string };
+
+function httpError(statusCode: number, message: string) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+/** Every date in the range that falls on one of the recurrence's weekdays, at its wall-clock times. */
+export function expandRecurrence(recurrence: Recurrence): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  const last = dayjs(recurrence.endDate);
+  // Stop at the cap so a huge range cannot build a huge list before it is rejected
+  for (let day = dayjs(recurrence.startDate); !day.isAfter(last, 'day') && occurrences.length <= MAX_SERIES_OCCURRENCES; day = day.add(1, 'day')) {
+    if (!recurrence.daysOfWeek.includes(day.day())) continue;
+    const date = day.format('YYYY-MM-DD');
+    occurrences.push({
+      date,
+      startDatetime: new Date(`${date}T${recurrence.startTime}:00`),
+      endDatetime: new Date(`${date}T${recurrence.endTime}:00`)
+    });
+  }
+  return occurrences;
+}
+
+/**
+ * Checks each occurrence against the slot rules, statutory holidays, blackout
+ * dates and existing bookings. Occurrences fall on different days, so they
+ * never conflict with each other.
+ */
+export async function checkSeriesOccurrences(prismaClient: PrismaClient, buildingId: string, request: SeriesRequest, occurrences: Occurrence[], now = new Date()): Promise<OccurrenceReport[]> {
+  if (occurrences.length === 0) return [];
+  const [rules, blackouts] = await Promise.all([
+    loadSlotRules(buildingId),
+    loadBlackoutDates(buildingId, occurrences[0].date, occurrences[occurrences.length - 1].date)
+  ]);
+
+  const reports: OccurrenceReport[] = [];
+  for (const occurrence of occurrences) {
+    if (occurrence.startDatetime <= now) {
+      reports.push({ ...occurrence, available: false, reason: 'This date has already passed' });
+      continue;
+    }
+    const timeCheck = checkMoveTimeAgainstRules(occurrence.startDatetime, occurrence.endDatetime, request.moveType, rules, blackouts);
+    if (!timeCheck.valid) {
+      reports.push({ ...occurrence, available: false, reason: timeCheck.error });
+      continue;
+    }
+    const candidate = {
+      buildingId,
+      startDatetime: occurrence.startDatetime,
+      endDatetime: occurrence.endDatetime,
+      elevatorRequired: request.elevatorRequired,
+      loadingBayRequired: request.loadingBayRequired,
+      moveType: request.moveType
+    };
+    const conflict = await assertNoConflict(prismaClient, candidate, false).then(
+      () => undefined,
+      (err: Error) => err.message
+    );
+    reports.push(conflict ? { ...occurrence, available: false, reason: conflict } : { ...occurrence, available: true });
+  }
+  return reports;
+}
+
+/** Expands and checks a requested series, rejecting requests that are not allowed to repeat or are too long. */
+export async function planSeries(prismaClient: PrismaClient, buildingId: string, request: SeriesRequest, now = new Date()) {
+  const { recurrence } = request;
+  if (!SERIES_MOVE_TYPES.includes(request.moveType)) {
+    throw httpError(400, `${MOVE_TYPE_LABELS[request.moveType]} bookings cannot be booked as a series`);
+  }
+  if (recurrence.endDate < recurrence.startDate) throw httpError(400, 'The series must end on or after its first date');
+  if (dayjs(recurrence.endDate).diff(dayjs(recurrence.startDate), 'day') >= MAX_SERIES_SPAN_DAYS) {
+    throw httpError(400, `A series can cover at most ${MAX_SERIES_SPAN_DAYS} days`);
+  }
+  if (recurrence.endTime <= recurrence.startTime) throw httpError(400, 'End time must be after start time');
+
+  const occurrences = expandRecurrence(recurrence);
+  if (occurrences.length === 0) throw httpError(400, 'None of the dates in that range fall on the chosen days');
+  if (occurrences.length > MAX_SERIES_OCCURRENCES) throw httpError(400, `A series can have at most ${MAX_SERIES_OCCURRENCES} dates`);
+
+  return checkSeriesOccurrences(prismaClient, buildingId, request, occurrences, now);
+}
@@ -0,0 +1,45 @@
+import { PrismaClient, SlotHold } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { assertNoConflict } from './conflictService.js';
+
+// How long a selected slot stays reserved while the resident finishes the form
+export const HOLD_MINUTES = 10;
+
+export type SlotHoldRequest = Pick<SlotHold, 'moveType' | 'startDatetime' | 'endDatetime' | 'elevatorRequired' | 'loadingBayRequired'>;
+
+/**
+ * Holds a slot for a resident, moving their existing hold when `token` names
+ * one. Throws the usual conflict errors when the slot is already booked or
+ * held by someone else.
+ */
+export async function holdSlot(prismaClient: PrismaClient, buildingId: string, request: SlotHoldRequest, token?: string, now = new Date()) {
+  const expiresAt = new Date(now.getTime() + HOLD_MINUTES * 60 * 1000);
+  return prismaClient.$transaction(async (tx) => {
+    // Lapsed holds are ignored everywhere; clear them out as new ones are taken
+    await tx.slotHold.deleteMany({ where: { expiresAt: { lte: now } } });
+    await assertNoConflict(tx, { buildingId, ...request, holdToken: token }, false);
+
+    const existing = token ? await tx.slotHold.findUnique({ where: { token } }) : null;
+    if (existing && existing.buildingId === buildingId) {
+      return tx.slotHold.update({ where: { id: existing.id }, data: { ...request, expiresAt } });
+    }
+    return tx.slotHold.create({ data: { ...request, buildingId, token: nanoid(32), expiresAt } });
+  });
+}
+
+export async function releaseSlotHold(prismaClient: PrismaClient, token: string) {
+  await prismaClient.slotHold.deleteMany({ where: { token } });
+}
+
+/** Other residents' unexpired holds starting within [from, to], shown as taken in the slot picker. */
+export async function activeSlotHolds(prismaClient: PrismaClient, buildingId: string, from: Date, to: Date, excludeToken?: string, now = new Date()) {
+  return prismaClient.slotHold.findMany({
+    where: {
+      buildingId,
+      expiresAt: { gt: now },
+      startDatetime: { gte: from, lte: to },
+      ...(excludeToken ? { token: { not: excludeToken } } : {})
+    },
+    select: { startDatetime: true, endDatetime: true }
+  });
+}
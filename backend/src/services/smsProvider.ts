@@ -0,0 +1,34 @@
+import { config } from '../config.js';
+import { twilioSmsProvider } from './twilioSmsProvider.js';
+import { fakeSmsProvider } from './fakeSmsProvider.js';
+
+export interface SentSms {
+  // Provider's message id
+  id: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  /** Sends one text message. `to` is an E.164 number. */
+  send(to: string, body: string): Promise<SentSms>;
+}
+
+const disabledSmsProvider: SmsProvider = {
+  name: 'none',
+  isConfigured: () => false,
+  async send() {
+    throw new Error('SMS is not configured');
+  }
+};
+
+const providers: Record<typeof config.smsProvider, SmsProvider> = {
+  none: disabledSmsProvider,
+  twilio: twilioSmsProvider,
+  fake: fakeSmsProvider
+};
+
+/** The SMS gateway selected with SMS_PROVIDER (none by default). */
+export function getSmsProvider(): SmsProvider {
+  return providers[config.smsProvider];
+}
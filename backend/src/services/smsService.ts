@@ -0,0 +1,72 @@
+import { EmailTemplateKey, PrismaClient } from '@prisma/client';
+import { getSmsProvider } from './smsProvider.js';
+import type { EmailTemplateVariables } from './emailTemplates.js';
+
+// Carrier keywords; opt-out handling must honour all of them
+const STOP_KEYWORDS = new Set(['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT']);
+const START_KEYWORDS = new Set(['START', 'UNSTOP', 'YES']);
+
+const OPT_OUT_FOOTER = 'Reply STOP to opt out.';
+
+/**
+ * E.164 form of a phone number as typed by a resident or staff member. Ten
+ * digit numbers are taken as North American. Returns null when the number
+ * cannot be texted.
+ */
+export function normalizePhone(phone: string): string | null {
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  if (trimmed.startsWith('+')) return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
+
+/**
+ * Texts one number unless SMS is off, the number is unusable or its owner
+ * has opted out. Provider errors propagate.
+ */
+export async function sendSms(prisma: PrismaClient, phone: string, body: string): Promise<'sent' | 'skipped'> {
+  const provider = getSmsProvider();
+  const to = normalizePhone(phone);
+  if (!provider.isConfigured() || !to) return 'skipped';
+  if (await prisma.smsOptOut.findUnique({ where: { phone: to } })) return 'skipped';
+  await provider.send(to, `${body} ${OPT_OUT_FOOTER}`);
+  return 'sent';
+}
+
+/** Applies STOP / START replies. Other messages are ignored. */
+export async function handleInboundSms(prisma: PrismaClient, from: string, body: string): Promise<'opted-out' | 'opted-in' | null> {
+  const phone = normalizePhone(from);
+  if (!phone) return null;
+  const keyword = body.trim().toUpperCase();
+  if (STOP_KEYWORDS.has(keyword)) {
+    await prisma.smsOptOut.upsert({ where: { phone }, update: {}, create: { phone } });
+    return 'opted-out';
+  }
+  if (START_KEYWORDS.has(keyword)) {
+    await prisma.smsOptOut.deleteMany({ where: { phone } });
+    return 'opted-in';
+  }
+  return null;
+}
+
+/** Text version of the resident emails that also go out by SMS; other keys are email only. */
+export function residentSmsText(key: EmailTemplateKey, v: EmailTemplateVariables, manageUrl?: string): string | null {
+  const prefix = v.buildingName ? `${v.buildingName}: ` : '';
+  const manage = manageUrl ? ` Manage: ${manageUrl}` : '';
+  switch (key) {
+    case EmailTemplateKey.APPROVED:
+      return `${prefix}Your ${v.moveTypeLabel} for unit ${v.unit} on ${v.date}, ${v.startTime}–${v.endTime} is approved.${manage}`;
+    case EmailTemplateKey.MOVE_REMINDER_48H:
+      return `${prefix}Reminder: your ${v.moveTypeLabel} is on ${v.date} at ${v.startTime}.${manage}`;
+    case EmailTemplateKey.MOVE_REMINDER_2H:
+      return `${prefix}Your ${v.moveTypeLabel} starts today at ${v.startTime}. Please check in with the concierge when you arrive.`;
+    case EmailTemplateKey.RESCHEDULED:
+      return `${prefix}Your ${v.moveTypeLabel} for unit ${v.unit} has moved to ${v.date}, ${v.startTime}–${v.endTime}.${manage}`;
+    case EmailTemplateKey.CANCELLED:
+      return `${prefix}Your ${v.moveTypeLabel} on ${v.date} has been cancelled.`;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,50 @@
+import crypto from 'node:crypto';
+import { config } from '../config.js';
+import type { SmsProvider } from './smsProvider.js';
+
+const API_BASE = 'https://api.twilio.com/2010-04-01';
+
+// Twilio signs inbound webhooks with this header
+export const TWILIO_SIGNATURE_HEADER = 'x-twilio-signature';
+
+/**
+ * Twilio's request signature: HMAC-SHA1 over the full URL followed by each
+ * POST parameter name and value in name order, keyed by the auth token.
+ */
+export function twilioSignature(url: string, params: Record<string, string>, authToken: string): string {
+  const data = Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], url);
+  return crypto.createHmac('sha1', authToken).update(data).digest('base64');
+}
+
+export function verifyTwilioSignature(url: string, params: Record<string, string>, signature: string | undefined, authToken: string | undefined): boolean {
+  if (!signature || !authToken) return false;
+  const expected = Buffer.from(twilioSignature(url, params, authToken));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+export const twilioSmsProvider: SmsProvider = {
+  name: 'twilio',
+
+  isConfigured() {
+    return !!(config.twilioAccountSid && config.twilioAuthToken && config.twilioFromNumber);
+  },
+
+  async send(to: string, body: string) {
+    const sid = config.twilioAccountSid!;
+    const res = await fetch(`${API_BASE}/Accounts/${sid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${sid}:${config.twilioAuthToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ To: to, From: config.twilioFromNumber!, Body: body })
+    });
+    if (!res.ok) {
+      const error = (await res.json().catch(() => ({}))) as { code?: number; message?: string };
+      throw new Error(`Twilio send failed (${res.status}${error.code ? `, code ${error.code}` : ''}): ${error.message ?? res.statusText}`);
+    }
+    const message = (await res.json()) as { sid: string };
+    return { id: message.sid };
+  }
+};
@@ -0,0 +1,175 @@
+import { Unit } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../prisma.js';
+
+function httpError(statusCode: number, message: string) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+/**
+ * Canonical spelling of a unit: upper-case, without a leading "Unit"/"Apt"/"#",
+ * and with spaces turned into dashes ("unit # t4 1105" → "T4-1105").
+ */
+export function normalizeUnitCode(raw: string): string {
+  return raw
+    .trim()
+    .toUpperCase()
+    .replace(/^(?:UNIT|APT|APARTMENT|SUITE)\b\.?\s*/, '')
+    .replace(/^#\s*/, '')
+    .replace(/\s*-\s*/g, '-')
+    .replace(/\s+/g, '-');
+}
+
+/**
+ * Values a unit may be stored under when it is not in the registry: as written,
+ * and the suffix after the last dash ("T4-1105" → "1105").
+ */
+export function unitVariants(unit: string): string[] {
+  const variants = [unit];
+  if (unit.includes('-')) variants.push(unit.split('-').pop()!);
+  return variants;
+}
+
+export const unitInputSchema = z.object({
+  code: z.string().trim().min(1).max(20).transform(normalizeUnitCode).optional(),
+  tower: z.string().trim().max(20).nullable().optional(),
+  floor: z.coerce.number().int().min(-10).max(200).nullable().optional(),
+  number: z.string().trim().min(1).max(20),
+  aliases: z.array(z.string().trim().min(1).max(20).transform(normalizeUnitCode)).max(20).default([]),
+  ownerName: z.string().trim().max(200).nullable().optional(),
+  ownerEmail: z.string().trim().email().max(320).nullable().optional(),
+  ownerPhone: z.string().trim().max(50).nullable().optional(),
+  tenantName: z.string().trim().max(200).nullable().optional(),
+  tenantEmail: z.string().trim().email().max(320).nullable().optional(),
+  tenantPhone: z.string().trim().max(50).nullable().optional(),
+  active: z.boolean().optional()
+});
+
+export type UnitInput = z.infer<typeof unitInputSchema>;
+
+/** Fills in the canonical code (defaults to the unit number) and the floor implied by a 3–4 digit number. */
+export function toUnitData(input: UnitInput) {
+  const number = normalizeUnitCode(input.number);
+  const inferredFloor = /^\d{3,4}$/.test(number) ? Math.floor(Number(number) / 100) : null;
+  return {
+    ...input,
+    code: input.code ?? number,
+    number,
+    floor: input.floor ?? inferredFloor
+  };
+}
+
+/** Active registry unit matching a code or alias, also accepting the building's unit prefix (T4-1105 for 1105). */
+export async function findUnit(buildingId: string, raw: string): Promise<Unit | null> {
+  const code = normalizeUnitCode(raw);
+  if (!code) return null;
+  const building = await prisma.building.findUnique({ where: { id: buildingId }, select: { unitPrefix: true } });
+  const candidates = [code];
+  const prefix = building?.unitPrefix ? `${building.unitPrefix.toUpperCase()}-` : null;
+  if (prefix && code.startsWith(prefix)) candidates.push(code.slice(prefix.length));
+  return prisma.unit.findFirst({
+    where: { buildingId, active: true, OR: [{ code: { in: candidates } }, { aliases: { hasSome: candidates } }] }
+  });
+}
+
+/**
+ * Unit to store on a booking. Once a building has units in its registry, only
+ * those units can be booked and the canonical code is stored; buildings without
+ * a registry keep accepting the unit as typed.
+ */
+export async function resolveBookingUnit(buildingId: string, raw: string): Promise<{ unit: string; unitId: string | null }> {
+  const match = await findUnit(buildingId, raw);
+  if (match) return { unit: match.code, unitId: match.id };
+  const registered = await prisma.unit.count({ where: { buildingId } });
+  if (registered > 0) throw httpError(400, `Unit ${raw.trim()} was not found in this building's unit registry`);
+  return { unit: raw.trim(), unitId: null };
+}
+
+/** Canonical code for a unit read off an invoice, or the normalised text when it is not registered. */
+export async function canonicalizeUnit(buildingId: string | null, raw: string): Promise<string> {
+  const match = buildingId ? await findUnit(buildingId, raw) : null;
+  return match?.code ?? normalizeUnitCode(raw);
+}
+
+// ── CSV import ─────────────────────────────────────────────────────
+
+const CSV_COLUMNS: Record<string, keyof UnitInput> = {
+  code: 'code', tower: 'tower', floor: 'floor', number: 'number', unit: 'number', aliases: 'aliases',
+  owner_name: 'ownerName', owner_email: 'ownerEmail', owner_phone: 'ownerPhone',
+  tenant_name: 'tenantName', tenant_email: 'tenantEmail', tenant_phone: 'tenantPhone'
+};
+
+/** Splits CSV text into records, honouring quoted fields with "" escapes and embedded newlines. */
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      record.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field); field = '';
+      records.push(record); record = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field || record.length) { record.push(field); records.push(record); }
+  return records.filter((r) => r.some((f) => f.trim()));
+}
+
+/**
+ * Parses a unit directory CSV. The header row names the columns (number or
+ * unit is required; code, tower, floor, aliases and owner_/tenant_ name, email
+ * and phone are optional); aliases are separated by ";". Rows that fail
+ * validation are reported with their line number rather than aborting the import.
+ */
+export function parseUnitCsv(text: string): { rows: ReturnType<typeof toUnitData>[]; errors: { line: number; message: string }[] } {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return { rows: [], errors: [{ line: 1, message: 'File is empty' }] };
+  const columns = header.map((h) => CSV_COLUMNS[h.trim().toLowerCase().replace(/[\s-]+/g, '_')]);
+  if (!columns.includes('number')) return { rows: [], errors: [{ line: 1, message: 'Header must include a number (or unit) column' }] };
+
+  const rows: ReturnType<typeof toUnitData>[] = [];
+  const errors: { line: number; message: string }[] = [];
+  records.forEach((record, i) => {
+    const input: Record<string, unknown> = {};
+    columns.forEach((col, c) => {
+      const value = record[c]?.trim();
+      if (!col || !value) return;
+      input[col] = col === 'aliases' ? value.split(';').map((a) => a.trim()).filter(Boolean) : value;
+    });
+    const parsed = unitInputSchema.safeParse(input);
+    if (parsed.success) rows.push(toUnitData(parsed.data));
+    else errors.push({ line: i + 2, message: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') });
+  });
+  return { rows, errors };
+}
+
+/** Creates or updates units by canonical code. */
+export async function importUnits(buildingId: string, rows: ReturnType<typeof toUnitData>[]) {
+  const existing = new Set(
+    (await prisma.unit.findMany({ where: { buildingId, code: { in: rows.map((r) => r.code) } }, select: { code: true } })).map((u) => u.code)
+  );
+  let created = 0;
+  let updated = 0;
+  for (const row of rows) {
+    await prisma.unit.upsert({
+      where: { buildingId_code: { buildingId, code: row.code } },
+      update: row,
+      create: { ...row, buildingId }
+    });
+    if (existing.has(row.code)) updated++;
+    else { created++; existing.add(row.code); }
+  }
+  return { created, updated };
+}
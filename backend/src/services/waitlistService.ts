@@ -0,0 +1,119 @@
+import { EmailTemplateKey, PrismaClient, WaitlistEntry, WaitlistStatus } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { prisma } from '../prisma.js';
+import { config } from '../config.js';
+import { assertNoConflict } from './conflictService.js';
+import { composeBookingEmail, getBranding, getEmailTemplate, sendEmail, waitlistClaimHtml } from './emailService.js';
+import { registerJob } from './jobScheduler.js';
+
+// How long a resident has to claim a slot before it goes to the next person
+export const CLAIM_WINDOW_HOURS = 24;
+
+export type WaitlistRequest = Pick<
+  WaitlistEntry,
+  'residentName' | 'residentEmail' | 'residentPhone' | 'unit' | 'moveType' | 'moveDate' | 'startDatetime' | 'endDatetime' | 'elevatorRequired' | 'loadingBayRequired'
+> &
+  Partial<Pick<WaitlistEntry, 'companyName' | 'notes' | 'publicUnitMask' | 'smsOptIn'>>;
+
+type FreedSlot = { buildingId: string; startDatetime: Date; endDatetime: Date };
+
+export function waitlistClaimUrl(entry: Pick<WaitlistEntry, 'id' | 'token'>) {
+  return `${config.frontendOrigins[0]}/waitlist/${entry.id}?token=${entry.token}`;
+}
+
+// Entries are not bookings, so the email is not linked to one in the outbox
+async function sendWaitlistEmail(prismaClient: PrismaClient, key: EmailTemplateKey, entry: WaitlistEntry, extraHtml?: string) {
+  const [template, branding] = await Promise.all([getEmailTemplate(prismaClient, entry.buildingId, key), getBranding(prismaClient, entry.buildingId)]);
+  const { subject, html } = composeBookingEmail(template, entry, branding, { extraHtml });
+  await sendEmail(prismaClient, entry.buildingId, entry.residentEmail, subject, html);
+}
+
+/** Whether a booking for the entry's time and resources would pass the conflict check right now. */
+export async function slotIsFree(prismaClient: PrismaClient, entry: WaitlistRequest & { buildingId: string }) {
+  const candidate = {
+    buildingId: entry.buildingId,
+    startDatetime: entry.startDatetime,
+    endDatetime: entry.endDatetime,
+    elevatorRequired: entry.elevatorRequired,
+    loadingBayRequired: entry.loadingBayRequired,
+    moveType: entry.moveType
+  };
+  return assertNoConflict(prismaClient, candidate, false).then(
+    () => true,
+    () => false
+  );
+}
+
+export async function joinWaitlist(prismaClient: PrismaClient, buildingId: string, request: WaitlistRequest) {
+  const entry = await prismaClient.waitlistEntry.create({ data: { ...request, buildingId, token: nanoid(32) } });
+  await sendWaitlistEmail(prismaClient, EmailTemplateKey.WAITLIST_JOINED, entry);
+  return entry;
+}
+
+/**
+ * Offers a slot freed by a cancelled or rejected booking to the longest-waiting
+ * resident whose request now fits. The offer does not hold the slot; it is
+ * first come, first served if someone else books it before the claim.
+ */
+export async function offerFreedSlot(prismaClient: PrismaClient, freed: FreedSlot, now = new Date()): Promise<WaitlistEntry | null> {
+  const waiting = await prismaClient.waitlistEntry.findMany({
+    where: {
+      buildingId: freed.buildingId,
+      status: WaitlistStatus.WAITING,
+      startDatetime: { lt: freed.endDatetime, gt: now },
+      endDatetime: { gt: freed.startDatetime }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  for (const entry of waiting) {
+    if (!(await slotIsFree(prismaClient, entry))) continue;
+    // Never let an offer outlive the slot itself
+    const expiresAt = new Date(Math.min(now.getTime() + CLAIM_WINDOW_HOURS * 60 * 60 * 1000, entry.startDatetime.getTime()));
+    const data = { status: WaitlistStatus.OFFERED, offeredAt: now, offerExpiresAt: expiresAt };
+    // Only offer to an entry still waiting; it may have been withdrawn or offered elsewhere meanwhile
+    const { count } = await prismaClient.waitlistEntry.updateMany({ where: { id: entry.id, status: WaitlistStatus.WAITING }, data });
+    if (count === 0) continue;
+    const offered = { ...entry, ...data };
+    await sendWaitlistEmail(prismaClient, EmailTemplateKey.WAITLIST_OFFER, offered, waitlistClaimHtml(waitlistClaimUrl(offered), expiresAt));
+    return offered;
+  }
+  return null;
+}
+
+/** Expires unclaimed offers, passing each slot on, and closes entries whose time has gone by. */
+export async function runWaitlistExpiry(now = new Date()) {
+  const lapsed = await prisma.waitlistEntry.findMany({
+    where: { status: WaitlistStatus.OFFERED, offerExpiresAt: { lte: now } },
+    orderBy: { offerExpiresAt: 'asc' }
+  });
+
+  const failures: string[] = [];
+  for (const entry of lapsed) {
+    try {
+      await prisma.waitlistEntry.update({ where: { id: entry.id }, data: { status: WaitlistStatus.EXPIRED } });
+      await offerFreedSlot(prisma, entry, now);
+    } catch (err) {
+      failures.push(`${entry.id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  await prisma.waitlistEntry.updateMany({
+    where: { status: WaitlistStatus.WAITING, startDatetime: { lte: now } },
+    data: { status: WaitlistStatus.EXPIRED }
+  });
+
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} waitlist offers failed (${failures.slice(0, 3).join('; ')}${failures.length > 3 ? '; …' : ''})`);
+  }
+}
+
+export function registerWaitlistJob() {
+  registerJob({
+    name: 'waitlist-offers',
+    description: `Expires waitlist offers not claimed within ${CLAIM_WINDOW_HOURS} hours and offers the slot to the next resident`,
+    intervalMs: 5 * 60 * 1000,
+    initialDelayMs: 45_000,
+    run: () => runWaitlistExpiry()
+  });
+}
@@ -0,0 +1,89 @@
+import crypto from 'node:crypto';
+import { config } from '../config.js';
+import type { CreatedInvoice, InvoiceRequest, PaidInvoice, PaymentProvider } from './paymentProvider.js';
+
+// Both directions carry "X-Signature: sha256=<hex HMAC of the raw body>"
+export const SIGNATURE_HEADER = 'x-signature';
+
+export function signPayload(body: string, secret: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+export function verifySignature(body: string, signature: string | undefined, secret: string | undefined): boolean {
+  if (!signature || !secret) return false;
+  const expected = Buffer.from(signPayload(body, secret));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Body of a "paid" notification pushed to /api/integrations/payments/webhook.
+ * Dates are ISO strings; amount is in cents.
+ */
+export interface PaymentWebhookEvent {
+  type: string;
+  invoice: {
+    id: string;
+    clientId?: string;
+    paidAt?: string;
+    billedAt?: string;
+    amountCents?: number;
+    productKey?: string;
+    notes?: string;
+  };
+}
+
+export function toPaidInvoice(event: PaymentWebhookEvent): PaidInvoice {
+  const { invoice } = event;
+  return {
+    id: invoice.id,
+    clientId: invoice.clientId ?? '',
+    paidAt: invoice.paidAt ? new Date(invoice.paidAt) : new Date(),
+    billedAt: invoice.billedAt ? new Date(invoice.billedAt) : null,
+    amountCents: invoice.amountCents ?? null,
+    productKey: invoice.productKey ?? '',
+    notes: invoice.notes ?? '',
+  };
+}
+
+async function post<T>(action: string, payload: object): Promise<T> {
+  const body = JSON.stringify({ action, ...payload });
+  const response = await fetch(config.paymentWebhookUrl!, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [SIGNATURE_HEADER]: signPayload(body, config.paymentWebhookSecret!),
+    },
+    body,
+  });
+  if (!response.ok) {
+    throw new Error(`Payment webhook responded with ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Generic provider for accounting systems we only talk to over signed HTTP:
+ * invoices and refunds are requested by POSTing to PAYMENT_WEBHOOK_URL, and
+ * payments are pushed back to us rather than polled.
+ */
+export const webhookPaymentProvider: PaymentProvider = {
+  name: 'webhook',
+
+  isConfigured() {
+    return !!config.paymentWebhookUrl && !!config.paymentWebhookSecret;
+  },
+
+  async fetchPaidInvoices() {
+    return [];
+  },
+
+  async createInvoice(request: InvoiceRequest): Promise<CreatedInvoice> {
+    const json = await post<{ id: string; payUrl?: string | null }>('create_invoice', request);
+    return { id: json.id, payUrl: json.payUrl ?? null };
+  },
+
+  async refund(invoiceId: string, amountCents: number) {
+    await post('refund', { invoiceId, amountCents });
+  },
+};
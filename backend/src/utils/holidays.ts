@@ -0,0 +1,83 @@
+// BC statutory holidays, computed for any year.
+// Fixed dates: New Year's Day, Canada Day, Remembrance Day, Christmas, Boxing Day
+// Calculated dates: Family Day (3rd Mon Feb), Good Friday (2 days before Easter),
+//   Victoria Day (Mon before May 25), BC Day (1st Mon Aug), Labour Day (1st Mon Sep),
+//   Thanksgiving (2nd Mon Oct)
+
+export type Holiday = { date: string; name: string };
+
+function ymd(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** Day of week (0 = Sunday) for a calendar date, independent of the server timezone. */
+function weekday(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** The nth occurrence (1-based) of a weekday in a month, e.g. 3rd Monday of February. */
+function nthWeekday(year: number, month: number, dow: number, n: number): string {
+  const first = weekday(year, month, 1);
+  const day = 1 + ((dow - first + 7) % 7) + (n - 1) * 7;
+  return ymd(year, month, day);
+}
+
+/** The last occurrence of a weekday strictly before the given date. */
+function weekdayBefore(year: number, month: number, day: number, dow: number): string {
+  const offset = ((weekday(year, month, day) - dow + 7) % 7) || 7;
+  return ymd(year, month, day - offset);
+}
+
+/** Easter Sunday (Gregorian) via the anonymous Meeus/Jones/Butcher algorithm. */
+export function easterSunday(year: number): { month: number; day: number } {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { month, day };
+}
+
+function goodFriday(year: number): string {
+  const easter = easterSunday(year);
+  const date = new Date(Date.UTC(year, easter.month - 1, easter.day - 2));
+  return ymd(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+const cache = new Map<number, Holiday[]>();
+
+export function getStatutoryHolidays(year: number): Holiday[] {
+  const cached = cache.get(year);
+  if (cached) return cached;
+  const holidays: Holiday[] = [
+    { date: ymd(year, 1, 1),               name: "New Year's Day" },
+    { date: nthWeekday(year, 2, 1, 3),     name: 'Family Day' },
+    { date: goodFriday(year),              name: 'Good Friday' },
+    { date: weekdayBefore(year, 5, 25, 1), name: 'Victoria Day' },
+    { date: ymd(year, 7, 1),               name: 'Canada Day' },
+    { date: nthWeekday(year, 8, 1, 1),     name: 'BC Day' },
+    { date: nthWeekday(year, 9, 1, 1),     name: 'Labour Day' },
+    { date: nthWeekday(year, 10, 1, 2),    name: 'Thanksgiving' },
+    { date: ymd(year, 11, 11),             name: 'Remembrance Day' },
+    { date: ymd(year, 12, 25),             name: 'Christmas Day' },
+    { date: ymd(year, 12, 26),             name: 'Boxing Day' },
+  ];
+  cache.set(year, holidays);
+  return holidays;
+}
+
+/** Holiday falling on a YYYY-MM-DD date, if any. */
+export function findStatutoryHoliday(dateStr: string): Holiday | undefined {
+  const year = Number(dateStr.slice(0, 4));
+  if (!Number.isInteger(year)) return undefined;
+  return getStatutoryHolidays(year).find((h) => h.date === dateStr);
+}
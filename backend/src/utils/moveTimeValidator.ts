@@ -1,160 +1,103 @@
 import dayjs from 'dayjs';
+import { MoveType } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { MOVE_TYPE_LABELS } from './moveTypeLabels.js';
+import { findStatutoryHoliday, getStatutoryHolidays } from './holidays.js';
 
-// BC Statutory Holidays 2025–2030
-// Fixed dates: New Year's Day, Canada Day, Remembrance Day, Christmas, Boxing Day
-// Calculated dates: Family Day (3rd Mon Feb), Good Friday, Victoria Day (Mon before May 25),
-//   BC Day (1st Mon Aug), Labour Day (1st Mon Sep), Thanksgiving (2nd Mon Oct)
-const STATUTORY_HOLIDAYS: string[] = [
-  // 2025
-  '2025-01-01', // New Year's Day
-  '2025-02-17', // Family Day (BC) — 3rd Mon Feb
-  '2025-04-18', // Good Friday
-  '2025-05-19', // Victoria Day
-  '2025-07-01', // Canada Day
-  '2025-08-04', // BC Day — 1st Mon Aug
-  '2025-09-01', // Labour Day — 1st Mon Sep
-  '2025-10-13', // Thanksgiving — 2nd Mon Oct
-  '2025-11-11', // Remembrance Day
-  '2025-12-25', // Christmas Day
-  '2025-12-26', // Boxing Day
-
-  // 2026
-  '2026-01-01', // New Year's Day
-  '2026-02-16', // Family Day (BC) — 3rd Mon Feb
-  '2026-04-03', // Good Friday
-  '2026-05-18', // Victoria Day
-  '2026-07-01', // Canada Day
-  '2026-08-03', // BC Day — 1st Mon Aug
-  '2026-09-07', // Labour Day — 1st Mon Sep
-  '2026-10-12', // Thanksgiving — 2nd Mon Oct
-  '2026-11-11', // Remembrance Day
-  '2026-12-25', // Christmas Day
-  '2026-12-26', // Boxing Day
+interface MoveTimeValidationResult {
+  valid: boolean;
+  error?: string;
+}
 
-  // 2027
-  '2027-01-01', // New Year's Day
-  '2027-02-15', // Family Day (BC) — 3rd Mon Feb
-  '2027-03-26', // Good Friday
-  '2027-05-24', // Victoria Day
-  '2027-07-01', // Canada Day
-  '2027-08-02', // BC Day — 1st Mon Aug
-  '2027-09-06', // Labour Day — 1st Mon Sep
-  '2027-10-11', // Thanksgiving — 2nd Mon Oct
-  '2027-11-11', // Remembrance Day
-  '2027-12-25', // Christmas Day
-  '2027-12-26', // Boxing Day
+/**
+ * A single permitted window for a move type on one day of the week.
+ * Times are minutes from midnight; dayOfWeek follows dayjs (0 = Sunday).
+ *
+ * durationMins: fixed booking length inside the window (null = any length that fits).
+ * blockMins:    step between successive start times when durationMins is set.
+ */
+export type SlotRuleWindow = {
+  moveType: MoveType;
+  dayOfWeek: number;
+  windowStart: number;
+  windowEnd: number;
+  durationMins: number | null;
+  blockMins: number | null;
+};
 
-  // 2028
-  '2028-01-01', // New Year's Day
-  '2028-02-21', // Family Day (BC) — 3rd Mon Feb
-  '2028-04-14', // Good Friday
-  '2028-05-22', // Victoria Day
-  '2028-07-01', // Canada Day
-  '2028-08-07', // BC Day — 1st Mon Aug
-  '2028-09-04', // Labour Day — 1st Mon Sep
-  '2028-10-09', // Thanksgiving — 2nd Mon Oct
-  '2028-11-11', // Remembrance Day
-  '2028-12-25', // Christmas Day
-  '2028-12-26', // Boxing Day
+/** A day with no bookings: a computed statutory holiday or an admin blackout date. */
+export type ClosedDate = { date: string; name: string; kind: 'HOLIDAY' | 'BLACKOUT' };
 
-  // 2029
-  '2029-01-01', // New Year's Day
-  '2029-02-19', // Family Day (BC) — 3rd Mon Feb
-  '2029-03-30', // Good Friday
-  '2029-05-21', // Victoria Day
-  '2029-07-01', // Canada Day
-  '2029-08-06', // BC Day — 1st Mon Aug
-  '2029-09-03', // Labour Day — 1st Mon Sep
-  '2029-10-08', // Thanksgiving — 2nd Mon Oct
-  '2029-11-11', // Remembrance Day
-  '2029-12-25', // Christmas Day
-  '2029-12-26', // Boxing Day
+export type BlackoutWindow = { date: string; reason: string };
 
-  // 2030
-  '2030-01-01', // New Year's Day
-  '2030-02-18', // Family Day (BC) — 3rd Mon Feb
-  '2030-04-19', // Good Friday
-  '2030-05-20', // Victoria Day
-  '2030-07-01', // Canada Day
-  '2030-08-05', // BC Day — 1st Mon Aug
-  '2030-09-02', // Labour Day — 1st Mon Sep
-  '2030-10-14', // Thanksgiving — 2nd Mon Oct
-  '2030-11-11', // Remembrance Day
-  '2030-12-25', // Christmas Day
-  '2030-12-26', // Boxing Day
-];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
-interface MoveTimeValidationResult {
-  valid: boolean;
-  error?: string;
+export async function loadSlotRules(buildingId: string): Promise<SlotRuleWindow[]> {
+  return prisma.slotRule.findMany({ where: { buildingId }, orderBy: [{ moveType: 'asc' }, { dayOfWeek: 'asc' }, { windowStart: 'asc' }] });
 }
 
-// MOVE_IN / MOVE_OUT: Monday–Friday slots
-const WEEKDAY_SLOTS: [number, number][] = [
-  [ 9 * 60, 12 * 60], // 9:00 AM  – 12:00 PM
-  [13 * 60, 16 * 60], // 1:00 PM  – 4:00 PM
-];
+function toDateOnly(dateStr: string): Date {
+  return new Date(`${dateStr}T00:00:00.000Z`);
+}
 
-// MOVE_IN / MOVE_OUT: Saturday–Sunday (8am–11am removed)
-const MOVE_INOUT_WEEKEND_SLOTS: [number, number][] = [
-  [12 * 60, 15 * 60], // 12:00 PM – 3:00 PM
-  [16 * 60, 19 * 60], //  4:00 PM – 7:00 PM
-];
+/** A building's blackout dates between two YYYY-MM-DD dates (inclusive). */
+export async function loadBlackoutDates(buildingId: string, from: string, to: string): Promise<BlackoutWindow[]> {
+  const rows = await prisma.blackoutDate.findMany({
+    where: { buildingId, date: { gte: toDateOnly(from), lte: toDateOnly(to) } },
+    orderBy: { date: 'asc' }
+  });
+  return rows.map((r) => ({ date: r.date.toISOString().slice(0, 10), reason: r.reason }));
+}
 
-// SUITCASE_MOVE: Saturday–Sunday (retains 8am–11am)
-const WEEKEND_SLOTS: [number, number][] = [
-  [ 8 * 60, 11 * 60], //  8:00 AM – 11:00 AM
-  [12 * 60, 15 * 60], // 12:00 PM –  3:00 PM
-  [16 * 60, 19 * 60], //  4:00 PM –  7:00 PM
-];
+/**
+ * Statutory holidays and blackout dates between two YYYY-MM-DD dates (inclusive),
+ * sorted by date. Used by the taken-slots endpoint and the calendars.
+ */
+export async function getClosedDates(buildingId: string, from: string, to: string): Promise<ClosedDate[]> {
+  const holidays: ClosedDate[] = [];
+  for (let year = Number(from.slice(0, 4)); year <= Number(to.slice(0, 4)); year++) {
+    for (const h of getStatutoryHolidays(year)) {
+      if (h.date >= from && h.date <= to) holidays.push({ date: h.date, name: h.name, kind: 'HOLIDAY' });
+    }
+  }
+  const blackouts: ClosedDate[] = (await loadBlackoutDates(buildingId, from, to))
+    .map((b) => ({ date: b.date, name: b.reason, kind: 'BLACKOUT' }));
+  return [...holidays, ...blackouts].sort((a, b) => a.date.localeCompare(b.date));
+}
 
-// FURNISHED_MOVE: 2-hour slots
-const FURNISHED_WEEKDAY_SLOTS: [number, number][] = [
-  [10 * 60, 12 * 60], // 10:00 AM – 12:00 PM
-  [12 * 60, 14 * 60], // 12:00 PM –  2:00 PM
-  [14 * 60, 16 * 60], //  2:00 PM –  4:00 PM
-];
+function formatMins(mins: number): string {
+  const h = Math.floor(mins / 60);
+  const m = mins % 60;
+  const period = h < 12 || h === 24 ? 'AM' : 'PM';
+  const h12 = h % 12 === 0 ? 12 : h % 12;
+  return `${h12}:${String(m).padStart(2, '0')} ${period}`;
+}
 
-const FURNISHED_WEEKEND_SLOTS: [number, number][] = [
-  [12 * 60, 14 * 60], // 12:00 PM –  2:00 PM
-  [14 * 60, 16 * 60], //  2:00 PM –  4:00 PM
-];
+function formatWindow(rule: SlotRuleWindow): string {
+  return `${formatMins(rule.windowStart)}–${formatMins(rule.windowEnd)}`;
+}
 
-// Range-based hours for DELIVERY and RENO:
-// Weekday: 10am–4pm, Weekend: 8am–5pm
-const DELIVERY_RENO_WEEKDAY: [number, number] = [10 * 60, 16 * 60];
-const DELIVERY_RENO_WEEKEND: [number, number] = [ 8 * 60, 17 * 60];
+function formatDuration(mins: number): string {
+  if (mins % 60 === 0) return mins === 60 ? '1 hour' : `${mins / 60} hours`;
+  return `${mins} minutes`;
+}
 
-function fitsInSlot(startMins: number, endMins: number, slots: [number, number][]): boolean {
-  return slots.some(([s, e]) => startMins >= s && endMins <= e);
+function joinOr(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}`;
 }
 
 /**
- * Validates move times according to building rules.
- *
- * MOVE_IN / MOVE_OUT:
- *   Monday–Friday: slots 9am–12pm or 1pm–4pm
- *   Saturday–Sunday: slots 12pm–3pm or 4pm–7pm
- *
- * FURNISHED_MOVE (2-hour slots):
- *   Monday–Friday: 10am–12pm, 12pm–2pm, or 2pm–4pm
- *   Saturday–Sunday: 12pm–2pm or 2pm–4pm
- *
- * DELIVERY (30-minute blocks):
- *   Monday–Friday: 10:00 AM – 4:00 PM
- *   Saturday–Sunday: 8:00 AM – 5:00 PM
- *
- * RENO (1-hour slots):
- *   Monday–Friday: 10:00 AM – 4:00 PM
- *   Saturday–Sunday: 8:00 AM – 5:00 PM
- *
- * SUITCASE_MOVE (1-hour slots):
- *   Monday–Friday: same fixed 3-hour slots as moves (9am–12pm or 1pm–4pm)
- *   Saturday–Sunday: same fixed 3-hour slots as moves (8am–11am, 12pm–3pm, or 4pm–7pm)
- *
- * No bookings on statutory holidays.
+ * Checks a booking against an explicit set of slot rules. Pure — used by
+ * validateMoveTime and directly in tests.
  */
-export function validateMoveTime(startDatetime: Date, endDatetime: Date, moveType?: string): MoveTimeValidationResult {
+export function checkMoveTimeAgainstRules(
+  startDatetime: Date,
+  endDatetime: Date,
+  moveType: MoveType,
+  rules: SlotRuleWindow[],
+  blackouts: BlackoutWindow[] = []
+): MoveTimeValidationResult {
   const start = dayjs(startDatetime);
   const end = dayjs(endDatetime);
 
@@ -177,154 +120,103 @@ export function validateMoveTime(startDatetime: Date, endDatetime: Date, moveTyp
   const dayOfWeek = start.day(); // 0 = Sunday, 6 = Saturday
 
   // Check for statutory holiday
-  if (STATUTORY_HOLIDAYS.includes(dateStr)) {
+  if (findStatutoryHoliday(dateStr)) {
     return {
       valid: false,
       error: 'Bookings are not permitted on statutory holidays'
     };
   }
 
-  const startMins = start.hour() * 60 + start.minute();
-  const endMins   = end.hour()   * 60 + end.minute();
-  const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-
-  // OPEN_HOUSE: fixed 2pm–5pm slot, weekends only
-  if (moveType === 'OPEN_HOUSE') {
-    if (!isWeekend) {
-      return { valid: false, error: 'Open House bookings are only permitted on Saturdays and Sundays' };
-    }
-    if (startMins !== 14 * 60 || endMins !== 17 * 60) {
-      return { valid: false, error: 'Open House bookings must be from 2:00 PM to 5:00 PM' };
-    }
-    return { valid: true };
-  }
-
-  // DELIVERY: 30-minute blocks within allowed range
-  if (moveType === 'DELIVERY') {
-    const durationMins = end.diff(start, 'minute');
-    if (durationMins !== 30) {
-      return { valid: false, error: 'Delivery bookings must be exactly 30 minutes' };
-    }
-    const [rangeStart, rangeEnd] = isWeekend ? DELIVERY_RENO_WEEKEND : DELIVERY_RENO_WEEKDAY;
-    const rangeLabel = isWeekend ? '8:00 AM – 5:00 PM' : '10:00 AM – 4:00 PM';
-    if (startMins < rangeStart || endMins > rangeEnd) {
-      return {
-        valid: false,
-        error: `Delivery bookings must be within ${isWeekend ? 'weekend' : 'weekday'} hours: ${rangeLabel}`
-      };
-    }
-    return { valid: true };
+  // Check for building blackout dates
+  const blackout = blackouts.find((b) => b.date === dateStr);
+  if (blackout) {
+    return {
+      valid: false,
+      error: `Bookings are not permitted on this date: ${blackout.reason}`
+    };
   }
 
-  // RENO: 1-hour slots within allowed range
-  if (moveType === 'RENO') {
-    const durationMins = end.diff(start, 'minute');
-    if (durationMins !== 60) {
-      return { valid: false, error: 'Renovation bookings must be exactly 1 hour' };
+  const label = MOVE_TYPE_LABELS[moveType] ?? moveType;
+  const windows = rules.filter((r) => r.moveType === moveType && r.dayOfWeek === dayOfWeek);
+  if (windows.length === 0) {
+    const permittedDays = [...new Set(rules.filter((r) => r.moveType === moveType).map((r) => r.dayOfWeek))];
+    if (permittedDays.length === 0) {
+      return { valid: false, error: `${label} bookings are not currently permitted` };
     }
-    const [rangeStart, rangeEnd] = isWeekend ? DELIVERY_RENO_WEEKEND : DELIVERY_RENO_WEEKDAY;
-    const rangeLabel = isWeekend ? '8:00 AM – 5:00 PM' : '10:00 AM – 4:00 PM';
-    if (startMins < rangeStart || endMins > rangeEnd) {
-      return {
-        valid: false,
-        error: `Renovation bookings must be within ${isWeekend ? 'weekend' : 'weekday'} hours: ${rangeLabel}`
-      };
-    }
-    return { valid: true };
+    return { valid: false, error: `${label} bookings are not permitted on ${DAY_NAMES[dayOfWeek]}s` };
   }
 
-  // SUITCASE_MOVE: 1-hour slots within the same fixed 3-hour move windows
-  if (moveType === 'SUITCASE_MOVE') {
-    const durationMins = end.diff(start, 'minute');
-    if (durationMins !== 60) {
-      return { valid: false, error: 'Suitcase Move bookings must be exactly 1 hour' };
-    }
-    if (isWeekend) {
-      if (!fitsInSlot(startMins, endMins, WEEKEND_SLOTS)) {
-        return {
-          valid: false,
-          error: 'Suitcase Move bookings must fit within one permitted slot: 8am–11am, 12pm–3pm, or 4pm–7pm'
-        };
-      }
-      return { valid: true };
-    }
-    if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-      if (!fitsInSlot(startMins, endMins, WEEKDAY_SLOTS)) {
-        return {
-          valid: false,
-          error: 'Suitcase Move bookings must fit within one permitted slot: 9am–12pm or 1pm–4pm'
-        };
-      }
-      return { valid: true };
-    }
-    return { valid: false, error: 'Invalid day of week' };
-  }
+  const startMins = start.hour() * 60 + start.minute();
+  const endMins   = end.hour()   * 60 + end.minute();
+  const durationMins = endMins - startMins;
 
-  // FURNISHED_MOVE: 2-hour fixed slots
-  if (moveType === 'FURNISHED_MOVE') {
-    if (isWeekend) {
-      if (!fitsInSlot(startMins, endMins, FURNISHED_WEEKEND_SLOTS)) {
-        return {
-          valid: false,
-          error: 'Weekend Furnished Move bookings must fit within one permitted slot: 12pm–2pm or 2pm–4pm'
-        };
-      }
-      return { valid: true };
-    }
-    if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-      if (!fitsInSlot(startMins, endMins, FURNISHED_WEEKDAY_SLOTS)) {
-        return {
-          valid: false,
-          error: 'Weekday Furnished Move bookings must fit within one permitted slot: 10am–12pm, 12pm–2pm, or 2pm–4pm'
-        };
-      }
-      return { valid: true };
-    }
-    return { valid: false, error: 'Invalid day of week' };
+  const fixedDurations = [...new Set(windows.map((w) => w.durationMins).filter((d): d is number => d !== null))];
+  if (fixedDurations.length > 0 && !fixedDurations.includes(durationMins)) {
+    return {
+      valid: false,
+      error: `${label} bookings must be exactly ${joinOr(fixedDurations.map(formatDuration))}`
+    };
   }
 
-  // MOVE_IN / MOVE_OUT (and fallback): fixed slot validation
-  if (isWeekend) {
-    if (!fitsInSlot(startMins, endMins, MOVE_INOUT_WEEKEND_SLOTS)) {
-      return {
-        valid: false,
-        error: 'Weekend moves must fit within one permitted slot: 12pm–3pm or 4pm–7pm'
-      };
-    }
-    return { valid: true };
+  const fits = windows.some((w) =>
+    startMins >= w.windowStart &&
+    endMins <= w.windowEnd &&
+    (w.durationMins === null || w.durationMins === durationMins)
+  );
+  if (!fits) {
+    return {
+      valid: false,
+      error: `${label} bookings on ${DAY_NAMES[dayOfWeek]} must fit within one permitted slot: ${joinOr(windows.map(formatWindow))}`
+    };
   }
 
-  if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-    if (!fitsInSlot(startMins, endMins, WEEKDAY_SLOTS)) {
-      return {
-        valid: false,
-        error: 'Weekday moves must fit within one permitted slot: 9am–12pm or 1pm–4pm'
-      };
-    }
-    return { valid: true };
-  }
+  return { valid: true };
+}
 
-  return { valid: false, error: 'Invalid day of week' };
+/**
+ * Validates move times according to the building's rules stored in slot_rules.
+ * Rules are editable from the admin dashboard; see SlotRuleWindow for the model.
+ *
+ * Callers without a move type (e.g. email intake) are validated as MOVE_IN.
+ * No bookings on statutory holidays or admin blackout dates.
+ */
+export async function validateMoveTime(buildingId: string, startDatetime: Date, endDatetime: Date, moveType?: string): Promise<MoveTimeValidationResult> {
+  const dateStr = dayjs(startDatetime).format('YYYY-MM-DD');
+  const [rules, blackouts] = await Promise.all([
+    loadSlotRules(buildingId),
+    dayjs(startDatetime).isValid() ? loadBlackoutDates(buildingId, dateStr, dateStr) : Promise.resolve([])
+  ]);
+  return checkMoveTimeAgainstRules(startDatetime, endDatetime, (moveType ?? MoveType.MOVE_IN) as MoveType, rules, blackouts);
 }
 
 /**
  * Get the permitted move times as a human-readable string
  */
-export function getPermittedMoveTimes(): string {
+export async function getPermittedMoveTimes(buildingId: string): Promise<string> {
+  const rules = await loadSlotRules(buildingId);
+  const lines: string[] = [];
+  for (const moveType of Object.values(MoveType)) {
+    const typeRules = rules.filter((r) => r.moveType === moveType);
+    if (typeRules.length === 0) continue;
+    const days = DAY_NAMES
+      .map((dayName, dow) => {
+        const windows = typeRules.filter((r) => r.dayOfWeek === dow);
+        if (windows.length === 0) return null;
+        const duration = windows.find((w) => w.durationMins !== null)?.durationMins;
+        const suffix = duration ? ` (${formatDuration(duration)} slots)` : '';
+        return `${dayName}: ${joinOr(windows.map(formatWindow))}${suffix}`;
+      })
+      .filter(Boolean);
+    lines.push(`• ${MOVE_TYPE_LABELS[moveType]} — ${days.join('; ')}`);
+  }
   return `Bookings are permitted within the following slots:
-• Move In / Move Out — Monday–Friday: 9:00 AM–12:00 PM or 1:00 PM–4:00 PM; Saturday–Sunday: 12:00 PM–3:00 PM or 4:00 PM–7:00 PM
-• Furnished Move — Monday–Friday: 10:00 AM–12:00 PM, 12:00 PM–2:00 PM, or 2:00 PM–4:00 PM; Saturday–Sunday: 12:00 PM–2:00 PM or 2:00 PM–4:00 PM
-• Delivery: Monday–Friday 10:00 AM–4:00 PM; Saturday–Sunday 8:00 AM–5:00 PM (30-min blocks)
-• Renovation: Monday–Friday 10:00 AM–4:00 PM; Saturday–Sunday 8:00 AM–5:00 PM (1-hour slots)
-• Open House: Saturday or Sunday only, 2:00 PM–5:00 PM
-• Suitcase Move: 1-hour slots within move windows (Mon–Fri same as Move In/Out; Sat–Sun 8am–11am, 12pm–3pm, 4pm–7pm)
-• NO BOOKINGS PERMITTED ON STATUTORY HOLIDAYS`;
+${lines.join('\n')}
+• NO BOOKINGS PERMITTED ON STATUTORY HOLIDAYS OR BUILDING BLACKOUT DATES`;
 }
 
 /**
  * Check if a specific date is a statutory holiday
  */
 export function isStatutoryHoliday(date: Date): boolean {
-  const dateStr = dayjs(date).format('YYYY-MM-DD');
-  return STATUTORY_HOLIDAYS.includes(dateStr);
+  return !!findStatutoryHoliday(dayjs(date).format('YYYY-MM-DD'));
 }
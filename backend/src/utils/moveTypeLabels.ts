@@ -0,0 +1,11 @@
+import { MoveType } from '@prisma/client';
+
+export const MOVE_TYPE_LABELS: Record<MoveType, string> = {
+  MOVE_IN: 'Move In',
+  MOVE_OUT: 'Move Out',
+  FURNISHED_MOVE: 'Furnished Move',
+  DELIVERY: 'Delivery',
+  RENO: 'Renovation',
+  OPEN_HOUSE: 'Open House',
+  SUITCASE_MOVE: 'Suitcase Move',
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { auditDiff, logAudit } from '../src/services/auditService.js';
+
+describe('audit log', () => {
+  it('records only the listed fields that changed', () => {
+    const before = { startDatetime: new Date('2026-05-04T10:00:00Z'), notes: null as string | null, unit: '1204', editToken: 'a' };
+    const after = { startDatetime: new Date('2026-05-04T12:00:00Z'), notes: 'Piano', unit: '1204', editToken: 'b' };
+
+    expect(auditDiff(before, after, ['startDatetime', 'notes', 'unit'])).toEqual({
+      startDatetime: { from: '2026-05-04T10:00:00.000Z', to: '2026-05-04T12:00:00.000Z' },
+      notes: { from: null, to: 'Piano' }
+    });
+  });
+
+  it('stores the building and request origin with the entry', async () => {
+    const prisma = { auditLog: { create: vi.fn() } };
+
+    await logAudit(prisma as unknown as PrismaClient, { actorType: 'STAFF', userId: 'u1', buildingId: 'b1', ip: '203.0.113.7', userAgent: 'Firefox' }, 'EMAIL_RESENT', 'bk1');
+
+    expect(prisma.auditLog.create).toHaveBeenCalledWith({
+      data: {
+        actorType: 'STAFF',
+        actorUserId: 'u1',
+        actorLabel: null,
+        action: 'EMAIL_RESENT',
+        bookingId: 'bk1',
+        buildingId: 'b1',
+        ip: '203.0.113.7',
+        userAgent: 'Firefox',
+        metadataJson: {}
+      }
+    });
+  });
+});
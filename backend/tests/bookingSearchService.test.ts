@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  moveApproval: { findMany: vi.fn() }
+}));
+vi.mock('../src/prisma.js', () => ({ prisma: prismaMock }));
+
+import { bookingFilterWhere, bookingListSchema } from '../src/services/bookingSearchService.js';
+
+describe('admin bookings search', () => {
+  it('parses list filters from the query string', () => {
+    const query = bookingListSchema.parse({ status: 'SUBMITTED,PENDING', paymentMatched: 'false', limit: '25' });
+    expect(query).toMatchObject({ status: ['SUBMITTED', 'PENDING'], paymentMatched: false, limit: 25, sort: 'startDatetime', order: 'asc' });
+    expect(() => bookingListSchema.parse({ sort: 'editToken' })).toThrow();
+  });
+
+  it('requires every search word to match and leaves out trashed bookings', async () => {
+    const where = await bookingFilterWhere('b1', { q: 'jane  acme', from: '2026-05-01', to: '2026-05-31' });
+
+    expect(where).toEqual({
+      buildingId: 'b1',
+      deletedAt: null,
+      moveDate: { gte: new Date('2026-05-01T00:00:00.000Z'), lte: new Date('2026-05-31T00:00:00.000Z') },
+      AND: ['jane', 'acme'].map((term) => ({
+        OR: [
+          { residentName: { contains: term, mode: 'insensitive' } },
+          { residentEmail: { contains: term, mode: 'insensitive' } },
+          { companyName: { contains: term, mode: 'insensitive' } }
+        ]
+      }))
+    });
+    expect(prismaMock.moveApproval.findMany).not.toHaveBeenCalled();
+  });
+
+  it('filters on payments matched within the building', async () => {
+    prismaMock.moveApproval.findMany.mockResolvedValue([{ moveRequestId: 'bk1' }, { moveRequestId: 'bk2' }]);
+
+    expect(await bookingFilterWhere('b1', { paymentMatched: false })).toMatchObject({ id: { notIn: ['bk1', 'bk2'] } });
+    expect(prismaMock.moveApproval.findMany).toHaveBeenCalledWith({ where: { payment: { buildingId: 'b1' } }, select: { moveRequestId: true } });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BookingStatus, PrismaClient, UserRole } from '@prisma/client';
+
+vi.mock('../src/prisma.js', () => ({ prisma: {} }));
+vi.mock('../src/utils/crypto.js', () => ({ decrypt: vi.fn() }));
+
+import { assertTransition, canTransition, changeBookingStatus, RESIDENT_ACTOR, StatusActor, SYSTEM_ACTOR, transitionData } from '../src/services/bookingStatusService.js';
+
+const concierge: StatusActor = { kind: 'staff', userId: 'u1', role: UserRole.CONCIERGE };
+const manager: StatusActor = { kind: 'staff', userId: 'u2', role: UserRole.PROPERTY_MANAGER };
+const booking = { id: 'b1', status: BookingStatus.SUBMITTED, buildingId: 'bl1', residentEmail: 'resident@example.com' };
+
+describe('booking status transitions', () => {
+  it('only lets each actor make the moves in the table', () => {
+    expect(canTransition(BookingStatus.SUBMITTED, BookingStatus.APPROVED, SYSTEM_ACTOR)).toBe(true);
+    expect(canTransition(BookingStatus.APPROVED, BookingStatus.CANCELLED, RESIDENT_ACTOR)).toBe(true);
+    expect(canTransition(BookingStatus.SUBMITTED, BookingStatus.REJECTED, RESIDENT_ACTOR)).toBe(false);
+    expect(canTransition(BookingStatus.CANCELLED, BookingStatus.APPROVED, SYSTEM_ACTOR)).toBe(false);
+    expect(canTransition(BookingStatus.REJECTED, BookingStatus.SUBMITTED, concierge)).toBe(false);
+    expect(canTransition(BookingStatus.REJECTED, BookingStatus.SUBMITTED, manager)).toBe(true);
+
+    expect(() => assertTransition(BookingStatus.REJECTED, BookingStatus.CANCELLED, RESIDENT_ACTOR)).toThrow('A rejected booking cannot be cancelled');
+    expect(() => assertTransition(BookingStatus.CANCELLED, BookingStatus.CANCELLED, RESIDENT_ACTOR)).toThrow('Booking is already cancelled');
+    expect(() => assertTransition(BookingStatus.CANCELLED, BookingStatus.SUBMITTED, concierge)).toThrow(expect.objectContaining({ statusCode: 403 }));
+  });
+
+  it('requires staff to give a reason for rejecting or cancelling', () => {
+    expect(() => assertTransition(BookingStatus.PENDING, BookingStatus.REJECTED, concierge, '  ')).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => assertTransition(BookingStatus.APPROVED, BookingStatus.CANCELLED, RESIDENT_ACTOR)).not.toThrow();
+
+    expect(transitionData(BookingStatus.REJECTED, concierge, ' Elevator out of service ')).toMatchObject({ status: BookingStatus.REJECTED, statusReason: 'Elevator out of service' });
+    expect(transitionData(BookingStatus.APPROVED, concierge)).toMatchObject({ statusReason: null, approvedById: 'u1' });
+  });
+
+  it('refuses a change when the booking moved on since it was read', async () => {
+    const client = { booking: { updateMany: vi.fn().mockResolvedValue({ count: 0 }), findUniqueOrThrow: vi.fn() } };
+
+    await expect(changeBookingStatus(client as unknown as PrismaClient, booking, BookingStatus.APPROVED, SYSTEM_ACTOR)).rejects.toMatchObject({ statusCode: 409 });
+    expect(client.booking.updateMany).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'b1', status: BookingStatus.SUBMITTED } }));
+  });
+
+  it("records a resident's cancellation against their email", async () => {
+    const client = {
+      booking: { updateMany: vi.fn().mockResolvedValue({ count: 1 }), findUniqueOrThrow: vi.fn() },
+      auditLog: { create: vi.fn() }
+    };
+
+    await changeBookingStatus(client as unknown as PrismaClient, booking, BookingStatus.CANCELLED, RESIDENT_ACTOR, 'Moving date changed');
+
+    expect(client.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        actorType: 'RESIDENT',
+        actorUserId: null,
+        actorLabel: 'resident@example.com',
+        action: 'BOOKING_CANCELLED',
+        bookingId: 'b1',
+        buildingId: 'bl1',
+        metadataJson: { from: BookingStatus.SUBMITTED, to: BookingStatus.CANCELLED, reason: 'Moving date changed' }
+      })
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  booking: { findMany: vi.fn(), delete: vi.fn() },
+  auditLog: { updateMany: vi.fn(), create: vi.fn() },
+  $transaction: vi.fn((ops: unknown[]) => Promise.all(ops))
+}));
+vi.mock('../src/prisma.js', () => ({ prisma: prismaMock }));
+
+import { purgeTrashedBookings, trashPurgeDate } from '../src/services/bookingTrashService.js';
+
+const now = new Date('2026-06-30T12:00:00Z');
+
+describe('booking trash', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('keeps a deleted booking for the retention period', () => {
+    expect(trashPurgeDate(new Date('2026-05-31T12:00:00Z'))).toEqual(now);
+  });
+
+  it('purges bookings past the retention period and records what was removed', async () => {
+    prismaMock.booking.findMany.mockResolvedValue([{
+      id: 'bk1',
+      buildingId: 'b1',
+      residentName: 'Ada Lovelace',
+      unit: '1204',
+      moveType: 'MOVE_IN',
+      status: 'APPROVED',
+      startDatetime: new Date('2026-05-04T10:00:00Z'),
+      deletedAt: new Date('2026-05-20T09:00:00Z'),
+      deletedById: 'u1'
+    }]);
+
+    expect(await purgeTrashedBookings(now)).toBe(1);
+
+    expect(prismaMock.booking.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { deletedAt: { lte: new Date('2026-05-31T12:00:00Z') } } }));
+    expect(prismaMock.auditLog.updateMany).toHaveBeenCalledWith({ where: { bookingId: 'bk1' }, data: { bookingId: null } });
+    expect(prismaMock.booking.delete).toHaveBeenCalledWith({ where: { id: 'bk1' } });
+    expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        actorType: 'SYSTEM',
+        actorLabel: 'booking-trash-purge',
+        action: 'BOOKING_PURGED',
+        bookingId: undefined,
+        buildingId: 'b1',
+        metadataJson: expect.objectContaining({ bookingId: 'bk1', unit: '1204', deletedById: 'u1' })
+      })
+    });
+  });
+});
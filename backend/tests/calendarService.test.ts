@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { BookingStatus, MoveType } from '@prisma/client';
+import { bookingCalendarEvent, bookingIcsAttachment, buildCalendar } from '../src/services/calendarService.js';
+
+const booking = {
+  id: 'bk1',
+  moveType: MoveType.MOVE_IN,
+  unit: '1105',
+  status: BookingStatus.APPROVED,
+  startDatetime: new Date('2026-05-04T16:00:00Z'),
+  endDatetime: new Date('2026-05-04T19:00:00Z'),
+  calendarSequence: 2,
+  residentName: 'Jane Smith',
+  residentPhone: '604-555-1234',
+  notes: 'Piano; needs dolly, pads',
+  elevatorRequired: true,
+  loadingBayRequired: false
+};
+
+describe('calendar service', () => {
+  it('writes events with a stable UID, sequence and UTC times', () => {
+    const ics = buildCalendar('Tower One Bookings', [bookingCalendarEvent(booking, 'Tower One', 'staff')], new Date('2026-05-01T00:00:00Z'));
+    expect(ics).toContain('METHOD:PUBLISH\r\n');
+    expect(ics).toContain('UID:bk1@movecal\r\n');
+    expect(ics).toContain('SEQUENCE:2\r\n');
+    expect(ics).toContain('DTSTART:20260504T160000Z\r\n');
+    expect(ics).toContain('DTEND:20260504T190000Z\r\n');
+    expect(ics).toContain('STATUS:CONFIRMED\r\n');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('escapes text values and folds long lines', () => {
+    const ics = buildCalendar('Tower One', [bookingCalendarEvent(booking, 'Tower One', 'staff')]);
+    const unfolded = ics.replace(/\r\n /g, '');
+    expect(unfolded).toContain('Notes: Piano\\; needs dolly\\, pads');
+    expect(unfolded).toContain('Resident: Jane Smith\\nPhone: 604-555-1234');
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+  });
+
+  it('keeps resident details out of the public feed', () => {
+    const event = bookingCalendarEvent({ ...booking, unit: '11XX' }, 'Tower One', 'public');
+    expect(event.summary).toBe('Move In — Unit 11XX');
+    expect(event.description).toBeUndefined();
+  });
+
+  it('marks a cancelled booking cancelled in the resident attachment', () => {
+    const attachment = bookingIcsAttachment({ ...booking, status: BookingStatus.CANCELLED, calendarSequence: 3 }, 'Tower One');
+    expect(attachment.filename).toBe('booking.ics');
+    expect(attachment.content).toContain('STATUS:CANCELLED\r\n');
+    expect(attachment.content).toContain('SEQUENCE:3\r\n');
+  });
+});
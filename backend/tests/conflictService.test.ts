@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { hasElevatorConflict, validateMoveHours } from '../src/services/conflictService.js';
+import { hasElevatorConflict, peakUsage, validateMoveHours } from '../src/services/conflictService.js';
 
 describe('conflict logic', () => {
   it('detects conflicts with 60 minute buffer', () => {
@@ -30,3 +30,33 @@ describe('conflict logic', () => {
     expect(() => validateMoveHours(new Date('2025-01-01T10:00:00'), new Date('2025-01-01T13:00:00'))).not.toThrow();
   });
 });
+
+describe('resource capacity', () => {
+  const at = (hhmm: string) => new Date(`2025-01-01T${hhmm}:00`);
+
+  it('counts only reservations overlapping the window', () => {
+    const usage = peakUsage(
+      [
+        { startDatetime: at('09:00'), endDatetime: at('10:00') },
+        { startDatetime: at('10:00'), endDatetime: at('11:00') },
+        { startDatetime: at('12:00'), endDatetime: at('13:00') },
+      ],
+      at('10:00'),
+      at('12:00')
+    );
+    expect(usage).toBe(1);
+  });
+
+  it('reports the peak of concurrent reservations, not the total', () => {
+    const usage = peakUsage(
+      [
+        { startDatetime: at('09:00'), endDatetime: at('10:30') },
+        { startDatetime: at('10:30'), endDatetime: at('12:00') },
+        { startDatetime: at('11:00'), endDatetime: at('11:30') },
+      ],
+      at('09:00'),
+      at('12:00')
+    );
+    expect(usage).toBe(2);
+  });
+});
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+// The settings key is validated at import; delivery here never decrypts anything
+vi.mock('../src/utils/crypto.js', () => ({ decrypt: vi.fn() }));
+vi.mock('../src/prisma.js', () => ({ prisma: {} }));
+
+import { deliverEmail, retryDelayMs } from '../src/services/emailService.js';
+
+const prisma = {
+  emailOutbox: { updateMany: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn() },
+  // No SMTP host configured, so every delivery attempt fails
+  appSetting: { findUnique: vi.fn().mockResolvedValue(null) }
+};
+
+const queued = { id: 'email-1', buildingId: 'building-1', to: ['jane@example.com'], subject: 'Approved', html: '<p>Hi</p>' };
+
+describe('email outbox', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('backs off exponentially up to six hours', () => {
+    expect(retryDelayMs(1)).toBe(60_000);
+    expect(retryDelayMs(2)).toBe(120_000);
+    expect(retryDelayMs(4)).toBe(480_000);
+    expect(retryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it('skips emails another worker already claimed', async () => {
+    prisma.emailOutbox.updateMany.mockResolvedValue({ count: 0 });
+    await expect(deliverEmail(prisma as unknown as PrismaClient, 'email-1')).resolves.toBe('skipped');
+    expect(prisma.emailOutbox.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+
+  it('requeues failed deliveries with the error recorded', async () => {
+    prisma.emailOutbox.updateMany.mockResolvedValue({ count: 1 });
+    prisma.emailOutbox.findUniqueOrThrow.mockResolvedValue({ ...queued, attempts: 1 });
+    await expect(deliverEmail(prisma as unknown as PrismaClient, 'email-1')).resolves.toBe('failed');
+    expect(prisma.emailOutbox.update).toHaveBeenCalledWith({
+      where: { id: 'email-1' },
+      data: expect.objectContaining({ status: 'PENDING', lastError: 'SMTP settings are incomplete' })
+    });
+  });
+
+  it('gives up after the last attempt', async () => {
+    prisma.emailOutbox.updateMany.mockResolvedValue({ count: 1 });
+    prisma.emailOutbox.findUniqueOrThrow.mockResolvedValue({ ...queued, attempts: 8 });
+    await deliverEmail(prisma as unknown as PrismaClient, 'email-1');
+    expect(prisma.emailOutbox.update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ status: 'FAILED' }) }));
+  });
+});
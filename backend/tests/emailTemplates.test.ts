@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MoveType } from '@prisma/client';
+
+vi.mock('../src/prisma.js', () => ({ prisma: {} }));
+vi.mock('../src/utils/crypto.js', () => ({ decrypt: vi.fn() }));
+
+import { DEFAULT_EMAIL_TEMPLATES, renderTemplate } from '../src/services/emailTemplates.js';
+import { composeBookingEmail, templateVariables } from '../src/services/emailService.js';
+
+const booking = {
+  id: 'bk_1',
+  buildingId: 'b1',
+  residentName: 'Jane <b>Smith</b>',
+  residentEmail: 'jane@example.com',
+  residentPhone: '604-555-0123',
+  unit: '1105',
+  moveType: MoveType.MOVE_IN,
+  startDatetime: new Date('2025-03-10T09:00:00'),
+  endDatetime: new Date('2025-03-10T12:00:00'),
+  elevatorRequired: true,
+  loadingBayRequired: false
+};
+
+describe('email templates', () => {
+  const variables = templateVariables(booking, { name: 'Tower One' });
+
+  it('fills placeholders, tolerating spaces inside the braces', () => {
+    expect(renderTemplate('{{moveTypeLabel}} for unit {{ unit }} at {{buildingName}}', variables, { html: false }))
+      .toBe('Move In for unit 1105 at Tower One');
+  });
+
+  it('escapes resident-supplied values in HTML but not in subjects', () => {
+    expect(renderTemplate('Hi {{residentName}}', variables, { html: true })).toBe('Hi Jane &lt;b&gt;Smith&lt;/b&gt;');
+    expect(renderTemplate('Hi {{residentName}}', variables, { html: false })).toBe('Hi Jane <b>Smith</b>');
+  });
+
+  it('leaves unknown placeholders as typed', () => {
+    expect(renderTemplate('Hello {{firstName}}', variables, { html: true })).toBe('Hello {{firstName}}');
+  });
+
+  it('composes the default approval email with the previous subject line', () => {
+    const { subject, html } = composeBookingEmail(DEFAULT_EMAIL_TEMPLATES.APPROVED, booking, { name: 'Tower One' });
+    expect(subject).toBe('Booking Approved — Move In on Mar 10, 2025');
+    expect(html).toContain('Your booking request has been approved.');
+    expect(html).toContain('Tower One Property Management');
+  });
+});
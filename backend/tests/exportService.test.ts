@@ -0,0 +1,67 @@
+import zlib from 'zlib';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/prisma.js', () => ({ prisma: {} }));
+
+import { BOOKING_EXPORT_COLUMNS, BookingExportRow, buildExport, exportColumnsSchema } from '../src/services/exportService.js';
+
+const booking = {
+  id: 'bk1',
+  residentName: '=HYPERLINK("http://evil.example")',
+  residentEmail: 'jane@example.com',
+  unit: '1204',
+  moveType: 'MOVE_IN',
+  status: 'APPROVED',
+  startDatetime: new Date('2026-05-04T10:00:00Z'),
+  endDatetime: new Date('2026-05-04T12:00:00Z'),
+  elevatorRequired: true,
+  moveFeeCents: 10000,
+  depositCents: 25000,
+  afterHoursSurchargeCents: 0,
+  amountPaidCents: 35000,
+  approvedBy: { name: 'Sam Concierge', email: 'sam@example.com' },
+  paymentInvoiceId: 'INV-7'
+} as unknown as BookingExportRow;
+
+// Files in a zip archive, read from its local headers
+function unzip(archive: Buffer) {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const size = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const dataStart = offset + 30 + nameLength + archive.readUInt16LE(offset + 28);
+    const name = archive.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    files[name] = zlib.inflateRawSync(archive.subarray(dataStart, dataStart + size)).toString('utf8');
+    offset = dataStart + size;
+  }
+  return files;
+}
+
+describe('exports', () => {
+  it('keeps the original columns unless others are chosen', () => {
+    const schema = exportColumnsSchema(BOOKING_EXPORT_COLUMNS, ['id', 'unit']);
+    expect(schema.parse(undefined)).toEqual(['id', 'unit']);
+    expect(schema.parse('resident_email,approved_by')).toEqual(['resident_email', 'approved_by']);
+    expect(() => schema.parse('edit_token')).toThrow();
+  });
+
+  it('neutralises formulas in CSV', () => {
+    const { body, contentType } = buildExport('csv', 'Bookings', BOOKING_EXPORT_COLUMNS, ['resident_name', 'elevator_required', 'amount_due', 'approved_by'], [booking]);
+
+    expect(contentType).toBe('text/csv');
+    expect(body).toBe('resident_name,elevator_required,amount_due,approved_by\n"\'=HYPERLINK(""http://evil.example"")",yes,350,Sam Concierge\n');
+  });
+
+  it('writes a workbook with text as inline strings and amounts as numbers', () => {
+    const { body } = buildExport('xlsx', 'Tower A Bookings', BOOKING_EXPORT_COLUMNS, ['resident_name', 'amount_paid', 'payment_invoice_id'], [booking]);
+    const files = unzip(body as Buffer);
+
+    expect(Object.keys(files)).toEqual(expect.arrayContaining(['[Content_Types].xml', 'xl/workbook.xml', 'xl/worksheets/sheet1.xml']));
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Tower A Bookings"');
+    const sheet = files['xl/worksheets/sheet1.xml'];
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">\'=HYPERLINK(&quot;http://evil.example&quot;)</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>350</v></c>');
+    expect(sheet).toContain('<c r="C1" s="1" t="inlineStr"><is><t xml:space="preserve">payment_invoice_id</t></is></c>');
+  });
+});
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// One job row shared by every scheduler instance, leased the way the database would
+const lease = vi.hoisted(() => ({ lockedUntil: null as Date | null }));
+const prismaMock = vi.hoisted(() => ({
+  job: { findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  jobRun: { create: vi.fn(), update: vi.fn() }
+}));
+vi.mock('../src/prisma.js', () => ({ prisma: prismaMock }));
+
+type Scheduler = typeof import('../src/services/jobScheduler.js');
+
+const log = { info: vi.fn(), error: vi.fn() };
+
+// Each import after a module reset is a separate instance, as another server process would be
+async function loadScheduler(): Promise<Scheduler> {
+  vi.resetModules();
+  return import('../src/services/jobScheduler.js');
+}
+
+describe('job scheduler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    lease.lockedUntil = null;
+    prismaMock.job.findMany.mockResolvedValue([{ name: 'digest' }]);
+    prismaMock.job.findUnique.mockResolvedValue({ name: 'digest', runRequestedAt: new Date() });
+    prismaMock.job.update.mockResolvedValue({});
+    prismaMock.job.updateMany.mockImplementation(async ({ where, data }: { where: { lockedBy?: string }; data: { lockedUntil: Date; lastRunAt: Date } }) => {
+      // Releasing the lease rather than taking it
+      if (where.lockedBy) return { count: 1 };
+      if (lease.lockedUntil && lease.lockedUntil >= data.lastRunAt) return { count: 0 };
+      lease.lockedUntil = data.lockedUntil;
+      return { count: 1 };
+    });
+    prismaMock.jobRun.create.mockResolvedValue({ id: 'run1' });
+    prismaMock.jobRun.update.mockResolvedValue({});
+  });
+
+  it('runs a job on only one of two instances racing for its lease', async () => {
+    let finish = () => {};
+    const run = vi.fn(() => new Promise<void>((resolve) => { finish = resolve; }));
+    const first = await loadScheduler();
+    const second = await loadScheduler();
+    first.registerJob({ name: 'digest', description: 'Digest', intervalMs: 60_000, run });
+    second.registerJob({ name: 'digest', description: 'Digest', intervalMs: 60_000, run });
+
+    await Promise.all([first.requestJobRun('digest', log), second.requestJobRun('digest', log)]);
+    await vi.waitFor(() => {
+      expect(prismaMock.job.updateMany).toHaveBeenCalledTimes(2);
+      expect(run).toHaveBeenCalled();
+    });
+    expect(prismaMock.job.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ OR: [{ lockedUntil: null }, { lockedUntil: { lt: expect.any(Date) } }] })
+    }));
+    finish();
+
+    await vi.waitFor(() => expect(prismaMock.jobRun.update).toHaveBeenCalled());
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(prismaMock.jobRun.create).toHaveBeenCalledTimes(1);
+    expect(prismaMock.jobRun.create).toHaveBeenCalledWith({ data: expect.objectContaining({ jobName: 'digest', trigger: 'manual' }) });
+  });
+
+  it('records a failed run and the next run time', async () => {
+    const scheduler = await loadScheduler();
+    scheduler.registerJob({ name: 'digest', description: 'Digest', intervalMs: 60_000, run: () => Promise.reject(new Error('SMTP down')) });
+
+    await scheduler.requestJobRun('digest', log);
+
+    await vi.waitFor(() => expect(prismaMock.job.updateMany).toHaveBeenCalledTimes(2));
+    expect(prismaMock.jobRun.update).toHaveBeenCalledWith({
+      where: { id: 'run1' },
+      data: expect.objectContaining({ status: 'FAILED', error: 'SMTP down' })
+    });
+    const [, release] = prismaMock.job.updateMany.mock.calls;
+    const finishedAt: Date = release[0].data.lastErrorAt;
+    expect(release[0]).toEqual({
+      where: { name: 'digest', lockedBy: expect.any(String) },
+      data: { lockedBy: null, lockedUntil: null, nextRunAt: new Date(finishedAt.getTime() + 60_000), lastError: 'SMTP down', lastErrorAt: finishedAt }
+    });
+    expect(log.error).toHaveBeenCalledWith(expect.objectContaining({ job: 'digest' }), 'Background job failed');
+  });
+});
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => {
+  const mock = {
+    booking: { findUnique: vi.fn(), updateMany: vi.fn() },
+    paymentsLedger: { findFirst: vi.fn(), update: vi.fn() },
+    moveApproval: { findFirst: vi.fn(), create: vi.fn() },
+    auditLog: { create: vi.fn() },
+    $transaction: vi.fn()
+  };
+  mock.$transaction.mockImplementation((fn: (tx: typeof mock) => unknown) => fn(mock));
+  return mock;
+});
+vi.mock('../src/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../src/utils/crypto.js', () => ({ decrypt: vi.fn() }));
+
+import { checkAndApproveMoveRequest } from '../src/services/moveApprovalService.js';
+
+const request = { unit: '1105', feeType: 'move_in', billingPeriod: '2026-05', bookingId: 'bk1' };
+
+describe('payment approval', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.booking.findUnique.mockResolvedValue({ id: 'bk1', buildingId: 'b1', unit: '1105', unitId: null, status: 'SUBMITTED', deletedAt: null, residentEmail: 'jane@example.com' });
+    prismaMock.paymentsLedger.findFirst.mockResolvedValue({ id: 'p1', invoiceId: 'INV-7', clientId: 'c1', amountCents: 10000 });
+    prismaMock.moveApproval.findFirst.mockResolvedValue(null);
+  });
+
+  it('approves only from the status it read', async () => {
+    prismaMock.booking.updateMany.mockResolvedValue({ count: 1 });
+
+    expect(await checkAndApproveMoveRequest(request)).toEqual({ approved: true, invoiceId: 'INV-7' });
+    expect(prismaMock.booking.updateMany).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'bk1', status: 'SUBMITTED', deletedAt: null } }));
+    expect(prismaMock.moveApproval.create).toHaveBeenCalled();
+  });
+
+  it('leaves the payment unmatched when the booking changed meanwhile', async () => {
+    prismaMock.booking.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await checkAndApproveMoveRequest(request)).toEqual({ approved: false });
+    expect(prismaMock.moveApproval.create).not.toHaveBeenCalled();
+    expect(prismaMock.paymentsLedger.update).not.toHaveBeenCalled();
+    expect(prismaMock.auditLog.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { EmailTemplateKey } from '@prisma/client';
+
+const prismaMock = vi.hoisted(() => ({
+  appSetting: { findMany: vi.fn(), update: vi.fn() },
+  booking: { findMany: vi.fn(), update: vi.fn() }
+}));
+vi.mock('../src/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../src/services/emailService.js', () => ({
+  emailWrapper: vi.fn(() => '<html>'),
+  moveRulesHtml: vi.fn((rules: string) => `<rules>${rules}</rules>`)
+}));
+vi.mock('../src/services/notificationService.js', () => ({
+  notifyResident: vi.fn(),
+  sendNotificationRecipients: vi.fn(),
+  deliveredChannels: (err: { deliveredChannels?: string[] }) => err.deliveredChannels ?? []
+}));
+
+import { notifyResident, sendNotificationRecipients } from '../src/services/notificationService.js';
+import { dueReminder, runConciergeDigest, runMoveReminders } from '../src/services/moveReminderService.js';
+
+const now = new Date('2026-05-04T10:00:00');
+const hoursFromNow = (h: number) => new Date(now.getTime() + h * 60 * 60 * 1000);
+const unsent = { reminder48hSentAt: null, reminder2hSentAt: null };
+
+describe('pre-move reminders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('picks the window a booking has entered', () => {
+    expect(dueReminder({ startDatetime: hoursFromNow(72), ...unsent }, now)).toBeNull();
+    expect(dueReminder({ startDatetime: hoursFromNow(47), ...unsent }, now)?.template).toBe(EmailTemplateKey.MOVE_REMINDER_48H);
+    expect(dueReminder({ startDatetime: hoursFromNow(1.5), ...unsent }, now)?.template).toBe(EmailTemplateKey.MOVE_REMINDER_2H);
+    expect(dueReminder({ startDatetime: hoursFromNow(-1), ...unsent }, now)).toBeNull();
+  });
+
+  it('does not repeat a reminder already sent', () => {
+    expect(dueReminder({ startDatetime: hoursFromNow(30), reminder48hSentAt: now, reminder2hSentAt: null }, now)).toBeNull();
+    expect(dueReminder({ startDatetime: hoursFromNow(1), reminder48hSentAt: now, reminder2hSentAt: null }, now)?.field).toBe('reminder2hSentAt');
+  });
+
+  it('emails the resident with the building rules and records the send', async () => {
+    prismaMock.appSetting.findMany.mockResolvedValue([{ buildingId: 'b1', moveRules: 'Pads on the elevator walls' }]);
+    prismaMock.booking.findMany.mockResolvedValue([
+      { id: 'bk1', buildingId: 'b1', residentEmail: 'res@example.com', editToken: 'tok', startDatetime: hoursFromNow(1), ...unsent }
+    ]);
+
+    await runMoveReminders(now);
+
+    expect(notifyResident).toHaveBeenCalledWith(prismaMock, EmailTemplateKey.MOVE_REMINDER_2H, expect.objectContaining({ id: 'bk1' }), {
+      manageUrl: expect.stringContaining('/booking/bk1?token=tok'),
+      extraHtml: '<rules>Pads on the elevator walls</rules>'
+    });
+    // The skipped 48h reminder is marked too so it is never sent late
+    expect(prismaMock.booking.update).toHaveBeenCalledWith({ where: { id: 'bk1' }, data: { reminder2hSentAt: now, reminder48hSentAt: now } });
+  });
+
+  it('records a reminder whose email went out even though the text failed', async () => {
+    prismaMock.appSetting.findMany.mockResolvedValue([{ buildingId: 'b1', moveRules: null }]);
+    prismaMock.booking.findMany.mockResolvedValue([{ id: 'bk1', buildingId: 'b1', editToken: null, startDatetime: hoursFromNow(30), ...unsent }]);
+    prismaMock.booking.update.mockResolvedValue({});
+    vi.mocked(notifyResident).mockRejectedValueOnce(Object.assign(new Error('Notification failed on SMS: Twilio down'), { deliveredChannels: ['EMAIL'] }));
+
+    await expect(runMoveReminders(now)).rejects.toThrow('1 move reminders failed');
+    expect(prismaMock.booking.update).toHaveBeenCalledWith({ where: { id: 'bk1' }, data: { reminder48hSentAt: now } });
+  });
+
+  it('sends the digest once the morning hour has passed', async () => {
+    prismaMock.appSetting.findMany.mockResolvedValue([{ id: 's1', buildingId: 'b1', building: { name: 'Tower One' } }]);
+    prismaMock.booking.findMany.mockResolvedValue([]);
+
+    await runConciergeDigest(new Date('2026-05-04T06:30:00'));
+    expect(prismaMock.appSetting.findMany).not.toHaveBeenCalled();
+
+    await runConciergeDigest(now);
+    expect(sendNotificationRecipients).toHaveBeenCalledWith(prismaMock, 'b1', 'DAILY_DIGEST', expect.stringContaining("Today's Bookings"), '<html>');
+    expect(prismaMock.appSetting.update).toHaveBeenCalledWith({ where: { id: 's1' }, data: { digestSentAt: now } });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MoveType } from '@prisma/client';
+// Rules are passed in directly, so the database client is never touched
+vi.mock('../src/prisma.js', () => ({ prisma: {} }));
+
+import { checkMoveTimeAgainstRules, SlotRuleWindow } from '../src/utils/moveTimeValidator.js';
+import { getStatutoryHolidays } from '../src/utils/holidays.js';
+
+const weekdays = [1, 2, 3, 4, 5];
+const rules: SlotRuleWindow[] = [
+  ...weekdays.flatMap((dayOfWeek) => [
+    { moveType: MoveType.MOVE_IN, dayOfWeek, windowStart: 540, windowEnd: 720, durationMins: null, blockMins: null },
+    { moveType: MoveType.MOVE_IN, dayOfWeek, windowStart: 780, windowEnd: 960, durationMins: null, blockMins: null },
+    { moveType: MoveType.DELIVERY, dayOfWeek, windowStart: 600, windowEnd: 960, durationMins: 30, blockMins: 30 },
+  ]),
+  { moveType: MoveType.OPEN_HOUSE, dayOfWeek: 6, windowStart: 840, windowEnd: 1020, durationMins: 180, blockMins: 180 },
+];
+
+describe('slot rules validation', () => {
+  it('accepts a booking inside a permitted window', () => {
+    // 2025-03-04 is a Tuesday
+    const result = checkMoveTimeAgainstRules(new Date('2025-03-04T09:00:00'), new Date('2025-03-04T12:00:00'), MoveType.MOVE_IN, rules);
+    expect(result.valid).toBe(true);
+  });
+
+  it('rejects a booking spanning two windows', () => {
+    const result = checkMoveTimeAgainstRules(new Date('2025-03-04T11:00:00'), new Date('2025-03-04T14:00:00'), MoveType.MOVE_IN, rules);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('9:00 AM–12:00 PM or 1:00 PM–4:00 PM');
+  });
+
+  it('rejects days without rules for the move type', () => {
+    // 2025-03-08 is a Saturday
+    const result = checkMoveTimeAgainstRules(new Date('2025-03-08T10:00:00'), new Date('2025-03-08T11:00:00'), MoveType.MOVE_IN, rules);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('Saturdays');
+  });
+
+  it('enforces fixed durations', () => {
+    const ok = checkMoveTimeAgainstRules(new Date('2025-03-04T10:00:00'), new Date('2025-03-04T10:30:00'), MoveType.DELIVERY, rules);
+    const tooLong = checkMoveTimeAgainstRules(new Date('2025-03-04T10:00:00'), new Date('2025-03-04T11:00:00'), MoveType.DELIVERY, rules);
+    expect(ok.valid).toBe(true);
+    expect(tooLong.error).toContain('exactly 30 minutes');
+  });
+
+  it('rejects statutory holidays', () => {
+    const result = checkMoveTimeAgainstRules(new Date('2025-07-01T09:00:00'), new Date('2025-07-01T12:00:00'), MoveType.MOVE_IN, rules);
+    expect(result.error).toBe('Bookings are not permitted on statutory holidays');
+  });
+});
+
+describe('statutory holiday generator', () => {
+  it('matches the published BC holidays', () => {
+    expect(getStatutoryHolidays(2026).map((h) => h.date)).toEqual([
+      '2026-01-01', '2026-02-16', '2026-04-03', '2026-05-18', '2026-07-01', '2026-08-03',
+      '2026-09-07', '2026-10-12', '2026-11-11', '2026-12-25', '2026-12-26',
+    ]);
+  });
+
+  it('computes Good Friday from Easter and Victoria Day as the Monday before May 25', () => {
+    const find = (year: number, name: string) => getStatutoryHolidays(year).find((h) => h.name === name)?.date;
+    expect(find(2027, 'Good Friday')).toBe('2027-03-26');
+    expect(find(2029, 'Good Friday')).toBe('2029-03-30');
+    expect(find(2027, 'Victoria Day')).toBe('2027-05-24');
+    expect(find(2032, 'Victoria Day')).toBe('2032-05-24');
+    expect(find(2038, 'Good Friday')).toBe('2038-04-23');
+  });
+
+  it('rejects admin blackout dates', () => {
+    const result = checkMoveTimeAgainstRules(
+      new Date('2025-03-04T09:00:00'), new Date('2025-03-04T12:00:00'), MoveType.MOVE_IN, rules,
+      [{ date: '2025-03-04', reason: 'Elevator maintenance' }]
+    );
+    expect(result.error).toBe('Bookings are not permitted on this date: Elevator maintenance');
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  paymentsLedger: { findUnique: vi.fn(), createMany: vi.fn() },
+  booking: { findUnique: vi.fn(), findFirst: vi.fn() },
+  building: { findMany: vi.fn() },
+  unit: { count: vi.fn() }
+}));
+vi.mock('../src/prisma.js', () => ({ prisma: prismaMock }));
+// Email delivery needs SMTP credentials; ingestion without a matching booking never sends
+vi.mock('../src/services/notificationService.js', () => ({ sendPaymentConfirmedNotification: vi.fn() }));
+vi.mock('../src/utils/crypto.js', () => ({ decrypt: vi.fn() }));
+
+import { ingestPaidInvoice } from '../src/services/paymentPoller.js';
+
+const log = { info: vi.fn(), error: vi.fn() };
+const invoice = {
+  id: 'inv-1',
+  clientId: 'client-1',
+  paidAt: new Date('2026-03-02T10:00:00Z'),
+  billedAt: null,
+  amountCents: 15000,
+  productKey: 'Move In Fee',
+  notes: 'Move in'
+};
+
+describe('paid invoice ingestion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.booking.findUnique.mockResolvedValue(null);
+  });
+
+  it('records a new invoice once', async () => {
+    prismaMock.paymentsLedger.findUnique.mockResolvedValue(null);
+    prismaMock.paymentsLedger.createMany.mockResolvedValue({ count: 1 });
+
+    await expect(ingestPaidInvoice(invoice, [], log)).resolves.toBe('recorded');
+    expect(prismaMock.paymentsLedger.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ invoiceId: 'inv-1', billingPeriod: '2026-03', amountCents: 15000 })],
+      skipDuplicates: true
+    });
+  });
+
+  it('treats redelivered invoices as duplicates once matched', async () => {
+    prismaMock.paymentsLedger.findUnique.mockResolvedValue({ id: 'ledger-1', dismissed: false, moveApprovals: [{ id: 'approval-1' }] });
+    await expect(ingestPaidInvoice(invoice, [], log)).resolves.toBe('duplicate');
+    expect(prismaMock.paymentsLedger.createMany).not.toHaveBeenCalled();
+  });
+
+  it('matches a recorded but unmatched invoice again', async () => {
+    prismaMock.paymentsLedger.findUnique.mockResolvedValue({
+      id: 'ledger-1', dismissed: false, moveApprovals: [], buildingId: 'building-1', unit: '1105', feeType: 'move_in'
+    });
+    prismaMock.booking.findFirst.mockResolvedValue(null);
+
+    await expect(ingestPaidInvoice(invoice, ['building-1'], log)).resolves.toBe('recorded');
+    expect(prismaMock.paymentsLedger.createMany).not.toHaveBeenCalled();
+    expect(prismaMock.booking.findFirst).toHaveBeenCalledWith({ where: expect.objectContaining({ buildingId: 'building-1', moveType: 'MOVE_IN' }) });
+  });
+
+  it('stops when a concurrent delivery inserted the row first', async () => {
+    prismaMock.paymentsLedger.findUnique.mockResolvedValue(null);
+    prismaMock.paymentsLedger.createMany.mockResolvedValue({ count: 0 });
+    await expect(ingestPaidInvoice(invoice, [], log)).resolves.toBe('duplicate');
+  });
+
+  it('files invoices raised for a booking under that booking', async () => {
+    prismaMock.paymentsLedger.findUnique.mockResolvedValue(null);
+    prismaMock.paymentsLedger.createMany.mockResolvedValue({ count: 1 });
+    prismaMock.booking.findUnique.mockResolvedValue({ id: 'booking-1', buildingId: 'building-1', unit: 'T4-1105', moveType: 'RENO', status: 'SUBMITTED' });
+
+    await ingestPaidInvoice({ ...invoice, productKey: '', notes: '' }, [], log);
+    expect(prismaMock.booking.findUnique).toHaveBeenCalledWith({ where: { invoiceId: 'inv-1' } });
+    expect(prismaMock.paymentsLedger.createMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: [expect.objectContaining({ buildingId: 'building-1', unit: 'T4-1105', feeType: 'reno' })]
+    }));
+    // Payment matching is off for the building, so the booking is left alone
+    expect(prismaMock.booking.findFirst).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+// Providers are exercised without ingestion, so the database client is never touched
+vi.mock('../src/prisma.js', () => ({ prisma: {} }));
+
+import { getMockInvoice, markMockInvoicePaid, mockPaymentProvider, resetMockPaymentProvider } from '../src/services/mockPaymentProvider.js';
+import { signPayload, toPaidInvoice, verifySignature } from '../src/services/webhookPaymentProvider.js';
+import { invoiceLineItems } from '../src/services/invoiceService.js';
+
+const request = {
+  booking: {
+    id: 'booking-1',
+    unit: '1105',
+    residentName: 'Jane Smith',
+    residentEmail: 'jane@example.com',
+    moveType: 'MOVE_IN' as const,
+    startDatetime: new Date('2026-03-02T09:00:00Z')
+  },
+  lineItems: [{ productKey: 'Move In Fee', description: 'Unit 1105 move in', amountCents: 15000 }]
+};
+
+describe('mock payment provider', () => {
+  beforeEach(() => resetMockPaymentProvider());
+
+  it('reports invoices only once they are paid', async () => {
+    const since = new Date(Date.now() - 1000);
+    const { id, payUrl } = await mockPaymentProvider.createInvoice(request);
+    expect(payUrl).toBe(`mock://pay/${id}`);
+    expect(await mockPaymentProvider.fetchPaidInvoices(since)).toEqual([]);
+
+    markMockInvoicePaid(id);
+    const [paid] = await mockPaymentProvider.fetchPaidInvoices(since);
+    expect(paid).toMatchObject({ id, amountCents: 15000, productKey: 'Move In Fee', notes: 'Unit 1105 move in' });
+  });
+
+  it('refunds paid invoices only', async () => {
+    const { id } = await mockPaymentProvider.createInvoice(request);
+    await expect(mockPaymentProvider.refund(id, 5000)).rejects.toThrow('no payment');
+    markMockInvoicePaid(id);
+    await mockPaymentProvider.refund(id, 5000);
+    expect(getMockInvoice(id)?.refundedCents).toBe(5000);
+  });
+});
+
+describe('webhook payment provider', () => {
+  it('accepts bodies signed with the shared secret', () => {
+    const body = JSON.stringify({ type: 'invoice.paid', invoice: { id: 'inv-1' } });
+    const signature = signPayload(body, 'secret');
+    expect(verifySignature(body, signature, 'secret')).toBe(true);
+    expect(verifySignature(body + ' ', signature, 'secret')).toBe(false);
+    expect(verifySignature(body, signature, 'other')).toBe(false);
+    expect(verifySignature(body, undefined, 'secret')).toBe(false);
+    expect(verifySignature(body, signature, undefined)).toBe(false);
+  });
+
+  it('maps pushed events to paid invoices', () => {
+    expect(toPaidInvoice({ type: 'invoice.paid', invoice: { id: 'inv-1', amountCents: 2500, billedAt: '2026-03-01T00:00:00Z' } }))
+      .toMatchObject({ id: 'inv-1', clientId: '', amountCents: 2500, billedAt: new Date('2026-03-01T00:00:00Z'), productKey: '' });
+  });
+});
+
+describe('booking invoices', () => {
+  it('bills each non-zero fee with the unit and booking in the notes', () => {
+    const items = invoiceLineItems({ ...request.booking, moveFeeCents: 15000, depositCents: 0, afterHoursSurchargeCents: 5000 });
+    expect(items.map((i) => [i.productKey, i.amountCents])).toEqual([['Move In Fee', 15000], ['Move In After-Hours Surcharge', 5000]]);
+    expect(items[0].description).toContain('Unit 1105');
+    expect(items[0].description).toContain('booking booking-1');
+  });
+});
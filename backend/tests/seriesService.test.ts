@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MoveType, PrismaClient } from '@prisma/client';
+
+const prismaMock = vi.hoisted(() => ({
+  slotRule: { findMany: vi.fn() },
+  blackoutDate: { findMany: vi.fn() }
+}));
+vi.mock('../src/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../src/services/conflictService.js', () => ({ assertNoConflict: vi.fn() }));
+
+import { assertNoConflict } from '../src/services/conflictService.js';
+import { checkSeriesOccurrences, expandRecurrence, planSeries } from '../src/services/seriesService.js';
+
+const weekdays = [1, 2, 3, 4, 5];
+// Weekdays 10–11am across the week of Victoria Day (Monday, May 18 2026)
+const request = {
+  moveType: MoveType.RENO,
+  elevatorRequired: true,
+  loadingBayRequired: false,
+  recurrence: { startDate: '2026-05-18', endDate: '2026-05-24', daysOfWeek: weekdays, startTime: '10:00', endTime: '11:00' }
+};
+const renoRules = weekdays.map((dayOfWeek) => ({ moveType: MoveType.RENO, dayOfWeek, windowStart: 9 * 60, windowEnd: 16 * 60, durationMins: 60, blockMins: 60 }));
+const now = new Date('2026-05-01T00:00:00');
+
+describe('booking series', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.slotRule.findMany.mockResolvedValue(renoRules);
+    prismaMock.blackoutDate.findMany.mockResolvedValue([]);
+    vi.mocked(assertNoConflict).mockResolvedValue([]);
+  });
+
+  it('expands a recurrence to each chosen weekday at its wall-clock times', () => {
+    const occurrences = expandRecurrence({ ...request.recurrence, endDate: '2026-06-05' });
+    expect(occurrences).toHaveLength(15);
+    expect(occurrences[0]).toEqual({ date: '2026-05-18', startDatetime: new Date('2026-05-18T10:00:00'), endDatetime: new Date('2026-05-18T11:00:00') });
+    expect(occurrences.map((o) => o.date)).not.toContain('2026-05-23');
+  });
+
+  it('reports holidays, blackouts and conflicts per occurrence', async () => {
+    prismaMock.blackoutDate.findMany.mockResolvedValue([{ date: new Date('2026-05-20T00:00:00.000Z'), reason: 'Elevator maintenance' }]);
+    vi.mocked(assertNoConflict).mockImplementation(async (_tx, candidate) => {
+      if (candidate.startDatetime.getDate() === 21) throw new Error('Elevator conflict detected');
+      return [];
+    });
+
+    const report = await checkSeriesOccurrences(prismaMock as unknown as PrismaClient, 'b1', request, expandRecurrence(request.recurrence), now);
+
+    expect(report.map((o) => [o.date, o.available, o.reason])).toEqual([
+      ['2026-05-18', false, 'Bookings are not permitted on statutory holidays'],
+      ['2026-05-19', true, undefined],
+      ['2026-05-20', false, 'Bookings are not permitted on this date: Elevator maintenance'],
+      ['2026-05-21', false, 'Elevator conflict detected'],
+      ['2026-05-22', true, undefined]
+    ]);
+  });
+
+  it('only repeats move types that allow a series', async () => {
+    await expect(planSeries(prismaMock as unknown as PrismaClient, 'b1', { ...request, moveType: MoveType.MOVE_IN }, now)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(planSeries(prismaMock as unknown as PrismaClient, 'b1', { ...request, recurrence: { ...request.recurrence, endDate: '2026-09-30' } }, now)).rejects.toThrow('at most 92 days');
+  });
+});
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MoveType, PrismaClient, ResourceType } from '@prisma/client';
+import { assertNoConflict } from '../src/services/conflictService.js';
+import { holdSlot } from '../src/services/slotHoldService.js';
+
+const tx = {
+  booking: { findFirst: vi.fn(), findMany: vi.fn() },
+  resource: { findMany: vi.fn() },
+  bookingResource: { findMany: vi.fn() },
+  slotHold: { findMany: vi.fn(), findUnique: vi.fn(), create: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+  $transaction: vi.fn((fn: (client: unknown) => unknown) => fn(tx))
+};
+
+const request = {
+  moveType: MoveType.MOVE_IN,
+  startDatetime: new Date('2026-05-04T10:00:00'),
+  endDatetime: new Date('2026-05-04T12:00:00'),
+  elevatorRequired: true,
+  loadingBayRequired: false
+};
+const elevator = { id: 'e1', name: 'Elevator 1', type: ResourceType.ELEVATOR, capacity: 1 };
+
+describe('slot holds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx.booking.findFirst.mockResolvedValue(null);
+    tx.booking.findMany.mockResolvedValue([]);
+    tx.resource.findMany.mockResolvedValue([elevator]);
+    tx.bookingResource.findMany.mockResolvedValue([]);
+    tx.slotHold.findMany.mockResolvedValue([]);
+  });
+
+  it("counts another resident's hold against the resource's capacity", async () => {
+    tx.slotHold.findMany.mockResolvedValue([{ ...request, startDatetime: new Date('2026-05-04T11:00:00') }]);
+    await expect(assertNoConflict(tx as unknown as PrismaClient, { buildingId: 'b1', ...request }, false)).rejects.toThrow('Elevator conflict detected');
+  });
+
+  it("ignores the submitter's own hold and holds for other resources", async () => {
+    tx.slotHold.findMany.mockResolvedValue([{ ...request, elevatorRequired: false, loadingBayRequired: true }]);
+    await expect(assertNoConflict(tx as unknown as PrismaClient, { buildingId: 'b1', ...request, holdToken: 'mine' }, false)).resolves.toEqual(['e1']);
+    expect(tx.slotHold.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: expect.objectContaining({ token: { not: 'mine' } }) }));
+  });
+
+  it('counts holds against resources an admin picks, but never against an existing booking', async () => {
+    tx.slotHold.findMany.mockResolvedValue([{ ...request, startDatetime: new Date('2026-05-04T11:00:00') }]);
+    await expect(assertNoConflict(tx as unknown as PrismaClient, { buildingId: 'b1', ...request, resourceIds: ['e1'] }, false)).rejects.toThrow('Elevator conflict detected');
+
+    await expect(assertNoConflict(tx as unknown as PrismaClient, { id: 'bk1', buildingId: 'b1', ...request }, false)).resolves.toEqual(['e1']);
+    expect(tx.slotHold.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets bookings that need no resources share a held slot', async () => {
+    tx.slotHold.findMany.mockResolvedValue([{ ...request, elevatorRequired: false }]);
+    await expect(assertNoConflict(tx as unknown as PrismaClient, { buildingId: 'b1', ...request, elevatorRequired: false }, false)).resolves.toEqual([]);
+  });
+
+  it('treats a building without resources as having one elevator', async () => {
+    tx.resource.findMany.mockResolvedValue([]);
+    await expect(assertNoConflict(tx as unknown as PrismaClient, { buildingId: 'b1', ...request }, false)).resolves.toEqual([]);
+
+    tx.booking.findMany.mockResolvedValue([{ startDatetime: new Date('2026-05-04T11:00:00'), endDatetime: new Date('2026-05-04T13:00:00') }]);
+    await expect(assertNoConflict(tx as unknown as PrismaClient, { buildingId: 'b1', ...request }, false)).rejects.toThrow('Elevator conflict detected');
+    expect(tx.booking.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: expect.objectContaining({ buildingId: 'b1', elevatorRequired: true }) }));
+    await expect(assertNoConflict(tx as unknown as PrismaClient, { buildingId: 'b1', ...request }, true)).resolves.toEqual([]);
+  });
+
+  it('moves an existing hold and restarts its timer', async () => {
+    const now = new Date('2026-05-01T09:00:00Z');
+    tx.slotHold.findUnique.mockResolvedValue({ id: 'h1', buildingId: 'b1', token: 'mine' });
+    tx.slotHold.update.mockImplementation(({ data }) => ({ token: 'mine', ...data }));
+
+    const hold = await holdSlot(tx as unknown as PrismaClient, 'b1', request, 'mine', now);
+
+    expect(tx.slotHold.deleteMany).toHaveBeenCalledWith({ where: { expiresAt: { lte: now } } });
+    expect(tx.slotHold.update).toHaveBeenCalledWith({ where: { id: 'h1' }, data: { ...request, expiresAt: new Date('2026-05-01T09:10:00Z') } });
+    expect(tx.slotHold.create).not.toHaveBeenCalled();
+    expect(hold.token).toBe('mine');
+  });
+});
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+
+const prismaMock = vi.hoisted(() => ({
+  smsOptOut: { findUnique: vi.fn(), upsert: vi.fn(), deleteMany: vi.fn() }
+}));
+vi.mock('../src/prisma.js', () => ({ prisma: prismaMock }));
+vi.hoisted(() => {
+  process.env.SMS_PROVIDER = 'fake';
+});
+
+import { getFakeSmsMessages, resetFakeSmsProvider } from '../src/services/fakeSmsProvider.js';
+import { handleInboundSms, normalizePhone, sendSms } from '../src/services/smsService.js';
+import { twilioSignature, verifyTwilioSignature } from '../src/services/twilioSmsProvider.js';
+
+describe('sms service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetFakeSmsProvider();
+  });
+
+  it('normalizes North American and international numbers', () => {
+    expect(normalizePhone('604-555-1234')).toBe('+16045551234');
+    expect(normalizePhone('1 (604) 555-1234')).toBe('+16045551234');
+    expect(normalizePhone('+44 20 7946 0958')).toBe('+442079460958');
+    expect(normalizePhone('555-1234')).toBeNull();
+  });
+
+  it('texts with an opt-out footer unless the number has opted out', async () => {
+    prismaMock.smsOptOut.findUnique.mockResolvedValueOnce(null);
+    expect(await sendSms(prismaMock as unknown as PrismaClient, '604-555-1234', 'Your move is approved.')).toBe('sent');
+    expect(getFakeSmsMessages()).toEqual([expect.objectContaining({ to: '+16045551234', body: 'Your move is approved. Reply STOP to opt out.' })]);
+
+    prismaMock.smsOptOut.findUnique.mockResolvedValueOnce({ phone: '+16045551234' });
+    expect(await sendSms(prismaMock as unknown as PrismaClient, '604-555-1234', 'Reminder')).toBe('skipped');
+    expect(getFakeSmsMessages()).toHaveLength(1);
+  });
+
+  it('records STOP and clears it on START', async () => {
+    expect(await handleInboundSms(prismaMock as unknown as PrismaClient, '+16045551234', ' stop ')).toBe('opted-out');
+    expect(prismaMock.smsOptOut.upsert).toHaveBeenCalledWith({ where: { phone: '+16045551234' }, update: {}, create: { phone: '+16045551234' } });
+
+    expect(await handleInboundSms(prismaMock as unknown as PrismaClient, '+16045551234', 'START')).toBe('opted-in');
+    expect(prismaMock.smsOptOut.deleteMany).toHaveBeenCalledWith({ where: { phone: '+16045551234' } });
+
+    expect(await handleInboundSms(prismaMock as unknown as PrismaClient, '+16045551234', 'What time is my move?')).toBeNull();
+  });
+
+  it('verifies Twilio webhook signatures', () => {
+    const url = 'https://movecal.example.com/api/integrations/sms/inbound';
+    const params = { From: '+16045551234', Body: 'STOP' };
+    const signature = twilioSignature(url, params, 'secret');
+    expect(verifyTwilioSignature(url, params, signature, 'secret')).toBe(true);
+    expect(verifyTwilioSignature(url, { ...params, Body: 'START' }, signature, 'secret')).toBe(false);
+    expect(verifyTwilioSignature(url, params, undefined, 'secret')).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+// Only the pure parsing helpers are exercised, so the database client is never touched
+vi.mock('../src/prisma.js', () => ({ prisma: {} }));
+
+import { normalizeUnitCode, parseUnitCsv, unitVariants } from '../src/services/unitService.js';
+
+describe('unit normalisation', () => {
+  it('strips unit prefixes and upper-cases', () => {
+    expect(normalizeUnitCode(' Unit #1105 ')).toBe('1105');
+    expect(normalizeUnitCode('apt t4 - 1105')).toBe('T4-1105');
+    expect(normalizeUnitCode('#ph5')).toBe('PH5');
+  });
+
+  it('offers the suffix after the last dash as a fallback', () => {
+    expect(unitVariants('T4-1105')).toEqual(['T4-1105', '1105']);
+    expect(unitVariants('1105')).toEqual(['1105']);
+  });
+});
+
+describe('unit CSV import', () => {
+  it('parses rows, quoted fields and aliases', () => {
+    const { rows, errors } = parseUnitCsv(
+      'Number,Tower,Aliases,Owner Name,Owner Email\r\n' +
+      '1105,T4,T4-1105;#1105,"Smith, Jane",jane@example.com\r\n' +
+      'ph5,T4,,,\r\n'
+    );
+    expect(errors).toEqual([]);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ code: '1105', number: '1105', floor: 11, tower: 'T4', aliases: ['T4-1105', '1105'], ownerName: 'Smith, Jane' });
+    expect(rows[1]).toMatchObject({ code: 'PH5', floor: null });
+  });
+
+  it('reports invalid rows by line and keeps the rest', () => {
+    const { rows, errors } = parseUnitCsv('unit,owner_email\n1105,not-an-email\n1106,\n');
+    expect(rows.map((r) => r.code)).toEqual(['1106']);
+    expect(errors).toEqual([{ line: 2, message: expect.stringContaining('ownerEmail') }]);
+  });
+
+  it('requires a number column', () => {
+    const { rows, errors } = parseUnitCsv('code,tower\n1105,T4\n');
+    expect(rows).toEqual([]);
+    expect(errors[0].line).toBe(1);
+  });
+});
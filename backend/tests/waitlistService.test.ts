@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { EmailTemplateKey, PrismaClient, WaitlistStatus } from '@prisma/client';
+
+const prismaMock = vi.hoisted(() => ({
+  waitlistEntry: { findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() }
+}));
+vi.mock('../src/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../src/services/conflictService.js', () => ({ assertNoConflict: vi.fn() }));
+vi.mock('../src/services/emailService.js', () => ({
+  composeBookingEmail: vi.fn(() => ({ subject: 'subject', html: '<html>' })),
+  getBranding: vi.fn(),
+  getEmailTemplate: vi.fn(),
+  sendEmail: vi.fn(),
+  waitlistClaimHtml: vi.fn((url: string) => `<claim>${url}</claim>`)
+}));
+
+import { assertNoConflict } from '../src/services/conflictService.js';
+import { composeBookingEmail, getEmailTemplate, sendEmail } from '../src/services/emailService.js';
+import { offerFreedSlot, runWaitlistExpiry } from '../src/services/waitlistService.js';
+
+const now = new Date('2026-05-04T10:00:00Z');
+const hoursFromNow = (h: number) => new Date(now.getTime() + h * 60 * 60 * 1000);
+const entry = (id: string, startHours: number) => ({
+  id,
+  buildingId: 'b1',
+  token: `tok-${id}`,
+  residentEmail: `${id}@example.com`,
+  startDatetime: hoursFromNow(startHours),
+  endDatetime: hoursFromNow(startHours + 2),
+  elevatorRequired: true,
+  loadingBayRequired: false,
+  moveType: 'MOVE_IN'
+});
+
+describe('waitlist offers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.waitlistEntry.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('offers the freed slot to the first waiting resident who fits', async () => {
+    prismaMock.waitlistEntry.findMany.mockResolvedValue([entry('first', 72), entry('second', 72)]);
+    vi.mocked(assertNoConflict).mockRejectedValueOnce(new Error('Elevator conflict detected')).mockResolvedValueOnce([]);
+
+    const offered = await offerFreedSlot(prismaMock as unknown as PrismaClient, { buildingId: 'b1', startDatetime: hoursFromNow(72), endDatetime: hoursFromNow(74) }, now);
+
+    expect(offered?.id).toBe('second');
+    expect(prismaMock.waitlistEntry.updateMany).toHaveBeenCalledWith({
+      where: { id: 'second', status: WaitlistStatus.WAITING },
+      data: { status: WaitlistStatus.OFFERED, offeredAt: now, offerExpiresAt: hoursFromNow(24) }
+    });
+    expect(getEmailTemplate).toHaveBeenCalledWith(prismaMock, 'b1', EmailTemplateKey.WAITLIST_OFFER);
+    expect(composeBookingEmail).toHaveBeenCalledWith(undefined, expect.objectContaining({ id: 'second' }), undefined, {
+      extraHtml: expect.stringContaining('/waitlist/second?token=tok-second')
+    });
+    expect(sendEmail).toHaveBeenCalledWith(prismaMock, 'b1', 'second@example.com', 'subject', '<html>');
+  });
+
+  it('never lets an offer run past the start of the slot', async () => {
+    prismaMock.waitlistEntry.findMany.mockResolvedValue([entry('soon', 6)]);
+    vi.mocked(assertNoConflict).mockResolvedValue([]);
+
+    await offerFreedSlot(prismaMock as unknown as PrismaClient, { buildingId: 'b1', startDatetime: hoursFromNow(6), endDatetime: hoursFromNow(8) }, now);
+
+    expect(prismaMock.waitlistEntry.updateMany).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ offerExpiresAt: hoursFromNow(6) }) }));
+  });
+
+  it('skips an entry that stopped waiting after it was read', async () => {
+    prismaMock.waitlistEntry.findMany.mockResolvedValue([entry('gone', 72), entry('next', 72)]);
+    prismaMock.waitlistEntry.updateMany.mockResolvedValueOnce({ count: 0 });
+    vi.mocked(assertNoConflict).mockResolvedValue([]);
+
+    const offered = await offerFreedSlot(prismaMock as unknown as PrismaClient, { buildingId: 'b1', startDatetime: hoursFromNow(72), endDatetime: hoursFromNow(74) }, now);
+
+    expect(offered?.id).toBe('next');
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(sendEmail).toHaveBeenCalledWith(prismaMock, 'b1', 'next@example.com', 'subject', '<html>');
+  });
+
+  it('expires lapsed offers and passes the slot on', async () => {
+    const lapsed = { ...entry('lapsed', 30), status: WaitlistStatus.OFFERED, offerExpiresAt: hoursFromNow(-1) };
+    prismaMock.waitlistEntry.findMany.mockResolvedValueOnce([lapsed]).mockResolvedValueOnce([entry('next', 30)]);
+    vi.mocked(assertNoConflict).mockResolvedValue([]);
+
+    await runWaitlistExpiry(now);
+
+    expect(prismaMock.waitlistEntry.update).toHaveBeenCalledWith({ where: { id: 'lapsed' }, data: { status: WaitlistStatus.EXPIRED } });
+    expect(prismaMock.waitlistEntry.updateMany).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'next', status: WaitlistStatus.WAITING } }));
+    expect(prismaMock.waitlistEntry.updateMany).toHaveBeenCalledWith({
+      where: { status: WaitlistStatus.WAITING, startDatetime: { lte: now } },
+      data: { status: WaitlistStatus.EXPIRED }
+    });
+  });
+});
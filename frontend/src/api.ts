@@ -15,3 +15,31 @@ const storedToken = localStorage.getItem('movecal_token');
 if (storedToken) {
   setToken(storedToken);
 }
+
+// Building slug sent with every request; without one the backend uses the first building.
+// A ?building= link (e.g. /tv?building=tower-b) selects and remembers the building.
+export function setBuilding(slug?: string) {
+  if (slug) {
+    api.defaults.headers.common['X-Building'] = slug;
+    localStorage.setItem('movecal_building', slug);
+  } else {
+    delete api.defaults.headers.common['X-Building'];
+    localStorage.removeItem('movecal_building');
+  }
+}
+
+const storedBuilding = new URLSearchParams(window.location.search).get('building') ?? localStorage.getItem('movecal_building');
+if (storedBuilding) {
+  setBuilding(storedBuilding);
+}
+
+/** Saves a file from an authenticated endpoint, e.g. a CSV or XLSX export. */
+export async function downloadFile(path: string, filename: string, params?: Record<string, unknown>) {
+  const { data } = await api.get<Blob>(path, { params, responseType: 'blob' });
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,9 @@
+import { api } from './api';
+
+/** Public branding for the selected building, from GET /api/public/building. */
+export type BuildingInfo = { name: string; slug: string; logoUrl: string | null };
+
+export async function fetchBuilding(): Promise<BuildingInfo> {
+  const res = await api.get('/api/public/building');
+  return res.data;
+}
@@ -8,6 +8,7 @@ import { ResidentSubmissionPage } from './pages/ResidentSubmissionPage';
 import { AdminPage } from './pages/AdminPage';
 import { LobbyTVPage } from './pages/LobbyTVPage';
 import { PaymentsLedgerPage } from './pages/PaymentsLedgerPage';
+import { WaitlistClaimPage } from './pages/WaitlistClaimPage';
 import './styles.css';
 
 function getStoredRole(): string | null {
@@ -46,6 +47,7 @@ function App() {
         <Route path="/submit"          element={<ResidentSubmissionPage />} />
         <Route path="/booking/:id"              element={<ResidentBookingPage />} />
         <Route path="/booking/:id/confirmation" element={<BookingConfirmationPage />} />
+        <Route path="/waitlist/:id"             element={<WaitlistClaimPage />} />
         <Route path="/admin"           element={<AdminPage />} />
         <Route path="/admin/payments"  element={<PaymentsLedgerPage />} />
         <Route path="/tv"              element={<LobbyTVPage />} />
@@ -0,0 +1,32 @@
+// Fee amounts travel as integer cents; these helpers convert for display and form input.
+
+export type FeeSummary = {
+  moveFeeCents: number;
+  depositCents: number;
+  afterHoursSurchargeCents: number;
+  amountDueCents: number;
+  amountPaidCents: number;
+  amountRefundedCents: number;
+  balanceCents: number;
+};
+
+export type FeeSchedule = {
+  moveType: string;
+  moveFeeCents: number;
+  depositCents: number;
+  afterHoursSurchargeCents: number;
+};
+
+export function formatCents(cents: number): string {
+  return (cents / 100).toLocaleString('en-CA', { style: 'currency', currency: 'CAD' });
+}
+
+/** "12.50" → 1250; blank or invalid input is 0. */
+export function dollarsToCents(dollars: string): number {
+  const value = Number.parseFloat(dollars);
+  return Number.isFinite(value) && value > 0 ? Math.round(value * 100) : 0;
+}
+
+export function centsToDollars(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
@@ -1,103 +1,47 @@
 import { FormEvent, useEffect, useState } from 'react';
 import axios from 'axios';
-import { api, setToken } from '../api';
+import { api, downloadFile, setBuilding, setToken } from '../api';
 import '../styles/admin.css';
-import dayjs from 'dayjs';
+import { FeeSchedule, centsToDollars, dollarsToCents, formatCents } from '../money';
+import { ClosedDate, DAY_NAMES, SlotRule, closedDateMessage, fetchClosedDates, fetchSlotRules, filterAvailableSlots, getSlotsForDateAndType, minsToLabel, minsToTimeStr, rulesFor, timeToMins } from '../slotRules';
 
-// ── Time slot helpers (mirrors ResidentSubmissionPage) ────────
-type Slot = { label: string; start: string; end: string };
-
-const MOVE_WEEKDAY_SLOTS: Slot[] = [
-  { label: '9:00 AM – 1:00 PM',  start: '09:00', end: '13:00' },
-  { label: '1:00 PM – 5:00 PM',  start: '13:00', end: '17:00' },
+const MOVE_TYPE_OPTIONS: [string, string][] = [
+  ['MOVE_IN', 'Move In'], ['MOVE_OUT', 'Move Out'], ['FURNISHED_MOVE', 'Furnished Move'], ['SUITCASE_MOVE', 'Suitcase Move'],
+  ['DELIVERY', 'Delivery'], ['RENO', 'Renovation'], ['OPEN_HOUSE', 'Open House'],
 ];
 
-const MOVE_WEEKEND_SLOTS: Slot[] = [
-  { label: '8:00 AM – 12:00 PM', start: '08:00', end: '12:00' },
-  { label: '12:00 PM – 4:00 PM', start: '12:00', end: '16:00' },
-  { label: '4:00 PM – 8:00 PM',  start: '16:00', end: '20:00' },
+const NOTIFY_EVENT_OPTIONS: [string, string][] = [
+  ['SUBMITTED', 'New Submissions'], ['APPROVED', 'Approvals'], ['REJECTED', 'Rejections'], ['PAYMENT_CONFIRMED', 'Payments Confirmed'],
+  ['CANCELLED', 'Cancellations'], ['UPDATED', 'Resident Edits'], ['CONFLICT_OVERRIDE', 'Conflict Overrides'], ['DAILY_DIGEST', 'Daily Digests'],
 ];
+const CHANNEL_OPTIONS: [string, string][] = [['EMAIL', 'Email'], ['SMS', 'Text Message']];
+const emptyRecipient = { name: '', email: '', phone: '', enabled: true, notifyOn: NOTIFY_EVENT_OPTIONS.map(([val]) => val), channels: ['EMAIL'] };
+const emptyResource = { name: '', type: 'ELEVATOR', capacity: 1 };
+const emptyBuilding = { name: '', slug: '', logoUrl: '', unitPrefix: '' };
+const emptyUnit = { number: '', tower: '', aliases: '', ownerName: '', ownerEmail: '', ownerPhone: '', tenantName: '', tenantEmail: '', tenantPhone: '' };
+const emptyUserForm = { name: '', email: '', password: '', role: 'CONCIERGE', mustChangePassword: false, buildingId: '' };
+const RESOURCE_TYPE_LABELS: Record<string, string> = { ELEVATOR: 'Elevator', LOADING_BAY: 'Loading Bay', PARKING_STALL: 'Parking Stall' };
+const emptyTemplateForm = { key: '', subject: '', title: '', intro: '', footer: '' };
+const BOOKING_STATUS_FILTERS: [string, string][] = [
+  ['SUBMITTED,PENDING', 'Needs Review'], ['APPROVED', 'Approved'], ['REJECTED', 'Rejected'], ['CANCELLED', 'Cancelled'],
+];
+const BOOKING_SORT_OPTIONS: [string, string][] = [
+  ['startDatetime', 'Move Date'], ['createdAt', 'Submitted'], ['residentName', 'Resident'], ['unit', 'Unit'], ['status', 'Status'],
+];
+const BOOKING_EXPORT_OPTIONS: [string, string][] = [
+  ['id', 'Reference'], ['resident_name', 'Resident'], ['unit', 'Unit'], ['move_type', 'Type'], ['status', 'Status'],
+  ['start_datetime', 'Start'], ['end_datetime', 'End'], ['resident_email', 'Email'], ['resident_phone', 'Phone'],
+  ['company_name', 'Company'], ['elevator_required', 'Elevator'], ['loading_bay_required', 'Loading Bay'],
+  ['amount_due', 'Amount Due'], ['amount_paid', 'Amount Paid'], ['payment_invoice_id', 'Payment Invoice'],
+  ['approved_by', 'Approved By'], ['approved_at', 'Approved At'],
+];
+const DEFAULT_EXPORT_COLUMNS = ['id', 'resident_name', 'unit', 'move_type', 'status', 'start_datetime', 'end_datetime'];
+const emptyBookingFilter = { q: '', status: '', moveType: '', from: '', to: '', unit: '', paymentMatched: '', sort: 'startDatetime', order: 'asc' };
 
-const STATUTORY_HOLIDAYS = new Set([
-  '2025-01-01','2025-02-17','2025-04-18','2025-05-19',
-  '2025-07-01','2025-08-04','2025-09-01','2025-10-13',
-  '2025-11-11','2025-12-25','2025-12-26',
-  '2026-01-01','2026-02-16','2026-04-03','2026-05-18',
-  '2026-07-01','2026-08-03','2026-09-07','2026-10-12',
-  '2026-11-11','2026-12-25','2026-12-26',
-  '2027-01-01','2027-02-15','2027-03-26','2027-05-24',
-  '2027-07-01','2027-08-02','2027-09-06','2027-10-11',
-  '2027-11-11','2027-12-25','2027-12-26',
-  '2028-01-01','2028-02-21','2028-04-14','2028-05-22',
-  '2028-07-01','2028-08-07','2028-09-04','2028-10-09',
-  '2028-11-11','2028-12-25','2028-12-26',
-  '2029-01-01','2029-02-19','2029-03-30','2029-05-21',
-  '2029-07-01','2029-08-06','2029-09-03','2029-10-08',
-  '2029-11-11','2029-12-25','2029-12-26',
-  '2030-01-01','2030-02-18','2030-04-19','2030-05-20',
-  '2030-07-01','2030-08-05','2030-09-02','2030-10-14',
-  '2030-11-11','2030-12-25','2030-12-26',
-]);
-
-function minsToTimeStr(mins: number): string {
-  const h = Math.floor(mins / 60);
-  const m = mins % 60;
-  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
-}
-
-function minsToLabel(mins: number): string {
-  const h = Math.floor(mins / 60);
-  const m = mins % 60;
-  const period = h < 12 ? 'AM' : 'PM';
-  const h12 = h % 12 === 0 ? 12 : h % 12;
-  return `${h12}:${String(m).padStart(2, '0')} ${period}`;
-}
-
-function generateTimeSlots(rangeStartMins: number, rangeEndMins: number, blockMins: number): Slot[] {
-  const slots: Slot[] = [];
-  for (let s = rangeStartMins; s + blockMins <= rangeEndMins; s += blockMins) {
-    slots.push({
-      label: `${minsToLabel(s)} – ${minsToLabel(s + blockMins)}`,
-      start: minsToTimeStr(s),
-      end:   minsToTimeStr(s + blockMins),
-    });
-  }
-  return slots;
-}
-
-function getSlotsForDateAndType(dateStr: string, moveType: string): Slot[] | null {
-  if (!dateStr) return null;
-  if (STATUTORY_HOLIDAYS.has(dateStr)) return [];
-  const dow = dayjs(dateStr).day();
-  const isWeekend = dow === 0 || dow === 6;
-  if (moveType === 'DELIVERY') {
-    const [rangeStart, rangeEnd] = isWeekend ? [8 * 60, 17 * 60] : [10 * 60, 16 * 60];
-    return generateTimeSlots(rangeStart, rangeEnd, 30);
-  }
-  if (moveType === 'RENO') {
-    const [rangeStart, rangeEnd] = isWeekend ? [8 * 60, 17 * 60] : [10 * 60, 16 * 60];
-    return generateTimeSlots(rangeStart, rangeEnd, 60);
-  }
-  if (moveType === 'SUITCASE_MOVE') {
-    const [rangeStart, rangeEnd] = isWeekend ? [8 * 60, 20 * 60] : [9 * 60, 17 * 60];
-    return generateTimeSlots(rangeStart, rangeEnd, 60);
-  }
-  return isWeekend ? MOVE_WEEKEND_SLOTS : MOVE_WEEKDAY_SLOTS;
-}
-
-function timeToMins(hhmm: string): number {
-  const [h, m] = hhmm.split(':').map(Number);
-  return h * 60 + m;
-}
-
-function filterAvailableSlots(slots: Slot[], takenRanges: { start: string; end: string }[]): Slot[] {
-  return slots.filter(slot => {
-    const sS = timeToMins(slot.start), sE = timeToMins(slot.end);
-    return !takenRanges.some(r => sS < timeToMins(r.end) && sE > timeToMins(r.start));
-  });
-}
+// YYYY-MM-DD in the browser's time zone
+const localDate = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
 
-const emptyRecipient = { name: '', email: '', enabled: true, notifyOn: ['APPROVED', 'REJECTED', 'SUBMITTED'] };
+const emptySlotRule = { moveType: 'MOVE_IN', dayOfWeek: 1, windowStart: '09:00', windowEnd: '12:00', durationMins: '', blockMins: '' };
 type UserRole = 'CONCIERGE' | 'COUNCIL' | 'PROPERTY_MANAGER';
 
 function decodeRoleFromToken(token?: string): UserRole | null {
@@ -122,6 +66,37 @@ function decodeEmailFromToken(token?: string | null): string {
   } catch { return ''; }
 }
 
+// "BOOKING_FEES_UPDATED" → "Booking fees updated"
+function auditActionLabel(action: string) {
+  const words = action.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+const AUDIT_ACTOR_OPTIONS: [string, string][] = [['STAFF', 'Staff'], ['RESIDENT', 'Residents'], ['SYSTEM', 'System'], ['INTEGRATION', 'Integrations']];
+
+// Staff by name; residents, jobs and integrations by the label recorded with the entry
+function auditActorName(entry: any) {
+  if (entry.actor) return entry.actor.name || entry.actor.email;
+  if (entry.actorType === 'RESIDENT') return `Resident ${entry.actorLabel ?? ''}`.trim();
+  if (entry.actorType === 'SYSTEM') return entry.actorLabel ? `System (${entry.actorLabel})` : 'System';
+  if (entry.actorType === 'INTEGRATION') return entry.actorLabel ?? 'Integration';
+  return entry.actorLabel ?? 'Former staff member';
+}
+
+function auditValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Field changes as "field: before → after"; other metadata as "key: value"
+function auditDetails(metadata: any): string[] {
+  if (!metadata || typeof metadata !== 'object') return [];
+  const { changes, ...rest } = metadata;
+  const lines = changes ? Object.entries(changes).map(([field, c]: [string, any]) => `${field}: ${auditValue(c.from)} → ${auditValue(c.to)}`) : [];
+  return [...lines, ...Object.entries(rest).map(([key, value]) => `${key}: ${auditValue(value)}`)];
+}
+
 const ROLE_LABELS: Record<string, string> = {
   CONCIERGE: 'Concierge',
   COUNCIL: 'Council',
@@ -140,15 +115,54 @@ export function AdminPage() {
   const [loginError, setLoginError] = useState('');
   const [loadError, setLoadError] = useState('');
   const [bookings, setBookings] = useState<any[]>([]);
+  const [bookingCursor, setBookingCursor] = useState<string | null>(null);
+  const [bookingTotal, setBookingTotal] = useState(0);
+  // Upcoming bookings by default; clear the From date to include past ones
+  const [bookingFilter, setBookingFilter] = useState(() => ({ ...emptyBookingFilter, from: localDate(new Date()) }));
+  const [showExport, setShowExport] = useState(false);
+  const [exportColumns, setExportColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [exportFormat, setExportFormat] = useState<'csv' | 'xlsx'>('xlsx');
   const [stats, setStats] = useState<any>();
   const [recipients, setRecipients] = useState<any[]>([]);
   const [recipientForm, setRecipientForm] = useState<any>(emptyRecipient);
+  const [slotRules, setSlotRules] = useState<SlotRule[]>([]);
+  const [slotRuleForm, setSlotRuleForm] = useState<any>(emptySlotRule);
+  const [editingSlotRuleId, setEditingSlotRuleId] = useState<string | null>(null);
+  const [closedDates, setClosedDates] = useState<ClosedDate[]>([]);
+  const [blackoutDates, setBlackoutDates] = useState<any[]>([]);
+  const [blackoutForm, setBlackoutForm] = useState({ date: '', reason: '' });
+  const [resources, setResources] = useState<any[]>([]);
+  const [resourceForm, setResourceForm] = useState<any>(emptyResource);
+  const [buildings, setBuildings] = useState<any[]>([]);
+  const [currentBuildingSlug, setCurrentBuildingSlug] = useState(() => localStorage.getItem('movecal_building') ?? '');
+  const [buildingForm, setBuildingForm] = useState<any>(emptyBuilding);
+  const [units, setUnits] = useState<any[]>([]);
+  const [waitlist, setWaitlist] = useState<any[]>([]);
+  const [trash, setTrash] = useState<any[]>([]);
+  const [calendarFeed, setCalendarFeed] = useState<{ url: string | null; publicUrl: string }>({ url: null, publicUrl: '' });
+  const [unitSearch, setUnitSearch] = useState('');
+  const [unitForm, setUnitForm] = useState<any>(emptyUnit);
+  const [feeSchedules, setFeeSchedules] = useState<(FeeSchedule & { updatedAt: string })[]>([]);
+  // null when the jobs panel is not available to this manager
+  const [jobs, setJobs] = useState<any[] | null>(null);
+  const [expandedJobName, setExpandedJobName] = useState<string | null>(null);
+  const [editingFeesId, setEditingFeesId] = useState<string | null>(null);
+  const [emailHistory, setEmailHistory] = useState<{ bookingId: string; emails: any[] } | null>(null);
+  const [bookingAudit, setBookingAudit] = useState<{ bookingId: string; entries: any[] } | null>(null);
+  const [auditEntries, setAuditEntries] = useState<any[]>([]);
+  const [auditActions, setAuditActions] = useState<string[]>([]);
+  const [auditCursor, setAuditCursor] = useState<string | null>(null);
+  const [auditFilter, setAuditFilter] = useState({ action: '', actorType: '', from: '', to: '' });
+  const [emailTemplates, setEmailTemplates] = useState<any[]>([]);
+  const [templateVariables, setTemplateVariables] = useState<string[]>([]);
+  const [templateForm, setTemplateForm] = useState(emptyTemplateForm);
+  const [templatePreview, setTemplatePreview] = useState<{ subject: string; html: string } | null>(null);
+  const [feesForm, setFeesForm] = useState({ paid: '', refunded: '' });
   const [settings, setSettings] = useState<any>({ smtpHost: null, smtpPort: null, smtpSecure: false, smtpUsername: null, fromName: null, fromEmail: null, includeResidentContactInApprovalEmails: false, reminderEnabled: true, invoiceNinjaEnabled: false, unpaidPaymentReminderEnabled: false });
   const [testEmailTo, setTestEmailTo] = useState(() => decodeEmailFromToken(localStorage.getItem('movecal_token')));
   const [isUpdating, setIsUpdating] = useState<string | null>(null);
   const [actionMessage, setActionMessage] = useState('');
 
-  const [showPastBookings, setShowPastBookings] = useState(false);
 
   const [loginView, setLoginView] = useState<'login' | 'forgot' | 'reset'>('login');
   const [forgotEmail, setForgotEmail] = useState('');
@@ -163,7 +177,7 @@ export function AdminPage() {
   const [accountMessage, setAccountMessage] = useState('');
 
   const [users, setUsers] = useState<any[]>([]);
-  const [userForm, setUserForm] = useState({ name: '', email: '', password: '', role: 'CONCIERGE', mustChangePassword: false });
+  const [userForm, setUserForm] = useState(emptyUserForm);
   const [editingUserId, setEditingUserId] = useState<string | null>(null);
   const [userMessage, setUserMessage] = useState('');
   const [forcePasswordChange, setForcePasswordChange] = useState(false);
@@ -194,6 +208,7 @@ export function AdminPage() {
   const [editTakenRanges, setEditTakenRanges] = useState<{ start: string; end: string }[]>([]);
 
   const canManageSettings = role === 'COUNCIL' || role === 'PROPERTY_MANAGER';
+  const currentBuilding = buildings.find((bl) => bl.slug === currentBuildingSlug);
 
   const handleAuthError = (error: unknown): boolean => {
     if (axios.isAxiosError(error) && error.response?.status === 401) {
@@ -208,21 +223,62 @@ export function AdminPage() {
     return false;
   };
 
-  const refresh = async () => {
+  const refresh = async (buildingSlug = currentBuildingSlug) => {
     setLoadError('');
     try {
-      const [b, s] = await Promise.all([api.get('/api/admin/bookings'), api.get('/api/admin/stats')]);
-      setBookings(b.data);
+      const today = new Date();
+      const yearAhead = new Date(today.getFullYear() + 1, today.getMonth(), today.getDate() - 1);
+      // Staff assigned to a building only get that one back, so the header always matches what the backend scopes to
+      const { data: bl } = await api.get('/api/admin/buildings');
+      setBuildings(bl);
+      const current = bl.find((x: any) => x.slug === buildingSlug) ?? bl[0];
+      if (current) {
+        setBuilding(current.slug);
+        setCurrentBuildingSlug(current.slug);
+      }
+      const [s, rules, closed, res, un, cf, wl, tr] = await Promise.all([
+        api.get('/api/admin/stats'),
+        fetchSlotRules(),
+        fetchClosedDates(localDate(today), localDate(yearAhead)),
+        api.get('/api/admin/resources'),
+        api.get('/api/admin/units', { params: { q: unitSearch || undefined } }),
+        api.get('/api/admin/calendar-feed'),
+        api.get('/api/admin/waitlist'),
+        api.get('/api/admin/bookings/trash'),
+      ]);
+      await loadBookings();
+      setCalendarFeed(cf.data);
+      setWaitlist(wl.data);
+      setTrash(tr.data);
       setStats(s.data);
+      setResources(res.data);
+      setUnits(un.data);
+      setSlotRules(rules);
+      setClosedDates(closed);
       if (canManageSettings) {
-        const [r, st, u] = await Promise.all([
+        const [r, st, u, sr, bd, fs, et] = await Promise.all([
           api.get('/api/admin/recipients'),
           api.get('/api/admin/settings'),
           api.get('/api/admin/users'),
+          api.get('/api/admin/slot-rules'),
+          api.get('/api/admin/blackout-dates'),
+          api.get('/api/admin/fee-schedules'),
+          api.get('/api/admin/email-templates'),
         ]);
         setRecipients(r.data);
+        setEmailTemplates(et.data.templates);
+        setTemplateVariables(et.data.variables);
+        setFeeSchedules(fs.data);
+        setSlotRules(sr.data);
+        setBlackoutDates(bd.data);
         if (st.data) setSettings((prev: any) => ({ ...prev, ...st.data, smtpPassword: '' }));
         setUsers(u.data);
+        await loadAudit();
+      }
+      if (role === 'PROPERTY_MANAGER') {
+        // Only management-company managers see the shared jobs; building managers are refused
+        const jb = await api.get('/api/admin/jobs').catch((err) => (err?.response?.status === 403 ? null : Promise.reject(err)));
+        setJobs(jb?.data ?? null);
       }
     } catch (error) {
       if (handleAuthError(error)) return;
@@ -284,29 +340,77 @@ export function AdminPage() {
       .catch(() => setEditTakenRanges([]));
   }, [editingBookingId, editForm.moveDate]);
 
+  // Re-render the template preview shortly after the editor stops typing
+  useEffect(() => {
+    if (!templateForm.key) { setTemplatePreview(null); return; }
+    const timer = setTimeout(() => {
+      api.post('/api/admin/email-templates/preview', templateForm)
+        .then((res: any) => setTemplatePreview(res.data))
+        .catch(() => setTemplatePreview(null));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [templateForm]);
+
+  const STATUS_VERBS: Record<string, [string, string]> = {
+    APPROVED: ['approve', 'approved'], REJECTED: ['reject', 'rejected'], CANCELLED: ['cancel', 'cancelled'], SUBMITTED: ['reopen', 'reopened'],
+  };
+
+  // Rejections and cancellations need a reason, which is passed on to the resident
+  const askStatusReason = (verb: string, what: string) => {
+    const reason = prompt(`Why are you going to ${verb} ${what}? The resident will see this reason.`);
+    if (reason === null) return null;
+    if (!reason.trim()) { alert('A reason is required.'); return null; }
+    return reason.trim();
+  };
+
   const updateStatus = async (id: string, status: string) => {
-    if (!confirm(`Are you sure you want to ${status.toLowerCase()} this booking?`)) return;
+    const [verb, label] = STATUS_VERBS[status] ?? [status.toLowerCase(), status.toLowerCase()];
+    let reason: string | undefined;
+    if (status === 'REJECTED' || status === 'CANCELLED') {
+      const given = askStatusReason(verb, 'this booking');
+      if (given === null) return;
+      reason = given;
+    } else if (!confirm(`Are you sure you want to ${verb} this booking?`)) return;
     setIsUpdating(id);
     setActionMessage('');
     try {
-      await api.patch(`/api/admin/bookings/${id}`, { status });
-      const label = status === 'APPROVED' ? 'approved' : status === 'REJECTED' ? 'rejected' : status.toLowerCase();
+      await api.patch(`/api/admin/bookings/${id}`, { status, reason });
       setActionMessage(`Booking ${label} successfully`);
       await refresh();
     } catch (error: any) {
       if (handleAuthError(error)) return;
-      const verb = status === 'APPROVED' ? 'approve' : status === 'REJECTED' ? 'reject' : status.toLowerCase();
       setActionMessage(error.response?.data?.message || `Failed to ${verb} booking.`);
     } finally { setIsUpdating(null); }
   };
 
+  // Approve, reject or cancel every upcoming date of a recurring booking at once
+  const updateSeriesStatus = async (bookingId: string, seriesId: string, status: string) => {
+    const [verb, label] = STATUS_VERBS[status];
+    let reason: string | undefined;
+    if (status === 'REJECTED' || status === 'CANCELLED') {
+      const given = askStatusReason(verb, 'every upcoming date in this series');
+      if (given === null) return;
+      reason = given;
+    } else if (!confirm(`Are you sure you want to ${verb} every upcoming date in this series?`)) return;
+    setIsUpdating(bookingId);
+    setActionMessage('');
+    try {
+      const res = await api.post(`/api/admin/series/${seriesId}/status`, { status, reason });
+      setActionMessage(`${res.data.bookings.length} dates in the series ${label}`);
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || `Failed to ${verb} series.`);
+    } finally { setIsUpdating(null); }
+  };
+
   const deleteBooking = async (id: string, residentName: string) => {
-    if (!confirm(`Delete booking for ${residentName}? This cannot be undone.`)) return;
+    if (!confirm(`Move the booking for ${residentName} to the trash? It can be restored until it is purged.`)) return;
     setIsUpdating(id);
     setActionMessage('');
     try {
       await api.delete(`/api/admin/bookings/${id}`);
-      setActionMessage('Booking deleted successfully');
+      setActionMessage('Booking moved to the trash');
       await refresh();
     } catch (error: any) {
       if (handleAuthError(error)) return;
@@ -314,6 +418,19 @@ export function AdminPage() {
     } finally { setIsUpdating(null); }
   };
 
+  const restoreBooking = async (id: string) => {
+    setIsUpdating(id);
+    setActionMessage('');
+    try {
+      await api.post(`/api/admin/bookings/${id}/restore`);
+      setActionMessage('Booking restored');
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to restore booking.');
+    } finally { setIsUpdating(null); }
+  };
+
   const sendPaymentReminder = async (id: string, residentName: string) => {
     if (!confirm(`Send a payment due reminder email to ${residentName}?`)) return;
     setIsUpdating(id);
@@ -327,11 +444,89 @@ export function AdminPage() {
     } finally { setIsUpdating(null); }
   };
 
+  const loadEmailHistory = async (bookingId: string) => {
+    try {
+      const { data } = await api.get(`/api/admin/bookings/${bookingId}/emails`);
+      setEmailHistory({ bookingId, emails: data });
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to load email history.');
+    }
+  };
+
+  // Pass the last cursor to append the next page; without one the list restarts from the newest entry
+  const loadBookings = async (cursor?: string, filter = bookingFilter) => {
+    try {
+      const params = Object.fromEntries(Object.entries(filter).filter(([, value]) => value !== ''));
+      const { data } = await api.get('/api/admin/bookings', { params: { ...params, cursor } });
+      setBookings((prev) => cursor ? [...prev, ...data.bookings] : data.bookings);
+      setBookingCursor(data.nextCursor);
+      setBookingTotal(data.total);
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to load bookings.');
+    }
+  };
+
+  // Exports whatever the list filters currently select, in the chosen column order
+  const exportBookings = async () => {
+    const { sort, order, ...filter } = bookingFilter;
+    const params = Object.fromEntries(Object.entries(filter).filter(([, value]) => value !== ''));
+    const columns = BOOKING_EXPORT_OPTIONS.map(([key]) => key).filter((key) => exportColumns.includes(key));
+    try {
+      await downloadFile(`/api/admin/bookings/export.${exportFormat}`, `${currentBuildingSlug || 'movecal'}-bookings.${exportFormat}`, { ...params, columns: columns.join(',') });
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage('Failed to export bookings.');
+    }
+  };
+
+  const clearBookingFilter = () => {
+    setBookingFilter(emptyBookingFilter);
+    loadBookings(undefined, emptyBookingFilter);
+  };
+
+  const loadAudit = async (cursor?: string) => {
+    try {
+      const { data } = await api.get('/api/admin/audit', {
+        params: { action: auditFilter.action || undefined, actorType: auditFilter.actorType || undefined, from: auditFilter.from || undefined, to: auditFilter.to || undefined, cursor },
+      });
+      setAuditEntries((prev) => cursor ? [...prev, ...data.entries] : data.entries);
+      setAuditCursor(data.nextCursor);
+      setAuditActions(data.actions);
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to load the audit log.');
+    }
+  };
+
+  const loadBookingAudit = async (bookingId: string) => {
+    try {
+      const { data } = await api.get('/api/admin/audit', { params: { bookingId, limit: 200 } });
+      setBookingAudit({ bookingId, entries: data.entries });
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to load booking history.');
+    }
+  };
+
+  const resendBookingEmail = async (bookingId: string, emailId: string) => {
+    setActionMessage('');
+    try {
+      const { data } = await api.post(`/api/admin/emails/${emailId}/resend`);
+      setActionMessage(data.status === 'SENT' ? 'Email resent.' : `Email queued for retry${data.lastError ? ` (${data.lastError})` : ''}.`);
+      await loadEmailHistory(bookingId);
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to resend email.');
+    }
+  };
+
   const createRecipient = async (e: FormEvent) => {
     e.preventDefault();
     setActionMessage('');
     try {
-      await api.post('/api/admin/recipients', recipientForm);
+      await api.post('/api/admin/recipients', { ...recipientForm, phone: recipientForm.phone || null });
       setRecipientForm(emptyRecipient);
       setActionMessage('Recipient added successfully');
       await refresh();
@@ -353,6 +548,33 @@ export function AdminPage() {
     }
   };
 
+  const toggleRecipientNotifyEvent = async (recipient: any, event: string) => {
+    const current: string[] = recipient.notifyOn || [];
+    const notifyOn = current.includes(event) ? current.filter((e) => e !== event) : [...current, event];
+    setActionMessage('');
+    try {
+      await api.patch(`/api/admin/recipients/${recipient.id}`, { notifyOn });
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to update recipient.');
+    }
+  };
+
+  const toggleRecipientChannel = async (recipient: any, channel: string) => {
+    const current: string[] = recipient.channels || [];
+    const channels = current.includes(channel) ? current.filter((c) => c !== channel) : [...current, channel];
+    if (channels.length === 0) return;
+    setActionMessage('');
+    try {
+      await api.patch(`/api/admin/recipients/${recipient.id}`, { channels });
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to update recipient.');
+    }
+  };
+
   const deleteRecipient = async (id: string, recipientEmail: string) => {
     if (!confirm(`Delete recipient ${recipientEmail}?`)) return;
     setActionMessage('');
@@ -372,190 +594,513 @@ export function AdminPage() {
     setRecipientForm({ ...recipientForm, notifyOn: updated });
   };
 
-  const saveSettings = async (e: FormEvent) => {
+  const toggleRecipientFormChannel = (channel: string) => {
+    const current: string[] = recipientForm.channels || [];
+    const updated = current.includes(channel) ? current.filter((c) => c !== channel) : [...current, channel];
+    if (updated.length > 0) setRecipientForm({ ...recipientForm, channels: updated });
+  };
+
+  const saveSlotRule = async (e: FormEvent) => {
     e.preventDefault();
     setActionMessage('');
+    const payload = {
+      moveType: slotRuleForm.moveType,
+      dayOfWeek: Number(slotRuleForm.dayOfWeek),
+      windowStart: timeToMins(slotRuleForm.windowStart),
+      windowEnd: timeToMins(slotRuleForm.windowEnd),
+      durationMins: slotRuleForm.durationMins === '' ? null : Number(slotRuleForm.durationMins),
+      blockMins: slotRuleForm.blockMins === '' ? null : Number(slotRuleForm.blockMins),
+    };
     try {
-      const portValue = settings.smtpPort === '' || settings.smtpPort === null ? null : Number(settings.smtpPort);
-      await api.put('/api/admin/settings', { ...settings, smtpPort: Number.isNaN(portValue) ? null : portValue });
-      setActionMessage('Settings saved successfully');
+      if (editingSlotRuleId) await api.put(`/api/admin/slot-rules/${editingSlotRuleId}`, payload);
+      else await api.post('/api/admin/slot-rules', payload);
+      setActionMessage(editingSlotRuleId ? 'Slot rule updated successfully' : 'Slot rule added successfully');
+      setEditingSlotRuleId(null);
+      setSlotRuleForm({ ...emptySlotRule, moveType: payload.moveType });
       await refresh();
     } catch (error: any) {
       if (handleAuthError(error)) return;
-      setActionMessage(error.response?.data?.message || 'Failed to save settings.');
+      setActionMessage(error.response?.data?.message || 'Failed to save slot rule.');
     }
   };
 
-  const sendTestEmail = async () => {
+  const startEditSlotRule = (rule: SlotRule) => {
+    setEditingSlotRuleId(rule.id ?? null);
+    setSlotRuleForm({
+      moveType: rule.moveType,
+      dayOfWeek: rule.dayOfWeek,
+      windowStart: minsToTimeStr(rule.windowStart),
+      windowEnd: minsToTimeStr(rule.windowEnd),
+      durationMins: rule.durationMins ?? '',
+      blockMins: rule.blockMins ?? '',
+    });
+  };
+
+  const cancelEditSlotRule = () => {
+    setEditingSlotRuleId(null);
+    setSlotRuleForm({ ...emptySlotRule, moveType: slotRuleForm.moveType });
+  };
+
+  const deleteSlotRule = async (rule: SlotRule) => {
+    if (!confirm(`Delete the ${DAY_NAMES[rule.dayOfWeek]} ${minsToLabel(rule.windowStart)} – ${minsToLabel(rule.windowEnd)} window?`)) return;
     setActionMessage('');
     try {
-      await api.post('/api/admin/settings/test-email', { to: testEmailTo });
-      setActionMessage('Test email sent successfully');
+      await api.delete(`/api/admin/slot-rules/${rule.id}`);
+      setActionMessage('Slot rule deleted successfully');
+      await refresh();
     } catch (error: any) {
       if (handleAuthError(error)) return;
-      setActionMessage(error.response?.data?.message || 'Failed to send test email.');
+      setActionMessage(error.response?.data?.message || 'Failed to delete slot rule.');
     }
   };
 
-  const changePassword = async (e: FormEvent) => {
+  const createBlackoutDate = async (e: FormEvent) => {
     e.preventDefault();
-    setAccountMessage('');
-    if (passwordForm.newPassword !== passwordForm.confirmPassword) { setAccountMessage('New passwords do not match'); return; }
-    if (passwordForm.newPassword.length < 8) { setAccountMessage('Password must be at least 8 characters'); return; }
+    setActionMessage('');
     try {
-      await api.post('/api/auth/change-password', passwordForm);
-      setAccountMessage('Password changed successfully');
-      setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      await api.post('/api/admin/blackout-dates', blackoutForm);
+      setBlackoutForm({ date: '', reason: '' });
+      setActionMessage('Blackout date added successfully');
+      await refresh();
     } catch (error: any) {
       if (handleAuthError(error)) return;
-      setAccountMessage(error.response?.data?.message || 'Failed to change password.');
+      setActionMessage(error.response?.data?.message || 'Failed to add blackout date.');
     }
   };
 
-  const submitForcePasswordChange = async (e: FormEvent) => {
-    e.preventDefault();
-    setForcePasswordMsg('');
-    if (forcePasswordForm.newPassword !== forcePasswordForm.confirmPassword) { setForcePasswordMsg('Passwords do not match'); return; }
-    if (forcePasswordForm.newPassword.length < 8) { setForcePasswordMsg('Password must be at least 8 characters'); return; }
+  const deleteBlackoutDate = async (id: string, date: string) => {
+    if (!confirm(`Remove the blackout on ${date}?`)) return;
+    setActionMessage('');
     try {
-      await api.post('/api/auth/change-password', {
-        currentPassword: forcePasswordForm.currentPassword,
-        newPassword: forcePasswordForm.newPassword,
-        confirmPassword: forcePasswordForm.confirmPassword,
-      });
-      setForcePasswordChange(false);
-      setForcePasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      await api.delete(`/api/admin/blackout-dates/${id}`);
+      setActionMessage('Blackout date removed successfully');
+      await refresh();
     } catch (error: any) {
       if (handleAuthError(error)) return;
-      setForcePasswordMsg(error.response?.data?.message || 'Failed to change password.');
+      setActionMessage(error.response?.data?.message || 'Failed to remove blackout date.');
     }
   };
 
-  const changeEmail = async (e: FormEvent) => {
+  const switchBuilding = async (slug: string) => {
+    setActionMessage('');
+    setCurrentBuildingSlug(slug);
+    await refresh(slug);
+  };
+
+  const createBuilding = async (e: FormEvent) => {
     e.preventDefault();
-    setAccountMessage('');
+    setActionMessage('');
     try {
-      const response = await api.post('/api/auth/change-email', emailForm);
-      if (response.data.token) {
-        updateToken(response.data.token);
-        setToken(response.data.token);
-        localStorage.setItem('movecal_token', response.data.token);
-        setEmail(response.data.user.email);
-      }
-      setAccountMessage('Email changed successfully');
-      setEmailForm({ newEmail: '', password: '' });
+      await api.post('/api/admin/buildings', {
+        name: buildingForm.name,
+        slug: buildingForm.slug,
+        logoUrl: buildingForm.logoUrl || null,
+        unitPrefix: buildingForm.unitPrefix || null,
+      });
+      setBuildingForm(emptyBuilding);
+      setActionMessage('Building added successfully');
+      await refresh();
     } catch (error: any) {
       if (handleAuthError(error)) return;
-      setAccountMessage(error.response?.data?.message || 'Failed to change email.');
+      setActionMessage(error.response?.data?.message || 'Failed to add building.');
     }
   };
 
-  const createUser = async (e: FormEvent) => {
-    e.preventDefault();
-    setUserMessage('');
+  const updateBuilding = async (id: string, data: { name?: string; logoUrl?: string | null; unitPrefix?: string | null }) => {
+    setActionMessage('');
     try {
-      await api.post('/api/admin/users', userForm);
-      setUserMessage('User created successfully');
-      setUserForm({ name: '', email: '', password: '', role: 'CONCIERGE', mustChangePassword: false });
+      await api.patch(`/api/admin/buildings/${id}`, data);
+      setActionMessage('Building updated successfully');
       await refresh();
     } catch (error: any) {
       if (handleAuthError(error)) return;
-      setUserMessage(error.response?.data?.message || 'Failed to create user.');
+      setActionMessage(error.response?.data?.message || 'Failed to update building.');
     }
   };
 
-  const updateUser = async (userId: string) => {
-    setUserMessage('');
+  const runJobNow = async (name: string) => {
+    setActionMessage('');
     try {
-      const updateData: any = { name: userForm.name, email: userForm.email, role: userForm.role, mustChangePassword: userForm.mustChangePassword };
-      if (userForm.password) updateData.password = userForm.password;
-      await api.patch(`/api/admin/users/${userId}`, updateData);
-      setUserMessage('User updated successfully');
-      setEditingUserId(null);
-      setUserForm({ name: '', email: '', password: '', role: 'CONCIERGE', mustChangePassword: false });
-      await refresh();
+      await api.post(`/api/admin/jobs/${name}/run`);
+      setActionMessage(`Job ${name} queued to run`);
+      // Give the run a moment to start so the panel shows it as running
+      setTimeout(() => { refresh(); }, 1500);
     } catch (error: any) {
       if (handleAuthError(error)) return;
-      setUserMessage(error.response?.data?.message || 'Failed to update user.');
+      setActionMessage(error.response?.data?.message || 'Failed to start job.');
     }
   };
 
-  const deleteUser = async (userId: string, userEmail: string) => {
-    if (!confirm(`Delete user ${userEmail}?`)) return;
-    setUserMessage('');
+  const selectEmailTemplate = (key: string) => {
+    const t = emailTemplates.find((x) => x.key === key);
+    setTemplateForm(t ? { key: t.key, subject: t.subject, title: t.title, intro: t.intro, footer: t.footer } : emptyTemplateForm);
+  };
+
+  const saveEmailTemplate = async (e: FormEvent) => {
+    e.preventDefault();
+    setActionMessage('');
+    const { key, ...content } = templateForm;
     try {
-      await api.delete(`/api/admin/users/${userId}`);
-      setUserMessage('User deleted successfully');
+      await api.put(`/api/admin/email-templates/${key}`, content);
+      setActionMessage('Email template saved');
       await refresh();
     } catch (error: any) {
       if (handleAuthError(error)) return;
-      setUserMessage(error.response?.data?.message || 'Failed to delete user.');
+      setActionMessage(error.response?.data?.message || 'Failed to save email template.');
     }
   };
 
-  const startEditUser = (user: any) => {
-    setEditingUserId(user.id);
-    setUserForm({ name: user.name, email: user.email, password: '', role: user.role, mustChangePassword: !!user.mustChangePassword });
-    setUserMessage('');
-  };
-
-  const cancelEditUser = () => {
-    setEditingUserId(null);
-    setUserForm({ name: '', email: '', password: '', role: 'CONCIERGE', mustChangePassword: false });
-    setUserMessage('');
+  const resetEmailTemplate = async () => {
+    const t = emailTemplates.find((x) => x.key === templateForm.key);
+    if (!t || !confirm(`Reset "${t.label}" to the default wording?`)) return;
+    setActionMessage('');
+    try {
+      await api.delete(`/api/admin/email-templates/${t.key}`);
+      setTemplateForm({ key: t.key, ...t.defaults });
+      setActionMessage('Email template reset to default');
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to reset email template.');
+    }
   };
 
-  const forgotPassword = async (e: FormEvent) => {
+  const saveFeeSchedule = async (e: FormEvent<HTMLFormElement>, moveType: string) => {
     e.preventDefault();
-    setForgotMsg('');
+    setActionMessage('');
+    const form = new FormData(e.currentTarget);
     try {
-      const { data } = await api.post('/api/auth/forgot-password', { email: forgotEmail.trim() });
-      setForgotMsg(data.message);
-    } catch {
-      setForgotMsg('Failed to send reset email. Please try again.');
+      await api.put(`/api/admin/fee-schedules/${moveType}`, {
+        moveFeeCents: dollarsToCents(String(form.get('moveFee'))),
+        depositCents: dollarsToCents(String(form.get('deposit'))),
+        afterHoursSurchargeCents: dollarsToCents(String(form.get('surcharge'))),
+      });
+      setActionMessage('Fees saved successfully');
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to save fees.');
     }
   };
 
-  const submitPasswordReset = async (e: FormEvent) => {
-    e.preventDefault();
-    setResetMsg('');
-    if (resetNewPassword !== resetConfirm) { setResetMsg('Passwords do not match.'); return; }
-    if (resetNewPassword.length < 8) { setResetMsg('Password must be at least 8 characters.'); return; }
+  const openBookingFees = (b: any) => {
+    setEditingFeesId(b.id);
+    setFeesForm({ paid: centsToDollars(b.fees.amountPaidCents), refunded: centsToDollars(b.fees.amountRefundedCents) });
+  };
+
+  const saveBookingFees = async (id: string, recalculate = false) => {
+    setActionMessage('');
     try {
-      const { data } = await api.post('/api/auth/reset-password', { token: resetToken, password: resetNewPassword });
-      setResetMsg(data.message);
-      window.history.replaceState({}, '', '/admin');
-      setTimeout(() => { setLoginView('login'); setResetMsg(''); setResetToken(''); setResetNewPassword(''); setResetConfirm(''); }, 2500);
+      await api.patch(`/api/admin/bookings/${id}/fees`, {
+        amountPaidCents: dollarsToCents(feesForm.paid),
+        amountRefundedCents: dollarsToCents(feesForm.refunded),
+        recalculate,
+      });
+      setEditingFeesId(null);
+      setActionMessage(recalculate ? 'Fees recalculated successfully' : 'Payment amounts saved successfully');
+      await refresh();
     } catch (error: any) {
-      setResetMsg(error.response?.data?.message || 'Failed to reset password. The link may have expired.');
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to save payment amounts.');
     }
   };
 
-  const submitQuickEntry = async (e: FormEvent) => {
+  const createResource = async (e: FormEvent) => {
     e.preventDefault();
-    setQuickError('');
-    const slots = getSlotsForDateAndType(quickForm.moveDate, quickForm.moveType);
-    const selected = slots?.find((s) => s.start === quickSlot);
-    if (!selected) { setQuickError('Please select a valid time slot.'); return; }
-    const startDatetime = `${quickForm.moveDate}T${selected.start}:00`;
-    const endDatetime   = `${quickForm.moveDate}T${selected.end}:00`;
-    setIsQuickSubmitting(true);
+    setActionMessage('');
     try {
-      await api.post('/api/admin/quick-entry/approve', { ...quickForm, startDatetime, endDatetime });
-      setQuickForm(emptyQuickEntry);
-      setQuickSlot('');
-      setShowQuickEntry(false);
+      await api.post('/api/admin/resources', { ...resourceForm, capacity: Number(resourceForm.capacity) });
+      setResourceForm(emptyResource);
+      setActionMessage('Resource added successfully');
       await refresh();
-      setActionMessage('Booking created and approved successfully');
     } catch (error: any) {
       if (handleAuthError(error)) return;
-      setQuickError(error.response?.data?.message || 'Failed to create booking.');
-    } finally {
-      setIsQuickSubmitting(false);
+      setActionMessage(error.response?.data?.message || 'Failed to add resource.');
     }
   };
 
-  // ── Edit booking helpers ──────────────────────────────────────
+  const updateResource = async (id: string, data: { capacity?: number; active?: boolean }) => {
+    setActionMessage('');
+    try {
+      await api.patch(`/api/admin/resources/${id}`, data);
+      setActionMessage('Resource updated successfully');
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to update resource.');
+    }
+  };
+
+  const deleteResource = async (id: string, name: string) => {
+    if (!confirm(`Delete resource ${name}?`)) return;
+    setActionMessage('');
+    try {
+      await api.delete(`/api/admin/resources/${id}`);
+      setActionMessage('Resource deleted successfully');
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to delete resource.');
+    }
+  };
+
+  const searchUnits = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const { data } = await api.get('/api/admin/units', { params: { q: unitSearch || undefined } });
+      setUnits(data);
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to search units.');
+    }
+  };
+
+  const createUnit = async (e: FormEvent) => {
+    e.preventDefault();
+    setActionMessage('');
+    try {
+      const blankToNull = (v: string) => v.trim() || null;
+      await api.post('/api/admin/units', {
+        number: unitForm.number,
+        tower: blankToNull(unitForm.tower),
+        aliases: unitForm.aliases.split(';').map((a: string) => a.trim()).filter(Boolean),
+        ownerName: blankToNull(unitForm.ownerName), ownerEmail: blankToNull(unitForm.ownerEmail), ownerPhone: blankToNull(unitForm.ownerPhone),
+        tenantName: blankToNull(unitForm.tenantName), tenantEmail: blankToNull(unitForm.tenantEmail), tenantPhone: blankToNull(unitForm.tenantPhone),
+      });
+      setUnitForm(emptyUnit);
+      setActionMessage('Unit added successfully');
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to add unit.');
+    }
+  };
+
+  const deleteUnit = async (id: string, code: string) => {
+    if (!confirm(`Delete unit ${code}? Existing bookings keep their unit number.`)) return;
+    setActionMessage('');
+    try {
+      await api.delete(`/api/admin/units/${id}`);
+      setActionMessage('Unit deleted successfully');
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to delete unit.');
+    }
+  };
+
+  const importUnitCsv = async (file: File) => {
+    setActionMessage('');
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      const { data } = await api.post('/api/admin/units/import', form);
+      const skipped = data.errors.length ? ` ${data.errors.length} row(s) skipped — line ${data.errors.map((er: any) => er.line).join(', ')}.` : '';
+      setActionMessage(`Units imported successfully: ${data.created} added, ${data.updated} updated.${skipped}`);
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to import units.');
+    }
+  };
+
+  const saveSettings = async (e: FormEvent) => {
+    e.preventDefault();
+    setActionMessage('');
+    try {
+      const portValue = settings.smtpPort === '' || settings.smtpPort === null ? null : Number(settings.smtpPort);
+      await api.put('/api/admin/settings', { ...settings, smtpPort: Number.isNaN(portValue) ? null : portValue });
+      setActionMessage('Settings saved successfully');
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to save settings.');
+    }
+  };
+
+  const sendTestEmail = async () => {
+    setActionMessage('');
+    try {
+      await api.post('/api/admin/settings/test-email', { to: testEmailTo });
+      setActionMessage('Test email sent successfully');
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setActionMessage(error.response?.data?.message || 'Failed to send test email.');
+    }
+  };
+
+  const changePassword = async (e: FormEvent) => {
+    e.preventDefault();
+    setAccountMessage('');
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) { setAccountMessage('New passwords do not match'); return; }
+    if (passwordForm.newPassword.length < 8) { setAccountMessage('Password must be at least 8 characters'); return; }
+    try {
+      await api.post('/api/auth/change-password', passwordForm);
+      setAccountMessage('Password changed successfully');
+      setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setAccountMessage(error.response?.data?.message || 'Failed to change password.');
+    }
+  };
+
+  const submitForcePasswordChange = async (e: FormEvent) => {
+    e.preventDefault();
+    setForcePasswordMsg('');
+    if (forcePasswordForm.newPassword !== forcePasswordForm.confirmPassword) { setForcePasswordMsg('Passwords do not match'); return; }
+    if (forcePasswordForm.newPassword.length < 8) { setForcePasswordMsg('Password must be at least 8 characters'); return; }
+    try {
+      await api.post('/api/auth/change-password', {
+        currentPassword: forcePasswordForm.currentPassword,
+        newPassword: forcePasswordForm.newPassword,
+        confirmPassword: forcePasswordForm.confirmPassword,
+      });
+      setForcePasswordChange(false);
+      setForcePasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setForcePasswordMsg(error.response?.data?.message || 'Failed to change password.');
+    }
+  };
+
+  const changeEmail = async (e: FormEvent) => {
+    e.preventDefault();
+    setAccountMessage('');
+    try {
+      const response = await api.post('/api/auth/change-email', emailForm);
+      if (response.data.token) {
+        updateToken(response.data.token);
+        setToken(response.data.token);
+        localStorage.setItem('movecal_token', response.data.token);
+        setEmail(response.data.user.email);
+      }
+      setAccountMessage('Email changed successfully');
+      setEmailForm({ newEmail: '', password: '' });
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setAccountMessage(error.response?.data?.message || 'Failed to change email.');
+    }
+  };
+
+  const regenerateCalendarFeed = async () => {
+    if (calendarFeed.url && !confirm('Create a new calendar link? Calendars subscribed to the current link will stop updating.')) return;
+    setAccountMessage('');
+    try {
+      const { data } = await api.post('/api/admin/calendar-feed');
+      setCalendarFeed({ ...calendarFeed, url: data.url });
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setAccountMessage(error.response?.data?.message || 'Failed to create calendar link.');
+    }
+  };
+
+  const createUser = async (e: FormEvent) => {
+    e.preventDefault();
+    setUserMessage('');
+    try {
+      await api.post('/api/admin/users', { ...userForm, buildingId: userForm.buildingId || null });
+      setUserMessage('User created successfully');
+      setUserForm(emptyUserForm);
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setUserMessage(error.response?.data?.message || 'Failed to create user.');
+    }
+  };
+
+  const updateUser = async (userId: string) => {
+    setUserMessage('');
+    try {
+      const updateData: any = { name: userForm.name, email: userForm.email, role: userForm.role, mustChangePassword: userForm.mustChangePassword };
+      updateData.buildingId = userForm.buildingId || null;
+      if (userForm.password) updateData.password = userForm.password;
+      await api.patch(`/api/admin/users/${userId}`, updateData);
+      setUserMessage('User updated successfully');
+      setEditingUserId(null);
+      setUserForm(emptyUserForm);
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setUserMessage(error.response?.data?.message || 'Failed to update user.');
+    }
+  };
+
+  const deleteUser = async (userId: string, userEmail: string) => {
+    if (!confirm(`Delete user ${userEmail}?`)) return;
+    setUserMessage('');
+    try {
+      await api.delete(`/api/admin/users/${userId}`);
+      setUserMessage('User deleted successfully');
+      await refresh();
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setUserMessage(error.response?.data?.message || 'Failed to delete user.');
+    }
+  };
+
+  const startEditUser = (user: any) => {
+    setEditingUserId(user.id);
+    setUserForm({ name: user.name, email: user.email, password: '', role: user.role, mustChangePassword: !!user.mustChangePassword, buildingId: user.buildingId ?? '' });
+    setUserMessage('');
+  };
+
+  const cancelEditUser = () => {
+    setEditingUserId(null);
+    setUserForm(emptyUserForm);
+    setUserMessage('');
+  };
+
+  const forgotPassword = async (e: FormEvent) => {
+    e.preventDefault();
+    setForgotMsg('');
+    try {
+      const { data } = await api.post('/api/auth/forgot-password', { email: forgotEmail.trim() });
+      setForgotMsg(data.message);
+    } catch {
+      setForgotMsg('Failed to send reset email. Please try again.');
+    }
+  };
+
+  const submitPasswordReset = async (e: FormEvent) => {
+    e.preventDefault();
+    setResetMsg('');
+    if (resetNewPassword !== resetConfirm) { setResetMsg('Passwords do not match.'); return; }
+    if (resetNewPassword.length < 8) { setResetMsg('Password must be at least 8 characters.'); return; }
+    try {
+      const { data } = await api.post('/api/auth/reset-password', { token: resetToken, password: resetNewPassword });
+      setResetMsg(data.message);
+      window.history.replaceState({}, '', '/admin');
+      setTimeout(() => { setLoginView('login'); setResetMsg(''); setResetToken(''); setResetNewPassword(''); setResetConfirm(''); }, 2500);
+    } catch (error: any) {
+      setResetMsg(error.response?.data?.message || 'Failed to reset password. The link may have expired.');
+    }
+  };
+
+  const submitQuickEntry = async (e: FormEvent) => {
+    e.preventDefault();
+    setQuickError('');
+    const slots = getSlotsForDateAndType(quickForm.moveDate, quickForm.moveType, slotRules, closedDates);
+    const selected = slots?.find((s) => s.start === quickSlot);
+    if (!selected) { setQuickError('Please select a valid time slot.'); return; }
+    const startDatetime = `${quickForm.moveDate}T${selected.start}:00`;
+    const endDatetime   = `${quickForm.moveDate}T${selected.end}:00`;
+    setIsQuickSubmitting(true);
+    try {
+      await api.post('/api/admin/quick-entry/approve', { ...quickForm, startDatetime, endDatetime });
+      setQuickForm(emptyQuickEntry);
+      setQuickSlot('');
+      setShowQuickEntry(false);
+      await refresh();
+      setActionMessage('Booking created and approved successfully');
+    } catch (error: any) {
+      if (handleAuthError(error)) return;
+      setQuickError(error.response?.data?.message || 'Failed to create booking.');
+    } finally {
+      setIsQuickSubmitting(false);
+    }
+  };
+
+  // ── Edit booking helpers ──────────────────────────────────────
   const COMMON_TLDS_ADMIN = new Set([
     'com','net','org','edu','gov','mil','int','info','biz','name','pro','aero','coop','museum',
     'io','co','app','dev','ai','gg','me','tv','fm','ac','cc','xyz','online','site','store',
@@ -617,6 +1162,8 @@ export function AdminPage() {
       elevatorRequired: !!b.elevatorRequired,
       loadingBayRequired: !!b.loadingBayRequired,
       notes: b.notes ?? '',
+      resourceIds: (b.resources ?? []).map((r: any) => r.id),
+      resourcesChanged: false,
     });
     setEditSlot(`${hh}:${mm}`);
     setEditOriginalSlot(`${hh}:${mm}`);
@@ -642,7 +1189,7 @@ export function AdminPage() {
     const phoneErr = validateEditPhone(editForm.residentPhone);
     if (phoneErr) { setEditError(phoneErr); return; }
 
-    const slots = getSlotsForDateAndType(editForm.moveDate, editForm.moveType);
+    const slots = getSlotsForDateAndType(editForm.moveDate, editForm.moveType, slotRules, closedDates);
     const selected = slots?.find((s) => s.start === editSlot);
     const isKeepingOriginalSlot = editSlot === editOriginalSlot && !!editOriginalStartDatetime;
     if (!selected && !isKeepingOriginalSlot) { setEditError('Please select a valid time slot.'); return; }
@@ -664,6 +1211,7 @@ export function AdminPage() {
         elevatorRequired: editForm.elevatorRequired,
         loadingBayRequired: editForm.loadingBayRequired,
         notes: editForm.notes || null,
+        ...(editForm.resourcesChanged && { resourceIds: editForm.resourceIds }),
       });
       closeEditBooking();
       await refresh();
@@ -786,8 +1334,8 @@ export function AdminPage() {
 
       {/* ── Edit booking modal ── */}
       {editingBookingId && (() => {
-        const eRawSlots = getSlotsForDateAndType(editForm.moveDate, editForm.moveType);
-        const eIsHoliday = editForm.moveDate && eRawSlots !== null && eRawSlots.length === 0;
+        const eRawSlots = getSlotsForDateAndType(editForm.moveDate, editForm.moveType, slotRules, closedDates);
+        const eClosedDate = closedDates.find((c) => c.date === editForm.moveDate);
         const eSlots = eRawSlots ? filterAvailableSlots(eRawSlots, editTakenRanges) : eRawSlots;
         // Ensure the current slot is always in the list (it may have been excluded when date didn't change)
         const currentSlotInList = eSlots?.some((s) => s.start === editSlot);
@@ -832,9 +1380,9 @@ export function AdminPage() {
                 </div>
                 <div className="form-field">
                   <label>Time Slot</label>
-                  <select value={editSlot} onChange={(e) => setEditSlot(e.target.value)} disabled={!editForm.moveDate || !!eIsHoliday || allESlots?.length === 0}>
+                  <select value={editSlot} onChange={(e) => setEditSlot(e.target.value)} disabled={!editForm.moveDate || !!eClosedDate || allESlots?.length === 0}>
                     <option value="">
-                      {!editForm.moveDate ? 'Select a date first' : eIsHoliday ? 'No slots on holidays' : allESlots?.length === 0 ? 'No slots available' : 'Select a time slot'}
+                      {!editForm.moveDate ? 'Select a date first' : eClosedDate ? 'No slots on closed dates' : allESlots?.length === 0 ? 'No slots available' : 'Select a time slot'}
                     </option>
                     {(allESlots ?? []).map((s) => (
                       <option key={s.start} value={s.start}>{s.label}</option>
@@ -860,10 +1408,30 @@ export function AdminPage() {
                   Loading Bay Required
                 </label>
               </div>
-              {eIsHoliday && <p className="error-message" style={{ marginTop: '12px' }}>This date is a statutory holiday — no bookings permitted.</p>}
+              {resources.some((r) => r.active) && (
+                <div className="form-field" style={{ marginTop: '8px' }}>
+                  <label>Reserved Resources <small>(leave unchanged to assign automatically)</small></label>
+                  <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap', marginTop: '4px' }}>
+                    {resources.filter((r) => r.active || editForm.resourceIds?.includes(r.id)).map((r) => (
+                      <label key={r.id} className="checkbox-label">
+                        <input type="checkbox" checked={editForm.resourceIds?.includes(r.id) ?? false}
+                          onChange={(e) => setEditForm({
+                            ...editForm,
+                            resourcesChanged: true,
+                            resourceIds: e.target.checked
+                              ? [...(editForm.resourceIds ?? []), r.id]
+                              : (editForm.resourceIds ?? []).filter((id: string) => id !== r.id),
+                          })} />
+                        {r.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {eClosedDate && <p className="error-message" style={{ marginTop: '12px' }}>{closedDateMessage(eClosedDate)}</p>}
               {editError && <p className="error-message" style={{ marginTop: '12px' }}>{editError}</p>}
               <div style={{ display: 'flex', gap: '10px', marginTop: '20px' }}>
-                <button className="btn-sm btn-green" type="button" onClick={saveEditBooking} disabled={isSavingEdit || !!eIsHoliday}>
+                <button className="btn-sm btn-green" type="button" onClick={saveEditBooking} disabled={isSavingEdit || !!eClosedDate}>
                   {isSavingEdit ? 'Saving…' : 'Save Changes'}
                 </button>
                 <button className="btn-sm btn-slate" type="button" onClick={closeEditBooking} disabled={isSavingEdit}>
@@ -876,7 +1444,12 @@ export function AdminPage() {
       })()}
 
       <div className="admin-title-row">
-        <h2>Dashboard</h2>
+        <h2>Dashboard{currentBuilding ? ` — ${currentBuilding.name}` : ''}</h2>
+        {buildings.length > 1 && (
+          <select aria-label="Building" value={currentBuilding?.slug ?? ''} onChange={(e) => switchBuilding(e.target.value)}>
+            {buildings.map((bl) => <option key={bl.id} value={bl.slug}>{bl.name}</option>)}
+          </select>
+        )}
         <button
           className="btn-sm btn-slate btn-logout"
           onClick={() => {
@@ -953,18 +1526,34 @@ export function AdminPage() {
               <button className="btn-sm btn-blue" type="submit">Change Email</button>
             </form>
           </div>
+
+          {/* Calendar Feed */}
+          <div className="account-card">
+            <h4>Calendar Feed</h4>
+            <p className="account-card-desc">Subscribe to this building's bookings from Outlook, Google Calendar or Apple Calendar. Keep your link private; it gives read access to resident details.</p>
+            {calendarFeed.url && (
+              <div className="form-field">
+                <label htmlFor="calendar-feed-url">Your subscription link</label>
+                <input id="calendar-feed-url" readOnly value={calendarFeed.url} onFocus={(e) => e.target.select()} />
+              </div>
+            )}
+            <button className="btn-sm btn-blue" type="button" onClick={regenerateCalendarFeed}>
+              {calendarFeed.url ? 'Create New Link' : 'Create Link'}
+            </button>
+            {calendarFeed.publicUrl && (
+              <div className="form-field" style={{ marginTop: 12 }}>
+                <label htmlFor="calendar-public-url">Public schedule (units masked)</label>
+                <input id="calendar-public-url" readOnly value={calendarFeed.publicUrl} onFocus={(e) => e.target.select()} />
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
       {/* ── Bookings ── */}
       {(() => {
-        const today = new Date(); today.setHours(0, 0, 0, 0);
-        const upcoming = bookings.filter((b) => new Date(b.startDatetime) >= today);
-        const past = bookings.filter((b) => new Date(b.startDatetime) < today)
-          .sort((a, b) => new Date(b.startDatetime).getTime() - new Date(a.startDatetime).getTime());
-
-        const qRawSlots = getSlotsForDateAndType(quickForm.moveDate, quickForm.moveType);
-        const qIsHoliday = quickForm.moveDate && qRawSlots !== null && qRawSlots.length === 0;
+        const qRawSlots = getSlotsForDateAndType(quickForm.moveDate, quickForm.moveType, slotRules, closedDates);
+        const qClosedDate = closedDates.find((c) => c.date === quickForm.moveDate);
         const qSlots = qRawSlots ? filterAvailableSlots(qRawSlots, quickTakenRanges) : qRawSlots;
 
         const moveTypeLabel = (t: string) => ({ MOVE_IN: 'Move In', MOVE_OUT: 'Move Out', DELIVERY: 'Delivery', RENO: 'Renovation', FURNISHED_MOVE: 'Furnished Move', SUITCASE_MOVE: 'Suitcase Move' }[t] ?? t);
@@ -992,29 +1581,127 @@ export function AdminPage() {
                 </div>
               )}
               <div className="booking-tags">
-                {b.elevatorRequired && <span className="booking-tag">Elevator</span>}
-                {b.loadingBayRequired && <span className="booking-tag">Loading Bay</span>}
+                {b.seriesPosition && <span className="booking-tag">Series · date {b.seriesPosition.index} of {b.seriesPosition.count}</span>}
+                {b.resources?.length > 0
+                  ? b.resources.map((r: any) => <span key={r.id} className="booking-tag">{r.name}</span>)
+                  : <>
+                      {b.elevatorRequired && <span className="booking-tag">Elevator</span>}
+                      {b.loadingBayRequired && <span className="booking-tag">Loading Bay</span>}
+                    </>}
                 {b.paymentMatched && (
                   <span className="payment-matched-badge">
                     Payment Confirmed{b.paymentInvoiceId ? ` · ${b.paymentInvoiceId}` : ''}
                   </span>
                 )}
+                {b.fees?.amountDueCents > 0 && (
+                  <span className="booking-tag">
+                    Due {formatCents(b.fees.amountDueCents)} · Paid {formatCents(b.fees.amountPaidCents)}
+                    {b.fees.amountRefundedCents > 0 ? ` · Refunded ${formatCents(b.fees.amountRefundedCents)}` : ''}
+                  </span>
+                )}
               </div>
               {b.notes && <div className="booking-notes">{b.notes}</div>}
-            </div>
-            <div className="booking-actions">
-              <button className="btn-sm btn-green" onClick={() => updateStatus(b.id, 'APPROVED')} disabled={isUpdating === b.id}>
-                {isUpdating === b.id ? '…' : 'Approve'}
-              </button>
-              <button className="btn-sm btn-blue" onClick={() => openEditBooking(b)} disabled={isUpdating === b.id}>
-                Edit
-              </button>
-              <button className="btn-sm btn-red" onClick={() => updateStatus(b.id, 'REJECTED')} disabled={isUpdating === b.id}>
-                {isUpdating === b.id ? '…' : 'Reject'}
+              {b.statusReason && <div className="booking-notes">Reason {b.status === 'REJECTED' ? 'rejected' : 'cancelled'}: {b.statusReason}</div>}
+              {editingFeesId === b.id && (
+                <div className="recipient-row">
+                  <label>Paid ($) <input type="number" min={0} step="0.01" value={feesForm.paid} style={{ width: '96px' }}
+                    onChange={(e) => setFeesForm({ ...feesForm, paid: e.target.value })} /></label>
+                  <label>Refunded ($) <input type="number" min={0} step="0.01" value={feesForm.refunded} style={{ width: '96px' }}
+                    onChange={(e) => setFeesForm({ ...feesForm, refunded: e.target.value })} /></label>
+                  <button className="btn-sm btn-green" type="button" onClick={() => saveBookingFees(b.id)}>Save</button>
+                  <button className="btn-sm btn-blue" type="button" title="Re-price from the current fee schedule"
+                    onClick={() => saveBookingFees(b.id, true)}>Recalculate</button>
+                  <button className="btn-sm btn-slate" type="button" onClick={() => setEditingFeesId(null)}>Cancel</button>
+                </div>
+              )}
+              {emailHistory && emailHistory.bookingId === b.id && (
+                emailHistory.emails.length === 0
+                  ? <div className="booking-notes">No emails sent for this booking.</div>
+                  : emailHistory.emails.map((em) => (
+                    <div key={em.id} className="recipient-row">
+                      <div>
+                        <div className="recipient-name">
+                          {em.subject}{' '}
+                          <span className="booking-tag">{em.status === 'SENT' ? 'Sent' : em.status === 'FAILED' ? 'Failed' : em.status === 'SENDING' ? 'Sending' : `Retrying (attempt ${em.attempts})`}</span>
+                        </div>
+                        <div className="recipient-email">
+                          To {em.to.join(', ')} · {new Date(em.sentAt ?? em.createdAt).toLocaleString()}
+                          {em.status === 'PENDING' && em.attempts > 0 ? ` · next try ${new Date(em.nextAttemptAt).toLocaleString()}` : ''}
+                        </div>
+                        {em.lastError && em.status !== 'SENT' && <div className="error-message">{em.lastError}</div>}
+                      </div>
+                      <div className="recipient-actions">
+                        <button className="btn-sm btn-blue" type="button" onClick={() => resendBookingEmail(b.id, em.id)}>Resend</button>
+                      </div>
+                    </div>
+                  ))
+              )}
+              {bookingAudit && bookingAudit.bookingId === b.id && (
+                bookingAudit.entries.length === 0
+                  ? <div className="booking-notes">No changes recorded for this booking.</div>
+                  : <ul style={{ margin: '8px 0 0', paddingLeft: '18px', fontSize: '0.8rem', color: '#475569' }}>
+                    {[...bookingAudit.entries].reverse().map((entry) => (
+                      <li key={entry.id}>
+                        {new Date(entry.timestamp).toLocaleString()} · {auditActionLabel(entry.action)} by {auditActorName(entry)}
+                        {auditDetails(entry.metadataJson).map((line) => <div key={line}>{line}</div>)}
+                      </li>
+                    ))}
+                  </ul>
+              )}
+            </div>
+            <div className="booking-actions">
+              {(b.status === 'SUBMITTED' || b.status === 'PENDING') && (
+                <button className="btn-sm btn-green" onClick={() => updateStatus(b.id, 'APPROVED')} disabled={isUpdating === b.id}>
+                  {isUpdating === b.id ? '…' : 'Approve'}
+                </button>
+              )}
+              <button className="btn-sm btn-blue" onClick={() => openEditBooking(b)} disabled={isUpdating === b.id}>
+                Edit
               </button>
+              {(b.status === 'SUBMITTED' || b.status === 'PENDING') && (
+                <button className="btn-sm btn-red" onClick={() => updateStatus(b.id, 'REJECTED')} disabled={isUpdating === b.id}>
+                  {isUpdating === b.id ? '…' : 'Reject'}
+                </button>
+              )}
+              {b.status === 'APPROVED' && (
+                <button className="btn-sm btn-red" onClick={() => updateStatus(b.id, 'CANCELLED')} disabled={isUpdating === b.id}>
+                  {isUpdating === b.id ? '…' : 'Cancel'}
+                </button>
+              )}
+              {canManageSettings && (b.status === 'REJECTED' || b.status === 'CANCELLED') && (
+                <button className="btn-sm btn-amber" onClick={() => updateStatus(b.id, 'SUBMITTED')} disabled={isUpdating === b.id}>
+                  {isUpdating === b.id ? '…' : 'Reopen'}
+                </button>
+              )}
               <button className="btn-sm btn-slate" onClick={() => deleteBooking(b.id, b.residentName)} disabled={isUpdating === b.id}>
                 {isUpdating === b.id ? '…' : 'Delete'}
               </button>
+              {b.seriesId && (
+                <>
+                  <button className="btn-sm btn-green" onClick={() => updateSeriesStatus(b.id, b.seriesId, 'APPROVED')} disabled={isUpdating === b.id}>
+                    Approve Series
+                  </button>
+                  <button className="btn-sm btn-red" onClick={() => updateSeriesStatus(b.id, b.seriesId, 'REJECTED')} disabled={isUpdating === b.id}>
+                    Reject Series
+                  </button>
+                  <button className="btn-sm btn-slate" onClick={() => updateSeriesStatus(b.id, b.seriesId, 'CANCELLED')} disabled={isUpdating === b.id}>
+                    Cancel Series
+                  </button>
+                </>
+              )}
+              {canManageSettings && b.fees && (
+                <button className="btn-sm btn-slate" onClick={() => openBookingFees(b)} disabled={isUpdating === b.id}>
+                  Fees
+                </button>
+              )}
+              <button className="btn-sm btn-slate" onClick={() => emailHistory?.bookingId === b.id ? setEmailHistory(null) : loadEmailHistory(b.id)}>
+                {emailHistory?.bookingId === b.id ? 'Hide Emails' : 'Emails'}
+              </button>
+              {canManageSettings && (
+                <button className="btn-sm btn-slate" onClick={() => bookingAudit?.bookingId === b.id ? setBookingAudit(null) : loadBookingAudit(b.id)}>
+                  {bookingAudit?.bookingId === b.id ? 'Hide History' : 'History'}
+                </button>
+              )}
               {!b.paymentMatched && (b.status === 'SUBMITTED' || b.status === 'PENDING') && (
                 <button className="btn-sm btn-amber" onClick={() => sendPaymentReminder(b.id, b.residentName)} disabled={isUpdating === b.id}>
                   {isUpdating === b.id ? '…' : 'Payment Reminder'}
@@ -1028,12 +1715,43 @@ export function AdminPage() {
           <div className="admin-section">
             <div className="bookings-section-header">
               <h3>Bookings</h3>
-              <button type="button" className="quick-entry-toggle"
-                onClick={() => { setShowQuickEntry((v) => !v); setQuickError(''); }}>
-                {showQuickEntry ? 'Cancel' : 'Add Manual Booking ▾'}
-              </button>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button type="button" className="quick-entry-toggle" onClick={() => setShowExport((v) => !v)}>
+                  {showExport ? 'Close Export' : 'Export ▾'}
+                </button>
+                <button type="button" className="quick-entry-toggle"
+                  onClick={() => { setShowQuickEntry((v) => !v); setQuickError(''); }}>
+                  {showQuickEntry ? 'Cancel' : 'Add Manual Booking ▾'}
+                </button>
+              </div>
             </div>
 
+            {showExport && (
+              <div className="admin-form-card" style={{ marginTop: '16px' }}>
+                <h4>Export Bookings</h4>
+                <p className="admin-section-desc">Exports every booking matching the filters below, not only the ones loaded on this page.</p>
+                <div style={{ display: 'flex', gap: '8px 16px', flexWrap: 'wrap' }}>
+                  {BOOKING_EXPORT_OPTIONS.map(([key, label]) => (
+                    <label key={key} className="checkbox-label">
+                      <input type="checkbox" checked={exportColumns.includes(key)}
+                        onChange={() => setExportColumns((cols) => cols.includes(key) ? cols.filter((c) => c !== key) : [...cols, key])} />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <div className="audit-filters" style={{ marginTop: '12px' }}>
+                  <div className="form-field">
+                    <label htmlFor="export-format">Format</label>
+                    <select id="export-format" value={exportFormat} onChange={(e) => setExportFormat(e.target.value as 'csv' | 'xlsx')}>
+                      <option value="xlsx">Excel (.xlsx)</option>
+                      <option value="csv">CSV</option>
+                    </select>
+                  </div>
+                  <button className="btn-sm btn-blue" type="button" onClick={exportBookings} disabled={exportColumns.length === 0}>Download</button>
+                </div>
+              </div>
+            )}
+
             {showQuickEntry && (
               <div className="admin-form-card" style={{ marginTop: '16px' }}>
                 <h4>New Manual Booking</h4>
@@ -1086,10 +1804,10 @@ export function AdminPage() {
                       <label htmlFor="qe-slot" className="required">Time Slot</label>
                       <select id="qe-slot" value={quickSlot}
                         onChange={(e) => setQuickSlot(e.target.value)}
-                        disabled={!quickForm.moveDate || !!qIsHoliday || qSlots?.length === 0}
+                        disabled={!quickForm.moveDate || !!qClosedDate || qSlots?.length === 0}
                         required>
                         <option value="">
-                          {!quickForm.moveDate ? 'Select a date first' : qIsHoliday ? 'No slots on holidays' : qSlots?.length === 0 ? 'No slots available' : 'Select a time slot'}
+                          {!quickForm.moveDate ? 'Select a date first' : qClosedDate ? 'No slots on closed dates' : qSlots?.length === 0 ? 'No slots available' : 'Select a time slot'}
                         </option>
                         {(qSlots ?? []).map((s) => (
                           <option key={s.start} value={s.start}>{s.label}</option>
@@ -1127,74 +1845,237 @@ export function AdminPage() {
                       Loading Bay Required
                     </label>
                   </div>
-                  {qIsHoliday && <p className="error-message" style={{ marginTop: '12px' }}>This date is a statutory holiday — no bookings permitted.</p>}
+                  {qClosedDate && <p className="error-message" style={{ marginTop: '12px' }}>{closedDateMessage(qClosedDate)}</p>}
                   {quickError && <p className="error-message" style={{ marginTop: '12px' }}>{quickError}</p>}
                   <button className="btn-sm btn-green" type="submit" style={{ marginTop: '16px' }}
-                    disabled={isQuickSubmitting || !!qIsHoliday}>
+                    disabled={isQuickSubmitting || !!qClosedDate}>
                     {isQuickSubmitting ? 'Creating…' : 'Create Approved Booking'}
                   </button>
                 </form>
               </div>
             )}
 
+            <form className="audit-filters" style={{ marginTop: '16px' }} onSubmit={(e) => { e.preventDefault(); loadBookings(); }}>
+              <div className="form-field">
+                <label htmlFor="bf-q">Search</label>
+                <input id="bf-q" value={bookingFilter.q} placeholder="Name, email or company"
+                  onChange={(e) => setBookingFilter({ ...bookingFilter, q: e.target.value })} />
+              </div>
+              <div className="form-field">
+                <label htmlFor="bf-status">Status</label>
+                <select id="bf-status" value={bookingFilter.status} onChange={(e) => setBookingFilter({ ...bookingFilter, status: e.target.value })}>
+                  <option value="">Any status</option>
+                  {BOOKING_STATUS_FILTERS.map(([val, label]) => <option key={val} value={val}>{label}</option>)}
+                </select>
+              </div>
+              <div className="form-field">
+                <label htmlFor="bf-type">Type</label>
+                <select id="bf-type" value={bookingFilter.moveType} onChange={(e) => setBookingFilter({ ...bookingFilter, moveType: e.target.value })}>
+                  <option value="">Any type</option>
+                  {MOVE_TYPE_OPTIONS.map(([val, label]) => <option key={val} value={val}>{label}</option>)}
+                </select>
+              </div>
+              <div className="form-field">
+                <label htmlFor="bf-from">From</label>
+                <input id="bf-from" type="date" value={bookingFilter.from} onChange={(e) => setBookingFilter({ ...bookingFilter, from: e.target.value })} />
+              </div>
+              <div className="form-field">
+                <label htmlFor="bf-to">To</label>
+                <input id="bf-to" type="date" value={bookingFilter.to} onChange={(e) => setBookingFilter({ ...bookingFilter, to: e.target.value })} />
+              </div>
+              <div className="form-field">
+                <label htmlFor="bf-unit">Unit</label>
+                <input id="bf-unit" value={bookingFilter.unit} style={{ width: '90px' }} onChange={(e) => setBookingFilter({ ...bookingFilter, unit: e.target.value })} />
+              </div>
+              <div className="form-field">
+                <label htmlFor="bf-paid">Payment</label>
+                <select id="bf-paid" value={bookingFilter.paymentMatched} onChange={(e) => setBookingFilter({ ...bookingFilter, paymentMatched: e.target.value })}>
+                  <option value="">Any</option>
+                  <option value="true">Matched</option>
+                  <option value="false">Not matched</option>
+                </select>
+              </div>
+              <div className="form-field">
+                <label htmlFor="bf-sort">Sort By</label>
+                <select id="bf-sort" value={bookingFilter.sort} onChange={(e) => setBookingFilter({ ...bookingFilter, sort: e.target.value })}>
+                  {BOOKING_SORT_OPTIONS.map(([val, label]) => <option key={val} value={val}>{label}</option>)}
+                </select>
+              </div>
+              <div className="form-field">
+                <label htmlFor="bf-order">Order</label>
+                <select id="bf-order" value={bookingFilter.order} onChange={(e) => setBookingFilter({ ...bookingFilter, order: e.target.value })}>
+                  <option value="asc">Ascending</option>
+                  <option value="desc">Descending</option>
+                </select>
+              </div>
+              <button className="btn-sm btn-blue" type="submit">Filter</button>
+              <button className="btn-sm btn-slate" type="button" onClick={clearBookingFilter}>Show All</button>
+            </form>
+
             <div className="bookings-list">
-              {bookings.length === 0 && <p className="admin-section-desc">No bookings found.</p>}
+              <div className="booking-group">
+                <div className={`booking-group-header booking-group-header--${bookingFilter.status === 'APPROVED' ? 'approved' : bookingFilter.status === 'SUBMITTED,PENDING' ? 'review' : 'past'}`}>
+                  <span className="booking-group-title">{BOOKING_STATUS_FILTERS.find(([val]) => val === bookingFilter.status)?.[1] ?? 'Matching Bookings'}</span>
+                  <span className="booking-group-count">{bookingTotal}</span>
+                </div>
+                {bookings.length === 0
+                  ? <p className="booking-group-empty">No bookings match these filters.</p>
+                  : bookings.map(renderBooking)}
+                {bookingCursor && (
+                  <button className="btn-sm btn-slate" type="button" onClick={() => loadBookings(bookingCursor)}>
+                    Load More ({bookings.length} of {bookingTotal})
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })()}
 
-              {/* ── Needs Review ── */}
-              {(() => {
-                const group = upcoming.filter(b => b.status === 'SUBMITTED' || b.status === 'PENDING');
-                return (
-                  <div className="booking-group">
-                    <div className="booking-group-header booking-group-header--review">
-                      <span className="booking-group-title">Needs Review</span>
-                      <span className="booking-group-count">{group.length}</span>
-                    </div>
-                    {group.length === 0
-                      ? <p className="booking-group-empty">No bookings awaiting review.</p>
-                      : group.map(renderBooking)}
+      {/* ── Waitlist ── */}
+      {waitlist.length > 0 && (
+        <div className="admin-section">
+          <h3>Waitlist</h3>
+          <p className="admin-section-desc">Residents waiting for fully booked times. When a booking is cancelled or rejected, the first resident who fits is emailed a link to claim the time.</p>
+          {waitlist.map((w) => (
+            <div key={w.id} className="admin-card">
+              <div className="recipient-row">
+                <div>
+                  <div className="recipient-name">
+                    {w.moveTypeLabel} · Unit {w.unit} · {new Date(w.startDatetime).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: 'UTC' })}
+                    {' – '}{new Date(w.endDatetime).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' })}
+                    {w.status === 'OFFERED' && <span className="booking-tag">Offered until {new Date(w.offerExpiresAt).toLocaleString()}</span>}
                   </div>
-                );
-              })()}
+                  <div className="recipient-email">{[w.residentName, w.residentEmail, w.residentPhone].filter(Boolean).join(' · ')}</div>
+                  <div className="recipient-email">Joined {new Date(w.createdAt).toLocaleString()}</div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
 
-              {/* ── Approved ── */}
-              {(() => {
-                const group = upcoming.filter(b => b.status === 'APPROVED');
-                return (
-                  <div className="booking-group">
-                    <div className="booking-group-header booking-group-header--approved">
-                      <span className="booking-group-title">Approved</span>
-                      <span className="booking-group-count">{group.length}</span>
-                    </div>
-                    {group.length === 0
-                      ? <p className="booking-group-empty">No approved upcoming bookings.</p>
-                      : group.map(renderBooking)}
+      {/* ── Trash ── */}
+      {trash.length > 0 && (
+        <div className="admin-section">
+          <h3>Trash</h3>
+          <p className="admin-section-desc">Deleted bookings are hidden from the calendar, conflict checks and exports. Restore one to put it back as it was; each is purged for good on the date shown.</p>
+          {trash.map((b) => (
+            <div key={b.id} className="admin-card">
+              <div className="recipient-row">
+                <div>
+                  <div className="recipient-name">
+                    {MOVE_TYPE_OPTIONS.find(([value]) => value === b.moveType)?.[1] ?? b.moveType} · Unit {b.unit} · {new Date(b.startDatetime).toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: 'UTC' })}
+                    <span className="booking-tag">{b.status}</span>
+                  </div>
+                  <div className="recipient-email">{[b.residentName, b.residentEmail].filter(Boolean).join(' · ')}</div>
+                  <div className="recipient-email">
+                    Deleted {new Date(b.deletedAt).toLocaleString()}{b.deletedBy ? ` by ${b.deletedBy.name || b.deletedBy.email}` : ''} · Purged {new Date(b.purgeAt).toLocaleDateString()}
                   </div>
-                );
-              })()}
-
-              {/* ── Past ── */}
-              {past.length > 0 && (
-                <div className="booking-group">
-                  <button type="button" className="booking-group-header booking-group-header--past booking-group-toggle"
-                    onClick={() => setShowPastBookings(v => !v)}>
-                    <span className="booking-group-title">Past</span>
-                    <span className="booking-group-count">{past.length}</span>
-                    <span className="booking-group-chevron">{showPastBookings ? '▾' : '▸'}</span>
-                  </button>
-                  {showPastBookings && past.map(renderBooking)}
                 </div>
-              )}
+                <button className="btn-sm btn-green" type="button" onClick={() => restoreBooking(b.id)} disabled={isUpdating === b.id}>
+                  {isUpdating === b.id ? 'Restoring...' : 'Restore'}
+                </button>
+              </div>
             </div>
-          </div>
-        );
-      })()}
+          ))}
+        </div>
+      )}
+
+      {/* ── Unit Directory ── */}
+      <div className="admin-section">
+        <h3>Unit Directory</h3>
+        <p className="admin-section-desc">Registered units and their current owner and tenant contacts. Once any unit is registered, bookings are only accepted for registered units and stored under the unit's canonical code.</p>
+        <form className="recipient-row" onSubmit={searchUnits}>
+          <input placeholder="Search unit, alias, owner or tenant" value={unitSearch} aria-label="Search units"
+            onChange={(e) => setUnitSearch(e.target.value)} />
+          <button className="btn-sm btn-slate" type="submit">Search</button>
+        </form>
+
+        {units.length === 0
+          ? <p className="admin-section-desc" style={{ fontStyle: 'italic' }}>{unitSearch ? 'No matching units.' : 'No units registered — any unit number is accepted.'}</p>
+          : units.map((u) => (
+            <div key={u.id} className="admin-card">
+              <div className="recipient-row">
+                <div>
+                  <div className="recipient-name">
+                    Unit {u.code}{u.tower ? ` · ${u.tower}` : ''}{u.floor != null ? ` · floor ${u.floor}` : ''}
+                    {!u.active && <span className="booking-tag">Inactive</span>}
+                  </div>
+                  {u.aliases.length > 0 && <div className="recipient-email">Also: {u.aliases.join(', ')}</div>}
+                  {(u.ownerName || u.ownerEmail || u.ownerPhone) && (
+                    <div className="recipient-email">Owner: {[u.ownerName, u.ownerEmail, u.ownerPhone].filter(Boolean).join(' · ')}</div>
+                  )}
+                  {(u.tenantName || u.tenantEmail || u.tenantPhone) && (
+                    <div className="recipient-email">Tenant: {[u.tenantName, u.tenantEmail, u.tenantPhone].filter(Boolean).join(' · ')}</div>
+                  )}
+                </div>
+                {canManageSettings && (
+                  <div className="recipient-actions">
+                    <button className="btn-sm btn-red" type="button" onClick={() => deleteUnit(u.id, u.code)}>Delete</button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        }
+
+        {canManageSettings && (
+          <>
+            <div className="admin-form-card">
+              <h4>Import from CSV</h4>
+              <p className="admin-section-desc">
+                Header row with a <code>number</code> column and optionally <code>code</code>, <code>tower</code>, <code>floor</code>, <code>aliases</code> (separated by ;),
+                {' '}<code>owner_name</code>, <code>owner_email</code>, <code>owner_phone</code>, <code>tenant_name</code>, <code>tenant_email</code>, <code>tenant_phone</code>.
+                Existing units are updated by code.
+              </p>
+              <input type="file" accept=".csv,text/csv" aria-label="Unit CSV file"
+                onChange={(e) => { const file = e.target.files?.[0]; if (file) importUnitCsv(file); e.target.value = ''; }} />
+            </div>
+
+            <div className="admin-form-card">
+              <h4>Add Unit</h4>
+              <form onSubmit={createUnit}>
+                <div className="form-field">
+                  <label htmlFor="unit-number" className="required">Unit Number</label>
+                  <input id="unit-number" placeholder="e.g. 1105" value={unitForm.number}
+                    onChange={(e) => setUnitForm({ ...unitForm, number: e.target.value })} required />
+                </div>
+                <div className="form-field">
+                  <label htmlFor="unit-tower">Tower</label>
+                  <input id="unit-tower" placeholder="e.g. T4" value={unitForm.tower}
+                    onChange={(e) => setUnitForm({ ...unitForm, tower: e.target.value })} />
+                </div>
+                <div className="form-field">
+                  <label htmlFor="unit-aliases">Aliases</label>
+                  <input id="unit-aliases" placeholder="e.g. T4-1105; PH5" value={unitForm.aliases}
+                    onChange={(e) => setUnitForm({ ...unitForm, aliases: e.target.value })} />
+                  <small>Other spellings used by residents or on invoices, separated by ;</small>
+                </div>
+                {(['owner', 'tenant'] as const).map((who) => (
+                  <div key={who} className="form-field">
+                    <label>{who === 'owner' ? 'Owner' : 'Tenant'}</label>
+                    <input placeholder="Name" aria-label={`${who} name`} value={unitForm[`${who}Name`]}
+                      onChange={(e) => setUnitForm({ ...unitForm, [`${who}Name`]: e.target.value })} />
+                    <input type="email" placeholder="Email" aria-label={`${who} email`} value={unitForm[`${who}Email`]}
+                      onChange={(e) => setUnitForm({ ...unitForm, [`${who}Email`]: e.target.value })} />
+                    <input type="tel" placeholder="Phone" aria-label={`${who} phone`} value={unitForm[`${who}Phone`]}
+                      onChange={(e) => setUnitForm({ ...unitForm, [`${who}Phone`]: e.target.value })} />
+                  </div>
+                ))}
+                <button className="btn-sm btn-blue" type="submit">Add Unit</button>
+              </form>
+            </div>
+          </>
+        )}
+      </div>
 
       {canManageSettings && (
         <>
           {/* ── Notification Recipients ── */}
           <div className="admin-section">
             <h3>Notification Recipients</h3>
-            <p className="admin-section-desc">Configure who receives email notifications for booking events.</p>
+            <p className="admin-section-desc">Configure who receives email and text message notifications for booking events.</p>
 
             {recipients.length === 0
               ? <p className="admin-section-desc" style={{ fontStyle: 'italic' }}>No recipients configured yet.</p>
@@ -1204,6 +2085,7 @@ export function AdminPage() {
                     <div>
                       <div className="recipient-name">{r.name || r.email}</div>
                       {r.name && <div className="recipient-email">{r.email}</div>}
+                      {r.phone && <div className="recipient-email">{r.phone}</div>}
                     </div>
                     <div className="recipient-actions">
                       <button className={`btn-sm ${r.enabled ? 'btn-toggle-on' : 'btn-toggle-off'}`}
@@ -1215,9 +2097,28 @@ export function AdminPage() {
                   </div>
                   <div className="recipient-events">
                     <strong>Notify on:</strong>{' '}
-                    {r.notifyOn?.length > 0
-                      ? r.notifyOn.map((ev: string) => ({ APPROVED: 'Approvals', REJECTED: 'Rejections', SUBMITTED: 'Submissions' }[ev] || ev)).join(', ')
-                      : 'No events selected'}
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 16px', marginTop: 6 }}>
+                      {NOTIFY_EVENT_OPTIONS.map(([val, label]) => (
+                        <label key={val} className="checkbox-label">
+                          <input type="checkbox" checked={r.notifyOn?.includes(val)}
+                            onChange={() => toggleRecipientNotifyEvent(r, val)} />
+                          <span>{label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="recipient-events">
+                    <strong>Send by:</strong>{' '}
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 16px', marginTop: 6 }}>
+                      {CHANNEL_OPTIONS.map(([val, label]) => (
+                        <label key={val} className="checkbox-label">
+                          <input type="checkbox" checked={r.channels?.includes(val)}
+                            disabled={val === 'SMS' && !r.phone}
+                            onChange={() => toggleRecipientChannel(r, val)} />
+                          <span>{label}</span>
+                        </label>
+                      ))}
+                    </div>
                   </div>
                 </div>
               ))
@@ -1236,10 +2137,27 @@ export function AdminPage() {
                   <input id="recipient-email" type="email" placeholder="john@example.com" value={recipientForm.email}
                     onChange={(e) => setRecipientForm({ ...recipientForm, email: e.target.value })} required />
                 </div>
+                <div className="form-field">
+                  <label htmlFor="recipient-phone">Mobile Phone (for text messages)</label>
+                  <input id="recipient-phone" type="tel" placeholder="e.g. 604-555-1234" value={recipientForm.phone}
+                    onChange={(e) => setRecipientForm({ ...recipientForm, phone: e.target.value })} />
+                </div>
+                <div className="form-field">
+                  <label>Send by:</label>
+                  <div style={{ display: 'flex', gap: '16px', marginTop: '8px' }}>
+                    {CHANNEL_OPTIONS.map(([val, label]) => (
+                      <label key={val} className="checkbox-label">
+                        <input type="checkbox" checked={recipientForm.channels?.includes(val)}
+                          onChange={() => toggleRecipientFormChannel(val)} />
+                        <span>{label}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
                 <div className="form-field">
                   <label>Notify on events:</label>
                   <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginTop: '8px' }}>
-                    {[['SUBMITTED', 'New Submissions'], ['APPROVED', 'Approvals'], ['REJECTED', 'Rejections']].map(([val, label]) => (
+                    {NOTIFY_EVENT_OPTIONS.map(([val, label]) => (
                       <label key={val} className="checkbox-label">
                         <input type="checkbox" checked={recipientForm.notifyOn?.includes(val)}
                           onChange={() => toggleRecipientEvent(val)} />
@@ -1253,6 +2171,431 @@ export function AdminPage() {
             </div>
           </div>
 
+          {/* ── Email Templates ── */}
+          <div className="admin-section">
+            <h3>Email Templates</h3>
+            <p className="admin-section-desc">Wording of the emails sent to residents. The booking details table and manage link are always added below the intro.</p>
+
+            <div className="form-field" style={{ maxWidth: '360px' }}>
+              <label htmlFor="template-key">Template</label>
+              <select id="template-key" value={templateForm.key} onChange={(e) => selectEmailTemplate(e.target.value)}>
+                <option value="">Select a template…</option>
+                {emailTemplates.map((t) => (
+                  <option key={t.key} value={t.key}>{t.label}{t.isCustom ? ' (customised)' : ''}</option>
+                ))}
+              </select>
+            </div>
+
+            {templateForm.key && (
+              <div className="admin-form-card">
+                <form onSubmit={saveEmailTemplate}>
+                  <div className="form-field">
+                    <label htmlFor="template-subject" className="required">Subject</label>
+                    <input id="template-subject" value={templateForm.subject} maxLength={200} required
+                      onChange={(e) => setTemplateForm({ ...templateForm, subject: e.target.value })} />
+                  </div>
+                  <div className="form-field">
+                    <label htmlFor="template-title" className="required">Heading</label>
+                    <input id="template-title" value={templateForm.title} maxLength={200} required
+                      onChange={(e) => setTemplateForm({ ...templateForm, title: e.target.value })} />
+                  </div>
+                  <div className="form-field">
+                    <label htmlFor="template-intro" className="required">Intro</label>
+                    <textarea id="template-intro" rows={4} value={templateForm.intro} required
+                      onChange={(e) => setTemplateForm({ ...templateForm, intro: e.target.value })} />
+                  </div>
+                  <div className="form-field">
+                    <label htmlFor="template-footer">Footer</label>
+                    <textarea id="template-footer" rows={2} value={templateForm.footer}
+                      onChange={(e) => setTemplateForm({ ...templateForm, footer: e.target.value })} />
+                    <small>
+                      Placeholders: {templateVariables.map((v) => <code key={v} style={{ marginRight: 6 }}>{`{{${v}}}`}</code>)}
+                    </small>
+                  </div>
+                  <div style={{ display: 'flex', gap: 8 }}>
+                    <button className="btn-sm btn-blue" type="submit">Save Template</button>
+                    {emailTemplates.find((t) => t.key === templateForm.key)?.isCustom && (
+                      <button className="btn-sm btn-slate" type="button" onClick={resetEmailTemplate}>Reset to Default</button>
+                    )}
+                  </div>
+                </form>
+
+                <h4 style={{ marginTop: 16 }}>Preview</h4>
+                {templatePreview
+                  ? (
+                    <>
+                      <p className="admin-section-desc"><strong>Subject:</strong> {templatePreview.subject}</p>
+                      <iframe title="Email preview" srcDoc={templatePreview.html} sandbox=""
+                        style={{ width: '100%', height: 480, border: '1px solid #e2e8f0', borderRadius: 6, background: '#fff' }} />
+                    </>
+                  )
+                  : <p className="admin-section-desc" style={{ fontStyle: 'italic' }}>Fill in the required fields to see a preview.</p>}
+              </div>
+            )}
+          </div>
+
+          {/* ── Building Rules ── */}
+          <div className="admin-section">
+            <h3>Building Rules</h3>
+            <p className="admin-section-desc">Permitted booking windows per move type and day. Residents and the booking validator use these rules directly.</p>
+
+            <div className="form-field" style={{ maxWidth: '280px' }}>
+              <label htmlFor="slot-rule-type">Move type</label>
+              <select id="slot-rule-type" value={slotRuleForm.moveType}
+                onChange={(e) => { setEditingSlotRuleId(null); setSlotRuleForm({ ...emptySlotRule, moveType: e.target.value }); }}>
+                {MOVE_TYPE_OPTIONS.map(([val, label]) => <option key={val} value={val}>{label}</option>)}
+              </select>
+            </div>
+
+            {rulesFor(slotRules, slotRuleForm.moveType).length === 0
+              ? <p className="admin-section-desc" style={{ fontStyle: 'italic' }}>No windows configured — this move type cannot be booked.</p>
+              : rulesFor(slotRules, slotRuleForm.moveType).map((rule) => (
+                <div key={rule.id} className={`admin-card ${editingSlotRuleId === rule.id ? 'editing' : ''}`}>
+                  <div className="recipient-row">
+                    <div>
+                      <div className="recipient-name">{DAY_NAMES[rule.dayOfWeek]} · {minsToLabel(rule.windowStart)} – {minsToLabel(rule.windowEnd)}</div>
+                      <div className="recipient-email">
+                        {rule.durationMins
+                          ? `${rule.durationMins}-minute bookings every ${rule.blockMins ?? rule.durationMins} minutes`
+                          : 'Booking must fit within the window'}
+                      </div>
+                    </div>
+                    <div className="recipient-actions">
+                      <button className="btn-sm btn-blue" type="button" onClick={() => startEditSlotRule(rule)}>Edit</button>
+                      <button className="btn-sm btn-red" type="button" onClick={() => deleteSlotRule(rule)}>Delete</button>
+                    </div>
+                  </div>
+                </div>
+              ))
+            }
+
+            <div className="admin-form-card">
+              <h4>{editingSlotRuleId ? 'Edit Window' : 'Add Window'}</h4>
+              <form onSubmit={saveSlotRule}>
+                <div className="form-field">
+                  <label htmlFor="slot-rule-day" className="required">Day</label>
+                  <select id="slot-rule-day" value={slotRuleForm.dayOfWeek}
+                    onChange={(e) => setSlotRuleForm({ ...slotRuleForm, dayOfWeek: Number(e.target.value) })}>
+                    {DAY_NAMES.map((name, dow) => <option key={dow} value={dow}>{name}</option>)}
+                  </select>
+                </div>
+                <div className="form-field">
+                  <label htmlFor="slot-rule-start" className="required">Window start</label>
+                  <input id="slot-rule-start" type="time" value={slotRuleForm.windowStart}
+                    onChange={(e) => setSlotRuleForm({ ...slotRuleForm, windowStart: e.target.value })} required />
+                </div>
+                <div className="form-field">
+                  <label htmlFor="slot-rule-end" className="required">Window end</label>
+                  <input id="slot-rule-end" type="time" value={slotRuleForm.windowEnd}
+                    onChange={(e) => setSlotRuleForm({ ...slotRuleForm, windowEnd: e.target.value })} required />
+                </div>
+                <div className="form-field">
+                  <label htmlFor="slot-rule-duration">Fixed duration (minutes)</label>
+                  <input id="slot-rule-duration" type="number" min={1} placeholder="Leave blank to book the whole window" value={slotRuleForm.durationMins}
+                    onChange={(e) => setSlotRuleForm({ ...slotRuleForm, durationMins: e.target.value })} />
+                </div>
+                <div className="form-field">
+                  <label htmlFor="slot-rule-block">Start every (minutes)</label>
+                  <input id="slot-rule-block" type="number" min={1} placeholder="Defaults to the duration" value={slotRuleForm.blockMins}
+                    onChange={(e) => setSlotRuleForm({ ...slotRuleForm, blockMins: e.target.value })} />
+                  <small>Only used when a fixed duration is set</small>
+                </div>
+                <div className="user-edit-actions">
+                  <button className="btn-sm btn-green" type="submit">{editingSlotRuleId ? 'Save Changes' : 'Add Window'}</button>
+                  {editingSlotRuleId && <button className="btn-sm btn-slate" type="button" onClick={cancelEditSlotRule}>Cancel</button>}
+                </div>
+              </form>
+            </div>
+          </div>
+
+          {/* ── Blackout Dates ── */}
+          <div className="admin-section">
+            <h3>Blackout Dates</h3>
+            <p className="admin-section-desc">Building closures such as elevator maintenance, fire alarm testing or the strata AGM. Statutory holidays are blocked automatically.</p>
+
+            {blackoutDates.length === 0
+              ? <p className="admin-section-desc" style={{ fontStyle: 'italic' }}>No blackout dates configured.</p>
+              : blackoutDates.map((bd) => {
+                const date = String(bd.date).slice(0, 10);
+                return (
+                  <div key={bd.id} className="admin-card">
+                    <div className="recipient-row">
+                      <div>
+                        <div className="recipient-name">{new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}</div>
+                        <div className="recipient-email">{bd.reason}</div>
+                      </div>
+                      <div className="recipient-actions">
+                        <button className="btn-sm btn-red" type="button" onClick={() => deleteBlackoutDate(bd.id, date)}>Remove</button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })
+            }
+
+            <div className="recipient-events" style={{ marginBottom: '16px' }}>
+              <strong>Upcoming statutory holidays:</strong>{' '}
+              {closedDates.filter((c) => c.kind === 'HOLIDAY').slice(0, 4).map((c) => `${c.name} (${c.date})`).join(', ') || 'None in the next year'}
+            </div>
+
+            <div className="admin-form-card">
+              <h4>Add Blackout Date</h4>
+              <form onSubmit={createBlackoutDate}>
+                <div className="form-field">
+                  <label htmlFor="blackout-date" className="required">Date</label>
+                  <input id="blackout-date" type="date" value={blackoutForm.date}
+                    onChange={(e) => setBlackoutForm({ ...blackoutForm, date: e.target.value })} required />
+                </div>
+                <div className="form-field">
+                  <label htmlFor="blackout-reason" className="required">Reason</label>
+                  <input id="blackout-reason" placeholder="e.g. Elevator maintenance" maxLength={200} value={blackoutForm.reason}
+                    onChange={(e) => setBlackoutForm({ ...blackoutForm, reason: e.target.value })} required />
+                </div>
+                <button className="btn-sm btn-blue" type="submit">Add Blackout Date</button>
+              </form>
+            </div>
+          </div>
+
+          {/* ── Fees & Deposits ── */}
+          <div className="admin-section">
+            <h3>Fees &amp; Deposits</h3>
+            <p className="admin-section-desc">Charged per move type when a booking is made. The after-hours surcharge applies to bookings before 8am, after 5pm or on a weekend. Changes apply to new bookings; use Recalculate on a booking to re-price it.</p>
+            {MOVE_TYPE_OPTIONS.map(([moveType, label]) => {
+              const fee = feeSchedules.find((f) => f.moveType === moveType);
+              return (
+                <div key={`${moveType}-${fee?.updatedAt ?? 'unset'}`} className="admin-card">
+                  <form className="recipient-row" onSubmit={(e) => saveFeeSchedule(e, moveType)}>
+                    <div className="recipient-name" style={{ minWidth: '120px' }}>{label}</div>
+                    <label>Move fee ($) <input name="moveFee" type="number" min={0} step="0.01" style={{ width: '96px' }}
+                      defaultValue={fee ? centsToDollars(fee.moveFeeCents) : ''} placeholder="0.00" /></label>
+                    <label>Deposit ($) <input name="deposit" type="number" min={0} step="0.01" style={{ width: '96px' }}
+                      defaultValue={fee ? centsToDollars(fee.depositCents) : ''} placeholder="0.00" /></label>
+                    <label>After-hours ($) <input name="surcharge" type="number" min={0} step="0.01" style={{ width: '96px' }}
+                      defaultValue={fee ? centsToDollars(fee.afterHoursSurchargeCents) : ''} placeholder="0.00" /></label>
+                    <button className="btn-sm btn-blue" type="submit">Save</button>
+                  </form>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* ── Resources ── */}
+          <div className="admin-section">
+            <h3>Elevators &amp; Loading Bays</h3>
+            <p className="admin-section-desc">Bookable building resources. Capacity is how many bookings may hold a resource at the same time; bookings that need an elevator or loading bay are assigned one with room.</p>
+
+            {resources.length === 0
+              ? <p className="admin-section-desc" style={{ fontStyle: 'italic' }}>No resources configured — elevator and loading bay requests are not capacity-checked.</p>
+              : resources.map((r) => (
+                <div key={r.id} className="admin-card">
+                  <div className="recipient-row">
+                    <div>
+                      <div className="recipient-name">{r.name}</div>
+                      <div className="recipient-email">{RESOURCE_TYPE_LABELS[r.type] ?? r.type} · capacity {r.capacity}</div>
+                    </div>
+                    <div className="recipient-actions">
+                      <input type="number" min={1} max={50} defaultValue={r.capacity} style={{ width: '64px' }} aria-label={`${r.name} capacity`}
+                        onBlur={(e) => { const capacity = Number(e.target.value); if (capacity >= 1 && capacity !== r.capacity) updateResource(r.id, { capacity }); }} />
+                      <button className={`btn-sm ${r.active ? 'btn-toggle-on' : 'btn-toggle-off'}`}
+                        type="button" onClick={() => updateResource(r.id, { active: !r.active })}>
+                        {r.active ? 'Active' : 'Inactive'}
+                      </button>
+                      <button className="btn-sm btn-red" type="button" onClick={() => deleteResource(r.id, r.name)}>Delete</button>
+                    </div>
+                  </div>
+                </div>
+              ))
+            }
+
+            <div className="admin-form-card">
+              <h4>Add Resource</h4>
+              <form onSubmit={createResource}>
+                <div className="form-field">
+                  <label htmlFor="resource-name" className="required">Name</label>
+                  <input id="resource-name" placeholder="e.g. Tower A Freight Elevator" value={resourceForm.name}
+                    onChange={(e) => setResourceForm({ ...resourceForm, name: e.target.value })} required />
+                </div>
+                <div className="form-field">
+                  <label htmlFor="resource-type" className="required">Type</label>
+                  <select id="resource-type" value={resourceForm.type}
+                    onChange={(e) => setResourceForm({ ...resourceForm, type: e.target.value })}>
+                    {Object.entries(RESOURCE_TYPE_LABELS).map(([val, label]) => <option key={val} value={val}>{label}</option>)}
+                  </select>
+                </div>
+                <div className="form-field">
+                  <label htmlFor="resource-capacity" className="required">Capacity</label>
+                  <input id="resource-capacity" type="number" min={1} max={50} value={resourceForm.capacity}
+                    onChange={(e) => setResourceForm({ ...resourceForm, capacity: e.target.value })} required />
+                </div>
+                <button className="btn-sm btn-blue" type="submit">Add Resource</button>
+              </form>
+            </div>
+          </div>
+
+          {/* ── Buildings ── */}
+          {role === 'PROPERTY_MANAGER' && (
+            <div className="admin-section">
+              <h3>Buildings</h3>
+              <p className="admin-section-desc">Each building has its own bookings, slot rules, resources, recipients and email settings. The unit prefix (e.g. T4 for unit T4-1105) routes Invoice Ninja payments to the right building.</p>
+
+              {buildings.map((bl) => (
+                <div key={bl.id} className="admin-card">
+                  <div className="recipient-row">
+                    <div>
+                      <div className="recipient-name">{bl.name}</div>
+                      <div className="recipient-email">/{bl.slug}{bl.unitPrefix ? ` · units ${bl.unitPrefix}-…` : ''}</div>
+                    </div>
+                    <div className="recipient-actions">
+                      <input defaultValue={bl.name} aria-label={`${bl.name} name`}
+                        onBlur={(e) => { const name = e.target.value.trim(); if (name && name !== bl.name) updateBuilding(bl.id, { name }); }} />
+                      <input defaultValue={bl.unitPrefix ?? ''} placeholder="Prefix" style={{ width: '72px' }} aria-label={`${bl.name} unit prefix`}
+                        onBlur={(e) => { const unitPrefix = e.target.value.trim() || null; if (unitPrefix !== bl.unitPrefix) updateBuilding(bl.id, { unitPrefix }); }} />
+                      <input type="url" defaultValue={bl.logoUrl ?? ''} placeholder="Logo URL" aria-label={`${bl.name} logo URL`}
+                        onBlur={(e) => { const logoUrl = e.target.value.trim() || null; if (logoUrl !== bl.logoUrl) updateBuilding(bl.id, { logoUrl }); }} />
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+              <div className="admin-form-card">
+                <h4>Add Building</h4>
+                <form onSubmit={createBuilding}>
+                  <div className="form-field">
+                    <label htmlFor="building-name" className="required">Name</label>
+                    <input id="building-name" placeholder="e.g. Tower B" value={buildingForm.name}
+                      onChange={(e) => setBuildingForm({ ...buildingForm, name: e.target.value })} required />
+                  </div>
+                  <div className="form-field">
+                    <label htmlFor="building-slug" className="required">Slug</label>
+                    <input id="building-slug" placeholder="e.g. tower-b" value={buildingForm.slug} pattern="[a-z0-9]+(-[a-z0-9]+)*"
+                      onChange={(e) => setBuildingForm({ ...buildingForm, slug: e.target.value.toLowerCase() })} required />
+                    <small>Used in links such as /tv?building=tower-b</small>
+                  </div>
+                  <div className="form-field">
+                    <label htmlFor="building-prefix">Unit Prefix</label>
+                    <input id="building-prefix" placeholder="e.g. TB" value={buildingForm.unitPrefix}
+                      onChange={(e) => setBuildingForm({ ...buildingForm, unitPrefix: e.target.value })} />
+                  </div>
+                  <div className="form-field">
+                    <label htmlFor="building-logo">Logo URL</label>
+                    <input id="building-logo" type="url" placeholder="https://…" value={buildingForm.logoUrl}
+                      onChange={(e) => setBuildingForm({ ...buildingForm, logoUrl: e.target.value })} />
+                  </div>
+                  <button className="btn-sm btn-blue" type="submit">Add Building</button>
+                </form>
+              </div>
+            </div>
+          )}
+
+          {/* ── Background Jobs ── */}
+          {role === 'PROPERTY_MANAGER' && jobs && (
+            <div className="admin-section">
+              <h3>Background Jobs</h3>
+              <p className="admin-section-desc">Scheduled tasks shared by every building. Only one server runs each job at a time; failures are kept here instead of only in the server log.</p>
+
+              {jobs.length === 0
+                ? <p className="admin-section-desc" style={{ fontStyle: 'italic' }}>No jobs registered.</p>
+                : jobs.map((job) => (
+                  <div key={job.name} className="admin-card">
+                    <div className="recipient-row">
+                      <div>
+                        <div className="recipient-name">
+                          {job.name}{' '}
+                          <span className="booking-tag">{job.running ? 'Running' : job.lastStatus === 'FAILED' ? 'Failed' : job.lastStatus === 'SUCCEEDED' ? 'OK' : 'Not run yet'}</span>
+                        </div>
+                        <div className="recipient-email">{job.description}</div>
+                        <div className="recipient-email">
+                          Every {Math.round(job.intervalMs / 60000)} min
+                          {job.lastRunAt ? ` · last run ${new Date(job.lastRunAt).toLocaleString()}` : ''}
+                          {` · next run ${new Date(job.nextRunAt).toLocaleString()}`}
+                        </div>
+                        {job.lastError && (
+                          <div className="error-message" style={{ marginTop: '4px' }}>
+                            Last error{job.lastErrorAt ? ` (${new Date(job.lastErrorAt).toLocaleString()})` : ''}: {job.lastError}
+                          </div>
+                        )}
+                      </div>
+                      <div className="recipient-actions">
+                        <button className="btn-sm btn-blue" disabled={job.running} onClick={() => runJobNow(job.name)}>Run Now</button>
+                        <button className="btn-sm btn-slate" onClick={() => setExpandedJobName(expandedJobName === job.name ? null : job.name)}>
+                          {expandedJobName === job.name ? 'Hide History' : 'History'}
+                        </button>
+                      </div>
+                    </div>
+                    {expandedJobName === job.name && (
+                      job.runs.length === 0
+                        ? <p className="admin-section-desc" style={{ fontStyle: 'italic' }}>No runs recorded.</p>
+                        : <ul style={{ margin: '8px 0 0', paddingLeft: '18px', fontSize: '0.8rem', color: '#475569' }}>
+                          {job.runs.map((run: any) => (
+                            <li key={run.id}>
+                              {new Date(run.startedAt).toLocaleString()} · {run.trigger} · {run.status.toLowerCase()}
+                              {run.durationMs != null ? ` · ${(run.durationMs / 1000).toFixed(1)}s` : ''}
+                              {run.error ? ` · ${run.error}` : ''}
+                            </li>
+                          ))}
+                        </ul>
+                    )}
+                  </div>
+                ))}
+            </div>
+          )}
+
+          {/* ── Audit Log ── */}
+          <div className="admin-section">
+            <h3>Audit Log</h3>
+            <p className="admin-section-desc">Every change made in this building by staff, residents, scheduled jobs and payment integrations, newest first, with the address and browser it came from.</p>
+            <div className="audit-filters">
+              <div className="form-field">
+                <label htmlFor="audit-action">Action</label>
+                <select id="audit-action" value={auditFilter.action} onChange={(e) => setAuditFilter({ ...auditFilter, action: e.target.value })}>
+                  <option value="">All actions</option>
+                  {auditActions.map((a) => <option key={a} value={a}>{auditActionLabel(a)}</option>)}
+                </select>
+              </div>
+              <div className="form-field">
+                <label htmlFor="audit-actor">Made By</label>
+                <select id="audit-actor" value={auditFilter.actorType} onChange={(e) => setAuditFilter({ ...auditFilter, actorType: e.target.value })}>
+                  <option value="">Anyone</option>
+                  {AUDIT_ACTOR_OPTIONS.map(([val, label]) => <option key={val} value={val}>{label}</option>)}
+                </select>
+              </div>
+              <div className="form-field">
+                <label htmlFor="audit-from">From</label>
+                <input id="audit-from" type="date" value={auditFilter.from} onChange={(e) => setAuditFilter({ ...auditFilter, from: e.target.value })} />
+              </div>
+              <div className="form-field">
+                <label htmlFor="audit-to">To</label>
+                <input id="audit-to" type="date" value={auditFilter.to} onChange={(e) => setAuditFilter({ ...auditFilter, to: e.target.value })} />
+              </div>
+              <button className="btn-sm btn-blue" type="button" onClick={() => loadAudit()}>Filter</button>
+            </div>
+
+            {auditEntries.length === 0
+              ? <p className="admin-section-desc" style={{ fontStyle: 'italic' }}>No audit entries match.</p>
+              : auditEntries.map((entry) => (
+                <div key={entry.id} className="admin-card">
+                  <div className="recipient-name">
+                    {auditActionLabel(entry.action)}{' '}
+                    <span className="booking-tag">{auditActorName(entry)}</span>
+                  </div>
+                  <div className="recipient-email">
+                    {new Date(entry.timestamp).toLocaleString()}
+                    {entry.booking ? ` · Unit ${entry.booking.unit} · ${entry.booking.residentName}` : ''}
+                    {entry.ip ? ` · ${entry.ip}` : ''}
+                  </div>
+                  {entry.userAgent && <div className="recipient-email" style={{ fontSize: '0.75rem' }}>{entry.userAgent}</div>}
+                  {auditDetails(entry.metadataJson).length > 0 && (
+                    <ul style={{ margin: '6px 0 0', paddingLeft: '18px', fontSize: '0.8rem', color: '#475569' }}>
+                      {auditDetails(entry.metadataJson).map((line) => <li key={line}>{line}</li>)}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            {auditCursor && (
+              <button className="btn-sm btn-slate" type="button" onClick={() => loadAudit(auditCursor)}>Load More</button>
+            )}
+          </div>
+
           {/* ── User Management ── */}
           <div className="admin-section">
             <h3>User Management</h3>
@@ -1281,6 +2624,14 @@ export function AdminPage() {
                           <option value="PROPERTY_MANAGER">Property Manager</option>
                         </select>
                       </div>
+                      {buildings.length > 1 && (
+                        <div className="form-field"><label>Building</label>
+                          <select value={userForm.buildingId} onChange={(e) => setUserForm({ ...userForm, buildingId: e.target.value })}>
+                            <option value="">All buildings</option>
+                            {buildings.map((bl) => <option key={bl.id} value={bl.id}>{bl.name}</option>)}
+                          </select>
+                        </div>
+                      )}
                       <div className="form-field">
                         <label className="checkbox-label">
                           <input type="checkbox" checked={userForm.mustChangePassword}
@@ -1309,6 +2660,9 @@ export function AdminPage() {
                         <span className={`role-badge ${u.role === 'CONCIERGE' ? 'standard' : 'elevated'}`}>
                           {ROLE_LABELS[u.role] || u.role}
                         </span>
+                        {buildings.length > 1 && (
+                          <span className="role-badge standard">{buildings.find((bl) => bl.id === u.buildingId)?.name ?? 'All buildings'}</span>
+                        )}
                         {u.mustChangePassword && (
                           <span className="role-badge" style={{ background: '#f59e0b' }}>Must Change Password</span>
                         )}
@@ -1353,6 +2707,14 @@ export function AdminPage() {
                     {userForm.role === 'PROPERTY_MANAGER' && 'Can manage everything including settings and users'}
                   </small>
                 </div>
+                {buildings.length > 1 && (
+                  <div className="form-field"><label htmlFor="user-building">Building</label>
+                    <select id="user-building" value={userForm.buildingId} onChange={(e) => setUserForm({ ...userForm, buildingId: e.target.value })}>
+                      <option value="">All buildings</option>
+                      {buildings.map((bl) => <option key={bl.id} value={bl.id}>{bl.name}</option>)}
+                    </select>
+                  </div>
+                )}
                 <button className="btn-sm btn-green" type="submit">Create User</button>
               </form>
             </div>
@@ -1364,8 +2726,10 @@ export function AdminPage() {
             <div className="admin-form-card">
               <form onSubmit={saveSettings}>
                 <p style={{ margin: '0 0 12px', color: '#475569', fontSize: '0.9rem' }}>
-                  When enabled, MoveCal polls Invoice Ninja every 5 minutes for paid invoices and automatically approves matching move bookings.
+                  When enabled, paid Invoice Ninja invoices automatically approve matching move bookings.
                   Requires <code>INVOICE_NINJA_URL</code> and <code>INVOICE_NINJA_API_TOKEN</code> to be set in your environment variables.
+                  Payments arrive instantly through the <code>/api/integrations/invoice-ninja/webhook</code> endpoint when <code>INVOICE_NINJA_WEBHOOK_SECRET</code> is set; otherwise MoveCal polls every 5 minutes.
+                  Other accounting systems can be connected with <code>PAYMENT_PROVIDER=webhook</code>, which accepts signed payment notifications instead of polling.
                 </p>
                 <label className="checkbox-label">
                   <input
@@ -1373,7 +2737,7 @@ export function AdminPage() {
                     checked={!!settings.invoiceNinjaEnabled}
                     onChange={e => setSettings({ ...settings, invoiceNinjaEnabled: e.target.checked })}
                   />
-                  Enable Invoice Ninja payment polling
+                  Enable Invoice Ninja payment matching
                 </label>
                 <div style={{ marginTop: '12px' }}>
                   <button className="btn-sm btn-blue" type="submit">Save</button>
@@ -1408,6 +2772,38 @@ export function AdminPage() {
             </div>
           </div>
 
+          {/* ── Move Reminders ── */}
+          <div className="admin-section">
+            <h3>Move Reminder Emails</h3>
+            <div className="admin-form-card">
+              <form onSubmit={saveSettings}>
+                <p style={{ margin: '0 0 12px', color: '#475569', fontSize: '0.9rem' }}>
+                  When enabled, residents with approved bookings are emailed 48 hours and again 2 hours before their start time,
+                  with the building rules below and a link to manage the booking. Recipients subscribed to Daily Digests get a
+                  list of the day's moves, elevator reservations and loading bay use each morning at 7am.
+                </p>
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={!!settings.reminderEnabled}
+                    onChange={e => setSettings({ ...settings, reminderEnabled: e.target.checked })}
+                  />
+                  Send pre-move reminder emails
+                </label>
+                <div className="form-field" style={{ marginTop: '12px' }}>
+                  <label htmlFor="move-rules">Building rules</label>
+                  <textarea id="move-rules" rows={5} maxLength={5000} value={settings.moveRules ?? ''}
+                    placeholder="e.g. Protect elevator walls with pads before loading"
+                    onChange={e => setSettings({ ...settings, moveRules: e.target.value || null })} />
+                  <small>One rule per line. Included in reminder emails.</small>
+                </div>
+                <div style={{ marginTop: '12px' }}>
+                  <button className="btn-sm btn-blue" type="submit">Save</button>
+                </div>
+              </form>
+            </div>
+          </div>
+
           {/* ── SMTP Settings ── */}
           <div className="admin-section">
             <h3>SMTP Settings</h3>
@@ -1437,7 +2833,7 @@ export function AdminPage() {
                 </div>
                 <div className="form-field">
                   <label htmlFor="from-name">From Name</label>
-                  <input id="from-name" placeholder="Spectrum 4" value={settings.fromName ?? ''}
+                  <input id="from-name" placeholder={currentBuilding?.name ?? 'Building name'} value={settings.fromName ?? ''}
                     onChange={(e) => setSettings({ ...settings, fromName: e.target.value })} />
                 </div>
                 <div className="form-field">
@@ -2,6 +2,7 @@ import { useCallback, useEffect, useState } from 'react';
 import { Link, useParams, useSearchParams } from 'react-router-dom';
 import dayjs from 'dayjs';
 import { api } from '../api';
+import { FeeSummary, formatCents } from '../money';
 import '../styles/resident.css';
 
 type Booking = {
@@ -19,6 +20,8 @@ type Booking = {
   loadingBayRequired: boolean;
   notes: string | null;
   status: string;
+  fees: FeeSummary;
+  payUrl: string | null;
 };
 
 const MOVE_TYPE_LABELS: Record<string, string> = {
@@ -124,6 +127,40 @@ export function BookingConfirmationPage() {
           </table>
         </fieldset>
 
+        {booking.fees.amountDueCents > 0 && (
+          <fieldset className="form-group">
+            <legend className="form-group-legend">Fees</legend>
+            <table style={{ borderCollapse: 'collapse', fontFamily: 'Arial, sans-serif', fontSize: '0.9375rem', width: '100%' }}>
+              <tbody>
+                {[
+                  ['Move fee', booking.fees.moveFeeCents],
+                  ['Refundable damage deposit', booking.fees.depositCents],
+                  ['After-hours surcharge', booking.fees.afterHoursSurchargeCents],
+                  ['Total due', booking.fees.amountDueCents],
+                  ['Paid', booking.fees.amountPaidCents],
+                ].filter(([label, cents]) => cents !== 0 || label === 'Total due' || label === 'Paid').map(([label, cents]) => (
+                  <tr key={label}>
+                    <td style={{ padding: '6px 12px 6px 0', color: '#555', whiteSpace: 'nowrap', verticalAlign: 'top', fontWeight: 600 }}>{label}</td>
+                    <td style={{ padding: '6px 0', color: '#111', textAlign: 'right' }}>{formatCents(cents as number)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {booking.fees.balanceCents > 0 && (
+              <p style={{ fontSize: '0.875rem', color: '#b45309', margin: '8px 0 0', lineHeight: 1.5 }}>
+                {formatCents(booking.fees.balanceCents)} is still owing. Your booking is approved once payment is received.
+              </p>
+            )}
+            {booking.fees.balanceCents > 0 && booking.payUrl && (
+              <a href={booking.payUrl} target="_blank" rel="noopener noreferrer" style={{ textDecoration: 'none' }}>
+                <button type="button" className="btn-full" style={{ marginTop: 12, background: '#166534' }}>
+                  Pay Invoice Online
+                </button>
+              </a>
+            )}
+          </fieldset>
+        )}
+
         <p style={{ fontSize: '0.875rem', color: '#555', marginBottom: 16, lineHeight: 1.5 }}>
           You'll receive an email once your booking is reviewed. You can also check the status or make changes anytime.
         </p>
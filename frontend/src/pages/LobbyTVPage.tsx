@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import dayjs from 'dayjs';
 import { api } from '../api';
+import { BuildingInfo, fetchBuilding } from '../building';
 import '../styles/lobby-tv.css';
 
 type PublicBooking = {
@@ -45,6 +46,11 @@ function getBookingStatus(booking: PublicBooking, now: Date): 'completed' | 'act
 export function LobbyTVPage() {
   const [bookings, setBookings] = useState<PublicBooking[]>([]);
   const [now, setNow] = useState(new Date());
+  const [building, setBuilding] = useState<BuildingInfo | null>(null);
+
+  useEffect(() => {
+    fetchBuilding().then(setBuilding).catch(() => setBuilding(null));
+  }, []);
 
   // Update clock every second
   useEffect(() => {
@@ -91,12 +97,17 @@ export function LobbyTVPage() {
     return d.isAfter(dayjs().startOf('day')) && d.isBefore(dayjs().endOf('day'));
   };
 
+  // Last word of the building name is highlighted, e.g. "Spectrum <span>4</span>"
+  const nameWords = (building?.name ?? '').split(' ');
+  const nameLead = nameWords.slice(0, -1).join(' ');
+  const nameLast = nameWords[nameWords.length - 1];
+
   return (
     <div className="tv-root">
       {/* ── Header ── */}
       <header className="tv-header">
         <div className="tv-building">
-          Spectrum <span>4</span>
+          {nameLead} <span>{nameLast}</span>
         </div>
         <div className="tv-clock-block">
           <div className="tv-time">{dayjs(now).format('h:mm:ss A')}</div>
@@ -166,7 +177,7 @@ export function LobbyTVPage() {
       {/* ── Footer ── */}
       <footer className="tv-footer">
         <span>Approved reservations only · updated every 60 s</span>
-        <span>Spectrum 4 Move Booking System</span>
+        <span>{building ? `${building.name} ` : ''}Move Booking System</span>
       </footer>
     </div>
   );
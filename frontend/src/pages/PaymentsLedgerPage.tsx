@@ -1,11 +1,19 @@
 import { FormEvent, useEffect, useState } from 'react';
 import axios from 'axios';
-import { api, setToken } from '../api';
+import { api, downloadFile, setToken } from '../api';
 import dayjs from 'dayjs';
+import { FeeSummary, formatCents } from '../money';
 import '../styles/payments.css';
 
 type UserRole = 'CONCIERGE' | 'COUNCIL' | 'PROPERTY_MANAGER';
 
+const LEDGER_EXPORT_OPTIONS: [string, string][] = [
+  ['invoice_id', 'Invoice ID'], ['client_id', 'Client ID'], ['paid_at', 'Paid At'], ['billing_period', 'Billing Period'],
+  ['fee_type', 'Fee Type'], ['unit', 'Unit'], ['amount', 'Amount'], ['status', 'Status'], ['booking_id', 'Booking'],
+  ['dismissed_reason', 'Dismissed Reason'],
+];
+const LEDGER_EXPORT_STATUSES: [string, string][] = [['matched', 'Matched'], ['unmatched', 'Unmatched'], ['dismissed', 'Dismissed']];
+
 function decodeRoleFromToken(token?: string): UserRole | null {
   if (!token) return null;
   const parts = token.split('.');
@@ -25,12 +33,22 @@ interface Payment {
   billingPeriod: string;
   feeType: string;
   unit: string | null;
+  amountCents: number | null;
   paidAt: string;
   createdAt: string;
   dismissed: boolean;
   dismissedReason: string | null;
   dismissedAt: string | null;
   moveApprovals?: { moveRequestId: string; approvedAt: string }[];
+  booking?: (FeeSummary & { id: string; unit: string; moveType: string }) | null;
+}
+
+// Paid vs due for a matched booking: what the resident still owes, or has overpaid
+function BalanceBadge({ booking }: { booking: Payment['booking'] }) {
+  if (!booking || booking.amountDueCents === 0) return <span>—</span>;
+  if (booking.balanceCents === 0) return <span className="status-badge paid-in-full">Paid in full</span>;
+  if (booking.balanceCents > 0) return <span className="status-badge needs-review">Owing {formatCents(booking.balanceCents)}</span>;
+  return <span className="status-badge awaiting">Overpaid {formatCents(-booking.balanceCents)}</span>;
 }
 
 interface BookingOption {
@@ -76,6 +94,12 @@ export function PaymentsLedgerPage() {
   const [dismissSaving, setDismissSaving] = useState<string | null>(null);
   const [showDismissed, setShowDismissed] = useState(false);
 
+  // Export; an empty date or status list means no limit
+  const [showExport, setShowExport] = useState(false);
+  const [exportForm, setExportForm] = useState({ from: '', to: '', format: 'xlsx' });
+  const [exportStatuses, setExportStatuses] = useState<string[]>([]);
+  const [exportColumns, setExportColumns] = useState<string[]>(LEDGER_EXPORT_OPTIONS.map(([key]) => key));
+
   // Inline fee-type edit state: { [paymentId]: 'move_in' | 'move_out' }
   const [pendingFeeType, setPendingFeeType] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState<string | null>(null);
@@ -123,6 +147,23 @@ export function PaymentsLedgerPage() {
     }
   };
 
+  const exportLedger = async () => {
+    const columns = LEDGER_EXPORT_OPTIONS.map(([key]) => key).filter((key) => exportColumns.includes(key));
+    try {
+      await downloadFile(`/api/admin/payments-ledger/export.${exportForm.format}`, `payments-ledger.${exportForm.format}`, {
+        from: exportForm.from || undefined,
+        to: exportForm.to || undefined,
+        status: exportStatuses.length ? exportStatuses.join(',') : undefined,
+        columns: columns.join(','),
+      });
+    } catch (error) {
+      if (handleAuthError(error)) return;
+      setActionMessage('Export failed. Please try again.');
+    }
+  };
+
+  const toggleIn = (list: string[], value: string) => list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
   const login = async (e: FormEvent) => {
     e.preventDefault();
     setLoginError('');
@@ -317,6 +358,7 @@ export function PaymentsLedgerPage() {
                 <th className="col-hide-mobile">Invoice ID</th>
                 <th>Unit</th>
                 <th>Fee Type</th>
+                <th>Amount</th>
                 <th className="col-hide-mobile">Billing Period</th>
                 <th>Paid At</th>
                 <th>Status</th>
@@ -369,6 +411,7 @@ export function PaymentsLedgerPage() {
                         )
                       }
                     </td>
+                    <td>{p.amountCents != null ? formatCents(p.amountCents) : '—'}</td>
                     <td className="col-hide-mobile">{p.billingPeriod}</td>
                     <td>{dayjs(p.paidAt).format('MMM D, YYYY')}</td>
                     <td>
@@ -392,7 +435,7 @@ export function PaymentsLedgerPage() {
                   </tr>
                   {matchingId === p.id && (
                     <tr key={`${p.id}-match`} className="match-row">
-                      <td colSpan={8}>
+                      <td colSpan={9}>
                         <div className="match-form">
                           <div className="match-search">
                             <label>Search by unit</label>
@@ -445,7 +488,7 @@ export function PaymentsLedgerPage() {
                   )}
                   {dismissingId === p.id && (
                     <tr key={`${p.id}-dismiss`} className="dismiss-row">
-                      <td colSpan={8}>
+                      <td colSpan={9}>
                         <div className="dismiss-form">
                           <label>Reason for dismissal</label>
                           <input
@@ -499,10 +542,13 @@ export function PaymentsLedgerPage() {
                 <th className="col-hide-mobile">Invoice ID</th>
                 <th>Unit</th>
                 <th>Fee Type</th>
+                <th>Amount</th>
                 <th className="col-hide-mobile">Billing Period</th>
                 <th>Paid At</th>
                 <th className="col-hide-mobile">Move Request ID</th>
                 <th>Approved At</th>
+                <th>Booking Due</th>
+                <th>Balance</th>
               </tr>
             </thead>
             <tbody>
@@ -512,12 +558,15 @@ export function PaymentsLedgerPage() {
                   <td className="col-hide-mobile">{p.invoiceId}</td>
                   <td>{p.unit ?? '—'}</td>
                   <td><FeeTypeBadge feeType={p.feeType} /></td>
+                  <td>{p.amountCents != null ? formatCents(p.amountCents) : '—'}</td>
                   <td className="col-hide-mobile">{p.billingPeriod}</td>
                   <td>{dayjs(p.paidAt).format('MMM D, YYYY')}</td>
                   <td className="col-hide-mobile" style={{ fontFamily: 'monospace', fontSize: '0.8em' }}>
                     {p.moveApprovals?.[0]?.moveRequestId ?? '—'}
                   </td>
                   <td>{p.moveApprovals?.[0] ? dayjs(p.moveApprovals[0].approvedAt).format('MMM D, YYYY') : '—'}</td>
+                  <td>{p.booking && p.booking.amountDueCents > 0 ? formatCents(p.booking.amountDueCents) : '—'}</td>
+                  <td><BalanceBadge booking={p.booking} /></td>
                 </tr>
               ))}
             </tbody>
@@ -542,6 +591,7 @@ export function PaymentsLedgerPage() {
                     <th className="col-hide-mobile">Invoice ID</th>
                     <th>Unit</th>
                     <th>Fee Type</th>
+                    <th>Amount</th>
                     <th className="col-hide-mobile">Billing Period</th>
                     <th>Paid At</th>
                     <th className="col-hide-mobile">Dismissed At</th>
@@ -556,6 +606,7 @@ export function PaymentsLedgerPage() {
                       <td className="col-hide-mobile">{p.invoiceId}</td>
                       <td>{p.unit ?? '—'}</td>
                       <td><FeeTypeBadge feeType={p.feeType} /></td>
+                      <td>{p.amountCents != null ? formatCents(p.amountCents) : '—'}</td>
                       <td className="col-hide-mobile">{p.billingPeriod}</td>
                       <td>{dayjs(p.paidAt).format('MMM D, YYYY')}</td>
                       <td className="col-hide-mobile">{p.dismissedAt ? dayjs(p.dismissedAt).format('MMM D, YYYY') : '—'}</td>
@@ -571,6 +622,48 @@ export function PaymentsLedgerPage() {
             )
         )}
       </div>
+
+      <div className="dismissed-section">
+        <button className="dismissed-toggle" onClick={() => setShowExport(v => !v)}>
+          {showExport ? '▾' : '▸'} Export Payments
+        </button>
+        {showExport && (
+          <div className="export-form">
+            <div className="export-row">
+              <label>From <input type="date" value={exportForm.from} onChange={(e) => setExportForm({ ...exportForm, from: e.target.value })} /></label>
+              <label>To <input type="date" value={exportForm.to} onChange={(e) => setExportForm({ ...exportForm, to: e.target.value })} /></label>
+              <button className="btn-edit-fee" onClick={() => setExportForm({
+                ...exportForm,
+                from: dayjs(selectedMonth + '-01').format('YYYY-MM-DD'),
+                to: dayjs(selectedMonth + '-01').endOf('month').format('YYYY-MM-DD'),
+              })}>{dayjs(selectedMonth + '-01').format('MMMM YYYY')}</button>
+            </div>
+            <div className="export-row">
+              <span className="export-label">Status</span>
+              {LEDGER_EXPORT_STATUSES.map(([key, label]) => (
+                <label key={key}>
+                  <input type="checkbox" checked={exportStatuses.includes(key)} onChange={() => setExportStatuses((s) => toggleIn(s, key))} /> {label}
+                </label>
+              ))}
+            </div>
+            <div className="export-row">
+              <span className="export-label">Columns</span>
+              {LEDGER_EXPORT_OPTIONS.map(([key, label]) => (
+                <label key={key}>
+                  <input type="checkbox" checked={exportColumns.includes(key)} onChange={() => setExportColumns((c) => toggleIn(c, key))} /> {label}
+                </label>
+              ))}
+            </div>
+            <div className="export-row">
+              <select value={exportForm.format} onChange={(e) => setExportForm({ ...exportForm, format: e.target.value })}>
+                <option value="xlsx">Excel (.xlsx)</option>
+                <option value="csv">CSV</option>
+              </select>
+              <button className="btn-match-confirm" onClick={exportLedger} disabled={exportColumns.length === 0}>Download</button>
+            </div>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -2,6 +2,8 @@ import { useEffect, useMemo, useState } from 'react';
 import { Calendar, dayjsLocalizer, type Event, View } from 'react-big-calendar';
 import dayjs from 'dayjs';
 import { api } from '../api';
+import { ClosedDate, fetchClosedDates } from '../slotRules';
+import { BuildingInfo, fetchBuilding } from '../building';
 import 'react-big-calendar/lib/css/react-big-calendar.css';
 import '../styles/calendar.css';
 
@@ -34,6 +36,12 @@ export function PublicCalendarPage() {
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
   const [calHeight, setCalHeight] = useState(getCalendarHeight);
   const [now, setNow] = useState(new Date());
+  const [closedDates, setClosedDates] = useState<ClosedDate[]>([]);
+  const [building, setBuilding] = useState<BuildingInfo | null>(null);
+
+  useEffect(() => {
+    fetchBuilding().then(setBuilding).catch(() => setBuilding(null));
+  }, []);
 
   useEffect(() => {
     const load = () => {
@@ -47,6 +55,13 @@ export function PublicCalendarPage() {
     return () => clearInterval(timer);
   }, []);
 
+  // Holidays and blackout dates around the visible range, greyed out on the calendar
+  useEffect(() => {
+    const from = dayjs(date).startOf('month').subtract(7, 'day').format('YYYY-MM-DD');
+    const to = dayjs(date).endOf('month').add(7, 'day').format('YYYY-MM-DD');
+    fetchClosedDates(from, to).then(setClosedDates).catch(() => setClosedDates([]));
+  }, [date]);
+
   // Auto-refresh entire page every 1 hour
   useEffect(() => {
     const pageRefreshTimer = setInterval(() => { window.location.reload(); }, 3600000);
@@ -185,13 +200,18 @@ export function PublicCalendarPage() {
     };
   };
 
+  const dayPropGetter = (day: Date) => {
+    const closed = closedDates.find((c) => c.date === dayjs(day).format('YYYY-MM-DD'));
+    return closed ? { className: 'rbc-closed-day', title: `No bookings — ${closed.name}` } : {};
+  };
+
   return (
     <div className="public-calendar-container">
       {/* Header */}
       <header className="calendar-header">
         <div className="header-content">
           <div className="header-title-section">
-            <h1 className="calendar-title">Spectrum 4 Calendar</h1>
+            <h1 className="calendar-title">{building ? `${building.name} Calendar` : 'Move Calendar'}</h1>
             <p className="calendar-subtitle">Approved Move & Delivery Reservations</p>
           </div>
           <div className="header-info">
@@ -236,6 +256,7 @@ export function PublicCalendarPage() {
           <div className="legend-item"><span className="legend-dot suitcase-move"></span><span>Suitcase Move</span></div>
           <div className="legend-item"><span className="legend-dot delivery"></span><span>Delivery</span></div>
           <div className="legend-item"><span className="legend-dot reno"></span><span>Renovation</span></div>
+          <div className="legend-item"><span className="legend-dot closed"></span><span>Closed</span></div>
         </div>
       </div>
 
@@ -252,6 +273,7 @@ export function PublicCalendarPage() {
           date={date}
           onNavigate={setDate}
           eventPropGetter={eventStyleGetter}
+          dayPropGetter={dayPropGetter}
           style={{ height: calHeight }}
           scrollToTime={scrollToTime}
           popup
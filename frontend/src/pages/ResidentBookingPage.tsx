@@ -2,137 +2,16 @@ import { useCallback, useEffect, useState } from 'react';
 import { useParams, useSearchParams } from 'react-router-dom';
 import dayjs from 'dayjs';
 import { api } from '../api';
+import { ClosedDate, SlotRule, closedDateMessage, fetchClosedDates, fetchSlotRules, filterAvailableSlots, getSlotsForDateAndType, isClosedDay, summarizeSlotRules } from '../slotRules';
 import '../styles/resident.css';
 
-// ── Time slot definitions (mirrors backend rules) ─────────────
-type Slot = { label: string; start: string; end: string };
-
-const MOVE_WEEKDAY_SLOTS: Slot[] = [
-  { label: '9:00 AM – 12:00 PM', start: '09:00', end: '12:00' },
-  { label: '1:00 PM – 4:00 PM',  start: '13:00', end: '16:00' },
-];
-
-const MOVE_WEEKEND_SLOTS: Slot[] = [
-  { label: '12:00 PM – 3:00 PM', start: '12:00', end: '15:00' },
-  { label: '4:00 PM – 7:00 PM',  start: '16:00', end: '19:00' },
-];
-
-const FURNISHED_WEEKDAY_SLOTS: Slot[] = [
-  { label: '10:00 AM – 12:00 PM', start: '10:00', end: '12:00' },
-  { label: '12:00 PM – 2:00 PM',  start: '12:00', end: '14:00' },
-  { label: '2:00 PM – 4:00 PM',   start: '14:00', end: '16:00' },
-];
-
-const FURNISHED_WEEKEND_SLOTS: Slot[] = [
-  { label: '12:00 PM – 2:00 PM', start: '12:00', end: '14:00' },
-  { label: '2:00 PM – 4:00 PM',  start: '14:00', end: '16:00' },
-];
-
-const OPEN_HOUSE_SLOT: Slot[] = [
-  { label: '2:00 PM – 5:00 PM', start: '14:00', end: '17:00' },
-];
-
-const STATUTORY_HOLIDAYS = new Set([
-  '2025-01-01','2025-02-17','2025-04-18','2025-05-19',
-  '2025-07-01','2025-08-04','2025-09-01','2025-10-13',
-  '2025-11-11','2025-12-25','2025-12-26',
-  '2026-01-01','2026-02-16','2026-04-03','2026-05-18',
-  '2026-07-01','2026-08-03','2026-09-07','2026-10-12',
-  '2026-11-11','2026-12-25','2026-12-26',
-  '2027-01-01','2027-02-15','2027-03-26','2027-05-24',
-  '2027-07-01','2027-08-02','2027-09-06','2027-10-11',
-  '2027-11-11','2027-12-25','2027-12-26',
-  '2028-01-01','2028-02-21','2028-04-14','2028-05-22',
-  '2028-07-01','2028-08-07','2028-09-04','2028-10-09',
-  '2028-11-11','2028-12-25','2028-12-26',
-  '2029-01-01','2029-02-19','2029-03-30','2029-05-21',
-  '2029-07-01','2029-08-06','2029-09-03','2029-10-08',
-  '2029-11-11','2029-12-25','2029-12-26',
-  '2030-01-01','2030-02-18','2030-04-19','2030-05-20',
-  '2030-07-01','2030-08-05','2030-09-02','2030-10-14',
-  '2030-11-11','2030-12-25','2030-12-26',
-]);
-
-function minsToTimeStr(mins: number): string {
-  const h = Math.floor(mins / 60);
-  const m = mins % 60;
-  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
-}
-
-function minsToLabel(mins: number): string {
-  const h = Math.floor(mins / 60);
-  const m = mins % 60;
-  const period = h < 12 ? 'AM' : 'PM';
-  const h12 = h % 12 === 0 ? 12 : h % 12;
-  return `${h12}:${String(m).padStart(2, '0')} ${period}`;
-}
-
-function generateTimeSlots(rangeStartMins: number, rangeEndMins: number, blockMins: number): Slot[] {
-  const slots: Slot[] = [];
-  for (let s = rangeStartMins; s + blockMins <= rangeEndMins; s += blockMins) {
-    slots.push({
-      label: `${minsToLabel(s)} – ${minsToLabel(s + blockMins)}`,
-      start: minsToTimeStr(s),
-      end:   minsToTimeStr(s + blockMins),
-    });
-  }
-  return slots;
-}
-
-function timeToMins(hhmm: string): number {
-  const [h, m] = hhmm.split(':').map(Number);
-  return h * 60 + m;
-}
-
-function filterAvailableSlots(slots: Slot[], takenRanges: { start: string; end: string }[]): Slot[] {
-  return slots.filter(slot => {
-    const sS = timeToMins(slot.start), sE = timeToMins(slot.end);
-    return !takenRanges.some(r => sS < timeToMins(r.end) && sE > timeToMins(r.start));
-  });
-}
-
-function getSlotsForDateAndType(dateStr: string, moveType: string): Slot[] | null {
-  if (!dateStr) return null;
-  if (STATUTORY_HOLIDAYS.has(dateStr)) return [];
-  const dow = dayjs(dateStr).day();
-  const isWeekend = dow === 0 || dow === 6;
-
-  if (moveType === 'OPEN_HOUSE') {
-    return isWeekend ? OPEN_HOUSE_SLOT : [];
-  }
-  if (moveType === 'DELIVERY') {
-    const [rangeStart, rangeEnd] = isWeekend ? [8 * 60, 17 * 60] : [10 * 60, 16 * 60];
-    return generateTimeSlots(rangeStart, rangeEnd, 30);
-  }
-  if (moveType === 'RENO') {
-    const [rangeStart, rangeEnd] = isWeekend ? [8 * 60, 17 * 60] : [10 * 60, 16 * 60];
-    return generateTimeSlots(rangeStart, rangeEnd, 60);
-  }
-  if (moveType === 'SUITCASE_MOVE') {
-    if (isWeekend) {
-      return [
-        ...generateTimeSlots(8 * 60, 11 * 60, 60),
-        ...generateTimeSlots(12 * 60, 15 * 60, 60),
-        ...generateTimeSlots(16 * 60, 19 * 60, 60),
-      ];
-    }
-    return [
-      ...generateTimeSlots(9 * 60, 12 * 60, 60),
-      ...generateTimeSlots(13 * 60, 16 * 60, 60),
-    ];
-  }
-  if (moveType === 'FURNISHED_MOVE') {
-    return isWeekend ? FURNISHED_WEEKEND_SLOTS : FURNISHED_WEEKDAY_SLOTS;
-  }
-  // MOVE_IN / MOVE_OUT
-  return isWeekend ? MOVE_WEEKEND_SLOTS : MOVE_WEEKDAY_SLOTS;
-}
-
 // ── Types ────────────────────────────────────────────────────
 type BookingStatus = 'SUBMITTED' | 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
 
 type Booking = {
   id: string;
+  buildingSlug: string;
+  buildingName: string;
   residentName: string;
   residentEmail: string;
   residentPhone: string;
@@ -144,8 +23,10 @@ type Booking = {
   endDatetime: string;
   elevatorRequired: boolean;
   loadingBayRequired: boolean;
+  smsOptIn: boolean;
   notes: string | null;
   status: BookingStatus;
+  statusReason: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -171,11 +52,14 @@ export function ResidentBookingPage() {
   const [editNotes, setEditNotes] = useState('');
   const [editElevator, setEditElevator] = useState(false);
   const [editLoadingBay, setEditLoadingBay] = useState(false);
+  const [editSmsOptIn, setEditSmsOptIn] = useState(false);
 
   // Date/time change state
   const [editDate, setEditDate] = useState('');
   const [editSlot, setEditSlot] = useState('');
   const [takenRanges, setTakenRanges] = useState<{ start: string; end: string }[]>([]);
+  const [slotRules, setSlotRules] = useState<SlotRule[]>([]);
+  const [closedDates, setClosedDates] = useState<ClosedDate[]>([]);
   const [changingTime, setChangingTime] = useState(false);
 
   const [saving, setSaving] = useState(false);
@@ -184,6 +68,7 @@ export function ResidentBookingPage() {
   // Cancel state
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
   const [cancelling, setCancelling] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
 
   const fetchBooking = useCallback(async () => {
     if (!id || !token) return;
@@ -192,12 +77,15 @@ export function ResidentBookingPage() {
     try {
       const res = await api.get(`/api/public/bookings/${id}?token=${token}`);
       const b = res.data;
+      const rules = await fetchSlotRules(b.buildingSlug).catch(() => [] as SlotRule[]);
       setBooking(b);
+      setSlotRules(rules);
       setEditNotes(b.notes ?? '');
       setEditElevator(b.elevatorRequired);
       setEditLoadingBay(b.loadingBayRequired);
+      setEditSmsOptIn(b.smsOptIn);
       setEditDate(dayjs(b.startDatetime).format('YYYY-MM-DD'));
-      const existing = getSlotsForDateAndType(dayjs(b.startDatetime).format('YYYY-MM-DD'), b.moveType);
+      const existing = getSlotsForDateAndType(dayjs(b.startDatetime).format('YYYY-MM-DD'), b.moveType, rules);
       const match = existing?.find(s =>
         s.start === dayjs(b.startDatetime).format('HH:mm') &&
         s.end === dayjs(b.endDatetime).format('HH:mm')
@@ -222,16 +110,22 @@ export function ResidentBookingPage() {
 
   // Fetch taken slots when date changes
   useEffect(() => {
-    if (!editDate || !booking) { setTakenRanges([]); return; }
-    api.get(`/api/public/taken-slots?date=${editDate}&excludeId=${booking.id}`)
+    if (!editDate || !booking) { setTakenRanges([]); setClosedDates([]); return; }
+    api.get('/api/public/taken-slots', { params: { date: editDate, excludeId: booking.id, building: booking.buildingSlug } })
       .then(res => setTakenRanges(res.data))
       .catch(() => setTakenRanges([]));
+    fetchClosedDates(editDate, editDate, booking.buildingSlug)
+      .then(setClosedDates)
+      .catch(() => setClosedDates([]));
   }, [editDate, booking]);
 
-  const isHoliday = !!editDate && STATUTORY_HOLIDAYS.has(editDate);
-  const isOpenHouseWeekday = booking?.moveType === 'OPEN_HOUSE' && !!editDate && !isHoliday &&
-    (() => { const d = dayjs(editDate).day(); return d !== 0 && d !== 6; })();
-  const rawSlots = booking ? getSlotsForDateAndType(editDate, booking.moveType) : null;
+  const closedDate = closedDates.find((c) => c.date === editDate);
+  const isClosedForType = !!booking && !!editDate && !closedDate && slotRules.length > 0 &&
+    isClosedDay(editDate, booking.moveType, slotRules);
+  const closedDayMessage = booking
+    ? `${booking.moveTypeLabel} bookings are only available on ${summarizeSlotRules(slotRules, booking.moveType).map((g) => g.days).join(', ') || 'no days at present'}`
+    : '';
+  const rawSlots = booking ? getSlotsForDateAndType(editDate, booking.moveType, slotRules, closedDates) : null;
   const availableSlots = rawSlots ? filterAvailableSlots(rawSlots, takenRanges) : rawSlots;
 
   const handleDateChange = (dateStr: string) => {
@@ -248,11 +142,17 @@ export function ResidentBookingPage() {
       notes: editNotes,
       elevatorRequired: editElevator,
       loadingBayRequired: editLoadingBay,
+      smsOptIn: editSmsOptIn,
     };
 
     if (changingTime) {
-      if (isHoliday) {
-        setSaveMessage('Bookings are not permitted on statutory holidays');
+      if (closedDate) {
+        setSaveMessage(closedDateMessage(closedDate));
+        setSaving(false);
+        return;
+      }
+      if (isClosedForType) {
+        setSaveMessage(closedDayMessage);
         setSaving(false);
         return;
       }
@@ -288,7 +188,7 @@ export function ResidentBookingPage() {
     if (!booking) return;
     setCancelling(true);
     try {
-      const res = await api.post(`/api/public/bookings/${id}/cancel?token=${token}`);
+      const res = await api.post(`/api/public/bookings/${id}/cancel?token=${token}`, { reason: cancelReason.trim() || undefined });
       setBooking(res.data);
       setShowCancelConfirm(false);
     } catch (err: any) {
@@ -303,7 +203,8 @@ export function ResidentBookingPage() {
     booking &&
     (editNotes !== (booking.notes ?? '') ||
       editElevator !== booking.elevatorRequired ||
-      editLoadingBay !== booking.loadingBayRequired);
+      editLoadingBay !== booking.loadingBayRequired ||
+      editSmsOptIn !== booking.smsOptIn);
 
   const hasTimeChange = changingTime && editSlot &&
     (editDate !== dayjs(booking?.startDatetime).format('YYYY-MM-DD') ||
@@ -357,7 +258,7 @@ export function ResidentBookingPage() {
     <div className="page-container">
       <div className="resident-form-card">
         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 20 }}>
-          <h2 className="resident-form-title" style={{ margin: 0 }}>My Booking</h2>
+          <h2 className="resident-form-title" style={{ margin: 0 }}>My Booking — {booking.buildingName}</h2>
           <span className={`status-badge ${statusCfg.className}`}>{statusCfg.label}</span>
         </div>
 
@@ -438,6 +339,15 @@ export function ResidentBookingPage() {
                 </label>
               </div>
 
+              <div className="form-field">
+                <label htmlFor="edit-sms">Text Message Updates</label>
+                <label className="checkbox-label" style={{ marginTop: 4 }}>
+                  <input type="checkbox" id="edit-sms" checked={editSmsOptIn}
+                    onChange={(e) => setEditSmsOptIn(e.target.checked)} />
+                  Text me approval and reminder updates at {booking.residentPhone}
+                </label>
+              </div>
+
               <div className="form-field">
                 <label htmlFor="edit-notes">Notes</label>
                 <textarea id="edit-notes" rows={3} placeholder="Optional details"
@@ -467,9 +377,14 @@ export function ResidentBookingPage() {
                       onChange={(e) => handleDateChange(e.target.value)} />
                   </div>
 
-                  {isHoliday && (
+                  {closedDate && (
+                    <p className="error-message" style={{ margin: '4px 0 8px' }}>
+                      {closedDateMessage(closedDate)}
+                    </p>
+                  )}
+                  {isClosedForType && (
                     <p className="error-message" style={{ margin: '4px 0 8px' }}>
-                      This date is a statutory holiday — no bookings are permitted.
+                      {closedDayMessage}.
                     </p>
                   )}
 
@@ -478,7 +393,7 @@ export function ResidentBookingPage() {
                     <select id="edit-time-slot"
                       value={editSlot}
                       onChange={(e) => setEditSlot(e.target.value)}
-                      disabled={!editDate || isHoliday || availableSlots?.length === 0}>
+                      disabled={!editDate || !!closedDate || availableSlots?.length === 0}>
                       <option value="">
                         {!editDate ? 'Select a date first' : availableSlots?.length === 0 ? 'No slots available' : 'Select a time slot'}
                       </option>
@@ -524,6 +439,14 @@ export function ResidentBookingPage() {
                   <p style={{ color: '#991b1b', fontWeight: 600, margin: '0 0 12px', fontSize: '0.9375rem' }}>
                     Are you sure you want to cancel this booking?
                   </p>
+                  <textarea
+                    value={cancelReason}
+                    onChange={e => setCancelReason(e.target.value)}
+                    maxLength={500}
+                    rows={2}
+                    placeholder="Reason (optional)"
+                    style={{ width: '100%', marginBottom: 12 }}
+                  />
                   <div style={{ display: 'flex', gap: 8 }}>
                     <button disabled={cancelling}
                       style={{ background: '#dc2626', flex: 1 }}
@@ -548,6 +471,9 @@ export function ResidentBookingPage() {
             <p style={{ fontSize: '0.9375rem', color: '#475569', margin: 0 }}>
               This booking has been cancelled. If you need assistance, please contact building management.
             </p>
+            {booking.statusReason && (
+              <p style={{ fontSize: '0.875rem', color: '#475569', margin: '8px 0 0' }}>Reason: {booking.statusReason}</p>
+            )}
           </fieldset>
         )}
 
@@ -557,6 +483,9 @@ export function ResidentBookingPage() {
             <p style={{ fontSize: '0.9375rem', color: '#991b1b', margin: 0 }}>
               Unfortunately this booking request could not be approved. Please contact building management if you have any questions.
             </p>
+            {booking.statusReason && (
+              <p style={{ fontSize: '0.875rem', color: '#991b1b', margin: '8px 0 0' }}>Reason: {booking.statusReason}</p>
+            )}
           </fieldset>
         )}
 
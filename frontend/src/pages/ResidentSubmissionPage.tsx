@@ -1,148 +1,12 @@
-import { FormEvent, useEffect, useState } from 'react';
+import { FormEvent, useEffect, useRef, useState } from 'react';
 import dayjs from 'dayjs';
 import { useNavigate } from 'react-router-dom';
 import { api } from '../api';
+import { BuildingInfo, fetchBuilding } from '../building';
+import { FeeSchedule, formatCents } from '../money';
+import { ClosedDate, SlotRule, closedDateMessage, fetchClosedDates, fetchSlotRules, filterAvailableSlots, getSlotsForDateAndType, isClosedDay, summarizeSlotRules } from '../slotRules';
 import '../styles/resident.css';
 
-// ── Time slot definitions ─────────────────────────────────────
-type Slot = { label: string; start: string; end: string };
-
-// Fixed slots for MOVE_IN / MOVE_OUT
-const MOVE_WEEKDAY_SLOTS: Slot[] = [
-  { label: '9:00 AM – 12:00 PM', start: '09:00', end: '12:00' },
-  { label: '1:00 PM – 4:00 PM',  start: '13:00', end: '16:00' },
-];
-
-const MOVE_WEEKEND_SLOTS: Slot[] = [
-  { label: '12:00 PM – 3:00 PM', start: '12:00', end: '15:00' },
-  { label: '4:00 PM – 7:00 PM',  start: '16:00', end: '19:00' },
-];
-
-// 2-hour slots for FURNISHED_MOVE
-const FURNISHED_WEEKDAY_SLOTS: Slot[] = [
-  { label: '10:00 AM – 12:00 PM', start: '10:00', end: '12:00' },
-  { label: '12:00 PM – 2:00 PM',  start: '12:00', end: '14:00' },
-  { label: '2:00 PM – 4:00 PM',   start: '14:00', end: '16:00' },
-];
-
-const FURNISHED_WEEKEND_SLOTS: Slot[] = [
-  { label: '12:00 PM – 2:00 PM', start: '12:00', end: '14:00' },
-  { label: '2:00 PM – 4:00 PM',  start: '14:00', end: '16:00' },
-];
-
-// Fixed slot for OPEN_HOUSE (weekends only)
-const OPEN_HOUSE_SLOT: Slot[] = [
-  { label: '2:00 PM – 5:00 PM', start: '14:00', end: '17:00' },
-];
-
-// BC Statutory Holidays 2025–2030 (mirrors backend list)
-const STATUTORY_HOLIDAYS = new Set([
-  // 2025
-  '2025-01-01','2025-02-17','2025-04-18','2025-05-19',
-  '2025-07-01','2025-08-04','2025-09-01','2025-10-13',
-  '2025-11-11','2025-12-25','2025-12-26',
-  // 2026
-  '2026-01-01','2026-02-16','2026-04-03','2026-05-18',
-  '2026-07-01','2026-08-03','2026-09-07','2026-10-12',
-  '2026-11-11','2026-12-25','2026-12-26',
-  // 2027
-  '2027-01-01','2027-02-15','2027-03-26','2027-05-24',
-  '2027-07-01','2027-08-02','2027-09-06','2027-10-11',
-  '2027-11-11','2027-12-25','2027-12-26',
-  // 2028
-  '2028-01-01','2028-02-21','2028-04-14','2028-05-22',
-  '2028-07-01','2028-08-07','2028-09-04','2028-10-09',
-  '2028-11-11','2028-12-25','2028-12-26',
-  // 2029
-  '2029-01-01','2029-02-19','2029-03-30','2029-05-21',
-  '2029-07-01','2029-08-06','2029-09-03','2029-10-08',
-  '2029-11-11','2029-12-25','2029-12-26',
-  // 2030
-  '2030-01-01','2030-02-18','2030-04-19','2030-05-20',
-  '2030-07-01','2030-08-05','2030-09-02','2030-10-14',
-  '2030-11-11','2030-12-25','2030-12-26',
-]);
-
-function minsToTimeStr(mins: number): string {
-  const h = Math.floor(mins / 60);
-  const m = mins % 60;
-  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
-}
-
-function minsToLabel(mins: number): string {
-  const h = Math.floor(mins / 60);
-  const m = mins % 60;
-  const period = h < 12 ? 'AM' : 'PM';
-  const h12 = h % 12 === 0 ? 12 : h % 12;
-  return `${h12}:${String(m).padStart(2, '0')} ${period}`;
-}
-
-function generateTimeSlots(rangeStartMins: number, rangeEndMins: number, blockMins: number): Slot[] {
-  const slots: Slot[] = [];
-  for (let s = rangeStartMins; s + blockMins <= rangeEndMins; s += blockMins) {
-    slots.push({
-      label: `${minsToLabel(s)} – ${minsToLabel(s + blockMins)}`,
-      start: minsToTimeStr(s),
-      end:   minsToTimeStr(s + blockMins),
-    });
-  }
-  return slots;
-}
-
-function timeToMins(hhmm: string): number {
-  const [h, m] = hhmm.split(':').map(Number);
-  return h * 60 + m;
-}
-
-function filterAvailableSlots(slots: Slot[], takenRanges: { start: string; end: string }[]): Slot[] {
-  return slots.filter(slot => {
-    const sS = timeToMins(slot.start), sE = timeToMins(slot.end);
-    return !takenRanges.some(r => sS < timeToMins(r.end) && sE > timeToMins(r.start));
-  });
-}
-
-function getSlotsForDateAndType(dateStr: string, moveType: string): Slot[] | null {
-  if (!dateStr) return null;
-  if (STATUTORY_HOLIDAYS.has(dateStr)) return []; // holiday — no slots
-  const dow = dayjs(dateStr).day(); // 0 Sun, 6 Sat
-  const isWeekend = dow === 0 || dow === 6;
-
-  if (moveType === 'OPEN_HOUSE') {
-    return isWeekend ? OPEN_HOUSE_SLOT : []; // weekends only
-  }
-
-  if (moveType === 'DELIVERY') {
-    const [rangeStart, rangeEnd] = isWeekend ? [8 * 60, 17 * 60] : [10 * 60, 16 * 60];
-    return generateTimeSlots(rangeStart, rangeEnd, 30);
-  }
-
-  if (moveType === 'RENO') {
-    const [rangeStart, rangeEnd] = isWeekend ? [8 * 60, 17 * 60] : [10 * 60, 16 * 60];
-    return generateTimeSlots(rangeStart, rangeEnd, 60);
-  }
-
-  if (moveType === 'SUITCASE_MOVE') {
-    if (isWeekend) {
-      return [
-        ...generateTimeSlots(8 * 60, 11 * 60, 60),
-        ...generateTimeSlots(12 * 60, 15 * 60, 60),
-        ...generateTimeSlots(16 * 60, 19 * 60, 60),
-      ];
-    }
-    return [
-      ...generateTimeSlots(9 * 60, 12 * 60, 60),
-      ...generateTimeSlots(13 * 60, 16 * 60, 60),
-    ];
-  }
-
-  if (moveType === 'FURNISHED_MOVE') {
-    return isWeekend ? FURNISHED_WEEKEND_SLOTS : FURNISHED_WEEKDAY_SLOTS;
-  }
-
-  // MOVE_IN / MOVE_OUT: fixed slots
-  return isWeekend ? MOVE_WEEKEND_SLOTS : MOVE_WEEKDAY_SLOTS;
-}
-
 // ── Validation helpers ─────────────────────────────────────────
 const COMMON_TLDS = new Set([
   'com','net','org','edu','gov','mil','int','info','biz','name','pro','aero','coop','museum',
@@ -204,6 +68,14 @@ const NOTES_MAX = 500;
 
 type FieldErrors = Partial<Record<'residentName' | 'residentEmail' | 'residentPhone' | 'unit' | 'moveDate' | 'notes', string>>;
 
+// One date of a recurring booking as checked by the server
+type SeriesOccurrence = { date: string; available: boolean; reason?: string };
+
+// Booking types the server accepts as a series
+const REPEATABLE_TYPES = ['RENO'];
+// Monday first; values use dayjs numbering (0 = Sunday)
+const WEEKDAYS: [number, string][] = [[1, 'Mon'], [2, 'Tue'], [3, 'Wed'], [4, 'Thu'], [5, 'Fri'], [6, 'Sat'], [0, 'Sun']];
+
 export function ResidentSubmissionPage() {
   const navigate = useNavigate();
   const [form, setForm] = useState<any>({ moveType: 'MOVE_IN', elevatorRequired: true, loadingBayRequired: false });
@@ -213,7 +85,19 @@ export function ResidentSubmissionPage() {
   const [message, setMessage] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Set when the chosen slot turned out to be full; holds the request to waitlist
+  const [waitlistRequest, setWaitlistRequest] = useState<any>(null);
+  // Short hold on the chosen slot so nobody else can take it while the form is finished
+  const [hold, setHold] = useState<{ token: string; expiresAt: string } | null>(null);
+  const [holdMessage, setHoldMessage] = useState('');
+  const holdToken = useRef<string | undefined>(undefined);
+  const [repeat, setRepeat] = useState<{ enabled: boolean; until: string; days: number[] }>({ enabled: false, until: '', days: [1, 2, 3, 4, 5] });
+  const [seriesReport, setSeriesReport] = useState<SeriesOccurrence[] | null>(null);
   const [takenRanges, setTakenRanges] = useState<{ start: string; end: string }[]>([]);
+  const [building, setBuilding] = useState<BuildingInfo | null>(null);
+  const [slotRules, setSlotRules] = useState<SlotRule[]>([]);
+  const [feeSchedules, setFeeSchedules] = useState<FeeSchedule[]>([]);
+  const [closedDates, setClosedDates] = useState<ClosedDate[]>([]);
   const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [touched, setTouched] = useState<Set<string>>(new Set());
 
@@ -240,17 +124,142 @@ export function ResidentSubmissionPage() {
   }
 
   useEffect(() => {
-    if (!form.moveDate) { setTakenRanges([]); return; }
-    api.get(`/api/public/taken-slots?date=${form.moveDate}`)
+    fetchSlotRules()
+      .then(setSlotRules)
+      .catch(() => setSlotRules([]));
+    fetchBuilding().then(setBuilding).catch(() => setBuilding(null));
+    api.get('/api/public/fees')
+      .then((res) => setFeeSchedules(res.data))
+      .catch(() => setFeeSchedules([]));
+  }, []);
+
+  useEffect(() => {
+    if (!form.moveDate) { setTakenRanges([]); setClosedDates([]); return; }
+    const ownHold = holdToken.current ? `&holdToken=${holdToken.current}` : '';
+    api.get(`/api/public/taken-slots?date=${form.moveDate}${ownHold}`)
       .then(res => setTakenRanges(res.data))
       .catch(() => setTakenRanges([]));
+    fetchClosedDates(form.moveDate, form.moveDate)
+      .then(setClosedDates)
+      .catch(() => setClosedDates([]));
   }, [form.moveDate]);
 
-  const isHoliday = !!form.moveDate && STATUTORY_HOLIDAYS.has(form.moveDate);
-  const isOpenHouseWeekday = form.moveType === 'OPEN_HOUSE' && !!form.moveDate && !isHoliday &&
-    (() => { const d = dayjs(form.moveDate).day(); return d !== 0 && d !== 6; })();
-  const rawSlots = getSlotsForDateAndType(form.moveDate ?? '', form.moveType ?? 'MOVE_IN');
+  const closedDate = closedDates.find((c) => c.date === form.moveDate);
+  const isClosedForType = !!form.moveDate && !closedDate && slotRules.length > 0 &&
+    isClosedDay(form.moveDate, form.moveType ?? 'MOVE_IN', slotRules);
+  const permittedDays = summarizeSlotRules(slotRules, form.moveType ?? 'MOVE_IN');
+  const closedDayMessage = `This booking type is only available on ${permittedDays.map((g) => g.days).join(', ') || 'no days at present'}`;
+  const rawSlots = getSlotsForDateAndType(form.moveDate ?? '', form.moveType ?? 'MOVE_IN', slotRules, closedDates);
   const availableSlots = rawSlots ? filterAvailableSlots(rawSlots, takenRanges) : rawSlots;
+  // Booked slots stay selectable so a resident can join their waitlist
+  const isBooked = (start: string) => !availableSlots?.some((s) => s.start === start);
+
+  const selectedSlot = rawSlots?.find((s) => s.start === slot);
+  const holdStart = selectedSlot && !isBooked(selectedSlot.start) ? `${form.moveDate}T${selectedSlot.start}:00` : '';
+  const holdEnd = selectedSlot ? `${form.moveDate}T${selectedSlot.end}:00` : '';
+
+  const releaseHold = () => {
+    if (holdToken.current) api.delete(`/api/public/slot-holds/${holdToken.current}`).catch(() => {});
+    holdToken.current = undefined;
+    setHold(null);
+  };
+
+  // Take (or move) the hold whenever the slot or the resources it needs change
+  useEffect(() => {
+    setHoldMessage('');
+    if (!holdStart) { releaseHold(); return; }
+    let stale = false;
+    api.post('/api/public/slot-holds', {
+      moveType: form.moveType,
+      startDatetime: holdStart,
+      endDatetime: holdEnd,
+      elevatorRequired: !!form.elevatorRequired,
+      loadingBayRequired: !!form.loadingBayRequired,
+      token: holdToken.current,
+    })
+      .then((res) => {
+        holdToken.current = res.data.token;
+        if (!stale) setHold(res.data);
+      })
+      .catch((err) => {
+        if (stale) return;
+        setHold(null);
+        if (err.response?.status === 409) {
+          setHoldMessage('Someone else has just taken this time. Choose another, or submit to join its waitlist.');
+          api.get(`/api/public/taken-slots?date=${form.moveDate}&holdToken=${holdToken.current ?? ''}`)
+            .then(res => setTakenRanges(res.data))
+            .catch(() => {});
+        }
+      });
+    return () => { stale = true; };
+  }, [holdStart, holdEnd, form.moveType, form.elevatorRequired, form.loadingBayRequired]);
+
+  useEffect(() => {
+    if (!hold) return;
+    const timer = setTimeout(() => {
+      setHold(null);
+      setHoldMessage('Your hold on this time has expired. You can still submit if it is free.');
+    }, dayjs(hold.expiresAt).diff(dayjs()));
+    return () => clearTimeout(timer);
+  }, [hold]);
+
+  // Let the slot go straight away if the resident leaves the form
+  useEffect(() => () => {
+    if (holdToken.current) api.delete(`/api/public/slot-holds/${holdToken.current}`).catch(() => {});
+  }, []);
+
+  const isSeries = REPEATABLE_TYPES.includes(form.moveType) && repeat.enabled;
+  const seriesAvailableCount = seriesReport?.filter((o) => o.available).length ?? 0;
+
+  // Any change to the repeat settings makes an earlier date check stale
+  useEffect(() => { setSeriesReport(null); }, [repeat, slot, form.moveDate, form.moveType, form.elevatorRequired, form.loadingBayRequired]);
+
+  const seriesRecurrence = () => selectedSlot && {
+    startDate: form.moveDate,
+    endDate: repeat.until,
+    daysOfWeek: repeat.days,
+    startTime: selectedSlot.start,
+    endTime: selectedSlot.end,
+  };
+
+  const toggleRepeatDay = (day: number) => {
+    setRepeat((prev) => ({ ...prev, days: prev.days.includes(day) ? prev.days.filter((d) => d !== day) : [...prev.days, day] }));
+  };
+
+  const checkSeriesDates = async () => {
+    if (!selectedSlot || !repeat.until || repeat.days.length === 0) {
+      setError('Choose a time slot, the days to repeat on and the last date first');
+      return;
+    }
+    setError('');
+    try {
+      const res = await api.post('/api/bookings/series/preview', {
+        moveType: form.moveType,
+        elevatorRequired: !!form.elevatorRequired,
+        loadingBayRequired: !!form.loadingBayRequired,
+        recurrence: seriesRecurrence(),
+      });
+      setSeriesReport(res.data.occurrences);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to check the dates. Please try again.');
+    }
+  };
+
+  const submitSeries = async (skipUnavailable: boolean) => {
+    setIsSubmitting(true);
+    setError('');
+    setMessage('');
+    try {
+      const res = await api.post('/api/bookings/series', { ...form, recurrence: seriesRecurrence(), skipUnavailable });
+      const first = res.data.bookings[0];
+      navigate(`/booking/${first.id}/confirmation?token=${first.editToken}`);
+    } catch (err: any) {
+      if (err.response?.data?.occurrences) setSeriesReport(err.response.data.occurrences);
+      setError(err.response?.data?.message || 'Failed to submit request. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
   const handleDateChange = (dateStr: string) => {
     setSlot('');
@@ -283,13 +292,13 @@ export function ResidentSubmissionPage() {
       return;
     }
 
-    if (isHoliday) {
-      setError('Bookings are not permitted on statutory holidays');
+    if (closedDate) {
+      setError(closedDateMessage(closedDate));
       setMessage('');
       return;
     }
-    if (isOpenHouseWeekday) {
-      setError('Open House bookings are only available on Saturdays and Sundays');
+    if (isClosedForType) {
+      setError(closedDayMessage);
       setMessage('');
       return;
     }
@@ -310,7 +319,7 @@ export function ResidentSubmissionPage() {
     }
 
     // Build startDatetime / endDatetime from date + slot
-    const selected = availableSlots?.find((s) => s.start === slot);
+    const selected = rawSlots?.find((s) => s.start === slot);
     if (!selected) {
       setError('Invalid time slot selected');
       return;
@@ -318,113 +327,75 @@ export function ResidentSubmissionPage() {
     const startDatetime = `${form.moveDate}T${selected.start}:00`;
     const endDatetime   = `${form.moveDate}T${selected.end}:00`;
 
+    if (isSeries) {
+      if (!repeat.until || repeat.days.length === 0) {
+        setError('Choose the days to repeat on and the last date of the series');
+        setMessage('');
+        return;
+      }
+      await submitSeries(false);
+      return;
+    }
+
     setIsSubmitting(true);
     setError('');
     setMessage('');
+    setWaitlistRequest(null);
     try {
-      const res = await api.post('/api/bookings', { ...form, startDatetime, endDatetime });
+      const res = await api.post('/api/bookings', { ...form, startDatetime, endDatetime, holdToken: holdToken.current });
       const booking = res.data;
+      // Booking the slot released the hold
+      holdToken.current = undefined;
       navigate(`/booking/${booking.id}/confirmation?token=${booking.editToken}`);
       return;
     } catch (err: any) {
+      if (err.response?.data?.waitlist) {
+        setWaitlistRequest({ ...form, startDatetime, endDatetime });
+        setError('');
+        return;
+      }
       setError(err.response?.data?.message || 'Failed to submit request. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const isDeliveryOrReno = form.moveType === 'DELIVERY' || form.moveType === 'RENO';
+  const joinWaitlist = async () => {
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await api.post('/api/bookings/waitlist', waitlistRequest);
+      setWaitlistRequest(null);
+      setMessage("You're on the waitlist. If this time opens up we'll email you a link to claim it.");
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to join the waitlist. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const isOpenHouseType = form.moveType === 'OPEN_HOUSE';
-  const isSuitcaseMove = form.moveType === 'SUITCASE_MOVE';
-  const isFurnishedMove = form.moveType === 'FURNISHED_MOVE';
-  const blockLabel = form.moveType === 'DELIVERY' ? '30-minute blocks' : '1-hour slots';
+  const fees = feeSchedules.find((f) => f.moveType === form.moveType);
 
   return (
     <div className="page-container">
       <div className="resident-form-card">
-        <h2 className="resident-form-title">Booking Request</h2>
+        <h2 className="resident-form-title">Booking Request{building ? ` — ${building.name}` : ''}</h2>
 
         <div className="move-times-notice">
           <h3 className="move-times-heading">Permitted Times</h3>
-          {isOpenHouseType ? (
-            <div className="move-times-grid">
-              <div>
-                <strong>Saturday &amp; Sunday only</strong>
+          <div className="move-times-grid">
+            {permittedDays.map((group) => (
+              <div key={group.days}>
+                <strong>{group.days}</strong>
                 <ul className="move-times-list">
-                  <li>2:00 PM – 5:00 PM</li>
+                  {group.windows.map((w) => <li key={w}>{w}</li>)}
                 </ul>
+                {group.note && <small>{group.note}</small>}
               </div>
-            </div>
-          ) : isDeliveryOrReno ? (
-            <div className="move-times-grid">
-              <div>
-                <strong>Monday – Friday</strong>
-                <p style={{ margin: '4px 0 2px' }}>10:00 AM – 4:00 PM</p>
-                <small>{blockLabel}</small>
-              </div>
-              <div>
-                <strong>Saturday &amp; Sunday</strong>
-                <p style={{ margin: '4px 0 2px' }}>8:00 AM – 5:00 PM</p>
-                <small>{blockLabel}</small>
-              </div>
-            </div>
-          ) : isSuitcaseMove ? (
-            <div className="move-times-grid">
-              <div>
-                <strong>Monday – Friday</strong>
-                <ul className="move-times-list">
-                  <li>9:00 AM – 12:00 PM</li>
-                  <li>1:00 PM – 4:00 PM</li>
-                </ul>
-                <small>1-hour slots</small>
-              </div>
-              <div>
-                <strong>Saturday &amp; Sunday</strong>
-                <ul className="move-times-list">
-                  <li>8:00 AM – 11:00 AM</li>
-                  <li>12:00 PM – 3:00 PM</li>
-                  <li>4:00 PM – 7:00 PM</li>
-                </ul>
-                <small>1-hour slots</small>
-              </div>
-            </div>
-          ) : isFurnishedMove ? (
-            <div className="move-times-grid">
-              <div>
-                <strong>Monday – Friday</strong>
-                <ul className="move-times-list">
-                  <li>10:00 AM – 12:00 PM</li>
-                  <li>12:00 PM – 2:00 PM</li>
-                  <li>2:00 PM – 4:00 PM</li>
-                </ul>
-              </div>
-              <div>
-                <strong>Saturday &amp; Sunday</strong>
-                <ul className="move-times-list">
-                  <li>12:00 PM – 2:00 PM</li>
-                  <li>2:00 PM – 4:00 PM</li>
-                </ul>
-              </div>
-            </div>
-          ) : (
-            <div className="move-times-grid">
-              <div>
-                <strong>Monday – Friday</strong>
-                <ul className="move-times-list">
-                  <li>9:00 AM – 12:00 PM</li>
-                  <li>1:00 PM – 4:00 PM</li>
-                </ul>
-              </div>
-              <div>
-                <strong>Saturday &amp; Sunday</strong>
-                <ul className="move-times-list">
-                  <li>12:00 PM – 3:00 PM</li>
-                  <li>4:00 PM – 7:00 PM</li>
-                </ul>
-              </div>
-            </div>
-          )}
-          <p className="move-times-holiday">No Bookings Permitted on Statutory Holidays</p>
+            ))}
+          </div>
+          <p className="move-times-holiday">No Bookings Permitted on Statutory Holidays or Building Closure Dates</p>
         </div>
 
         <form onSubmit={submit}>
@@ -459,6 +430,11 @@ export function ResidentSubmissionPage() {
                 onChange={(e) => handleFieldChange('residentPhone', e.target.value)}
                 onBlur={(e) => handleBlur('residentPhone', e.target.value)} />
               {fieldErrors.residentPhone && <span className="field-error">{fieldErrors.residentPhone}</span>}
+              <label className="checkbox-label" style={{ marginTop: 4 }}>
+                <input type="checkbox" checked={!!form.smsOptIn}
+                  onChange={(e) => setForm({ ...form, smsOptIn: e.target.checked })} />
+                Text me approval and reminder updates at this number
+              </label>
             </div>
 
             <div className="form-field">
@@ -501,14 +477,14 @@ export function ResidentSubmissionPage() {
               {fieldErrors.moveDate && <span className="field-error">{fieldErrors.moveDate}</span>}
             </div>
 
-            {isHoliday && (
+            {closedDate && (
               <p className="error-message slot-holiday-msg">
-                This date is a statutory holiday — no bookings are permitted.
+                {closedDateMessage(closedDate)}
               </p>
             )}
-            {isOpenHouseWeekday && (
+            {isClosedForType && (
               <p className="error-message slot-holiday-msg">
-                Open House bookings are only available on Saturdays and Sundays.
+                {closedDayMessage}.
               </p>
             )}
 
@@ -517,18 +493,61 @@ export function ResidentSubmissionPage() {
               <select
                 id="time-slot"
                 value={slot}
-                onChange={(e) => setSlot(e.target.value)}
-                disabled={!form.moveDate || isHoliday || isOpenHouseWeekday || availableSlots?.length === 0}
+                onChange={(e) => { setSlot(e.target.value); setWaitlistRequest(null); }}
+                disabled={!form.moveDate || !!closedDate || isClosedForType || rawSlots?.length === 0}
               >
                 <option value="">
-                  {!form.moveDate ? 'Select a date first' : availableSlots?.length === 0 ? 'No slots available' : 'Select a time slot'}
+                  {!form.moveDate ? 'Select a date first' : rawSlots?.length === 0 ? 'No slots available' : 'Select a time slot'}
                 </option>
-                {(availableSlots ?? []).map((s) => (
-                  <option key={s.start} value={s.start}>{s.label}</option>
+                {(rawSlots ?? []).map((s) => (
+                  <option key={s.start} value={s.start}>{s.label}{isBooked(s.start) ? ' (booked — waitlist available)' : ''}</option>
                 ))}
               </select>
+              {hold && (
+                <p className="slot-hold-note">This time is held for you until {dayjs(hold.expiresAt).format('h:mm A')}.</p>
+              )}
+              {holdMessage && <span className="field-error">{holdMessage}</span>}
             </div>
 
+            {REPEATABLE_TYPES.includes(form.moveType) && (
+              <div className="form-field">
+                <label className="checkbox-label">
+                  <input type="checkbox" checked={repeat.enabled}
+                    onChange={(e) => setRepeat({ ...repeat, enabled: e.target.checked })} />
+                  Repeat this booking (e.g. trades in every weekday for a few weeks)
+                </label>
+                {repeat.enabled && (
+                  <div className="series-options">
+                    <div className="series-days">
+                      {WEEKDAYS.map(([day, label]) => (
+                        <label key={day} className="checkbox-label">
+                          <input type="checkbox" checked={repeat.days.includes(day)} onChange={() => toggleRepeatDay(day)} />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                    <label htmlFor="repeat-until" className="required">Last Date</label>
+                    <input id="repeat-until" type="date"
+                      min={form.moveDate ?? dayjs().format('YYYY-MM-DD')}
+                      value={repeat.until}
+                      onChange={(e) => setRepeat({ ...repeat, until: e.target.value })} />
+                    <button type="button" className="btn-full series-check" onClick={checkSeriesDates}>
+                      Check Dates
+                    </button>
+                  </div>
+                )}
+                {isSeries && seriesReport && (
+                  <ul className="series-report">
+                    {seriesReport.map((o) => (
+                      <li key={o.date} className={o.available ? 'series-report-ok' : 'series-report-unavailable'}>
+                        {dayjs(o.date).format('ddd, MMM D')} — {o.available ? 'Available' : o.reason}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
             <div className="form-field">
               <label htmlFor="notes">Notes</label>
               <textarea id="notes" rows={3} placeholder="Optional details"
@@ -578,17 +597,40 @@ export function ResidentSubmissionPage() {
                   have not been paid. If you do not make payment to the Concierge within
                   24 hours, it will be declined and your move will not be processed, forgoing
                   the timeslot requested.
+                  {fees && (fees.moveFeeCents > 0 || fees.depositCents > 0) && (
+                    <>
+                      {' '}Fees for this booking: {formatCents(fees.moveFeeCents)} move fee
+                      {fees.depositCents > 0 && <> plus a {formatCents(fees.depositCents)} refundable damage deposit</>}
+                      {fees.afterHoursSurchargeCents > 0 && <>, and a {formatCents(fees.afterHoursSurchargeCents)} surcharge for bookings before 8am, after 5pm or on a weekend</>}.
+                    </>
+                  )}
                 </span>
               </label>
             )}
           </div>
 
           <button className="btn-full" disabled={isSubmitting || !accepted || (!isOpenHouseType && !acceptedFees)} type="submit">
-            {isSubmitting ? 'Submitting…' : 'Submit Booking Request'}
+            {isSubmitting ? 'Submitting…' : isSeries ? 'Submit Series Request' : 'Submit Booking Request'}
           </button>
 
           {error   && <p className="error-message">{error}</p>}
           {message && <p className="success-message">{message}</p>}
+          {isSeries && seriesReport && seriesAvailableCount > 0 && seriesAvailableCount < seriesReport.length && (
+            <div className="waitlist-offer">
+              <p>Some dates in this series are unavailable. You can book the {seriesAvailableCount} available dates and arrange the rest separately.</p>
+              <button className="btn-full" type="button" disabled={isSubmitting || !accepted || (!isOpenHouseType && !acceptedFees)} onClick={() => submitSeries(true)}>
+                {isSubmitting ? 'Submitting…' : `Book the ${seriesAvailableCount} Available Dates`}
+              </button>
+            </div>
+          )}
+          {waitlistRequest && (
+            <div className="waitlist-offer">
+              <p>This time is fully booked. Join the waitlist and we'll email you a link to claim it if it becomes available.</p>
+              <button className="btn-full" type="button" disabled={isSubmitting} onClick={joinWaitlist}>
+                {isSubmitting ? 'Joining…' : 'Join the Waitlist'}
+              </button>
+            </div>
+          )}
         </form>
       </div>
     </div>
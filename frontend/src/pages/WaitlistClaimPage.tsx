@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import dayjs from 'dayjs';
+import { api } from '../api';
+import '../styles/resident.css';
+
+type WaitlistStatus = 'WAITING' | 'OFFERED' | 'CLAIMED' | 'EXPIRED' | 'CANCELLED';
+
+type WaitlistEntry = {
+  id: string;
+  residentName: string;
+  unit: string;
+  moveType: string;
+  moveTypeLabel: string;
+  startDatetime: string;
+  endDatetime: string;
+  elevatorRequired: boolean;
+  loadingBayRequired: boolean;
+  status: WaitlistStatus;
+  offerExpiresAt: string | null;
+};
+
+const STATUS_MESSAGES: Record<WaitlistStatus, string> = {
+  WAITING: "You're on the waitlist. We'll email you a link to claim this time if it becomes available.",
+  OFFERED: 'This time is available. Claim it before the offer expires.',
+  CLAIMED: 'You have claimed this time. Check your email for your booking details.',
+  EXPIRED: 'This offer has expired and the time has been offered to the next person waiting.',
+  CANCELLED: 'You have left the waitlist for this time.',
+};
+
+export function WaitlistClaimPage() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const navigate = useNavigate();
+
+  const [entry, setEntry] = useState<WaitlistEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    if (!id || !token) {
+      setError('Invalid waitlist link. Please check the link from your email.');
+      setLoading(false);
+      return;
+    }
+    api.get(`/api/bookings/waitlist/${id}?token=${token}`)
+      .then((res) => setEntry(res.data))
+      .catch(() => setError('Waitlist entry not found. Please check the link from your email.'))
+      .finally(() => setLoading(false));
+  }, [id, token]);
+
+  const expired = entry?.status === 'OFFERED' && !!entry.offerExpiresAt && dayjs(entry.offerExpiresAt).isBefore(dayjs());
+  const status: WaitlistStatus | undefined = expired ? 'EXPIRED' : entry?.status;
+
+  const claim = async () => {
+    setWorking(true);
+    setError('');
+    try {
+      const res = await api.post(`/api/bookings/waitlist/${id}/claim?token=${token}`);
+      navigate(`/booking/${res.data.bookingId}/confirmation?token=${res.data.editToken}`);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to claim this time. Please try again.');
+      const res = await api.get(`/api/bookings/waitlist/${id}?token=${token}`).catch(() => null);
+      if (res) setEntry(res.data);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const leave = async () => {
+    if (!confirm('Leave the waitlist for this time?')) return;
+    setWorking(true);
+    setError('');
+    try {
+      const res = await api.post(`/api/bookings/waitlist/${id}/leave?token=${token}`);
+      setEntry(res.data);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to leave the waitlist.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="page-container">
+        <div className="resident-form-card">
+          <p style={{ textAlign: 'center', color: '#64748b' }}>Loading…</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!entry || !status) {
+    return (
+      <div className="page-container">
+        <div className="resident-form-card">
+          <h2 className="resident-form-title">Waitlist</h2>
+          <p className="error-message">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page-container">
+      <div className="resident-form-card">
+        <h2 className="resident-form-title">Waitlist</h2>
+        <p style={{ fontSize: '0.9375rem', color: status === 'OFFERED' ? '#16a34a' : '#555', fontWeight: status === 'OFFERED' ? 600 : 400 }}>
+          {STATUS_MESSAGES[status]}
+        </p>
+
+        <fieldset className="form-group">
+          <legend className="form-group-legend">Requested Time</legend>
+          <table style={{ borderCollapse: 'collapse', fontFamily: 'Arial, sans-serif', fontSize: '0.9375rem', width: '100%' }}>
+            <tbody>
+              {[
+                ['Resident', entry.residentName],
+                ['Unit', entry.unit],
+                ['Type', entry.moveTypeLabel],
+                ['Date', dayjs(entry.startDatetime).format('dddd, MMMM D, YYYY')],
+                ['Time', `${dayjs(entry.startDatetime).format('h:mm A')} – ${dayjs(entry.endDatetime).format('h:mm A')}`],
+                ['Elevator', entry.elevatorRequired ? 'Yes' : 'No'],
+                ['Loading Bay', entry.loadingBayRequired ? 'Yes' : 'No'],
+                ...(status === 'OFFERED' && entry.offerExpiresAt
+                  ? [['Offer Expires', dayjs(entry.offerExpiresAt).format('MMM D, YYYY h:mm A')] as [string, string]]
+                  : []),
+              ].map(([label, value]) => (
+                <tr key={label}>
+                  <td style={{ padding: '6px 12px 6px 0', color: '#555', whiteSpace: 'nowrap', verticalAlign: 'top', fontWeight: 600 }}>{label}</td>
+                  <td style={{ padding: '6px 0', color: '#111' }}>{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </fieldset>
+
+        {error && <p className="error-message">{error}</p>}
+
+        {status === 'OFFERED' && (
+          <button className="btn-full" type="button" disabled={working} onClick={claim} style={{ marginBottom: 8, background: '#166534' }}>
+            {working ? 'Claiming…' : 'Claim This Time'}
+          </button>
+        )}
+        {(status === 'WAITING' || status === 'OFFERED') && (
+          <button className="btn-full" type="button" disabled={working} onClick={leave} style={{ marginBottom: 8, background: '#64748b' }}>
+            Leave Waitlist
+          </button>
+        )}
+
+        <Link to="/submit" style={{ textDecoration: 'none' }}>
+          <button className="btn-full" style={{ background: '#64748b' }}>
+            Book Another Time
+          </button>
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import dayjs from 'dayjs';
+import { api } from './api';
+
+// ── Building slot rules ───────────────────────────────────────
+// Served by GET /api/public/slot-rules and edited from the admin dashboard.
+// Times are minutes from midnight; dayOfWeek follows dayjs (0 = Sunday).
+export type SlotRule = {
+  id?: string;
+  moveType: string;
+  dayOfWeek: number;
+  windowStart: number;
+  windowEnd: number;
+  durationMins: number | null;
+  blockMins: number | null;
+};
+
+export type Slot = { label: string; start: string; end: string };
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** A statutory holiday or admin blackout date, from GET /api/public/closed-dates. */
+export type ClosedDate = { date: string; name: string; kind: 'HOLIDAY' | 'BLACKOUT' };
+
+// `building` overrides the selected building, e.g. for a resident managing a booking by link
+export async function fetchSlotRules(building?: string): Promise<SlotRule[]> {
+  const res = await api.get('/api/public/slot-rules', { params: { building } });
+  return res.data;
+}
+
+export async function fetchClosedDates(from: string, to: string, building?: string): Promise<ClosedDate[]> {
+  const res = await api.get('/api/public/closed-dates', { params: { from, to, building } });
+  return res.data;
+}
+
+export function closedDateMessage(closed: ClosedDate): string {
+  return closed.kind === 'HOLIDAY'
+    ? `${closed.name} is a statutory holiday — no bookings are permitted.`
+    : `The building is closed to bookings on this date (${closed.name}).`;
+}
+
+export function minsToTimeStr(mins: number): string {
+  const h = Math.floor(mins / 60);
+  const m = mins % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+export function minsToLabel(mins: number): string {
+  const h = Math.floor(mins / 60);
+  const m = mins % 60;
+  const period = h < 12 || h === 24 ? 'AM' : 'PM';
+  const h12 = h % 12 === 0 ? 12 : h % 12;
+  return `${h12}:${String(m).padStart(2, '0')} ${period}`;
+}
+
+export function timeToMins(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+export function generateTimeSlots(rangeStartMins: number, rangeEndMins: number, lengthMins: number, stepMins = lengthMins): Slot[] {
+  const slots: Slot[] = [];
+  for (let s = rangeStartMins; s + lengthMins <= rangeEndMins; s += stepMins) {
+    slots.push({
+      label: `${minsToLabel(s)} – ${minsToLabel(s + lengthMins)}`,
+      start: minsToTimeStr(s),
+      end:   minsToTimeStr(s + lengthMins),
+    });
+  }
+  return slots;
+}
+
+export function filterAvailableSlots(slots: Slot[], takenRanges: { start: string; end: string }[]): Slot[] {
+  return slots.filter(slot => {
+    const sS = timeToMins(slot.start), sE = timeToMins(slot.end);
+    return !takenRanges.some(r => sS < timeToMins(r.end) && sE > timeToMins(r.start));
+  });
+}
+
+/** Rules for one move type, optionally narrowed to a single day of the week. */
+export function rulesFor(rules: SlotRule[], moveType: string, dayOfWeek?: number): SlotRule[] {
+  return rules
+    .filter(r => r.moveType === moveType && (dayOfWeek === undefined || r.dayOfWeek === dayOfWeek))
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.windowStart - b.windowStart);
+}
+
+/**
+ * Bookable slots for a date: a window with a fixed duration is split into
+ * durationMins-long slots every blockMins; otherwise the whole window is one slot.
+ * Returns null until a date is picked and [] on closed or non-permitted days.
+ */
+export function getSlotsForDateAndType(dateStr: string, moveType: string, rules: SlotRule[], closedDates: ClosedDate[] = []): Slot[] | null {
+  if (!dateStr) return null;
+  if (closedDates.some(c => c.date === dateStr)) return []; // holiday or blackout — no slots
+  const dow = dayjs(dateStr).day(); // 0 Sun, 6 Sat
+  return rulesFor(rules, moveType, dow).flatMap(r =>
+    r.durationMins
+      ? generateTimeSlots(r.windowStart, r.windowEnd, r.durationMins, r.blockMins ?? r.durationMins)
+      : generateTimeSlots(r.windowStart, r.windowEnd, r.windowEnd - r.windowStart)
+  );
+}
+
+/** True when the move type has no windows at all on the date's day of the week. */
+export function isClosedDay(dateStr: string, moveType: string, rules: SlotRule[]): boolean {
+  if (!dateStr) return false;
+  return rulesFor(rules, moveType, dayjs(dateStr).day()).length === 0;
+}
+
+function formatDuration(mins: number): string {
+  if (mins % 60 === 0) return mins === 60 ? '1-hour slots' : `${mins / 60}-hour slots`;
+  return `${mins}-minute blocks`;
+}
+
+function formatDayRun(days: number[]): string {
+  if (days.length === 1) return DAY_NAMES[days[0]];
+  if (days.length === 2) return `${DAY_NAMES[days[0]]} & ${DAY_NAMES[days[1]]}`;
+  return `${DAY_NAMES[days[0]]} – ${DAY_NAMES[days[days.length - 1]]}`;
+}
+
+export type SlotRuleSummary = { days: string; windows: string[]; note?: string };
+
+/**
+ * Groups a move type's rules into "Monday – Friday: 9:00 AM – 12:00 PM, …"
+ * blocks for the Permitted Times notice. Days with identical windows are merged.
+ */
+export function summarizeSlotRules(rules: SlotRule[], moveType: string): SlotRuleSummary[] {
+  const weekOrder = [1, 2, 3, 4, 5, 6, 0]; // Monday first
+  const signature = (dow: number) =>
+    rulesFor(rules, moveType, dow).map(r => `${r.windowStart}-${r.windowEnd}-${r.durationMins ?? ''}`).join('|');
+
+  const groups: { sig: string; runs: number[][] }[] = [];
+  let prevDow: number | null = null;
+  for (const dow of weekOrder) {
+    const sig = signature(dow);
+    if (!sig) { prevDow = null; continue; }
+    let group = groups.find(g => g.sig === sig);
+    if (!group) { group = { sig, runs: [] }; groups.push(group); }
+    const lastRun = group.runs[group.runs.length - 1];
+    if (lastRun && prevDow !== null && lastRun[lastRun.length - 1] === prevDow) lastRun.push(dow);
+    else group.runs.push([dow]);
+    prevDow = dow;
+  }
+
+  return groups.map(({ runs }) => {
+    const dayRules = rulesFor(rules, moveType, runs[0][0]);
+    const duration = dayRules.find(r => r.durationMins)?.durationMins;
+    return {
+      days: runs.map(formatDayRun).join(', '),
+      windows: dayRules.map(r => `${minsToLabel(r.windowStart)} – ${minsToLabel(r.windowEnd)}`),
+      note: duration && dayRules.some(r => r.windowEnd - r.windowStart > duration) ? formatDuration(duration) : undefined,
+    };
+  });
+}